@@ -0,0 +1,34 @@
+import { describe, test, expect } from "bun:test";
+import { hasPermission, ROLE_PERMISSIONS } from "../middleware/authorize";
+import { TeamRoleSchema } from "../types";
+
+describe("hasPermission", () => {
+  test("owners have every permission", () => {
+    const allPermissions = new Set(Object.values(ROLE_PERMISSIONS).flat());
+    for (const permission of allPermissions) {
+      expect(hasPermission("owner", permission)).toBe(true);
+    }
+  });
+
+  test("defines permissions for every team role", () => {
+    for (const role of TeamRoleSchema.options) {
+      expect(ROLE_PERMISSIONS[role]).toBeDefined();
+    }
+  });
+
+  test("accountants can read analytics and payments but not edit the menu", () => {
+    expect(hasPermission("accountant", "analytics:read")).toBe(true);
+    expect(hasPermission("accountant", "payments:read")).toBe(true);
+    expect(hasPermission("accountant", "menu:write")).toBe(false);
+  });
+
+  test("marketing can read customers but not adjust loyalty", () => {
+    expect(hasPermission("marketing", "customers:read")).toBe(true);
+    expect(hasPermission("marketing", "loyalty:manage")).toBe(false);
+  });
+
+  test("only owners can manage the team", () => {
+    expect(hasPermission("manager", "team:manage")).toBe(false);
+    expect(hasPermission("staff", "team:manage")).toBe(false);
+  });
+});
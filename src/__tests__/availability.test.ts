@@ -0,0 +1,158 @@
+import { describe, expect, test } from "bun:test";
+import {
+  getSlotAvailability,
+  getSeatingOptions,
+  findBestFit,
+  parseTimeToMinutes,
+  formatMinutes,
+  reservationWindow,
+  windowsOverlap,
+} from "../availability";
+import type { AvailabilityTable, AvailabilityCombination, BookedReservation } from "../availability";
+
+const tables: AvailabilityTable[] = [
+  { id: "t2", capacityMin: 1, capacityMax: 2, section: "indoor" },
+  { id: "t4", capacityMin: 2, capacityMax: 4, section: "indoor" },
+  { id: "p4", capacityMin: 2, capacityMax: 4, section: "patio" },
+];
+
+function reservation(overrides: Partial<BookedReservation>): BookedReservation {
+  return {
+    id: "r1",
+    startMinutes: parseTimeToMinutes("18:00"),
+    durationMinutes: 90,
+    partySize: 2,
+    tableIds: [],
+    status: "confirmed",
+    ...overrides,
+  };
+}
+
+describe("time helpers", () => {
+  test("parses HH:mm and HH:mm:ss", () => {
+    expect(parseTimeToMinutes("18:30")).toBe(1110);
+    expect(parseTimeToMinutes("09:05:00")).toBe(545);
+  });
+
+  test("formats minutes as HH:mm", () => {
+    expect(formatMinutes(545)).toBe("09:05");
+  });
+
+  test("back-to-back windows do not overlap", () => {
+    expect(windowsOverlap([0, 90], [90, 180])).toBe(false);
+    expect(windowsOverlap([0, 90], [89, 180])).toBe(true);
+  });
+
+  test("seated parties hold the table until now", () => {
+    const seated = reservation({ status: "seated" });
+    expect(reservationWindow(seated, 1200)).toEqual([1080, 1200]);
+    expect(reservationWindow(seated, 1100)).toEqual([1080, 1170]);
+  });
+});
+
+describe("getSlotAvailability", () => {
+  const slot = (reservations: BookedReservation[], time: string, partySize: number, nowMinutes?: number) =>
+    getSlotAvailability({
+      tables,
+      reservations,
+      startMinutes: parseTimeToMinutes(time),
+      durationMinutes: 90,
+      partySize,
+      nowMinutes,
+    });
+
+  test("lists sections with a fitting free table", () => {
+    const result = slot([], "18:00", 4);
+    expect(result.available).toBe(true);
+    expect(result.sections).toEqual(["indoor", "patio"]);
+  });
+
+  test("respects table capacity limits", () => {
+    expect(slot([], "18:00", 6).available).toBe(false);
+    expect(slot([], "18:00", 1).tableIds).toEqual(["t2"]);
+  });
+
+  test("blocks tables held by overlapping reservations", () => {
+    const booked = [
+      reservation({ id: "a", tableIds: ["t4"], partySize: 4 }),
+      reservation({ id: "b", tableIds: ["p4"], partySize: 3, startMinutes: parseTimeToMinutes("17:00") }),
+    ];
+    expect(slot(booked, "18:00", 4).available).toBe(false);
+    expect(slot(booked, "18:30", 4).sections).toEqual(["patio"]);
+    expect(slot(booked, "19:30", 4).sections).toEqual(["indoor", "patio"]);
+  });
+
+  test("reserves the smallest fitting table for unassigned bookings", () => {
+    const booked = [reservation({ partySize: 2 })];
+    const result = slot(booked, "18:00", 4);
+    expect(result.tableIds).toEqual(["t4", "p4"]);
+    expect(slot(booked, "18:00", 2).tableIds).toEqual(["t4", "p4"]);
+  });
+
+  test("ignores cancelled reservations", () => {
+    const booked = [reservation({ tableIds: ["t2"], status: "cancelled" })];
+    expect(slot(booked, "18:00", 2).tableIds).toContain("t2");
+  });
+
+  test("a party seated past its duration keeps the table", () => {
+    const booked = [reservation({ tableIds: ["p4"], status: "seated", startMinutes: parseTimeToMinutes("17:00") })];
+    expect(slot(booked, "18:30", 4).sections).toEqual(["indoor", "patio"]);
+    expect(slot(booked, "18:30", 4, parseTimeToMinutes("18:45")).sections).toEqual(["indoor"]);
+  });
+});
+
+describe("table combinations", () => {
+  const combinations: AvailabilityCombination[] = [
+    { id: "c8", tableIds: ["t4", "p4"], capacityMin: 5, capacityMax: 8 },
+  ];
+
+  test("seats a large party at a free combination", () => {
+    const result = getSlotAvailability({
+      tables,
+      combinations,
+      reservations: [],
+      startMinutes: parseTimeToMinutes("18:00"),
+      durationMinutes: 90,
+      partySize: 7,
+    });
+    expect(result.available).toBe(true);
+    expect(result.sections).toEqual(["indoor", "patio"]);
+  });
+
+  test("a combination is unavailable while any of its tables is held", () => {
+    const result = getSlotAvailability({
+      tables,
+      combinations,
+      reservations: [reservation({ tableIds: ["p4"] })],
+      startMinutes: parseTimeToMinutes("18:00"),
+      durationMinutes: 90,
+      partySize: 7,
+    });
+    expect(result.available).toBe(false);
+  });
+
+  test("skips combinations that reference inactive tables", () => {
+    const options = getSeatingOptions(tables, [{ id: "cx", tableIds: ["t4", "gone"], capacityMin: 5, capacityMax: 8 }]);
+    expect(options.map(o => o.combinationId).filter(Boolean)).toEqual([]);
+  });
+});
+
+describe("findBestFit", () => {
+  const options = getSeatingOptions(tables, [{ id: "c8", tableIds: ["t4", "p4"], capacityMin: 2, capacityMax: 8 }]);
+
+  test("picks the smallest table that fits", () => {
+    expect(findBestFit(options, new Set(), 2)?.tableId).toBe("t2");
+    expect(findBestFit(options, new Set(), 3)?.tableId).toBe("t4");
+  });
+
+  test("prefers single tables over combinations", () => {
+    expect(findBestFit(options, new Set(["t4"]), 4)?.tableId).toBe("p4");
+    expect(findBestFit(options, new Set(), 6)?.combinationId).toBe("c8");
+  });
+
+  test("honors seating preference and section", () => {
+    expect(findBestFit(options, new Set(), 3, { seatingPreference: "Patio" })?.tableId).toBe("p4");
+    expect(findBestFit(options, new Set(["p4"]), 3, { seatingPreference: "patio" })?.tableId).toBe("t4");
+    expect(findBestFit(options, new Set(["p4"]), 3, { section: "patio" })).toBeNull();
+  });
+});
@@ -0,0 +1,20 @@
+import { describe, expect, test } from "bun:test";
+import { getForwardedClientIp } from "../clientIp";
+
+describe("getForwardedClientIp", () => {
+  test("uses the address the outermost trusted proxy saw", () => {
+    expect(getForwardedClientIp("203.0.113.7", 1)).toBe("203.0.113.7");
+    expect(getForwardedClientIp("203.0.113.7, 10.0.0.2", 2)).toBe("203.0.113.7");
+  });
+
+  test("ignores entries the client put in front", () => {
+    expect(getForwardedClientIp("1.2.3.4, 203.0.113.7", 1)).toBe("203.0.113.7");
+    expect(getForwardedClientIp("1.2.3.4, 203.0.113.7, 10.0.0.2", 2)).toBe("203.0.113.7");
+  });
+
+  test("falls back when there's no header or no trusted proxy", () => {
+    expect(getForwardedClientIp(undefined, 1)).toBeNull();
+    expect(getForwardedClientIp(" , ", 1)).toBeNull();
+    expect(getForwardedClientIp("203.0.113.7", 0)).toBeNull();
+  });
+});
@@ -0,0 +1,101 @@
+import { describe, expect, test } from "bun:test";
+import { findDeliveryZone, getDistanceKm, isPointInPolygon, quoteDelivery } from "../deliveryZones";
+import type { DeliveryContext, DeliveryZone } from "../deliveryZones";
+import type { PolygonGeometry } from "../types";
+
+// Business in downtown Portland
+const origin = { latitude: 45.5152, longitude: -122.6784 };
+
+// A box over the east side, with a hole cut out of it
+const eastSide: PolygonGeometry = {
+  type: "Polygon",
+  coordinates: [
+    [[-122.66, 45.5], [-122.6, 45.5], [-122.6, 45.55], [-122.66, 45.55], [-122.66, 45.5]],
+    [[-122.64, 45.52], [-122.62, 45.52], [-122.62, 45.53], [-122.64, 45.53], [-122.64, 45.52]],
+  ],
+};
+
+function zone(overrides: Partial<DeliveryZone>): DeliveryZone {
+  return {
+    id: "zone",
+    name: "Zone",
+    zoneType: "radius",
+    radiusKm: 3,
+    polygon: null,
+    fee: 3,
+    minimumOrder: 0,
+    estimatedMinutes: 30,
+    displayOrder: 0,
+    ...overrides,
+  };
+}
+
+const inner = zone({ id: "inner", name: "Inner", radiusKm: 3, fee: 3, minimumOrder: 15 });
+const outer = zone({ id: "outer", name: "Outer", radiusKm: 8, fee: 6, minimumOrder: 30, estimatedMinutes: 50 });
+
+describe("getDistanceKm", () => {
+  test("measures great-circle distance", () => {
+    // One degree of latitude is about 111 km
+    expect(getDistanceKm({ latitude: 45, longitude: -122 }, { latitude: 46, longitude: -122 })).toBeCloseTo(111.2, 0);
+    expect(getDistanceKm(origin, origin)).toBe(0);
+  });
+});
+
+describe("isPointInPolygon", () => {
+  test("inside the outer ring but not in a hole", () => {
+    expect(isPointInPolygon({ latitude: 45.51, longitude: -122.65 }, eastSide)).toBe(true);
+    expect(isPointInPolygon({ latitude: 45.525, longitude: -122.63 }, eastSide)).toBe(false);
+    expect(isPointInPolygon({ latitude: 45.51, longitude: -122.7 }, eastSide)).toBe(false);
+  });
+
+  test("any polygon of a multipolygon", () => {
+    const multi: PolygonGeometry = {
+      type: "MultiPolygon",
+      coordinates: [
+        [[[0, 0], [1, 0], [1, 1], [0, 1], [0, 0]]],
+        [[[5, 5], [6, 5], [6, 6], [5, 6], [5, 5]]],
+      ],
+    };
+    expect(isPointInPolygon({ latitude: 5.5, longitude: 5.5 }, multi)).toBe(true);
+    expect(isPointInPolygon({ latitude: 3, longitude: 3 }, multi)).toBe(false);
+  });
+});
+
+describe("findDeliveryZone", () => {
+  test("picks the smallest radius tier that reaches the address", () => {
+    // About 1.1 km and 5.6 km north of the business
+    expect(findDeliveryZone([outer, inner], origin, { latitude: 45.5252, longitude: -122.6784 })?.id).toBe("inner");
+    expect(findDeliveryZone([outer, inner], origin, { latitude: 45.5652, longitude: -122.6784 })?.id).toBe("outer");
+    expect(findDeliveryZone([outer, inner], origin, { latitude: 45.7, longitude: -122.6784 })).toBeNull();
+  });
+
+  test("radius zones need the business's location", () => {
+    expect(findDeliveryZone([inner], null, origin)).toBeNull();
+  });
+
+  test("display order decides between overlapping zones", () => {
+    const polygon = zone({ id: "east", zoneType: "polygon", radiusKm: null, polygon: eastSide, displayOrder: 0 });
+    const wide = zone({ id: "wide", radiusKm: 20, displayOrder: 1 });
+    expect(findDeliveryZone([wide, polygon], origin, { latitude: 45.51, longitude: -122.65 })?.id).toBe("east");
+    expect(findDeliveryZone([wide, polygon], origin, { latitude: 45.51, longitude: -122.7 })?.id).toBe("wide");
+  });
+});
+
+describe("quoteDelivery", () => {
+  const context: DeliveryContext = { zones: [inner, outer], origin, defaultFee: 5 };
+  const nearby = { latitude: 45.5252, longitude: -122.6784 };
+
+  test("quotes the zone's fee and time", () => {
+    expect(quoteDelivery(context, nearby, 20)).toMatchObject({ ok: true, fee: 3, estimatedMinutes: 30, distanceKm: 1.11 });
+  });
+
+  test("rejects missing locations, out-of-zone addresses and small orders", () => {
+    expect(quoteDelivery(context, undefined, 20)).toMatchObject({ ok: false, code: "DELIVERY_LOCATION_REQUIRED" });
+    expect(quoteDelivery(context, { latitude: 46, longitude: -122 }, 20)).toMatchObject({ ok: false, code: "OUTSIDE_DELIVERY_AREA" });
+    expect(quoteDelivery(context, nearby, 10)).toMatchObject({ ok: false, code: "BELOW_DELIVERY_MINIMUM" });
+  });
+
+  test("businesses without zones charge their flat fee anywhere", () => {
+    expect(quoteDelivery({ zones: [], origin: null, defaultFee: 5 }, undefined, 1)).toMatchObject({ ok: true, zone: null, fee: 5 });
+  });
+});
@@ -0,0 +1,47 @@
+import { describe, test, expect } from "bun:test";
+import { publishEvent, subscribeToEvents, getEventsSince } from "../events";
+
+describe("business event bus", () => {
+  test("delivers events only to subscribers of the same business", () => {
+    const received: string[] = [];
+    const unsubscribe = subscribeToEvents("biz-a", (event) => received.push(event.type));
+
+    publishEvent("biz-a", "order.created", { id: "o1" });
+    publishEvent("biz-b", "order.created", { id: "o2" });
+    unsubscribe();
+    publishEvent("biz-a", "order.status_changed", { id: "o1" });
+
+    expect(received).toEqual(["order.created"]);
+  });
+
+  test("replays events after a Last-Event-ID", () => {
+    const first = publishEvent("biz-replay", "reservation.created", { id: "r1" });
+    const second = publishEvent("biz-replay", "reservation.seated", { id: "r1" });
+
+    const replayed = getEventsSince("biz-replay", first.id);
+    expect(replayed.map((e) => e.id)).toEqual([second.id]);
+    expect(replayed[0]?.data).toEqual({ id: "r1" });
+  });
+
+  test("assigns increasing event ids within this process", () => {
+    const a = publishEvent("biz-ids", "order.created", {});
+    const b = publishEvent("biz-ids", "order.created", {});
+    const [epochA, sequenceA] = a.id.split("-");
+    const [epochB, sequenceB] = b.id.split("-");
+    expect(epochB).toBe(epochA);
+    expect(Number(sequenceB)).toBeGreaterThan(Number(sequenceA));
+  });
+
+  test("replays nothing to a fresh connection", () => {
+    publishEvent("biz-fresh", "order.created", { id: "o1" });
+    expect(getEventsSince("biz-fresh", undefined)).toEqual([]);
+  });
+
+  test("replays nothing for an id from before a restart or another instance", () => {
+    publishEvent("biz-restart", "order.created", { id: "o1" });
+    publishEvent("biz-restart", "order.created", { id: "o2" });
+
+    expect(getEventsSince("biz-restart", "0-1")).toEqual([]);
+    expect(getEventsSince("biz-restart", "7")).toEqual([]);
+  });
+});
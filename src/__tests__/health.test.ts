@@ -28,6 +28,16 @@ describe("Route mounting", () => {
     expect(body.error.code).toBe("UNAUTHORIZED");
   });
 
+  test("Ignores an access_token query param outside the event streams", async () => {
+    const res = await app.fetch(
+      new Request("http://localhost/api/business?access_token=some-token")
+    );
+    expect(res.status).toBe(401);
+
+    const body = (await res.json()) as { error: { message: string } };
+    expect(body.error.message).toBe("Missing authorization token");
+  });
+
   test("Unknown /api route without auth returns 401", async () => {
     const res = await app.fetch(
       new Request("http://localhost/api/nonexistent")
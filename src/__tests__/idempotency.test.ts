@@ -0,0 +1,123 @@
+import { describe, test, expect } from "bun:test";
+import { Hono } from "hono";
+import { idempotency, createMemoryIdempotencyStore } from "../middleware/idempotency";
+
+function createApp(ttlMs?: number) {
+  const app = new Hono<{ Variables: { user: { id: string } } }>();
+  let created = 0;
+  let failNext = false;
+
+  // Stand-in for requireAuth
+  app.use("*", async (c, next) => {
+    const userId = c.req.header("X-User-Id");
+    if (userId) c.set("user", { id: userId });
+    return next();
+  });
+  app.use("*", idempotency({ store: createMemoryIdempotencyStore(), ttlMs }));
+  app.post("/orders", async (c) => {
+    const body = await c.req.json();
+    if (failNext) {
+      failNext = false;
+      return c.json({ error: { message: "boom", code: "DB_ERROR" } }, 500);
+    }
+    created += 1;
+    return c.json({ data: { id: `order-${created}`, ...body } }, 201);
+  });
+
+  return {
+    app,
+    created: () => created,
+    failNextRequest: () => { failNext = true; },
+  };
+}
+
+function post(app: Hono<any>, body: unknown, key?: string, userId: string | null = "user-1") {
+  return app.fetch(new Request("http://localhost/orders", {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      ...(key ? { "Idempotency-Key": key } : {}),
+      ...(userId ? { "X-User-Id": userId } : {}),
+    },
+    body: JSON.stringify(body),
+  }));
+}
+
+describe("idempotency middleware", () => {
+  test("replays the stored response for a retried request", async () => {
+    const { app, created } = createApp();
+
+    const first = await post(app, { total: 10 }, "key-1");
+    const retry = await post(app, { total: 10 }, "key-1");
+
+    expect(first.status).toBe(201);
+    expect(retry.status).toBe(201);
+    expect(retry.headers.get("Idempotent-Replayed")).toBe("true");
+    expect(await retry.json()).toEqual(await first.json());
+    expect(created()).toBe(1);
+  });
+
+  test("runs requests without a key every time", async () => {
+    const { app, created } = createApp();
+
+    await post(app, { total: 10 });
+    await post(app, { total: 10 });
+
+    expect(created()).toBe(2);
+  });
+
+  test("keeps each user's keys apart", async () => {
+    const { app, created } = createApp();
+
+    await post(app, { total: 10 }, "key-5", "user-1");
+    const other = await post(app, { total: 10 }, "key-5", "user-2");
+
+    expect(other.headers.get("Idempotent-Replayed")).toBeNull();
+    expect(created()).toBe(2);
+  });
+
+  test("doesn't deduplicate unauthenticated requests", async () => {
+    const { app, created } = createApp();
+
+    await post(app, { total: 10 }, "key-6", null);
+    const second = await post(app, { total: 10 }, "key-6", null);
+
+    expect(second.headers.get("Idempotent-Replayed")).toBeNull();
+    expect(created()).toBe(2);
+  });
+
+  test("rejects a key reused with a different body", async () => {
+    const { app, created } = createApp();
+
+    await post(app, { total: 10 }, "key-2");
+    const reused = await post(app, { total: 99 }, "key-2");
+
+    expect(reused.status).toBe(409);
+    const body = (await reused.json()) as { error: { code: string } };
+    expect(body.error.code).toBe("IDEMPOTENCY_KEY_REUSED");
+    expect(created()).toBe(1);
+  });
+
+  test("doesn't store server errors, so the retry runs", async () => {
+    const { app, created, failNextRequest } = createApp();
+
+    failNextRequest();
+    const failed = await post(app, { total: 10 }, "key-3");
+    const retry = await post(app, { total: 10 }, "key-3");
+
+    expect(failed.status).toBe(500);
+    expect(retry.status).toBe(201);
+    expect(retry.headers.get("Idempotent-Replayed")).toBeNull();
+    expect(created()).toBe(1);
+  });
+
+  test("runs the request again once the key has expired", async () => {
+    const { app, created } = createApp(-1);
+
+    await post(app, { total: 10 }, "key-4");
+    const later = await post(app, { total: 10 }, "key-4");
+
+    expect(later.headers.get("Idempotent-Replayed")).toBeNull();
+    expect(created()).toBe(2);
+  });
+});
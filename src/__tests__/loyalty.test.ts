@@ -0,0 +1,35 @@
+import { describe, expect, test } from "bun:test";
+import { calculateRedemption } from "../loyalty";
+
+// 100 points = $5 off, at most half the order
+const settings = { pointsPerReward: 100, rewardValue: 5, maxRedemptionPercent: 50 };
+
+describe("calculateRedemption", () => {
+  test("values points in whole rewards", () => {
+    const result = calculateRedemption({ ...settings, points: 300, balance: 500, orderAmount: 40 });
+    expect(result).toEqual({ ok: true, points: 300, discount: 15 });
+  });
+
+  test("rejects points that aren't a multiple of pointsPerReward", () => {
+    const result = calculateRedemption({ ...settings, points: 150, balance: 500, orderAmount: 40 });
+    expect(result.ok).toBe(false);
+    if (!result.ok) expect(result.code).toBe("INVALID_REDEMPTION");
+  });
+
+  test("rejects more points than the customer has", () => {
+    const result = calculateRedemption({ ...settings, points: 400, balance: 350, orderAmount: 100 });
+    expect(result.ok).toBe(false);
+    if (!result.ok) expect(result.code).toBe("INSUFFICIENT_POINTS");
+  });
+
+  test("caps the discount at maxRedemptionPercent of the order", () => {
+    const result = calculateRedemption({ ...settings, points: 500, balance: 500, orderAmount: 40 });
+    expect(result.ok).toBe(false);
+    if (!result.ok) {
+      expect(result.code).toBe("REDEMPTION_LIMIT_EXCEEDED");
+      expect(result.message).toContain("400 points");
+    }
+
+    expect(calculateRedemption({ ...settings, points: 400, balance: 500, orderAmount: 40 }).ok).toBe(true);
+  });
+});
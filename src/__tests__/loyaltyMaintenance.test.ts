@@ -0,0 +1,73 @@
+import { describe, expect, test } from "bun:test";
+import { calculateExpiringPoints, isTierReviewDue, reviewTier } from "../loyaltyMaintenance";
+
+const now = new Date("2026-06-01T12:00:00Z");
+
+describe("calculateExpiringPoints", () => {
+  test("expires what is left of points older than the expiry period", () => {
+    const ledger = [
+      { transaction_type: "earned", points: 100, created_at: "2025-01-10T00:00:00Z" },
+      { transaction_type: "earned", points: 50, created_at: "2026-05-01T00:00:00Z" },
+    ];
+    expect(calculateExpiringPoints(ledger, 365, now, 150)).toBe(100);
+  });
+
+  test("spends the oldest points first", () => {
+    const ledger = [
+      { transaction_type: "earned", points: 100, created_at: "2025-01-10T00:00:00Z" },
+      { transaction_type: "earned", points: 50, created_at: "2026-05-01T00:00:00Z" },
+      { transaction_type: "redeemed", points: -80, created_at: "2026-05-02T00:00:00Z" },
+    ];
+    expect(calculateExpiringPoints(ledger, 365, now, 70)).toBe(20);
+  });
+
+  test("doesn't expire points twice", () => {
+    const ledger = [
+      { transaction_type: "earned", points: 100, created_at: "2025-01-10T00:00:00Z" },
+      { transaction_type: "expired", points: -100, created_at: "2026-01-11T00:00:00Z" },
+    ];
+    expect(calculateExpiringPoints(ledger, 365, now, 0)).toBe(0);
+  });
+
+  test("never expires more than the balance", () => {
+    const ledger = [{ transaction_type: "earned", points: 100, created_at: "2025-01-10T00:00:00Z" }];
+    expect(calculateExpiringPoints(ledger, 365, now, 30)).toBe(30);
+  });
+});
+
+describe("isTierReviewDue", () => {
+  test("is due a year after joining or the last review", () => {
+    expect(isTierReviewDue({ created_at: "2025-05-01T00:00:00Z" }, now)).toBe(true);
+    expect(isTierReviewDue({ created_at: "2025-07-01T00:00:00Z" }, now)).toBe(false);
+    expect(isTierReviewDue({ created_at: "2024-01-01T00:00:00Z", tier_reviewed_at: "2025-09-01T00:00:00Z" }, now)).toBe(false);
+  });
+
+  test("is due when a grace period ends", () => {
+    expect(isTierReviewDue({ created_at: "2025-09-01T00:00:00Z", tier_grace_until: "2026-05-31T00:00:00Z" }, now)).toBe(true);
+    expect(isTierReviewDue({ created_at: "2024-01-01T00:00:00Z", tier_grace_until: "2026-07-01T00:00:00Z" }, now)).toBe(false);
+  });
+});
+
+describe("reviewTier", () => {
+  test("keeps or raises the tier of members who requalify", () => {
+    expect(reviewTier({ currentTier: "gold", qualifiedTier: "gold", graceUntil: null, graceDays: 30, now }))
+      .toEqual({ tier: "gold", graceUntil: null, change: "none" });
+    expect(reviewTier({ currentTier: "silver", qualifiedTier: "gold", graceUntil: "2026-06-10T00:00:00Z", graceDays: 30, now }))
+      .toEqual({ tier: "gold", graceUntil: null, change: "upgraded" });
+  });
+
+  test("starts a grace period before downgrading", () => {
+    const review = reviewTier({ currentTier: "gold", qualifiedTier: "silver", graceUntil: null, graceDays: 30, now });
+    expect(review).toEqual({ tier: "gold", graceUntil: "2026-07-01T12:00:00.000Z", change: "grace_started" });
+
+    expect(reviewTier({ currentTier: "gold", qualifiedTier: "silver", graceUntil: review.graceUntil, graceDays: 30, now }).change)
+      .toBe("in_grace");
+  });
+
+  test("downgrades when the grace period is over or there is none", () => {
+    expect(reviewTier({ currentTier: "gold", qualifiedTier: "bronze", graceUntil: "2026-05-01T00:00:00Z", graceDays: 30, now }))
+      .toEqual({ tier: "bronze", graceUntil: null, change: "downgraded" });
+    expect(reviewTier({ currentTier: "gold", qualifiedTier: "silver", graceUntil: null, graceDays: 0, now }).tier)
+      .toBe("silver");
+  });
+});
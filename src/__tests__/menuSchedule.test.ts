@@ -0,0 +1,102 @@
+import { describe, expect, test } from "bun:test";
+import { getDayparts, isCategoryAvailable, isCategoryAvailableAt, mapCategorySchedule } from "../menuSchedule";
+
+const minutes = (time: string) => {
+  const [h = 0, m = 0] = time.split(":").map(Number);
+  return h * 60 + m;
+};
+
+const breakfast = { availableStartTime: "07:00", availableEndTime: "11:00", availableDays: [1, 2, 3, 4, 5] };
+
+describe("mapCategorySchedule", () => {
+  test("parses stored days and trims seconds from times", () => {
+    expect(mapCategorySchedule({
+      available_start_time: "07:00:00",
+      available_end_time: "11:00:00",
+      available_days: "[5,1,3]",
+    })).toEqual({ availableStartTime: "07:00", availableEndTime: "11:00", availableDays: [1, 3, 5] });
+  });
+
+  test("treats missing or empty values as unrestricted", () => {
+    expect(mapCategorySchedule({ available_start_time: null, available_end_time: null, available_days: "[]" }))
+      .toEqual({ availableStartTime: null, availableEndTime: null, availableDays: null });
+  });
+});
+
+describe("isCategoryAvailable", () => {
+  test("checks the category's time window", () => {
+    expect(isCategoryAvailable(breakfast, 1, minutes("08:00"))).toBe(true);
+    expect(isCategoryAvailable(breakfast, 1, minutes("06:59"))).toBe(false);
+    expect(isCategoryAvailable(breakfast, 1, minutes("11:00"))).toBe(false);
+  });
+
+  test("checks the category's days", () => {
+    expect(isCategoryAvailable(breakfast, 6, minutes("08:00"))).toBe(false);
+  });
+
+  test("supports windows past midnight", () => {
+    const lateNight = { availableStartTime: "22:00", availableEndTime: "02:00", availableDays: null };
+    expect(isCategoryAvailable(lateNight, 5, minutes("23:00"))).toBe(true);
+    expect(isCategoryAvailable(lateNight, 6, minutes("01:00"))).toBe(true);
+    expect(isCategoryAvailable(lateNight, 6, minutes("03:00"))).toBe(false);
+  });
+
+  test("counts the hours past midnight toward the day the window started", () => {
+    const fridayLate = { availableStartTime: "22:00", availableEndTime: "02:00", availableDays: [5] };
+    expect(isCategoryAvailable(fridayLate, 5, minutes("22:00"))).toBe(true);
+    expect(isCategoryAvailable(fridayLate, 6, minutes("01:00"))).toBe(true);
+    expect(isCategoryAvailable(fridayLate, 5, minutes("01:00"))).toBe(false);
+    expect(isCategoryAvailable(fridayLate, 6, minutes("22:00"))).toBe(false);
+  });
+
+  test("is always available without a window or days", () => {
+    const allDay = { availableStartTime: null, availableEndTime: null, availableDays: [] };
+    expect(isCategoryAvailable(allDay, 0, minutes("03:00"))).toBe(true);
+  });
+});
+
+describe("isCategoryAvailableAt", () => {
+  test("uses the business's timezone", () => {
+    // Monday 2 March 2026, 14:30 UTC is 08:30 in Chicago
+    const at = new Date("2026-03-02T14:30:00Z");
+    expect(isCategoryAvailableAt(breakfast, at, "America/Chicago")).toBe(true);
+    expect(isCategoryAvailableAt(breakfast, at)).toBe(false);
+  });
+
+  test("uses the business's day of week", () => {
+    // Saturday 7 March 2026, 03:00 UTC is still Friday evening in Chicago
+    const friday = { availableStartTime: null, availableEndTime: null, availableDays: [5] };
+    expect(isCategoryAvailableAt(friday, new Date("2026-03-07T03:00:00Z"), "America/Chicago")).toBe(true);
+    expect(isCategoryAvailableAt(friday, new Date("2026-03-07T03:00:00Z"))).toBe(false);
+  });
+});
+
+describe("getDayparts", () => {
+  test("groups categories by schedule, all-day first then by start time", () => {
+    const dayparts = getDayparts([
+      { id: "dinner", name: "Dinner", availableStartTime: "17:00", availableEndTime: "22:00", availableDays: null },
+      { id: "drinks", name: "Drinks", availableStartTime: null, availableEndTime: null, availableDays: null },
+      { id: "eggs", name: "Eggs", ...breakfast },
+      { id: "pancakes", name: "Pancakes", ...breakfast },
+    ]);
+
+    expect(dayparts).toEqual([
+      { startTime: null, endTime: null, days: null, categories: [{ id: "drinks", name: "Drinks" }] },
+      {
+        startTime: "07:00",
+        endTime: "11:00",
+        days: [1, 2, 3, 4, 5],
+        categories: [{ id: "eggs", name: "Eggs" }, { id: "pancakes", name: "Pancakes" }],
+      },
+      { startTime: "17:00", endTime: "22:00", days: null, categories: [{ id: "dinner", name: "Dinner" }] },
+    ]);
+  });
+
+  test("keeps the same hours on different days apart", () => {
+    const dayparts = getDayparts([
+      { id: "weekday", name: "Weekday brunch", availableStartTime: "10:00", availableEndTime: "14:00", availableDays: [1, 2] },
+      { id: "weekend", name: "Weekend brunch", availableStartTime: "10:00", availableEndTime: "14:00", availableDays: [0, 6] },
+    ]);
+    expect(dayparts).toHaveLength(2);
+  });
+});
@@ -0,0 +1,83 @@
+import { describe, expect, test } from "bun:test";
+import { getSelectionBounds, resolveItemModifiers } from "../modifiers";
+import type { ModifierGroupRow, ModifierRow } from "../modifiers";
+
+const groups: ModifierGroupRow[] = [
+  { id: "size", menu_item_id: "latte", name: "Size", is_required: true, min_selections: 1, max_selections: 1 },
+  { id: "extras", menu_item_id: "latte", name: "Extras", is_required: false, min_selections: 0, max_selections: 2 },
+];
+
+const modifiers: ModifierRow[] = [
+  { id: "small", modifier_group_id: "size", name: "Small", price_adjustment: 0, is_available: true },
+  { id: "large", modifier_group_id: "size", name: "Large", price_adjustment: 1.5, is_available: true },
+  { id: "oat", modifier_group_id: "extras", name: "Oat milk", price_adjustment: 0.75, is_available: true },
+  { id: "shot", modifier_group_id: "extras", name: "Extra shot", price_adjustment: 1, is_available: true },
+  { id: "syrup", modifier_group_id: "extras", name: "Vanilla", price_adjustment: 0.5, is_available: false },
+  { id: "cone", modifier_group_id: "toppings", name: "Waffle cone", price_adjustment: 2, is_available: true },
+];
+
+describe("getSelectionBounds", () => {
+  test("required groups need at least one selection", () => {
+    expect(getSelectionBounds({ ...groups[0]!, min_selections: 0 })).toEqual({ min: 1, max: 1 });
+  });
+
+  test("missing max means unlimited", () => {
+    expect(getSelectionBounds({ ...groups[1]!, max_selections: null })).toEqual({ min: 0, max: Infinity });
+  });
+});
+
+describe("resolveItemModifiers", () => {
+  test("prices the selection from the menu, in group order", () => {
+    const result = resolveItemModifiers("Latte", groups, modifiers, ["oat", "large"]);
+    expect(result).toEqual({
+      ok: true,
+      modifiers: [
+        { modifierId: "large", modifierGroupId: "size", groupName: "Size", name: "Large", priceAdjustment: 1.5 },
+        { modifierId: "oat", modifierGroupId: "extras", groupName: "Extras", name: "Oat milk", priceAdjustment: 0.75 },
+      ],
+      modifiersTotal: 2.25,
+    });
+  });
+
+  test("rejects a missing required group", () => {
+    const result = resolveItemModifiers("Latte", groups, modifiers, ["oat"]);
+    expect(result).toEqual({ ok: false, code: "MODIFIER_SELECTION", message: "Latte: choose 1 from Size" });
+  });
+
+  test("rejects too many selections in a group", () => {
+    const result = resolveItemModifiers("Latte", groups, modifiers, ["small", "large"]);
+    expect(result.ok).toBe(false);
+    if (!result.ok) expect(result.code).toBe("MODIFIER_SELECTION");
+  });
+
+  test("enforces the minimum of an optional group once it is used", () => {
+    const optionalPair = [{ ...groups[1]!, min_selections: 2 }];
+    expect(resolveItemModifiers("Latte", optionalPair, modifiers, []).ok).toBe(true);
+    expect(resolveItemModifiers("Latte", optionalPair, modifiers, ["oat"])).toEqual({
+      ok: false,
+      code: "MODIFIER_SELECTION",
+      message: "Latte: choose 2 from Extras",
+    });
+  });
+
+  test("rejects unavailable modifiers", () => {
+    const result = resolveItemModifiers("Latte", groups, modifiers, ["small", "syrup"]);
+    expect(result).toEqual({ ok: false, code: "MODIFIER_UNAVAILABLE", message: "Modifier not available: Vanilla" });
+  });
+
+  test("rejects modifiers from another item's groups", () => {
+    const result = resolveItemModifiers("Latte", groups, modifiers, ["small", "cone"]);
+    expect(result).toEqual({ ok: false, code: "INVALID_MODIFIER", message: "Modifier cone is not an option for Latte" });
+  });
+
+  test("rejects the same modifier twice", () => {
+    const result = resolveItemModifiers("Latte", groups, modifiers, ["small", "shot", "shot"]);
+    expect(result.ok).toBe(false);
+    if (!result.ok) expect(result.code).toBe("INVALID_MODIFIER");
+  });
+
+  test("items without modifier groups take no modifiers", () => {
+    expect(resolveItemModifiers("Cookie", [], modifiers, [])).toEqual({ ok: true, modifiers: [], modifiersTotal: 0 });
+    expect(resolveItemModifiers("Cookie", [], modifiers, ["small"]).ok).toBe(false);
+  });
+});
@@ -0,0 +1,222 @@
+import { describe, expect, test } from "bun:test";
+import {
+  claimPickupSlot,
+  createGuestToken,
+  createMemoryPickupSlotStore,
+  findPickupSlot,
+  getPickupSlots,
+  getSlotCapacity,
+  hashGuestToken,
+  isOpenAt,
+  isPickupSlot,
+  matchesOrderContact,
+  releasePickupSlot,
+} from "../onlineOrdering";
+import type { OpeningHours } from "../onlineOrdering";
+
+const open = (openTime: string, closeTime: string): OpeningHours => ({ openTime, closeTime, isClosed: false });
+
+// Closed Sundays, late on Fridays (until 2am Saturday)
+const hours = new Map<number, OpeningHours>([
+  [0, { openTime: null, closeTime: null, isClosed: true }],
+  [1, open("11:00", "22:00")],
+  [2, open("11:00", "22:00")],
+  [3, open("11:00", "22:00")],
+  [4, open("11:00", "22:00")],
+  [5, open("17:00", "02:00")],
+  [6, open("11:00", "22:00")],
+]);
+
+const minutes = (time: string) => {
+  const [h = 0, m = 0] = time.split(":").map(Number);
+  return h * 60 + m;
+};
+
+describe("isOpenAt", () => {
+  test("is open from opening until closing", () => {
+    expect(isOpenAt(hours, 1, minutes("10:59"))).toBe(false);
+    expect(isOpenAt(hours, 1, minutes("11:00"))).toBe(true);
+    expect(isOpenAt(hours, 1, minutes("21:59"))).toBe(true);
+    expect(isOpenAt(hours, 1, minutes("22:00"))).toBe(false);
+  });
+
+  test("is closed on closed days and days without hours", () => {
+    expect(isOpenAt(hours, 0, minutes("12:00"))).toBe(false);
+    expect(isOpenAt(new Map(), 1, minutes("12:00"))).toBe(false);
+  });
+
+  test("counts the previous day's hours past midnight", () => {
+    expect(isOpenAt(hours, 5, minutes("23:30"))).toBe(true);
+    expect(isOpenAt(hours, 6, minutes("01:30"))).toBe(true);
+    expect(isOpenAt(hours, 6, minutes("02:00"))).toBe(false);
+    // Saturday's own hours still apply
+    expect(isOpenAt(hours, 6, minutes("11:00"))).toBe(true);
+  });
+});
+
+describe("getPickupSlots", () => {
+  const settings = { slotMinutes: 15, leadMinutes: 20 };
+
+  test("offers slots from opening until closing, after the lead time", () => {
+    // Monday 2 March 2026, 11:50
+    const slots = getPickupSlots({ date: "2026-03-02", hours: hours.get(1), now: new Date("2026-03-02T11:50:00Z"), ...settings });
+
+    expect(slots[0]).toEqual({ time: "12:15", pickupTime: "2026-03-02T12:15:00.000Z" });
+    expect(slots[slots.length - 1]?.time).toBe("21:45");
+    expect(slots).toHaveLength(39);
+  });
+
+  test("offers every slot for a later day", () => {
+    const slots = getPickupSlots({ date: "2026-03-03", hours: hours.get(2), now: new Date("2026-03-02T11:50:00Z"), ...settings });
+    expect(slots[0]?.time).toBe("11:00");
+    expect(slots).toHaveLength(44);
+  });
+
+  test("uses the business's timezone", () => {
+    const slots = getPickupSlots({
+      date: "2026-03-03",
+      hours: hours.get(2),
+      now: new Date("2026-03-02T12:00:00Z"),
+      timeZone: "America/Chicago",
+      ...settings,
+    });
+    expect(slots[0]).toEqual({ time: "11:00", pickupTime: "2026-03-03T17:00:00.000Z" });
+  });
+
+  test("continues past midnight into the next day", () => {
+    const slots = getPickupSlots({ date: "2026-03-06", hours: hours.get(5), now: new Date("2026-03-02T12:00:00Z"), ...settings });
+    expect(slots[slots.length - 1]).toEqual({ time: "01:45", pickupTime: "2026-03-07T01:45:00.000Z" });
+  });
+
+  test("has no slots on closed days", () => {
+    expect(getPickupSlots({ date: "2026-03-01", hours: hours.get(0), now: new Date("2026-02-28T12:00:00Z"), ...settings })).toEqual([]);
+    expect(getPickupSlots({ date: "2026-03-01", hours: undefined, now: new Date("2026-02-28T12:00:00Z"), ...settings })).toEqual([]);
+  });
+});
+
+describe("isPickupSlot", () => {
+  const settings = { timezone: "UTC", hours, slotMinutes: 15, leadMinutes: 20 };
+  const now = new Date("2026-03-02T11:50:00Z");
+
+  test("accepts the business's slots", () => {
+    expect(isPickupSlot(settings, new Date("2026-03-02T12:15:00Z"), now)).toBe(true);
+    expect(isPickupSlot(settings, new Date("2026-03-04T18:30:00Z"), now)).toBe(true);
+  });
+
+  test("rejects times between slots, before the lead time or outside hours", () => {
+    expect(isPickupSlot(settings, new Date("2026-03-02T12:20:00Z"), now)).toBe(false);
+    expect(isPickupSlot(settings, new Date("2026-03-02T12:00:00Z"), now)).toBe(false);
+    expect(isPickupSlot(settings, new Date("2026-03-02T23:00:00Z"), now)).toBe(false);
+  });
+
+  test("accepts slots after midnight from the previous day's hours", () => {
+    expect(isPickupSlot(settings, new Date("2026-03-07T01:30:00Z"), now)).toBe(true);
+  });
+
+  test("rejects slots too far ahead", () => {
+    expect(isPickupSlot(settings, new Date("2026-03-16T12:00:00Z"), now)).toBe(false);
+  });
+});
+
+describe("pickup capacity", () => {
+  test("reports what's left and whether an order fits", () => {
+    const capacity = { maxOrders: 3, maxItems: 8 };
+
+    expect(getSlotCapacity({ orders: 2, items: 5 }, capacity, 3))
+      .toEqual({ available: true, remainingOrders: 1, remainingItems: 3 });
+    expect(getSlotCapacity({ orders: 2, items: 5 }, capacity, 4).available).toBe(false);
+    expect(getSlotCapacity({ orders: 3, items: 3 }, capacity, 1).available).toBe(false);
+    expect(getSlotCapacity(undefined, capacity, 1)).toEqual({ available: true, remainingOrders: 3, remainingItems: 8 });
+  });
+
+  test("has no limit without a capacity", () => {
+    expect(getSlotCapacity({ orders: 50, items: 200 }, { maxOrders: null, maxItems: null }, 10))
+      .toEqual({ available: true, remainingOrders: null, remainingItems: null });
+  });
+});
+
+describe("findPickupSlot", () => {
+  const settings = { timezone: "UTC", hours, slotMinutes: 15 };
+
+  test("finds the slot a time falls in", () => {
+    expect(findPickupSlot(settings, new Date("2026-03-02T12:15:00Z"))?.toISOString()).toBe("2026-03-02T12:15:00.000Z");
+    expect(findPickupSlot(settings, new Date("2026-03-02T12:22:00Z"))?.toISOString()).toBe("2026-03-02T12:15:00.000Z");
+  });
+
+  test("finds slots after midnight from the previous day's hours", () => {
+    expect(findPickupSlot(settings, new Date("2026-03-07T01:50:00Z"))?.toISOString()).toBe("2026-03-07T01:45:00.000Z");
+  });
+
+  test("has no slot outside opening hours", () => {
+    expect(findPickupSlot(settings, new Date("2026-03-02T23:00:00Z"))).toBeNull();
+    expect(findPickupSlot(settings, new Date("2026-03-01T12:00:00Z"))).toBeNull();
+  });
+});
+
+describe("claimPickupSlot", () => {
+  const settings = { timezone: "UTC", hours, slotMinutes: 15, capacity: { maxOrders: 2, maxItems: 6 } };
+  const at = new Date("2026-03-02T12:15:00Z");
+  const claim = (store: ReturnType<typeof createMemoryPickupSlotStore>, items: number, enforceCapacity: boolean) =>
+    claimPickupSlot({ businessId: "biz", settings, at, items, enforceCapacity, store });
+
+  test("takes guest orders until the slot is full", async () => {
+    const store = createMemoryPickupSlotStore();
+
+    expect(await claim(store, 2, true)).toEqual({ ok: true, claim: { slotStart: at, items: 2 } });
+    expect((await claim(store, 5, true)).ok).toBe(false);
+    expect((await claim(store, 4, true)).ok).toBe(true);
+    expect((await claim(store, 1, true)).ok).toBe(false);
+    expect(store.usage.get(`biz:${at.toISOString()}`)).toEqual({ orders: 2, items: 6 });
+  });
+
+  test("always fits staff orders but counts them against the slot", async () => {
+    const store = createMemoryPickupSlotStore();
+
+    expect((await claim(store, 5, false)).ok).toBe(true);
+    expect((await claim(store, 3, false)).ok).toBe(true);
+    expect(store.usage.get(`biz:${at.toISOString()}`)).toEqual({ orders: 2, items: 8 });
+    expect((await claim(store, 1, true)).ok).toBe(false);
+  });
+
+  test("claims nothing for a time outside every slot", async () => {
+    const store = createMemoryPickupSlotStore();
+    const result = await claimPickupSlot({
+      businessId: "biz", settings, at: new Date("2026-03-02T23:00:00Z"), items: 1, enforceCapacity: true, store,
+    });
+
+    expect(result).toEqual({ ok: true, claim: null });
+    expect(store.usage.size).toBe(0);
+  });
+
+  test("releasing gives the place back", async () => {
+    const store = createMemoryPickupSlotStore();
+    await claim(store, 4, true);
+    const second = await claim(store, 2, true);
+    expect((await claim(store, 1, true)).ok).toBe(false);
+
+    if (!second.ok || !second.claim) throw new Error("expected a claim");
+    await releasePickupSlot("biz", second.claim, store);
+
+    expect(store.usage.get(`biz:${at.toISOString()}`)).toEqual({ orders: 1, items: 4 });
+    expect((await claim(store, 1, true)).ok).toBe(true);
+  });
+});
+
+describe("guest tracking", () => {
+  test("tokens are random and hash deterministically", () => {
+    const token = createGuestToken();
+    expect(token).not.toBe(createGuestToken());
+    expect(hashGuestToken(token)).toBe(hashGuestToken(token));
+    expect(hashGuestToken(token)).not.toBe(token);
+  });
+
+  test("matches the order's email or phone number", () => {
+    const order = { customer_email: "Ana@Example.com", customer_phone: "(503) 555-0142" };
+
+    expect(matchesOrderContact(order, "ana@example.com ")).toBe(true);
+    expect(matchesOrderContact(order, "503-555-0142")).toBe(true);
+    expect(matchesOrderContact(order, "someone@example.com")).toBe(false);
+    expect(matchesOrderContact(order, "0142")).toBe(false);
+    expect(matchesOrderContact({ customer_email: null, customer_phone: null }, "503-555-0142")).toBe(false);
+  });
+});
@@ -0,0 +1,39 @@
+import { describe, expect, test } from "bun:test";
+import { formatOrderNumber, getCounterPeriod, getTicketNumber, mapOrderNumberSettings } from "../orderNumbers";
+
+const daily = mapOrderNumberSettings({ timezone: "America/Los_Angeles" });
+const continuous = mapOrderNumberSettings({ order_number_reset: "never", order_number_prefix: "KS-" });
+
+describe("getCounterPeriod", () => {
+  test("rolls over at midnight in the business's timezone", () => {
+    // 06:30 UTC is still the previous evening in Los Angeles
+    expect(getCounterPeriod(daily, new Date("2026-03-15T06:30:00Z"))).toBe("2026-03-14");
+    expect(getCounterPeriod(daily, new Date("2026-03-15T07:30:00Z"))).toBe("2026-03-15");
+  });
+
+  test("uses one counter when numbers never reset", () => {
+    expect(getCounterPeriod(continuous, new Date("2026-03-15T07:30:00Z"))).toBe("all");
+  });
+});
+
+describe("formatOrderNumber", () => {
+  test("formats daily numbers with the business date", () => {
+    expect(formatOrderNumber(daily, "2026-03-14", 42)).toBe("20260314-0042");
+  });
+
+  test("formats continuous numbers with the prefix", () => {
+    expect(formatOrderNumber(continuous, "all", 1234)).toBe("KS-001234");
+  });
+});
+
+describe("getTicketNumber", () => {
+  test("cycles through 1..max", () => {
+    expect(getTicketNumber(1, 99)).toBe(1);
+    expect(getTicketNumber(99, 99)).toBe(99);
+    expect(getTicketNumber(100, 99)).toBe(1);
+  });
+
+  test("is null when ticket numbers are off", () => {
+    expect(getTicketNumber(5, null)).toBeNull();
+  });
+});
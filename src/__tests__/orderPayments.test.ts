@@ -0,0 +1,70 @@
+import { describe, expect, test } from "bun:test";
+import { calculateApplicationFee, canPayForOrder, getOrderPaymentBlocker, toMinorUnits } from "../orderPayments";
+
+describe("toMinorUnits", () => {
+  test("converts dollars to cents without float drift", () => {
+    expect(toMinorUnits(90)).toBe(9000);
+    expect(toMinorUnits(19.99)).toBe(1999);
+    expect(toMinorUnits(0.1 + 0.2)).toBe(30);
+  });
+});
+
+describe("calculateApplicationFee", () => {
+  test("takes a percentage of the amount, rounded to the cent", () => {
+    expect(calculateApplicationFee(9000, 2.9)).toBe(261);
+    expect(calculateApplicationFee(1999, 5)).toBe(100);
+  });
+
+  test("is zero when no fee is configured", () => {
+    expect(calculateApplicationFee(9000, 0)).toBe(0);
+    expect(calculateApplicationFee(9000, NaN)).toBe(0);
+  });
+
+  test("never exceeds the amount", () => {
+    expect(calculateApplicationFee(500, 150)).toBe(500);
+  });
+});
+
+describe("getOrderPaymentBlocker", () => {
+  const order = { status: "pending", payment_status: "pending", total_amount: "90.00" };
+
+  test("allows unpaid orders, including after a failed payment", () => {
+    expect(getOrderPaymentBlocker(order)).toBeNull();
+    expect(getOrderPaymentBlocker({ ...order, payment_status: "failed" })).toBeNull();
+  });
+
+  test("refuses paid and refunded orders", () => {
+    expect(getOrderPaymentBlocker({ ...order, payment_status: "paid" })?.code).toBe("ORDER_ALREADY_PAID");
+    expect(getOrderPaymentBlocker({ ...order, payment_status: "refunded" })?.code).toBe("ORDER_ALREADY_PAID");
+  });
+
+  test("refuses cancelled orders", () => {
+    expect(getOrderPaymentBlocker({ ...order, status: "cancelled" })?.code).toBe("ORDER_CANCELLED");
+  });
+
+  test("refuses orders with nothing to pay", () => {
+    expect(getOrderPaymentBlocker({ ...order, total_amount: 0 })?.code).toBe("INVALID_AMOUNT");
+  });
+});
+
+describe("canPayForOrder", () => {
+  const order = { customer_email: "Ana@Example.com" };
+
+  test("lets the business's order staff pay", () => {
+    expect(canPayForOrder(order, { email: "staff@bistro.test" }, "staff")).toBe(true);
+    expect(canPayForOrder(order, { email: "owner@bistro.test" }, "owner")).toBe(true);
+  });
+
+  test("lets the order's customer pay", () => {
+    expect(canPayForOrder(order, { email: "ana@example.com" }, null)).toBe(true);
+  });
+
+  test("refuses users of another business", () => {
+    expect(canPayForOrder(order, { email: "owner@other.test" }, null)).toBe(false);
+    expect(canPayForOrder({ customer_email: null }, { email: "owner@other.test" }, null)).toBe(false);
+  });
+
+  test("refuses members without order access", () => {
+    expect(canPayForOrder(order, { email: "books@bistro.test" }, "accountant")).toBe(false);
+  });
+});
@@ -0,0 +1,124 @@
+import { describe, expect, test } from "bun:test";
+import {
+  calculateItemRefund,
+  getOrderPaymentIntentId,
+  getRefundableAmount,
+  getRefundedQuantities,
+} from "../orderRefunds";
+import { calculatePointsToReverse } from "../loyalty";
+
+const order = { subtotal: 40, tax_amount: 3.2 };
+const orderItems = [
+  { id: "burger", quantity: 2, total_price: 30 },
+  { id: "fries", quantity: 1, total_price: 10 },
+];
+
+describe("getRefundableAmount", () => {
+  test("is the total less what has been refunded", () => {
+    expect(getRefundableAmount({ total_amount: 43.2, refunded_amount: 10.1 })).toBe(33.1);
+    expect(getRefundableAmount({ total_amount: 43.2, refunded_amount: null })).toBe(43.2);
+  });
+
+  test("never goes below zero", () => {
+    expect(getRefundableAmount({ total_amount: 10, refunded_amount: 12 })).toBe(0);
+  });
+});
+
+describe("getOrderPaymentIntentId", () => {
+  test("prefers the stored intent, then a pi_ payment reference", () => {
+    expect(getOrderPaymentIntentId({ stripe_payment_intent_id: "pi_a", payment_reference: "pi_b" })).toBe("pi_a");
+    expect(getOrderPaymentIntentId({ stripe_payment_intent_id: null, payment_reference: "pi_b" })).toBe("pi_b");
+  });
+
+  test("is null for cash and terminal references", () => {
+    expect(getOrderPaymentIntentId({ stripe_payment_intent_id: null, payment_reference: "RCPT-1042" })).toBeNull();
+    expect(getOrderPaymentIntentId({ stripe_payment_intent_id: null, payment_reference: null })).toBeNull();
+  });
+});
+
+describe("calculateItemRefund", () => {
+  test("refunds each unit's price plus its tax", () => {
+    const result = calculateItemRefund(order, orderItems, [{ orderItemId: "burger", quantity: 1 }], new Map());
+    expect(result).toEqual({
+      amount: 16.2,
+      items: [{ orderItemId: "burger", quantity: 1, amount: 16.2 }],
+    });
+  });
+
+  test("takes off the item's share of the order discount", () => {
+    // 10.00 off a 40.00 subtotal, 8% tax on the discounted 30.00
+    const discounted = { subtotal: 40, discount_amount: 10, tax_amount: 2.4 };
+    const result = calculateItemRefund(discounted, orderItems, [{ orderItemId: "fries" }], new Map());
+    expect(result).toEqual({
+      amount: 8.1,
+      items: [{ orderItemId: "fries", quantity: 1, amount: 8.1 }],
+    });
+  });
+
+  test("doesn't add tax already included in the price", () => {
+    const inclusive = { subtotal: 40, tax_amount: 2.96, tax_inclusive: true };
+    const result = calculateItemRefund(inclusive, orderItems, [{ orderItemId: "fries" }], new Map());
+    expect(result).toEqual({
+      amount: 10,
+      items: [{ orderItemId: "fries", quantity: 1, amount: 10 }],
+    });
+  });
+
+  test("defaults to every unit not yet refunded", () => {
+    const result = calculateItemRefund(order, orderItems, [{ orderItemId: "burger" }], new Map([["burger", 1]]));
+    expect(result).toEqual({
+      amount: 16.2,
+      items: [{ orderItemId: "burger", quantity: 1, amount: 16.2 }],
+    });
+  });
+
+  test("refuses more units than are left", () => {
+    const result = calculateItemRefund(order, orderItems, [{ orderItemId: "fries", quantity: 1 }], new Map([["fries", 1]]));
+    expect(result).toEqual({ error: "Only 0 of order item fries left to refund" });
+  });
+
+  test("counts repeated lines for the same item together", () => {
+    const result = calculateItemRefund(
+      order,
+      orderItems,
+      [{ orderItemId: "burger", quantity: 2 }, { orderItemId: "burger", quantity: 1 }],
+      new Map()
+    );
+    expect("error" in result).toBe(true);
+  });
+
+  test("refuses items that aren't on the order", () => {
+    const result = calculateItemRefund(order, orderItems, [{ orderItemId: "soda" }], new Map());
+    expect(result).toEqual({ error: "Order item not found: soda" });
+  });
+});
+
+describe("getRefundedQuantities", () => {
+  test("sums line items across pending and succeeded refunds only", () => {
+    const refunded = getRefundedQuantities([
+      { status: "succeeded", items: [{ orderItemId: "burger", quantity: 1, amount: 16.2 }] },
+      { status: "pending", items: [{ orderItemId: "burger", quantity: 1, amount: 16.2 }] },
+      { status: "failed", items: [{ orderItemId: "fries", quantity: 1, amount: 10.8 }] },
+      { status: "succeeded", items: null },
+    ]);
+    expect(refunded).toEqual(new Map([["burger", 2]]));
+  });
+});
+
+describe("calculatePointsToReverse", () => {
+  test("reverses the refunded share of the points earned", () => {
+    expect(calculatePointsToReverse({ pointsEarned: 43, pointsReversed: 0, orderTotal: 43.2, refundedTotal: 16.2 })).toBe(16);
+  });
+
+  test("subtracts what earlier refunds already reversed", () => {
+    expect(calculatePointsToReverse({ pointsEarned: 43, pointsReversed: 16, orderTotal: 43.2, refundedTotal: 32.4 })).toBe(16);
+  });
+
+  test("reverses everything left on a full refund", () => {
+    expect(calculatePointsToReverse({ pointsEarned: 43, pointsReversed: 32, orderTotal: 43.2, refundedTotal: 43.2 })).toBe(11);
+  });
+
+  test("is zero when no points were earned", () => {
+    expect(calculatePointsToReverse({ pointsEarned: 0, pointsReversed: 0, orderTotal: 43.2, refundedTotal: 43.2 })).toBe(0);
+  });
+});
@@ -0,0 +1,49 @@
+import { describe, test, expect } from "bun:test";
+import { canTransitionOrder, ORDER_STATUS_TRANSITIONS } from "../orderStatus";
+import { OrderStatusSchema } from "../types";
+
+describe("canTransitionOrder", () => {
+  test("allows the forward kitchen flow", () => {
+    expect(canTransitionOrder("pending", "confirmed")).toBe(true);
+    expect(canTransitionOrder("confirmed", "preparing")).toBe(true);
+    expect(canTransitionOrder("preparing", "ready")).toBe(true);
+    expect(canTransitionOrder("ready", "completed")).toBe(true);
+  });
+
+  test("lets a recalled ready order go back to preparing", () => {
+    expect(canTransitionOrder("ready", "preparing")).toBe(true);
+    expect(canTransitionOrder("completed", "preparing")).toBe(false);
+  });
+
+  test("allows cancelling only before completion", () => {
+    for (const status of ["pending", "confirmed", "preparing", "ready"] as const) {
+      expect(canTransitionOrder(status, "cancelled")).toBe(true);
+    }
+    expect(canTransitionOrder("completed", "cancelled")).toBe(false);
+  });
+
+  test("releases scheduled orders to confirmed or cancels them", () => {
+    expect(canTransitionOrder("scheduled", "confirmed")).toBe(true);
+    expect(canTransitionOrder("scheduled", "cancelled")).toBe(true);
+    expect(canTransitionOrder("scheduled", "preparing")).toBe(false);
+    expect(canTransitionOrder("pending", "scheduled")).toBe(false);
+  });
+
+  test("only completed orders can be refunded", () => {
+    expect(canTransitionOrder("completed", "refunded")).toBe(true);
+    expect(canTransitionOrder("ready", "refunded")).toBe(false);
+    expect(canTransitionOrder("cancelled", "refunded")).toBe(false);
+  });
+
+  test("cancelled and refunded orders are terminal", () => {
+    expect(canTransitionOrder("cancelled", "preparing")).toBe(false);
+    expect(ORDER_STATUS_TRANSITIONS.cancelled).toEqual([]);
+    expect(ORDER_STATUS_TRANSITIONS.refunded).toEqual([]);
+  });
+
+  test("rejects staying in the same status", () => {
+    for (const status of OrderStatusSchema.options) {
+      expect(canTransitionOrder(status, status)).toBe(false);
+    }
+  });
+});
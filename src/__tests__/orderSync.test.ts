@@ -0,0 +1,54 @@
+import { describe, expect, test } from "bun:test";
+import { findSyncConflicts, sortByCreatedAt } from "../orderSync";
+
+const menuItems = new Map([
+  ["burger", { name: "Burger", price: 12 }],
+  ["fries", { name: "Fries", price: 4.5 }],
+]);
+
+describe("findSyncConflicts", () => {
+  test("accepts items charged at the current price", () => {
+    const result = findSyncConflicts({
+      items: [
+        { menuItemId: "burger", quantity: 2, unitPrice: 13.5, modifiers: [{ name: "Cheese", priceAdjustment: 1.5 }] },
+        { menuItemId: "fries", quantity: 1, unitPrice: 4.5 },
+      ],
+    }, menuItems);
+
+    expect(result).toEqual({ blocking: false, conflicts: [] });
+  });
+
+  test("reports a price change without blocking the order", () => {
+    const result = findSyncConflicts({
+      items: [{ menuItemId: "burger", quantity: 1, unitPrice: 11 }],
+    }, menuItems);
+
+    expect(result.blocking).toBe(false);
+    expect(result.conflicts).toHaveLength(1);
+    expect(result.conflicts[0]).toMatchObject({ type: "PRICE_CHANGED", chargedPrice: 11, currentPrice: 12 });
+  });
+
+  test("blocks orders with items that no longer exist", () => {
+    const result = findSyncConflicts({
+      items: [
+        { menuItemId: "burger", quantity: 1, unitPrice: 12 },
+        { menuItemId: "milkshake", itemName: "Milkshake", quantity: 1, unitPrice: 6 },
+      ],
+    }, menuItems);
+
+    expect(result.blocking).toBe(true);
+    expect(result.conflicts.map((c) => c.type)).toEqual(["ITEM_NOT_FOUND"]);
+    expect(result.conflicts[0]?.message).toContain("Milkshake");
+  });
+});
+
+describe("sortByCreatedAt", () => {
+  test("orders oldest first", () => {
+    const sorted = sortByCreatedAt([
+      { id: "b", createdAt: "2026-03-01T12:05:00Z" },
+      { id: "a", createdAt: "2026-03-01T11:59:00Z" },
+      { id: "c", createdAt: "2026-03-01T12:05:00.500Z" },
+    ]);
+    expect(sorted.map((o) => o.id)).toEqual(["a", "b", "c"]);
+  });
+});
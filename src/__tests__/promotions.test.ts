@@ -0,0 +1,203 @@
+import { describe, expect, test } from "bun:test";
+import {
+  applyPromotions,
+  calculatePromotionDiscount,
+  getPromotionWindow,
+  isPromotionActive,
+} from "../promotions";
+import type { DayHours, Promotion, PromotionLine } from "../promotions";
+
+function promotion(overrides: Partial<Promotion>): Promotion {
+  return {
+    id: "promo",
+    name: "Promo",
+    code: null,
+    discountType: "percent",
+    discountValue: 10,
+    scope: "order",
+    categoryIds: [],
+    menuItemIds: [],
+    buyQuantity: 1,
+    getQuantity: 1,
+    minSubtotal: null,
+    stackable: false,
+    isActive: true,
+    startsAt: null,
+    endsAt: null,
+    usageLimit: null,
+    usageCount: 0,
+    daysOfWeek: null,
+    startTime: null,
+    endTime: null,
+    hoursAnchor: null,
+    anchorOffsetMinutes: 0,
+    durationMinutes: null,
+    ...overrides,
+  };
+}
+
+const lines: PromotionLine[] = [
+  { menuItemId: "burger", categoryId: "mains", unitPrice: 15, quantity: 2 },
+  { menuItemId: "fries", categoryId: "sides", unitPrice: 5, quantity: 1 },
+  { menuItemId: "beer", categoryId: "drinks", unitPrice: 7, quantity: 3 },
+];
+
+const hours: DayHours = { openTime: "11:00", closeTime: "22:00", isClosed: false };
+
+// Wednesday 2025-01-15, UTC (the default business timezone)
+const at = (time: string) => new Date(`2025-01-15T${time}:00Z`);
+
+describe("calculatePromotionDiscount", () => {
+  test("percent off the whole order", () => {
+    expect(calculatePromotionDiscount(promotion({ discountValue: 10 }), lines)).toBe(5.6);
+  });
+
+  test("percent off one category", () => {
+    const drinks = promotion({ scope: "category", categoryIds: ["drinks"], discountValue: 50 });
+    expect(calculatePromotionDiscount(drinks, lines)).toBe(10.5);
+  });
+
+  test("fixed amount capped at the eligible items", () => {
+    const friesOff = promotion({ discountType: "fixed", discountValue: 8, scope: "item", menuItemIds: ["fries"] });
+    expect(calculatePromotionDiscount(friesOff, lines)).toBe(5);
+  });
+
+  test("buy one get one discounts the cheaper unit of each pair", () => {
+    const bogo = promotion({ discountType: "bogo", discountValue: 100, scope: "item", menuItemIds: ["beer"] });
+    // three beers: one pair, the third pays full price
+    expect(calculatePromotionDiscount(bogo, lines)).toBe(7);
+
+    const mixed = promotion({ discountType: "bogo", discountValue: 50, scope: "category", categoryIds: ["mains", "sides"] });
+    // units 15, 15, 5: the pair is 15 + 15, half off the second
+    expect(calculatePromotionDiscount(mixed, lines)).toBe(7.5);
+  });
+
+  test("nothing when no line is eligible", () => {
+    expect(calculatePromotionDiscount(promotion({ scope: "category", categoryIds: ["desserts"] }), lines)).toBe(0);
+  });
+});
+
+describe("isPromotionActive", () => {
+  test("respects the date range and usage limit", () => {
+    expect(isPromotionActive(promotion({ startsAt: "2025-02-01T00:00:00Z" }), at("12:00"), hours)).toBe(false);
+    expect(isPromotionActive(promotion({ endsAt: "2025-01-01T00:00:00Z" }), at("12:00"), hours)).toBe(false);
+    expect(isPromotionActive(promotion({ usageLimit: 5, usageCount: 5 }), at("12:00"), hours)).toBe(false);
+    expect(isPromotionActive(promotion({ usageLimit: 5, usageCount: 4 }), at("12:00"), hours)).toBe(true);
+  });
+
+  test("happy hour on set days and times", () => {
+    const happyHour = promotion({ daysOfWeek: [3], startTime: "16:00", endTime: "18:00" });
+    expect(isPromotionActive(happyHour, at("16:30"), hours)).toBe(true);
+    expect(isPromotionActive(happyHour, at("18:00"), hours)).toBe(false);
+    expect(isPromotionActive({ ...happyHour, daysOfWeek: [5] }, at("16:30"), hours)).toBe(false);
+  });
+
+  test("happy hour is in the business's timezone", () => {
+    const happyHour = promotion({ daysOfWeek: [3], startTime: "16:00", endTime: "18:00" });
+    // 22:30 UTC is 16:30 on Wednesday in Chicago
+    expect(isPromotionActive(happyHour, at("22:30"), hours, "America/Chicago")).toBe(true);
+    expect(isPromotionActive(happyHour, at("16:30"), hours, "America/Chicago")).toBe(false);
+  });
+
+  test("happy hour never runs while the business is closed", () => {
+    const late = promotion({ startTime: "21:00", endTime: "23:30" });
+    expect(isPromotionActive(late, at("21:30"), hours)).toBe(true);
+    expect(isPromotionActive(late, at("22:30"), hours)).toBe(false);
+    expect(isPromotionActive(late, at("21:30"), { ...hours, isClosed: true })).toBe(false);
+  });
+});
+
+describe("getPromotionWindow", () => {
+  test("anchors the window to opening or closing time", () => {
+    const lastHour = promotion({ hoursAnchor: "close", durationMinutes: 60 });
+    expect(getPromotionWindow(lastHour, hours)).toEqual([21 * 60, 22 * 60]);
+
+    const afterOpening = promotion({ hoursAnchor: "open", anchorOffsetMinutes: 30, durationMinutes: 90 });
+    expect(getPromotionWindow(afterOpening, hours)).toEqual([11 * 60 + 30, 13 * 60]);
+  });
+
+  test("anchored windows need the day's hours", () => {
+    expect(getPromotionWindow(promotion({ hoursAnchor: "close" }), null)).toBeNull();
+  });
+});
+
+describe("applyPromotions", () => {
+  const tenOff = promotion({ id: "ten", name: "10% off", discountValue: 10 });
+  const drinksHalf = promotion({
+    id: "drinks",
+    name: "Half-price drinks",
+    scope: "category",
+    categoryIds: ["drinks"],
+    discountValue: 50,
+    stackable: true,
+  });
+  const friesFree = promotion({
+    id: "fries",
+    name: "Free fries",
+    scope: "item",
+    menuItemIds: ["fries"],
+    discountValue: 100,
+    stackable: true,
+  });
+  const welcome = promotion({ id: "welcome", name: "Welcome", code: "WELCOME5", discountType: "fixed", discountValue: 5, minSubtotal: 40 });
+
+  test("picks the stackable set when it beats the best single promotion", () => {
+    const result = applyPromotions({ promotions: [tenOff, drinksHalf, friesFree], lines, at: at("12:00"), hours });
+    expect(result).toEqual({
+      ok: true,
+      applied: [
+        { promotion: drinksHalf, discount: 10.5 },
+        { promotion: friesFree, discount: 5 },
+      ],
+      discountTotal: 15.5,
+    });
+  });
+
+  test("picks the single promotion when it is worth more", () => {
+    const twentyFive = { ...tenOff, discountValue: 40 };
+    const result = applyPromotions({ promotions: [twentyFive, drinksHalf], lines, at: at("12:00"), hours });
+    expect(result.ok && result.applied.map(a => a.promotion.id)).toEqual(["ten"]);
+  });
+
+  test("codes are matched case-insensitively and apply on their own", () => {
+    const result = applyPromotions({
+      promotions: [tenOff, drinksHalf, welcome],
+      lines,
+      at: at("12:00"),
+      hours,
+      promoCode: " welcome5 ",
+    });
+    expect(result.ok && result.applied.map(a => a.promotion.id)).toEqual(["welcome"]);
+  });
+
+  test("stackable codes combine with stackable automatic promotions", () => {
+    const result = applyPromotions({
+      promotions: [drinksHalf, { ...welcome, stackable: true }],
+      lines,
+      at: at("12:00"),
+      hours,
+      promoCode: "WELCOME5",
+    });
+    expect(result.ok && result.discountTotal).toBe(15.5);
+  });
+
+  test("automatic promotions never apply without their code", () => {
+    const result = applyPromotions({ promotions: [welcome], lines, at: at("12:00"), hours });
+    expect(result).toEqual({ ok: true, applied: [], discountTotal: 0 });
+  });
+
+  test("rejects unknown, expired and inapplicable codes", () => {
+    expect(applyPromotions({ promotions: [welcome], lines, at: at("12:00"), hours, promoCode: "NOPE" }))
+      .toMatchObject({ ok: false, code: "INVALID_PROMO_CODE" });
+    expect(applyPromotions({ promotions: [{ ...welcome, isActive: false }], lines, at: at("12:00"), hours, promoCode: "WELCOME5" }))
+      .toMatchObject({ ok: false, code: "INVALID_PROMO_CODE" });
+    expect(applyPromotions({ promotions: [{ ...welcome, minSubtotal: 100 }], lines, at: at("12:00"), hours, promoCode: "WELCOME5" }))
+      .toEqual({ ok: false, code: "PROMO_CODE_NOT_APPLICABLE", message: "Promo code requires a subtotal of at least 100.00" });
+  });
+
+  test("discounts never exceed the subtotal", () => {
+    const big = promotion({ id: "big", discountType: "fixed", discountValue: 100, stackable: true });
+    const result = applyPromotions({ promotions: [big, drinksHalf], lines, at: at("12:00"), hours });
+    expect(result.ok && result.discountTotal).toBe(56);
+  });
+});
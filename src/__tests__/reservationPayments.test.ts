@@ -0,0 +1,39 @@
+import { describe, expect, test } from "bun:test";
+import { PAYMENT_WINDOW_MINUTES, getPaymentExpiry, isBeforeCancellationDeadline } from "../reservationPayments";
+
+describe("isBeforeCancellationDeadline", () => {
+  const reservationStart = new Date("2025-06-14T19:00:00Z");
+
+  test("refunds cancellations made before the deadline", () => {
+    const now = new Date(reservationStart.getTime() - 25 * 60 * 60 * 1000);
+    expect(isBeforeCancellationDeadline("2025-06-14", "19:00", 24, "UTC", now)).toBe(true);
+  });
+
+  test("keeps deposits for late cancellations", () => {
+    const now = new Date(reservationStart.getTime() - 23 * 60 * 60 * 1000);
+    expect(isBeforeCancellationDeadline("2025-06-14", "19:00", 24, "UTC", now)).toBe(false);
+  });
+
+  test("accepts database time values with seconds", () => {
+    const now = new Date(reservationStart.getTime() - 3 * 60 * 60 * 1000);
+    expect(isBeforeCancellationDeadline("2025-06-14", "19:00:00", 2, "UTC", now)).toBe(true);
+  });
+
+  test("a zero-hour deadline refunds up to the reservation time", () => {
+    expect(isBeforeCancellationDeadline("2025-06-14", "19:00", 0, "UTC", reservationStart)).toBe(true);
+  });
+
+  test("reads the reservation time in the business's timezone", () => {
+    // 19:00 in New York (EDT) is 23:00 UTC
+    const now = new Date("2025-06-13T22:30:00Z");
+    expect(isBeforeCancellationDeadline("2025-06-14", "19:00", 24, "America/New_York", now)).toBe(true);
+    expect(isBeforeCancellationDeadline("2025-06-14", "19:00", 24, "UTC", now)).toBe(false);
+  });
+});
+
+describe("getPaymentExpiry", () => {
+  test("gives the guest the payment window to pay", () => {
+    const now = new Date("2025-06-14T18:00:00Z");
+    expect(getPaymentExpiry(now).getTime() - now.getTime()).toBe(PAYMENT_WINDOW_MINUTES * 60 * 1000);
+  });
+});
@@ -0,0 +1,29 @@
+import { describe, expect, test } from "bun:test";
+import { calculateFireAt, shouldHoldOrder } from "../scheduledOrders";
+
+describe("calculateFireAt", () => {
+  const scheduledFor = new Date("2026-03-02T18:00:00Z");
+
+  test("fires the sum of the items' prep times before the scheduled time", () => {
+    expect(calculateFireAt(scheduledFor, [10, 15, 5]).toISOString()).toBe("2026-03-02T17:30:00.000Z");
+  });
+
+  test("items without a prep time add nothing", () => {
+    expect(calculateFireAt(scheduledFor, [20, null, undefined]).toISOString()).toBe("2026-03-02T17:40:00.000Z");
+    expect(calculateFireAt(scheduledFor, []).toISOString()).toBe("2026-03-02T18:00:00.000Z");
+  });
+});
+
+describe("shouldHoldOrder", () => {
+  const now = new Date("2026-03-02T17:00:00Z");
+
+  test("holds orders that fire later", () => {
+    expect(shouldHoldOrder(new Date("2026-03-02T17:30:00Z"), now)).toBe(true);
+  });
+
+  test("sends orders that are due, or not scheduled, straight to the kitchen", () => {
+    expect(shouldHoldOrder(new Date("2026-03-02T17:00:00Z"), now)).toBe(false);
+    expect(shouldHoldOrder(new Date("2026-03-02T16:00:00Z"), now)).toBe(false);
+    expect(shouldHoldOrder(null, now)).toBe(false);
+  });
+});
@@ -0,0 +1,220 @@
+import { beforeAll, beforeEach, describe, expect, test } from "bun:test";
+import { createHmac } from "node:crypto";
+import type Stripe from "stripe";
+import { constructStripeEvent, isOrderPaidBy, processStripeEvent } from "../stripeWebhooks";
+import type { ConnectAccountState, OrderPaymentUpdate, WebhookStore } from "../stripeWebhooks";
+import type { PaymentStatus } from "../types";
+
+const FIXTURES_DIR = `${import.meta.dir}/fixtures/stripe`;
+
+async function loadFixture(name: string): Promise<Stripe.Event> {
+  return Bun.file(`${FIXTURES_DIR}/${name}.json`).json();
+}
+
+type StoredOrder = {
+  paymentIntentId: string | null;
+  totalAmount: number;
+  paymentStatus: PaymentStatus;
+  paymentReference: string | null;
+  paidAt: string | null;
+};
+
+function createMemoryStore() {
+  const events = new Set<string>();
+  const orders = new Map<string, StoredOrder>();
+  const accounts = new Map<string, ConnectAccountState | null>();
+
+  const store: WebhookStore = {
+    async recordEvent(event) {
+      if (events.has(event.id)) return false;
+      events.add(event.id);
+      return true;
+    },
+    async forgetEvent(eventId) {
+      events.delete(eventId);
+    },
+    async getOrderPaymentTarget(orderId) {
+      const order = orders.get(orderId);
+      return order ? { paymentIntentId: order.paymentIntentId, totalAmount: order.totalAmount } : null;
+    },
+    async updateOrderPayment(orderId: string, update: OrderPaymentUpdate, fromStatuses: PaymentStatus[]) {
+      const order = orders.get(orderId);
+      if (!order || !fromStatuses.includes(order.paymentStatus)) return false;
+      order.paymentStatus = update.paymentStatus;
+      if (update.paymentReference !== undefined) order.paymentReference = update.paymentReference;
+      if (update.paidAt !== undefined) order.paidAt = update.paidAt;
+      return true;
+    },
+    async findOrderIdByPaymentReference(paymentIntentId) {
+      for (const [id, order] of orders) {
+        if (order.paymentReference === paymentIntentId) return id;
+      }
+      return null;
+    },
+    async updateConnectAccount(accountId, state) {
+      if (!accounts.has(accountId)) return false;
+      accounts.set(accountId, state);
+      return true;
+    },
+    async applyReservationPaymentEvent() {
+      return false;
+    },
+  };
+
+  return { store, events, orders, accounts };
+}
+
+const PAID_ORDER_ID = "0a000000-0000-4000-8000-000000000001";
+const FAILED_ORDER_ID = "0a000000-0000-4000-8000-000000000002";
+const ACCOUNT_ID = "acct_1QhWzzFk8s1TnR0a";
+const PAYMENT_INTENT_ID = "pi_3QhX2bFk8s1TnR0a1kLmNoPq";
+
+let memory: ReturnType<typeof createMemoryStore>;
+
+beforeEach(() => {
+  memory = createMemoryStore();
+  memory.orders.set(PAID_ORDER_ID, {
+    paymentIntentId: PAYMENT_INTENT_ID,
+    totalAmount: 42.5,
+    paymentStatus: "pending",
+    paymentReference: null,
+    paidAt: null,
+  });
+  memory.orders.set(FAILED_ORDER_ID, {
+    paymentIntentId: null,
+    totalAmount: 18,
+    paymentStatus: "pending",
+    paymentReference: null,
+    paidAt: null,
+  });
+  memory.accounts.set(ACCOUNT_ID, null);
+});
+
+describe("processStripeEvent", () => {
+  test("marks the order paid on payment_intent.succeeded", async () => {
+    const event = await loadFixture("payment_intent.succeeded");
+    const result = await processStripeEvent(event, memory.store);
+
+    expect(result).toEqual({ duplicate: false, handled: true });
+    expect(memory.orders.get(PAID_ORDER_ID)).toMatchObject({
+      paymentStatus: "paid",
+      paymentReference: PAYMENT_INTENT_ID,
+      paidAt: new Date(event.created * 1000).toISOString(),
+    });
+  });
+
+  test("ignores a success from another intent or for another amount", async () => {
+    const event = await loadFixture("payment_intent.succeeded");
+    (event.data.object as Stripe.PaymentIntent).amount_received = 100;
+    expect(await processStripeEvent(event, memory.store)).toEqual({ duplicate: false, handled: false });
+
+    memory.orders.get(PAID_ORDER_ID)!.paymentIntentId = "pi_other";
+    const other = await loadFixture("payment_intent.succeeded");
+    other.id = "evt_other";
+    expect((await processStripeEvent(other, memory.store)).handled).toBe(false);
+    expect(memory.orders.get(PAID_ORDER_ID)!.paymentStatus).toBe("pending");
+  });
+
+  test("applies each event id only once", async () => {
+    const event = await loadFixture("payment_intent.succeeded");
+    await processStripeEvent(event, memory.store);
+    memory.orders.get(PAID_ORDER_ID)!.paymentStatus = "refunded";
+
+    const retry = await processStripeEvent(event, memory.store);
+    expect(retry).toEqual({ duplicate: true, handled: false });
+    expect(memory.orders.get(PAID_ORDER_ID)!.paymentStatus).toBe("refunded");
+  });
+
+  test("marks the order failed on payment_intent.payment_failed", async () => {
+    await processStripeEvent(await loadFixture("payment_intent.payment_failed"), memory.store);
+    expect(memory.orders.get(FAILED_ORDER_ID)!.paymentStatus).toBe("failed");
+  });
+
+  test("a late failure does not overwrite a paid order", async () => {
+    memory.orders.get(FAILED_ORDER_ID)!.paymentStatus = "paid";
+    const result = await processStripeEvent(await loadFixture("payment_intent.payment_failed"), memory.store);
+    expect(result.handled).toBe(false);
+    expect(memory.orders.get(FAILED_ORDER_ID)!.paymentStatus).toBe("paid");
+  });
+
+  test("marks the order refunded on a full charge.refunded", async () => {
+    await processStripeEvent(await loadFixture("payment_intent.succeeded"), memory.store);
+    const result = await processStripeEvent(await loadFixture("charge.refunded"), memory.store);
+
+    expect(result.handled).toBe(true);
+    expect(memory.orders.get(PAID_ORDER_ID)!.paymentStatus).toBe("refunded");
+  });
+
+  test("leaves the order paid on a partial refund", async () => {
+    await processStripeEvent(await loadFixture("payment_intent.succeeded"), memory.store);
+    const event = await loadFixture("charge.refunded");
+    (event.data.object as Stripe.Charge).amount_refunded = 1000;
+
+    await processStripeEvent(event, memory.store);
+    expect(memory.orders.get(PAID_ORDER_ID)!.paymentStatus).toBe("paid");
+  });
+
+  test("records Connect onboarding state on account.updated", async () => {
+    await processStripeEvent(await loadFixture("account.updated"), memory.store);
+    expect(memory.accounts.get(ACCOUNT_ID)).toEqual({
+      chargesEnabled: true,
+      payoutsEnabled: false,
+      detailsSubmitted: true,
+    });
+  });
+
+  test("forgets the event when processing fails so the retry is applied", async () => {
+    const event = await loadFixture("payment_intent.succeeded");
+    const failing: WebhookStore = {
+      ...memory.store,
+      updateOrderPayment: async () => {
+        throw new Error("database unavailable");
+      },
+    };
+
+    await expect(processStripeEvent(event, failing)).rejects.toThrow("database unavailable");
+    const retry = await processStripeEvent(event, memory.store);
+    expect(retry).toEqual({ duplicate: false, handled: true });
+  });
+});
+
+describe("isOrderPaidBy", () => {
+  const order = { paymentIntentId: "pi_a", totalAmount: 42.5 };
+
+  test("requires the order's intent and its total in cents", () => {
+    expect(isOrderPaidBy({ id: "pi_a", amount_received: 4250 }, order)).toBe(true);
+    expect(isOrderPaidBy({ id: "pi_b", amount_received: 4250 }, order)).toBe(false);
+    expect(isOrderPaidBy({ id: "pi_a", amount_received: 4249 }, order)).toBe(false);
+    expect(isOrderPaidBy({ id: "pi_a", amount_received: 4250 }, { paymentIntentId: null, totalAmount: 42.5 })).toBe(false);
+  });
+});
+
+// Same scheme as Stripe: v1 is HMAC-SHA256 of "<timestamp>.<payload>"
+function signPayload(payload: string, secret: string): string {
+  const timestamp = Math.floor(Date.now() / 1000);
+  const signature = createHmac("sha256", secret).update(`${timestamp}.${payload}`).digest("hex");
+  return `t=${timestamp},v1=${signature}`;
+}
+
+describe("constructStripeEvent", () => {
+  const secret = "whsec_test_fixture_secret";
+
+  beforeAll(() => {
+    process.env.STRIPE_SECRET_KEY ||= "sk_test_fixture";
+  });
+
+  test("accepts a correctly signed payload", async () => {
+    const payload = await Bun.file(`${FIXTURES_DIR}/account.updated.json`).text();
+    const signature = signPayload(payload, secret);
+
+    const event = await constructStripeEvent(payload, signature, secret);
+    expect(event.type).toBe("account.updated");
+  });
+
+  test("rejects a payload that doesn't match the signature", async () => {
+    const payload = await Bun.file(`${FIXTURES_DIR}/account.updated.json`).text();
+    const signature = signPayload(payload, secret);
+
+    await expect(constructStripeEvent(payload.replace("true", "false"), signature, secret)).rejects.toThrow();
+  });
+});
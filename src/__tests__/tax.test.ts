@@ -0,0 +1,85 @@
+import { describe, expect, test } from "bun:test";
+import { calculateTax, findTaxRule } from "../tax";
+import type { TaxRule, TaxSettings } from "../tax";
+
+const rules: TaxRule[] = [
+  { id: "state", name: "State tax", taxCategory: null, orderType: null, rate: 0.06 },
+  { id: "togo", name: "To-go tax", taxCategory: null, orderType: "takeout", rate: 0.04 },
+  { id: "alcohol", name: "Liquor tax", taxCategory: "alcohol", orderType: null, rate: 0.1 },
+  { id: "grocery-togo", name: "Grocery to-go", taxCategory: "grocery", orderType: "takeout", rate: 0 },
+];
+
+const settings: TaxSettings = { rules, defaultRate: 0.08, inclusive: false };
+
+describe("findTaxRule", () => {
+  test("prefers category and order type, then category, then order type", () => {
+    expect(findTaxRule(rules, "grocery", "takeout")?.id).toBe("grocery-togo");
+    expect(findTaxRule(rules, "alcohol", "takeout")?.id).toBe("alcohol");
+    expect(findTaxRule(rules, "prepared_food", "takeout")?.id).toBe("togo");
+    expect(findTaxRule(rules, "prepared_food", "dine_in")?.id).toBe("state");
+  });
+
+  test("is null when no rule covers the line", () => {
+    expect(findTaxRule(rules.slice(1), "standard", "dine_in")).toBeNull();
+  });
+});
+
+describe("calculateTax", () => {
+  test("taxes each line at its own rate", () => {
+    const result = calculateTax({
+      lines: [
+        { taxCategory: "prepared_food", amount: 20 },
+        { taxCategory: "alcohol", amount: 10 },
+      ],
+      discount: 0,
+      orderType: "dine_in",
+      settings,
+    });
+    expect(result.lines.map(l => l.taxAmount)).toEqual([1.2, 1]);
+    expect(result.taxAmount).toBe(2.2);
+    expect(result.breakdown).toEqual([
+      { taxRuleId: "state", name: "State tax", rate: 0.06, taxableAmount: 20, taxAmount: 1.2 },
+      { taxRuleId: "alcohol", name: "Liquor tax", rate: 0.1, taxableAmount: 10, taxAmount: 1 },
+    ]);
+  });
+
+  test("spreads discounts over the lines before taxing", () => {
+    const result = calculateTax({
+      lines: [
+        { taxCategory: "prepared_food", amount: 30 },
+        { taxCategory: "alcohol", amount: 10 },
+      ],
+      discount: 8,
+      orderType: "dine_in",
+      settings,
+    });
+    // 6.00 off the food, 2.00 off the drink
+    expect(result.lines.map(l => l.taxableAmount)).toEqual([24, 8]);
+    expect(result.taxAmount).toBe(2.24);
+  });
+
+  test("uses the default rate without a rule and never taxes exempt items", () => {
+    const result = calculateTax({
+      lines: [
+        { taxCategory: "standard", amount: 10 },
+        { taxCategory: "exempt", amount: 5 },
+      ],
+      discount: 0,
+      orderType: "dine_in",
+      settings: { ...settings, rules: [] },
+    });
+    expect(result.lines[0]).toMatchObject({ taxRuleId: null, name: "Sales tax", rate: 0.08, taxAmount: 0.8 });
+    expect(result.lines[1]?.taxAmount).toBe(0);
+    expect(result.breakdown).toHaveLength(1);
+  });
+
+  test("takes tax out of tax-inclusive prices", () => {
+    const result = calculateTax({
+      lines: [{ taxCategory: "prepared_food", amount: 10.6 }],
+      discount: 0,
+      orderType: "dine_in",
+      settings: { ...settings, inclusive: true },
+    });
+    expect(result.lines[0]).toMatchObject({ taxableAmount: 10, taxAmount: 0.6 });
+  });
+});
@@ -0,0 +1,57 @@
+import { describe, expect, test } from "bun:test";
+import {
+  addDays,
+  getBusinessDate,
+  getBusinessDayBounds,
+  getBusinessMinutes,
+  getDayOfWeek,
+  getZonedParts,
+  zonedTimeToUtc,
+} from "../timezone";
+
+describe("business dates", () => {
+  test("the business day follows the business's timezone, not the server's", () => {
+    // Saturday evening in Los Angeles, already Sunday in UTC
+    const at = new Date("2026-03-15T03:00:00Z");
+    expect(getBusinessDate(at, "America/Los_Angeles")).toBe("2026-03-14");
+    expect(getZonedParts(at, "America/Los_Angeles").dayOfWeek).toBe(6);
+    expect(getBusinessDate(at, "UTC")).toBe("2026-03-15");
+    expect(getZonedParts(at, "UTC").dayOfWeek).toBe(0);
+  });
+
+  test("calendar dates have the same weekday everywhere", () => {
+    expect(getDayOfWeek("2026-03-14")).toBe(6);
+    expect(getDayOfWeek("2026-03-15")).toBe(0);
+    expect(addDays("2026-02-28", 1)).toBe("2026-03-01");
+    expect(addDays("2026-03-02", -7)).toBe("2026-02-23");
+  });
+});
+
+describe("DST transitions", () => {
+  test("the day clocks spring forward is 23 hours long", () => {
+    const { start, end } = getBusinessDayBounds("2026-03-08", "America/New_York");
+    expect(start.toISOString()).toBe("2026-03-08T05:00:00.000Z");
+    expect(end.toISOString()).toBe("2026-03-09T03:59:59.999Z");
+  });
+
+  test("the day clocks fall back is 25 hours long", () => {
+    const { start, end } = getBusinessDayBounds("2026-11-01", "America/New_York");
+    expect(start.toISOString()).toBe("2026-11-01T04:00:00.000Z");
+    expect(end.toISOString()).toBe("2026-11-02T04:59:59.999Z");
+  });
+
+  test("local times on either side of a change", () => {
+    expect(zonedTimeToUtc("2026-03-08", "01:30", "America/New_York").toISOString()).toBe("2026-03-08T06:30:00.000Z");
+    expect(zonedTimeToUtc("2026-03-08", "03:30", "America/New_York").toISOString()).toBe("2026-03-08T07:30:00.000Z");
+    expect(getBusinessMinutes(new Date("2026-03-08T07:30:00Z"), "America/New_York")).toBe(210);
+  });
+
+  test("a skipped time resolves past the jump", () => {
+    expect(zonedTimeToUtc("2026-03-08", "02:30", "America/New_York").toISOString()).toBe("2026-03-08T07:30:00.000Z");
+  });
+
+  test("a repeated time resolves to its first occurrence", () => {
+    expect(zonedTimeToUtc("2026-11-01", "01:30", "America/New_York").toISOString()).toBe("2026-11-01T05:30:00.000Z");
+    expect(zonedTimeToUtc("2026-11-01", "03:00", "America/New_York").toISOString()).toBe("2026-11-01T08:00:00.000Z");
+  });
+});
@@ -0,0 +1,86 @@
+import { describe, expect, test } from "bun:test";
+import { estimateWaits, moveEntry } from "../waitlist";
+import { getSeatingOptions, parseTimeToMinutes } from "../availability";
+import type { BookedReservation } from "../availability";
+
+const options = getSeatingOptions([
+  { id: "t2", capacityMin: 1, capacityMax: 2, section: "indoor" },
+  { id: "t4", capacityMin: 2, capacityMax: 4, section: "indoor" },
+]);
+
+const now = parseTimeToMinutes("19:00");
+
+function seated(tableId: string, start: string, durationMinutes = 90): BookedReservation {
+  return {
+    id: `r-${tableId}`,
+    startMinutes: parseTimeToMinutes(start),
+    durationMinutes,
+    partySize: 2,
+    tableIds: [tableId],
+    status: "seated",
+  };
+}
+
+describe("estimateWaits", () => {
+  test("quotes no wait when a fitting table is free", () => {
+    const waits = estimateWaits({ options, reservations: [], queue: [{ id: "a", partySize: 2 }], nowMinutes: now, turnMinutes: 90 });
+    expect(waits.get("a")).toBe(0);
+  });
+
+  test("waits for the seated party's planned duration to end", () => {
+    const waits = estimateWaits({
+      options,
+      reservations: [seated("t4", "18:00")],
+      queue: [{ id: "a", partySize: 4 }],
+      nowMinutes: now,
+      turnMinutes: 90,
+    });
+    expect(waits.get("a")).toBe(30);
+  });
+
+  test("parties ahead in the queue take tables first", () => {
+    const waits = estimateWaits({
+      options,
+      reservations: [seated("t4", "18:00")],
+      queue: [{ id: "a", partySize: 4 }, { id: "b", partySize: 3 }],
+      nowMinutes: now,
+      turnMinutes: 90,
+    });
+    expect(waits.get("a")).toBe(30);
+    expect(waits.get("b")).toBe(120);
+  });
+
+  test("upcoming assigned reservations block a table", () => {
+    const upcoming: BookedReservation = { ...seated("t2", "19:30"), status: "confirmed" };
+    const waits = estimateWaits({ options, reservations: [upcoming], queue: [{ id: "a", partySize: 2 }], nowMinutes: now, turnMinutes: 90 });
+    // t2 is booked at 19:30, so the 2-top has to use the free 4-top
+    expect(waits.get("a")).toBe(0);
+  });
+
+  test("returns null when no table can seat the party", () => {
+    const waits = estimateWaits({ options, reservations: [], queue: [{ id: "a", partySize: 9 }], nowMinutes: now, turnMinutes: 90 });
+    expect(waits.get("a")).toBeNull();
+  });
+
+  test("rounds quotes up to five minutes", () => {
+    const waits = estimateWaits({
+      options,
+      reservations: [seated("t4", "17:42"), seated("t2", "17:42")],
+      queue: [{ id: "a", partySize: 2 }],
+      nowMinutes: now,
+      turnMinutes: 90,
+    });
+    expect(waits.get("a")).toBe(15);
+  });
+});
+
+describe("moveEntry", () => {
+  test("moves an entry to a new position", () => {
+    expect(moveEntry(["a", "b", "c"], "c", 0)).toEqual(["c", "a", "b"]);
+    expect(moveEntry(["a", "b", "c"], "a", 5)).toEqual(["b", "c", "a"]);
+  });
+
+  test("leaves the queue alone for unknown entries", () => {
+    expect(moveEntry(["a", "b"], "x", 0)).toEqual(["a", "b"]);
+  });
+});
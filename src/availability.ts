@@ -0,0 +1,218 @@
+/**
+ * Table-aware availability engine.
+ * Pure functions over table inventory and the day's reservations; times are
+ * minutes since midnight on the reservation date.
+ */
+
+export type AvailabilityTable = {
+  id: string;
+  capacityMin: number;
+  capacityMax: number;
+  section: string | null;
+};
+
+// A group of tables that can be pushed together for one party
+export type AvailabilityCombination = {
+  id: string;
+  tableIds: string[];
+  capacityMin: number;
+  capacityMax: number;
+};
+
+export type BookedReservation = {
+  id: string;
+  startMinutes: number;
+  durationMinutes: number;
+  partySize: number;
+  tableIds: string[]; // empty when no table is assigned yet
+  status: string;
+};
+
+// A single table or a combination a party could be seated at
+export type SeatingOption = {
+  tableId: string | null;
+  combinationId: string | null;
+  tableIds: string[];
+  capacityMin: number;
+  capacityMax: number;
+  sections: string[];
+};
+
+export type SlotAvailability = {
+  available: boolean;
+  sections: string[];
+  tableIds: string[];
+};
+
+export type SeatingPreferences = {
+  section?: string; // only seat in this section
+  seatingPreference?: string; // prefer this section when there is a choice
+};
+
+// Reservation statuses that hold a table
+export const TABLE_HOLDING_STATUSES = ['pending_payment', 'pending', 'confirmed', 'seated'];
+
+export function parseTimeToMinutes(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  return (hours ?? 0) * 60 + (minutes ?? 0);
+}
+
+export function formatMinutes(totalMinutes: number): string {
+  const hours = Math.floor(totalMinutes / 60);
+  const minutes = totalMinutes % 60;
+  return `${hours.toString().padStart(2, '0')}:${minutes.toString().padStart(2, '0')}`;
+}
+
+export function optionFits(option: { capacityMin: number; capacityMax: number }, partySize: number): boolean {
+  return option.capacityMin <= partySize && partySize <= option.capacityMax;
+}
+
+/**
+ * Every way a party could be seated: each table on its own, plus each
+ * combination whose tables are all in the inventory.
+ */
+export function getSeatingOptions(
+  tables: AvailabilityTable[],
+  combinations: AvailabilityCombination[] = []
+): SeatingOption[] {
+  const tablesById = new Map(tables.map(t => [t.id, t]));
+  const sectionsOf = (ids: string[]) =>
+    [...new Set(ids.map(id => tablesById.get(id)?.section).filter((s): s is string => !!s))].sort();
+
+  const options: SeatingOption[] = tables.map(t => ({
+    tableId: t.id,
+    combinationId: null,
+    tableIds: [t.id],
+    capacityMin: t.capacityMin,
+    capacityMax: t.capacityMax,
+    sections: sectionsOf([t.id]),
+  }));
+
+  for (const combination of combinations) {
+    if (combination.tableIds.length === 0 || !combination.tableIds.every(id => tablesById.has(id))) continue;
+    options.push({
+      tableId: null,
+      combinationId: combination.id,
+      tableIds: combination.tableIds,
+      capacityMin: combination.capacityMin,
+      capacityMax: combination.capacityMax,
+      sections: sectionsOf(combination.tableIds),
+    });
+  }
+
+  return options;
+}
+
+/**
+ * The [start, end) window a reservation occupies. A party that is still
+ * seated past its planned duration keeps the table until `nowMinutes`.
+ */
+export function reservationWindow(
+  reservation: BookedReservation,
+  nowMinutes?: number
+): [number, number] {
+  let end = reservation.startMinutes + reservation.durationMinutes;
+  if (reservation.status === 'seated' && nowMinutes !== undefined) {
+    end = Math.max(end, nowMinutes);
+  }
+  return [reservation.startMinutes, end];
+}
+
+export function windowsOverlap(a: [number, number], b: [number, number]): boolean {
+  return a[0] < b[1] && b[0] < a[1];
+}
+
+/**
+ * Pick the best free option for a party: options in the preferred section
+ * first, then the smallest capacity, then the fewest tables.
+ */
+export function findBestFit(
+  options: SeatingOption[],
+  occupied: Set<string>,
+  partySize: number,
+  preferences: SeatingPreferences = {}
+): SeatingOption | null {
+  const section = preferences.section?.toLowerCase();
+  const preferred = preferences.seatingPreference?.toLowerCase();
+  const inSection = (option: SeatingOption, name: string) =>
+    option.sections.length > 0 && option.sections.every(s => s.toLowerCase() === name);
+
+  const candidates = options.filter(option =>
+    optionFits(option, partySize) &&
+    option.tableIds.every(id => !occupied.has(id)) &&
+    (!section || inSection(option, section))
+  );
+
+  candidates.sort((a, b) => {
+    if (preferred) {
+      const diff = Number(inSection(b, preferred)) - Number(inSection(a, preferred));
+      if (diff !== 0) return diff;
+    }
+    return a.capacityMax - b.capacityMax || a.tableIds.length - b.tableIds.length;
+  });
+
+  return candidates[0] ?? null;
+}
+
+/**
+ * Tables held during [start, end). Reservations with a table hold it directly;
+ * unassigned reservations are allocated their best fit (largest parties
+ * first), since they will need a table when they arrive.
+ */
+export function getOccupiedTableIds(
+  options: SeatingOption[],
+  reservations: BookedReservation[],
+  window: [number, number],
+  nowMinutes?: number
+): Set<string> {
+  const occupied = new Set<string>();
+  const unassigned: BookedReservation[] = [];
+
+  for (const reservation of reservations) {
+    if (!TABLE_HOLDING_STATUSES.includes(reservation.status)) continue;
+    if (!windowsOverlap(reservationWindow(reservation, nowMinutes), window)) continue;
+
+    if (reservation.tableIds.length > 0) {
+      reservation.tableIds.forEach(id => occupied.add(id));
+    } else {
+      unassigned.push(reservation);
+    }
+  }
+
+  unassigned.sort((a, b) => b.partySize - a.partySize);
+
+  for (const reservation of unassigned) {
+    const option = findBestFit(options, occupied, reservation.partySize);
+    option?.tableIds.forEach(id => occupied.add(id));
+  }
+
+  return occupied;
+}
+
+/**
+ * Whether a party can be seated for `durationMinutes` starting at `startMinutes`,
+ * and which sections have a fitting table (or combination) free.
+ */
+export function getSlotAvailability(params: {
+  tables: AvailabilityTable[];
+  combinations?: AvailabilityCombination[];
+  reservations: BookedReservation[];
+  startMinutes: number;
+  durationMinutes: number;
+  partySize: number;
+  nowMinutes?: number;
+}): SlotAvailability {
+  const options = getSeatingOptions(params.tables, params.combinations);
+  const window: [number, number] = [params.startMinutes, params.startMinutes + params.durationMinutes];
+  const occupied = getOccupiedTableIds(options, params.reservations, window, params.nowMinutes);
+
+  const freeOptions = options.filter(option =>
+    optionFits(option, params.partySize) && option.tableIds.every(id => !occupied.has(id))
+  );
+
+  return {
+    available: freeOptions.length > 0,
+    sections: [...new Set(freeOptions.flatMap(o => o.sections))].sort(),
+    tableIds: [...new Set(freeOptions.flatMap(o => o.tableIds))],
+  };
+}
@@ -0,0 +1,33 @@
+const TURNSTILE_VERIFY_URL = 'https://challenges.cloudflare.com/turnstile/v0/siteverify';
+
+// Whether guest requests must carry a CAPTCHA token
+export function isCaptchaEnabled(): boolean {
+  return !!process.env.TURNSTILE_SECRET_KEY;
+}
+
+/**
+ * Verify a Cloudflare Turnstile token from the storefront. Always passes
+ * when TURNSTILE_SECRET_KEY is not set; fails if Turnstile can't be reached.
+ */
+export async function verifyCaptcha(token: string | undefined, remoteIp?: string): Promise<boolean> {
+  const secret = process.env.TURNSTILE_SECRET_KEY;
+  if (!secret) return true;
+  if (!token) return false;
+
+  const form = new URLSearchParams({ secret, response: token });
+  if (remoteIp) form.set('remoteip', remoteIp);
+
+  try {
+    const response = await fetch(TURNSTILE_VERIFY_URL, { method: 'POST', body: form });
+    if (!response.ok) {
+      console.error('Turnstile verify error:', response.status);
+      return false;
+    }
+
+    const result = await response.json() as { success?: boolean };
+    return result.success === true;
+  } catch (err) {
+    console.error('Turnstile verify failed:', err);
+    return false;
+  }
+}
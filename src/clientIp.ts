@@ -0,0 +1,39 @@
+import type { Context } from 'hono';
+import { getConnInfo } from 'hono/bun';
+
+/**
+ * The client's IP address, for rate limiting and CAPTCHA checks. Every
+ * proxy in front of the API appends the address it received the request
+ * from to X-Forwarded-For, so only the last TRUSTED_PROXY_HOPS entries
+ * (default 1) can be trusted; anything to the left of them is whatever the
+ * client sent. With no proxies (0), the header is ignored.
+ */
+
+const DEFAULT_TRUSTED_PROXY_HOPS = 1;
+
+export function getTrustedProxyHops(): number {
+  const hops = Number(process.env.TRUSTED_PROXY_HOPS ?? DEFAULT_TRUSTED_PROXY_HOPS);
+  return Number.isInteger(hops) && hops >= 0 ? hops : DEFAULT_TRUSTED_PROXY_HOPS;
+}
+
+// The address the outermost trusted proxy saw, or null if there's none to use
+export function getForwardedClientIp(header: string | undefined, trustedHops: number): string | null {
+  if (!header || trustedHops <= 0) return null;
+
+  const hops = header.split(',').map(hop => hop.trim()).filter(Boolean);
+  if (hops.length === 0) return null;
+  return hops[Math.max(0, hops.length - trustedHops)] ?? null;
+}
+
+function getSocketIp(c: Context): string | null {
+  try {
+    return getConnInfo(c).remote.address ?? null;
+  } catch {
+    // Not served by Bun (e.g. app.request in tests)
+    return null;
+  }
+}
+
+export function getClientIp(c: Context): string | null {
+  return getForwardedClientIp(c.req.header('x-forwarded-for'), getTrustedProxyHops()) ?? getSocketIp(c);
+}
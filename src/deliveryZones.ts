@@ -0,0 +1,202 @@
+import { supabase } from './supabase';
+import type { DeliveryLocation, PolygonGeometry } from './types';
+
+/**
+ * Delivery zones: circles around the business (radius tiers) or GeoJSON
+ * polygons, each with a fee, minimum order and estimated time. A delivery
+ * address is quoted by the first zone containing it, in display order with
+ * smaller radii first. Businesses without zones charge their flat
+ * delivery_fee everywhere.
+ */
+
+export type DeliveryZoneType = 'radius' | 'polygon';
+
+export type DeliveryZone = {
+  id: string;
+  name: string;
+  zoneType: DeliveryZoneType;
+  radiusKm: number | null;
+  polygon: PolygonGeometry | null;
+  fee: number;
+  minimumOrder: number;
+  estimatedMinutes: number | null;
+  displayOrder: number;
+};
+
+export type DeliveryContext = {
+  zones: DeliveryZone[];
+  origin: DeliveryLocation | null; // the business's location, for radius zones
+  defaultFee: number;
+};
+
+export type DeliveryQuote =
+  | {
+      ok: true;
+      zone: DeliveryZone | null; // null when the business has no zones
+      fee: number;
+      minimumOrder: number;
+      estimatedMinutes: number | null;
+      distanceKm: number | null;
+    }
+  | {
+      ok: false;
+      code: 'DELIVERY_LOCATION_REQUIRED' | 'OUTSIDE_DELIVERY_AREA' | 'BELOW_DELIVERY_MINIMUM';
+      message: string;
+    };
+
+const EARTH_RADIUS_KM = 6371;
+const DEFAULT_DELIVERY_FEE = 5.00;
+
+export function mapDeliveryZoneRow(row: Record<string, any>): DeliveryZone {
+  return {
+    id: row.id,
+    name: row.name,
+    zoneType: row.zone_type,
+    radiusKm: row.radius_km !== null && row.radius_km !== undefined ? Number(row.radius_km) : null,
+    polygon: row.polygon ?? null,
+    fee: Number(row.fee ?? 0),
+    minimumOrder: Number(row.minimum_order ?? 0),
+    estimatedMinutes: row.estimated_minutes ?? null,
+    displayOrder: row.display_order ?? 0,
+  };
+}
+
+// Great-circle distance between two points
+export function getDistanceKm(a: DeliveryLocation, b: DeliveryLocation): number {
+  const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+  const dLat = toRadians(b.latitude - a.latitude);
+  const dLng = toRadians(b.longitude - a.longitude);
+  const h = Math.sin(dLat / 2) ** 2
+    + Math.cos(toRadians(a.latitude)) * Math.cos(toRadians(b.latitude)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.min(1, Math.sqrt(h)));
+}
+
+// Ray casting against one ring of [longitude, latitude] positions
+function isPointInRing(point: DeliveryLocation, ring: number[][]): boolean {
+  const x = point.longitude;
+  const y = point.latitude;
+  let inside = false;
+
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const [xi = 0, yi = 0] = ring[i] ?? [];
+    const [xj = 0, yj = 0] = ring[j] ?? [];
+    if ((yi > y) !== (yj > y) && x < ((xj - xi) * (y - yi)) / (yj - yi) + xi) {
+      inside = !inside;
+    }
+  }
+
+  return inside;
+}
+
+// Inside the polygon's outer ring and outside its holes
+export function isPointInPolygon(point: DeliveryLocation, geometry: PolygonGeometry): boolean {
+  const polygons = geometry.type === 'Polygon' ? [geometry.coordinates] : geometry.coordinates;
+  return polygons.some(([outer, ...holes]) =>
+    !!outer && isPointInRing(point, outer) && !holes.some(hole => isPointInRing(point, hole))
+  );
+}
+
+/**
+ * The zone a location falls in, or null if it's outside every zone. Radius
+ * zones need the business's location (`origin`).
+ */
+export function findDeliveryZone(
+  zones: DeliveryZone[],
+  origin: DeliveryLocation | null,
+  location: DeliveryLocation
+): DeliveryZone | null {
+  const distance = origin ? getDistanceKm(origin, location) : null;
+  const sorted = [...zones].sort((a, b) =>
+    a.displayOrder - b.displayOrder || (a.radiusKm ?? 0) - (b.radiusKm ?? 0)
+  );
+
+  return sorted.find(zone => {
+    if (zone.zoneType === 'radius') {
+      return distance !== null && zone.radiusKm !== null && distance <= zone.radiusKm;
+    }
+    return !!zone.polygon && isPointInPolygon(location, zone.polygon);
+  }) ?? null;
+}
+
+/**
+ * Quote delivery to `location`. With `subtotal`, orders under the zone's
+ * minimum are rejected.
+ */
+export function quoteDelivery(
+  context: DeliveryContext,
+  location: DeliveryLocation | undefined,
+  subtotal?: number
+): DeliveryQuote {
+  const distanceKm = location && context.origin
+    ? Math.round(getDistanceKm(context.origin, location) * 100) / 100
+    : null;
+
+  if (context.zones.length === 0) {
+    return { ok: true, zone: null, fee: context.defaultFee, minimumOrder: 0, estimatedMinutes: null, distanceKm };
+  }
+
+  if (!location) {
+    return {
+      ok: false,
+      code: 'DELIVERY_LOCATION_REQUIRED',
+      message: 'A delivery location (latitude and longitude) is required',
+    };
+  }
+
+  const zone = findDeliveryZone(context.zones, context.origin, location);
+  if (!zone) {
+    return { ok: false, code: 'OUTSIDE_DELIVERY_AREA', message: 'This address is outside the delivery area' };
+  }
+
+  if (subtotal !== undefined && subtotal < zone.minimumOrder) {
+    return {
+      ok: false,
+      code: 'BELOW_DELIVERY_MINIMUM',
+      message: `Delivery to ${zone.name} requires an order of at least ${zone.minimumOrder.toFixed(2)}`,
+    };
+  }
+
+  return {
+    ok: true,
+    zone,
+    fee: zone.fee,
+    minimumOrder: zone.minimumOrder,
+    estimatedMinutes: zone.estimatedMinutes,
+    distanceKm,
+  };
+}
+
+/**
+ * Load a business's active delivery zones, location and flat delivery fee.
+ * Returns null if the business doesn't exist.
+ */
+export async function getDeliveryContext(businessId: string): Promise<DeliveryContext | null> {
+  const [{ data: business }, { data: zones, error }] = await Promise.all([
+    supabase
+      .from('business_accounts')
+      .select('latitude, longitude, delivery_fee')
+      .eq('id', businessId)
+      .maybeSingle(),
+    supabase
+      .from('delivery_zones')
+      .select('*')
+      .eq('business_id', businessId)
+      .eq('is_active', true),
+  ]);
+
+  if (error) {
+    throw new Error(`Failed to load delivery zones: ${error.message}`);
+  }
+  if (!business) {
+    return null;
+  }
+
+  const hasLocation = business.latitude !== null && business.longitude !== null
+    && business.latitude !== undefined && business.longitude !== undefined;
+
+  return {
+    zones: (zones || []).map(mapDeliveryZoneRow),
+    origin: hasLocation ? { latitude: Number(business.latitude), longitude: Number(business.longitude) } : null,
+    defaultFee: Number(business.delivery_fee ?? DEFAULT_DELIVERY_FEE),
+  };
+}
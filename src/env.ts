@@ -15,6 +15,15 @@ const envSchema = z.object({
   SUPABASE_ANON_KEY: z.string().optional(),
   // AI (optional - required for /api/ai routes)
   XAI_API_KEY: z.string().optional(),
+  // Stripe (optional - required for /api/payments routes and reservation deposits)
+  STRIPE_SECRET_KEY: z.string().optional(),
+  STRIPE_WEBHOOK_SECRET: z.string().optional(),
+  // Platform fee taken from order payments, as a percentage of the total (default 0)
+  STRIPE_APPLICATION_FEE_PERCENT: z.string().regex(/^\d+(\.\d+)?$/, "STRIPE_APPLICATION_FEE_PERCENT must be a number").optional(),
+  // Proxies in front of the API that append to X-Forwarded-For (default 1; 0 to use the socket address)
+  TRUSTED_PROXY_HOPS: z.string().regex(/^\d+$/, "TRUSTED_PROXY_HOPS must be a whole number").optional(),
+  // Cloudflare Turnstile (optional - when set, public order submission requires a CAPTCHA token)
+  TURNSTILE_SECRET_KEY: z.string().optional(),
 });
 
 /**
@@ -0,0 +1,125 @@
+import type { Permission } from './middleware/authorize';
+
+export type BusinessEventType =
+  | 'order.created'
+  | 'order.status_changed'
+  | 'order.item_status_changed'
+  | 'order.payment_updated'
+  | 'reservation.created'
+  | 'reservation.updated'
+  | 'reservation.seated'
+  | 'waitlist.updated'
+  | 'waitlist.offered';
+
+export type BusinessEvent = {
+  id: string; // "<epoch>-<sequence>"; see nextEventId
+  type: BusinessEventType;
+  businessId: string;
+  data: unknown;
+  createdAt: string;
+};
+
+type Listener = (event: BusinessEvent) => void;
+
+// Permission a subscriber needs to receive each event type
+export const EVENT_PERMISSIONS: Record<BusinessEventType, Permission> = {
+  'order.created': 'orders:read',
+  'order.status_changed': 'orders:read',
+  'order.item_status_changed': 'orders:read',
+  'order.payment_updated': 'orders:read',
+  'reservation.created': 'reservations:read',
+  'reservation.updated': 'reservations:read',
+  'reservation.seated': 'reservations:read',
+  'waitlist.updated': 'reservations:read',
+  'waitlist.offered': 'reservations:read',
+};
+
+// Recent events kept per business for Last-Event-ID resume
+const REPLAY_BUFFER_SIZE = 500;
+
+const buffers = new Map<string, BusinessEvent[]>();
+const listeners = new Map<string, Set<Listener>>();
+
+// Event ids start over when the server restarts, so each is prefixed with
+// this process's start time: a Last-Event-ID from before a restart (or from
+// another instance) is recognised instead of matching unrelated events
+const EPOCH = Date.now().toString(36);
+let nextSequence = 1;
+
+function nextEventId(): string {
+  return `${EPOCH}-${nextSequence++}`;
+}
+
+// An event id's sequence number, or null if it wasn't issued by this process
+function getSequence(eventId: string): number | null {
+  const [epoch, sequence] = eventId.split('-');
+  if (epoch !== EPOCH || !sequence) return null;
+  const value = Number(sequence);
+  return Number.isInteger(value) ? value : null;
+}
+
+/**
+ * Publish an event to every subscriber of a business.
+ * The bus is in-process: subscribers only see events published by this
+ * server instance.
+ */
+export function publishEvent(businessId: string, type: BusinessEventType, data: unknown): BusinessEvent {
+  const event: BusinessEvent = {
+    id: nextEventId(),
+    type,
+    businessId,
+    data,
+    createdAt: new Date().toISOString(),
+  };
+
+  let buffer = buffers.get(businessId);
+  if (!buffer) {
+    buffer = [];
+    buffers.set(businessId, buffer);
+  }
+  buffer.push(event);
+  if (buffer.length > REPLAY_BUFFER_SIZE) {
+    buffer.shift();
+  }
+
+  for (const listener of listeners.get(businessId) ?? []) {
+    try {
+      listener(event);
+    } catch (error) {
+      console.error('Error delivering business event:', error);
+    }
+  }
+
+  return event;
+}
+
+/**
+ * Subscribe to a business's events. Returns an unsubscribe function.
+ */
+export function subscribeToEvents(businessId: string, listener: Listener): () => void {
+  let set = listeners.get(businessId);
+  if (!set) {
+    set = new Set();
+    listeners.set(businessId, set);
+  }
+  set.add(listener);
+
+  return () => {
+    set.delete(listener);
+    if (set.size === 0) {
+      listeners.delete(businessId);
+    }
+  };
+}
+
+/**
+ * Events published after `lastEventId` that are still in the replay buffer.
+ * Without an id, or with one this process didn't issue (from before a
+ * restart or another instance), there's nothing to replay and the client
+ * starts from live events.
+ */
+export function getEventsSince(businessId: string, lastEventId: string | undefined): BusinessEvent[] {
+  const after = lastEventId ? getSequence(lastEventId) : null;
+  if (after === null) return [];
+  return (buffers.get(businessId) ?? []).filter(event => (getSequence(event.id) ?? 0) > after);
+}
@@ -6,14 +6,22 @@ import { businessRouter } from "./routes/business";
 import { reservationsRouter } from "./routes/reservations";
 import { menuRoutes } from "./routes/menu";
 import { ordersRouter } from "./routes/orders";
+import { promotionsRouter } from "./routes/promotions";
 import { customersRouter } from "./routes/customers";
 import { analyticsRouter } from "./routes/analytics";
 import { aiRouter } from "./routes/ai";
 import { notificationsRouter } from "./routes/notifications";
 import { paymentsRouter } from "./routes/payments";
+import { kdsRouter } from "./routes/kds";
+import { eventsRouter, websocket } from "./routes/events";
 import { logger } from "hono/logger";
 import { requireAuth } from "./middleware/auth";
 import { rateLimiter } from "./middleware/rateLimiter";
+import { idempotency, purgeExpiredIdempotencyKeys } from "./middleware/idempotency";
+import { getClientIp } from "./clientIp";
+import { startLoyaltyMaintenanceJob } from "./loyaltyMaintenance";
+import { startScheduledOrderJob } from "./scheduledOrders";
+import { startReservationPaymentExpiryJob } from "./reservationPayments";
 
 const app = new Hono();
 
@@ -77,8 +85,11 @@ const PUBLIC_PATHS = [
   /^\/health$/,
   /^\/api\/sample/,
   /^\/api\/business\/slug\//,
-  /^\/api\/menu\/[^/]+\/public$/,
+  /^\/api\/menu\/[^/]+\/public(\/schedule)?$/,
   /^\/api\/reservations\/[^/]+\/availability$/,
+  /^\/api\/orders\/[^/]+\/delivery-quote$/,
+  /^\/api\/orders\/[^/]+\/public(\/|$)/,
+  /^\/api\/payments\/webhook$/,
 ];
 
 function isPublicPath(path: string): boolean {
@@ -101,11 +112,31 @@ app.use(
     limit: 10,
     keyGenerator: (c: any) => {
       const user = c.get("user");
-      return user?.id || c.req.header("x-forwarded-for") || "anonymous";
+      return user?.id || getClientIp(c) || "anonymous";
     },
   })
 );
 
+// Rate limit guest ordering per client: 10 orders per 10 minutes, and 60
+// slot or tracking lookups per minute
+function getClientKey(c: any): string {
+  return getClientIp(c) || "anonymous";
+}
+
+app.use(
+  "/api/orders/:businessId/public",
+  rateLimiter({ windowMs: 10 * 60 * 1000, limit: 10, keyGenerator: getClientKey })
+);
+
+app.use(
+  "/api/orders/:businessId/public/*",
+  rateLimiter({ windowMs: 60 * 1000, limit: 60, keyGenerator: getClientKey })
+);
+
+// Replay retried writes (orders, reservations, payment intents...) sent with an
+// Idempotency-Key, after rate limiting so replays still count against the limits
+app.use("/api/*", idempotency());
+
 // Health check
 app.get("/health", (c) => c.json({ status: "ok", version: "1.0.0" }));
 
@@ -115,15 +146,26 @@ app.route("/api/business", businessRouter);
 app.route("/api/reservations", reservationsRouter);
 app.route("/api/menu", menuRoutes);
 app.route("/api/orders", ordersRouter);
+app.route("/api/promotions", promotionsRouter);
 app.route("/api/customers", customersRouter);
 app.route("/api/analytics", analyticsRouter);
 app.route("/api/ai", aiRouter);
 app.route("/api/notifications", notificationsRouter);
 app.route("/api/payments", paymentsRouter);
+app.route("/api/kds", kdsRouter);
+app.route("/api/events", eventsRouter);
+
+if (process.env.NODE_ENV !== "test") {
+  startLoyaltyMaintenanceJob();
+  startScheduledOrderJob();
+  startReservationPaymentExpiryJob();
+  setInterval(purgeExpiredIdempotencyKeys, 60 * 60 * 1000);
+}
 
 const port = Number(process.env.PORT) || 3000;
 
 export default {
   port,
   fetch: app.fetch,
+  websocket,
 };
@@ -0,0 +1,408 @@
+import { supabase } from './supabase';
+
+// Tier for a lifetime points total, given the business's tier_thresholds setting
+export function getLoyaltyTier(tierThresholds: unknown, lifetimeEarned: number): string {
+  if (!tierThresholds) return 'bronze';
+  const thresholds = (typeof tierThresholds === 'string'
+    ? JSON.parse(tierThresholds)
+    : tierThresholds) as Record<string, number>;
+  if (thresholds.platinum && lifetimeEarned >= thresholds.platinum) return 'platinum';
+  if (thresholds.gold && lifetimeEarned >= thresholds.gold) return 'gold';
+  if (thresholds.silver && lifetimeEarned >= thresholds.silver) return 'silver';
+  return 'bronze';
+}
+
+const TIER_ORDER = ['bronze', 'silver', 'gold', 'platinum'];
+
+export function getTierRank(tier: string | null | undefined): number {
+  return Math.max(0, TIER_ORDER.indexOf(tier ?? 'bronze'));
+}
+
+// Points earned since `since`, which is what tiers are held on when the
+// business requalifies tiers over a rolling window
+export async function getRollingEarnedPoints(loyaltyPointsId: string, since: Date): Promise<number> {
+  const { data: earned } = await supabase
+    .from('loyalty_transactions')
+    .select('points')
+    .eq('loyalty_points_id', loyaltyPointsId)
+    .eq('transaction_type', 'earned')
+    .gte('created_at', since.toISOString());
+
+  return (earned || []).reduce((sum, t) => sum + (t.points || 0), 0);
+}
+
+// Start of the rolling window for tier qualification
+export function getTierWindowStart(now: Date, months: number): Date {
+  const start = new Date(now);
+  start.setMonth(start.getMonth() - months);
+  return start;
+}
+
+export type LoyaltyLedgerFunction =
+  | 'earn_loyalty_points'
+  | 'redeem_loyalty_points'
+  | 'adjust_loyalty_points'
+  | 'expire_loyalty_points'
+  | 'reverse_loyalty_points'
+  | 'restore_redeemed_points';
+
+export type LoyaltyLedgerResult =
+  | { ok: true; loyaltyPoints: Record<string, any> | null }
+  | { ok: false; code: 'INSUFFICIENT_POINTS' | 'NOT_FOUND' | 'DB_ERROR'; message: string };
+
+/**
+ * Apply a balance change through one of the ledger functions, which update
+ * loyalty_points and write the loyalty_transactions row in one transaction.
+ * `loyaltyPoints` is the updated row, or null when the function made no
+ * change (e.g. an order that already earned its points).
+ */
+export async function callLoyaltyLedger(
+  fn: LoyaltyLedgerFunction,
+  params: Record<string, unknown>
+): Promise<LoyaltyLedgerResult> {
+  const { data, error } = await supabase.rpc(fn, params);
+
+  if (error) {
+    if (error.message === 'INSUFFICIENT_POINTS') {
+      return { ok: false, code: 'INSUFFICIENT_POINTS', message: 'Insufficient points' };
+    }
+    if (error.message === 'NOT_FOUND') {
+      return { ok: false, code: 'NOT_FOUND', message: 'Loyalty record not found' };
+    }
+    return { ok: false, code: 'DB_ERROR', message: error.message };
+  }
+
+  // A NULL composite comes back as a row of nulls
+  const row = Array.isArray(data) ? data[0] : data;
+  return { ok: true, loyaltyPoints: row?.id ? row : null };
+}
+
+// Helper to award loyalty points for completed orders
+export async function awardLoyaltyPoints(order: {
+  id: string;
+  businessId: string;
+  totalAmount: number;
+  customerEmail?: string | null;
+  customerPhone?: string | null;
+  customerName: string;
+}) {
+  // Check if loyalty program is enabled
+  const { data: loyaltySettings, error: settingsError } = await supabase
+    .from('loyalty_settings')
+    .select('*')
+    .eq('business_id', order.businessId)
+    .single();
+
+  if (settingsError || !loyaltySettings?.is_enabled) {
+    return null;
+  }
+
+  // Check minimum spend requirement
+  if (loyaltySettings.minimum_spend && order.totalAmount < loyaltySettings.minimum_spend) {
+    return null;
+  }
+
+  // Find or create customer
+  let customer = null;
+
+  if (order.customerEmail) {
+    const { data: customerByEmail } = await supabase
+      .from('customers')
+      .select('*')
+      .eq('business_id', order.businessId)
+      .eq('email', order.customerEmail)
+      .single();
+    customer = customerByEmail;
+  }
+
+  if (!customer && order.customerPhone) {
+    const { data: customerByPhone } = await supabase
+      .from('customers')
+      .select('*')
+      .eq('business_id', order.businessId)
+      .eq('phone', order.customerPhone)
+      .single();
+    customer = customerByPhone;
+  }
+
+  // If no customer exists, create one
+  if (!customer) {
+    const nameParts = order.customerName.split(' ');
+    const firstName = nameParts[0] || 'Guest';
+    const lastName = nameParts.slice(1).join(' ') || '';
+
+    const { data: newCustomer, error: createError } = await supabase
+      .from('customers')
+      .insert({
+        business_id: order.businessId,
+        first_name: firstName,
+        last_name: lastName,
+        email: order.customerEmail,
+        phone: order.customerPhone,
+        source: 'order',
+      })
+      .select()
+      .single();
+
+    if (createError) {
+      return null;
+    }
+    customer = newCustomer;
+  }
+
+  // Calculate points to award
+  const pointsToAward = Math.floor(order.totalAmount * loyaltySettings.points_per_dollar);
+
+  if (pointsToAward <= 0) {
+    return null;
+  }
+
+  const earned = await callLoyaltyLedger('earn_loyalty_points', {
+    p_customer_id: customer.id,
+    p_business_id: order.businessId,
+    p_points: pointsToAward,
+    p_order_id: order.id,
+    p_description: `Earned from order (${order.totalAmount.toFixed(2)})`,
+  });
+
+  // Already awarded for this order, or the ledger update failed
+  if (!earned.ok || !earned.loyaltyPoints) {
+    return null;
+  }
+
+  const loyaltyPoints = earned.loyaltyPoints;
+  const newBalance = loyaltyPoints.points_balance || 0;
+
+  // Determine new tier based on lifetime points, or on the rolling window
+  // when tiers are requalified (earning only ever raises the tier; the
+  // maintenance job handles downgrades)
+  let newTier = getLoyaltyTier(loyaltySettings.tier_thresholds, loyaltyPoints.lifetime_earned || 0);
+  if (loyaltySettings.tier_requalify_months) {
+    const windowStart = getTierWindowStart(new Date(), loyaltySettings.tier_requalify_months);
+    const rollingEarned = await getRollingEarnedPoints(loyaltyPoints.id, windowStart);
+    const qualified = getLoyaltyTier(loyaltySettings.tier_thresholds, rollingEarned);
+    newTier = getTierRank(qualified) > getTierRank(loyaltyPoints.tier) ? qualified : loyaltyPoints.tier || 'bronze';
+  }
+
+  if (newTier !== loyaltyPoints.tier) {
+    await supabase
+      .from('loyalty_points')
+      .update({ tier: newTier })
+      .eq('id', loyaltyPoints.id);
+  }
+
+  // Record customer activity
+  await supabase
+    .from('customer_activities')
+    .insert({
+      customer_id: customer.id,
+      business_id: order.businessId,
+      activity_type: 'loyalty_earned',
+      order_id: order.id,
+      amount: pointsToAward,
+      description: `Earned ${pointsToAward} points from order`,
+    });
+
+  // Update customer stats
+  const newTotalVisits = (customer.total_visits || 0) + 1;
+  const newTotalSpent = (customer.total_spent || 0) + order.totalAmount;
+  const newAverageSpend = newTotalSpent / newTotalVisits;
+
+  await supabase
+    .from('customers')
+    .update({
+      total_visits: newTotalVisits,
+      total_spent: newTotalSpent,
+      average_spend: newAverageSpend,
+      last_visit_at: new Date().toISOString(),
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', customer.id);
+
+  return {
+    customerId: customer.id,
+    pointsAwarded: pointsToAward,
+    newBalance,
+    tier: newTier,
+  };
+}
+
+/**
+ * Points to take back after refunding part of an order: the share of the
+ * points earned that matches the share of the order refunded so far, less
+ * what earlier refunds already reversed. A full refund reverses everything.
+ */
+export function calculatePointsToReverse(params: {
+  pointsEarned: number;
+  pointsReversed: number;
+  orderTotal: number;
+  refundedTotal: number;
+}): number {
+  const { pointsEarned, pointsReversed, orderTotal, refundedTotal } = params;
+  if (pointsEarned <= 0 || orderTotal <= 0) return 0;
+
+  const target = refundedTotal >= orderTotal
+    ? pointsEarned
+    : Math.floor(pointsEarned * refundedTotal / orderTotal);
+  return Math.max(0, target - pointsReversed);
+}
+
+// Undo what awardLoyaltyPoints did for the refunded part of an order:
+// reverse the matching points and take the amount off the customer's spend.
+// Orders that earned no points never added to the customer's spend either.
+export async function reverseLoyaltyPoints(order: {
+  id: string;
+  businessId: string;
+  totalAmount: number;
+  refundAmount: number;
+  refundedTotal: number; // including this refund
+}) {
+  const { data: transactions } = await supabase
+    .from('loyalty_transactions')
+    .select('loyalty_points_id, transaction_type, points')
+    .eq('order_id', order.id);
+
+  const earned = (transactions || []).filter(t => t.transaction_type === 'earned');
+  const pointsEarned = earned.reduce((sum, t) => sum + t.points, 0);
+  if (earned.length === 0 || pointsEarned <= 0) {
+    return null;
+  }
+
+  const pointsReversed = (transactions || [])
+    .filter(t => t.transaction_type === 'adjusted' && t.points < 0)
+    .reduce((sum, t) => sum - t.points, 0);
+
+  const pointsToReverse = calculatePointsToReverse({
+    pointsEarned,
+    pointsReversed,
+    orderTotal: order.totalAmount,
+    refundedTotal: order.refundedTotal,
+  });
+
+  let { data: loyaltyPoints } = await supabase
+    .from('loyalty_points')
+    .select('*')
+    .eq('id', earned[0]!.loyalty_points_id)
+    .single();
+
+  if (!loyaltyPoints) {
+    return null;
+  }
+
+  if (pointsToReverse > 0) {
+    const reversed = await callLoyaltyLedger('reverse_loyalty_points', {
+      p_order_id: order.id,
+      p_points: pointsToReverse,
+      p_description: `Reversed for refund (${order.refundAmount.toFixed(2)})`,
+    });
+
+    if (!reversed.ok || !reversed.loyaltyPoints) {
+      return null;
+    }
+    loyaltyPoints = reversed.loyaltyPoints;
+
+    const { data: loyaltySettings } = await supabase
+      .from('loyalty_settings')
+      .select('tier_thresholds')
+      .eq('business_id', order.businessId)
+      .single();
+
+    const newTier = getLoyaltyTier(loyaltySettings?.tier_thresholds, loyaltyPoints.lifetime_earned || 0);
+    if (newTier !== loyaltyPoints.tier) {
+      await supabase
+        .from('loyalty_points')
+        .update({ tier: newTier })
+        .eq('id', loyaltyPoints.id);
+    }
+  }
+
+  const newBalance = loyaltyPoints.points_balance || 0;
+
+  // Update customer stats
+  const { data: customer } = await supabase
+    .from('customers')
+    .select('id, total_spent, total_visits')
+    .eq('id', loyaltyPoints.customer_id)
+    .single();
+
+  if (customer) {
+    const newTotalSpent = Math.max(0, (customer.total_spent || 0) - order.refundAmount);
+    await supabase
+      .from('customers')
+      .update({
+        total_spent: newTotalSpent,
+        average_spend: customer.total_visits ? newTotalSpent / customer.total_visits : 0,
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', customer.id);
+  }
+
+  return {
+    customerId: loyaltyPoints.customer_id,
+    pointsReversed: pointsToReverse,
+    newBalance,
+  };
+}
+
+export type RedemptionResult =
+  | { ok: true; points: number; discount: number }
+  | { ok: false; code: 'INVALID_REDEMPTION' | 'INSUFFICIENT_POINTS' | 'REDEMPTION_LIMIT_EXCEEDED'; message: string };
+
+/**
+ * Price a points redemption against an order. Points are spent in whole
+ * rewards of `pointsPerReward`, each worth `rewardValue`, and the discount
+ * may not exceed `maxRedemptionPercent` of `orderAmount`.
+ */
+export function calculateRedemption(params: {
+  points: number;
+  balance: number;
+  pointsPerReward: number;
+  rewardValue: number;
+  maxRedemptionPercent: number;
+  orderAmount: number;
+}): RedemptionResult {
+  const { points, balance, pointsPerReward, rewardValue, maxRedemptionPercent, orderAmount } = params;
+
+  if (pointsPerReward <= 0 || points <= 0 || points % pointsPerReward !== 0) {
+    return {
+      ok: false,
+      code: 'INVALID_REDEMPTION',
+      message: `Points are redeemed in multiples of ${pointsPerReward}`,
+    };
+  }
+
+  if (points > balance) {
+    return { ok: false, code: 'INSUFFICIENT_POINTS', message: 'Insufficient points' };
+  }
+
+  const discount = Math.round((points / pointsPerReward) * rewardValue * 100) / 100;
+  const maxDiscount = orderAmount * maxRedemptionPercent / 100;
+
+  if (discount > maxDiscount + 0.000001) {
+    const maxRewards = rewardValue > 0 ? Math.floor(maxDiscount / rewardValue + 1e-9) : 0;
+    return {
+      ok: false,
+      code: 'REDEMPTION_LIMIT_EXCEEDED',
+      message: `At most ${maxRewards * pointsPerReward} points can be redeemed on this order`,
+    };
+  }
+
+  return { ok: true, points, discount };
+}
+
+// Return the points redeemed on an order when it is cancelled
+export async function restoreRedeemedPoints(order: { id: string; businessId: string }) {
+  const restored = await callLoyaltyLedger('restore_redeemed_points', {
+    p_order_id: order.id,
+    p_description: 'Restored points from cancelled order',
+  });
+
+  if (!restored.ok || !restored.loyaltyPoints) {
+    return null;
+  }
+
+  return {
+    customerId: restored.loyaltyPoints.customer_id,
+    newBalance: restored.loyaltyPoints.points_balance,
+  };
+}
@@ -0,0 +1,369 @@
+import { supabase } from './supabase';
+import { callLoyaltyLedger, getLoyaltyTier, getTierRank, getTierWindowStart } from './loyalty';
+
+/**
+ * Loyalty upkeep: expiring points `points_expire_days` after they were
+ * earned (oldest points are spent first), and requalifying tiers once a year
+ * on the points earned over the last `tier_requalify_months`, with an
+ * optional grace period before a downgrade. Runs on a schedule and from
+ * POST /api/customers/:businessId/loyalty/expire, which can dry-run it.
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const PAGE_SIZE = 1000;
+const JOB_INTERVAL_MS = DAY_MS;
+
+export type LoyaltyLedgerEntry = {
+  transaction_type: string;
+  points: number;
+  created_at: string;
+};
+
+export type TierChange = 'none' | 'upgraded' | 'downgraded' | 'grace_started' | 'in_grace';
+
+export type TierReview = {
+  tier: string;
+  graceUntil: string | null;
+  change: TierChange;
+};
+
+export type LoyaltyMaintenanceReport = {
+  businessId: string;
+  dryRun: boolean;
+  asOf: string;
+  pointsExpired: number;
+  expirations: Array<{
+    customerId: string;
+    customerName: string | null;
+    points: number;
+    balanceBefore: number;
+    balanceAfter: number;
+  }>;
+  tierChanges: Array<{
+    customerId: string;
+    customerName: string | null;
+    fromTier: string;
+    toTier: string;
+    rollingEarned: number;
+    change: TierChange;
+    graceUntil: string | null;
+  }>;
+  // Members whose balance changed while the job ran; they are picked up next run
+  skipped: number;
+};
+
+export type LoyaltyMaintenanceResult =
+  | { ok: true; report: LoyaltyMaintenanceReport }
+  | { ok: false; code: 'LOYALTY_DISABLED' | 'DB_ERROR'; message: string };
+
+/**
+ * Points that have expired by `now`. Earned points (and positive
+ * adjustments) form lots; redemptions, negative adjustments and earlier
+ * expirations use up the oldest lots first. Whatever is left of a lot older
+ * than `expireDays` expires, never more than the current balance.
+ */
+export function calculateExpiringPoints(
+  transactions: LoyaltyLedgerEntry[],
+  expireDays: number,
+  now: Date,
+  balance: number
+): number {
+  const sorted = [...transactions].sort((a, b) => a.created_at.localeCompare(b.created_at));
+  const lots: Array<{ earnedAt: number; remaining: number }> = [];
+
+  for (const t of sorted) {
+    if (t.points > 0) {
+      lots.push({ earnedAt: new Date(t.created_at).getTime(), remaining: t.points });
+      continue;
+    }
+
+    let debit = -t.points;
+    for (const lot of lots) {
+      if (debit <= 0) break;
+      const used = Math.min(lot.remaining, debit);
+      lot.remaining -= used;
+      debit -= used;
+    }
+  }
+
+  const cutoff = now.getTime() - expireDays * DAY_MS;
+  const expiring = lots
+    .filter(lot => lot.earnedAt <= cutoff)
+    .reduce((sum, lot) => sum + lot.remaining, 0);
+
+  return Math.max(0, Math.min(expiring, balance));
+}
+
+// A member's tier is reviewed once a year from when they joined (or were
+// last reviewed), and again when a grace period runs out
+export function isTierReviewDue(
+  row: { created_at: string; tier_reviewed_at?: string | null; tier_grace_until?: string | null },
+  now: Date
+): boolean {
+  if (row.tier_grace_until) {
+    return now >= new Date(row.tier_grace_until);
+  }
+  const anniversary = new Date(row.tier_reviewed_at ?? row.created_at);
+  anniversary.setFullYear(anniversary.getFullYear() + 1);
+  return now >= anniversary;
+}
+
+/**
+ * Requalify a tier. Members who still qualify keep it (or move up); members
+ * who don't are given `graceDays` to earn it back before dropping to the
+ * tier they qualify for.
+ */
+export function reviewTier(params: {
+  currentTier: string;
+  qualifiedTier: string;
+  graceUntil: string | null;
+  graceDays: number;
+  now: Date;
+}): TierReview {
+  const { currentTier, qualifiedTier, graceUntil, graceDays, now } = params;
+
+  if (getTierRank(qualifiedTier) >= getTierRank(currentTier)) {
+    return {
+      tier: qualifiedTier,
+      graceUntil: null,
+      change: getTierRank(qualifiedTier) > getTierRank(currentTier) ? 'upgraded' : 'none',
+    };
+  }
+
+  if (graceUntil && now < new Date(graceUntil)) {
+    return { tier: currentTier, graceUntil, change: 'in_grace' };
+  }
+
+  if (!graceUntil && graceDays > 0) {
+    return {
+      tier: currentTier,
+      graceUntil: new Date(now.getTime() + graceDays * DAY_MS).toISOString(),
+      change: 'grace_started',
+    };
+  }
+
+  return { tier: qualifiedTier, graceUntil: null, change: 'downgraded' };
+}
+
+// Read every row of a query a page at a time
+async function fetchAll(
+  query: (from: number, to: number) => PromiseLike<{ data: any[] | null; error: { message: string } | null }>
+): Promise<any[]> {
+  const rows: any[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await query(from, from + PAGE_SIZE - 1);
+    if (error) {
+      throw new Error(error.message);
+    }
+    rows.push(...(data || []));
+    if (!data || data.length < PAGE_SIZE) {
+      return rows;
+    }
+  }
+}
+
+/**
+ * Expire points and requalify tiers for one business. With `dryRun` nothing
+ * is written and the report lists who would be affected as of `asOf`.
+ */
+export async function runLoyaltyMaintenance(
+  businessId: string,
+  opts: { dryRun?: boolean; asOf?: Date } = {}
+): Promise<LoyaltyMaintenanceResult> {
+  const dryRun = opts.dryRun ?? false;
+  const now = opts.asOf ?? new Date();
+
+  const { data: settings } = await supabase
+    .from('loyalty_settings')
+    .select('*')
+    .eq('business_id', businessId)
+    .maybeSingle();
+
+  if (!settings?.is_enabled) {
+    return { ok: false, code: 'LOYALTY_DISABLED', message: 'Loyalty program is not enabled' };
+  }
+
+  const expireDays: number | null = settings.points_expire_days ?? null;
+  const requalifyMonths: number | null = settings.tier_requalify_months ?? null;
+  const graceDays: number = settings.tier_grace_days ?? 0;
+
+  const report: LoyaltyMaintenanceReport = {
+    businessId,
+    dryRun,
+    asOf: now.toISOString(),
+    pointsExpired: 0,
+    expirations: [],
+    tierChanges: [],
+    skipped: 0,
+  };
+
+  if (!expireDays && !requalifyMonths) {
+    return { ok: true, report };
+  }
+
+  let members: any[];
+  let customers: any[];
+  let transactions: any[];
+  try {
+    [members, customers, transactions] = await Promise.all([
+      fetchAll((from, to) => supabase
+        .from('loyalty_points')
+        .select('*')
+        .eq('business_id', businessId)
+        .order('id')
+        .range(from, to)),
+      fetchAll((from, to) => supabase
+        .from('customers')
+        .select('id, first_name, last_name')
+        .eq('business_id', businessId)
+        .order('id')
+        .range(from, to)),
+      fetchAll((from, to) => supabase
+        .from('loyalty_transactions')
+        .select('loyalty_points_id, transaction_type, points, created_at')
+        .eq('business_id', businessId)
+        .order('created_at')
+        .order('id')
+        .range(from, to)),
+    ]);
+  } catch (error) {
+    return { ok: false, code: 'DB_ERROR', message: (error as Error).message };
+  }
+
+  const customerNames = new Map(customers.map(c => [c.id, `${c.first_name ?? ''} ${c.last_name ?? ''}`.trim() || null]));
+  const ledgers = new Map<string, LoyaltyLedgerEntry[]>();
+  for (const t of transactions) {
+    const ledger = ledgers.get(t.loyalty_points_id) ?? [];
+    ledger.push(t);
+    ledgers.set(t.loyalty_points_id, ledger);
+  }
+
+  const windowStart = requalifyMonths ? getTierWindowStart(now, requalifyMonths) : null;
+
+  for (const member of members) {
+    const ledger = ledgers.get(member.id) ?? [];
+    const customerName = customerNames.get(member.customer_id) ?? null;
+    const balance = member.points_balance || 0;
+    const tierUpdate: Record<string, unknown> = {};
+    const expiring = expireDays ? calculateExpiringPoints(ledger, expireDays, now, balance) : 0;
+
+    let tierChange: LoyaltyMaintenanceReport['tierChanges'][number] | null = null;
+    if (windowStart && isTierReviewDue(member, now)) {
+      const rollingEarned = ledger
+        .filter(t => t.transaction_type === 'earned' && new Date(t.created_at) >= windowStart && new Date(t.created_at) <= now)
+        .reduce((sum, t) => sum + t.points, 0);
+      const review = reviewTier({
+        currentTier: member.tier || 'bronze',
+        qualifiedTier: getLoyaltyTier(settings.tier_thresholds, rollingEarned),
+        graceUntil: member.tier_grace_until ?? null,
+        graceDays,
+        now,
+      });
+
+      tierUpdate.tier = review.tier;
+      tierUpdate.tier_grace_until = review.graceUntil;
+      tierUpdate.tier_reviewed_at = now.toISOString();
+      if (review.change !== 'none') {
+        tierChange = {
+          customerId: member.customer_id,
+          customerName,
+          fromTier: member.tier || 'bronze',
+          toTier: review.tier,
+          rollingEarned,
+          change: review.change,
+          graceUntil: review.graceUntil,
+        };
+      }
+    }
+
+    if (!dryRun) {
+      if (expiring > 0) {
+        // Skipped if the balance moved since it was read, so points spent
+        // while the job ran aren't expired too
+        const expired = await callLoyaltyLedger('expire_loyalty_points', {
+          p_loyalty_points_id: member.id,
+          p_points: expiring,
+          p_expected_balance: balance,
+          p_description: `${expiring} points expired after ${expireDays} days`,
+        });
+
+        if (!expired.ok || !expired.loyaltyPoints) {
+          report.skipped += 1;
+          continue;
+        }
+      }
+
+      if (Object.keys(tierUpdate).length > 0) {
+        await supabase
+          .from('loyalty_points')
+          .update({ ...tierUpdate, updated_at: new Date().toISOString() })
+          .eq('id', member.id);
+      }
+    }
+
+    if (expiring > 0) {
+      report.pointsExpired += expiring;
+      report.expirations.push({
+        customerId: member.customer_id,
+        customerName,
+        points: expiring,
+        balanceBefore: balance,
+        balanceAfter: balance - expiring,
+      });
+    }
+    if (tierChange) {
+      report.tierChanges.push(tierChange);
+    }
+  }
+
+  return { ok: true, report };
+}
+
+// Run maintenance for every business that expires points or requalifies tiers
+export async function runScheduledLoyaltyMaintenance(): Promise<void> {
+  const { data: businesses, error } = await supabase
+    .from('loyalty_settings')
+    .select('business_id')
+    .eq('is_enabled', true)
+    .or('points_expire_days.not.is.null,tier_requalify_months.not.is.null');
+
+  if (error) {
+    console.error('Error loading loyalty settings for maintenance:', error);
+    return;
+  }
+
+  for (const { business_id: businessId } of businesses || []) {
+    try {
+      const result = await runLoyaltyMaintenance(businessId);
+      if (!result.ok) {
+        console.error(`Loyalty maintenance failed for ${businessId}:`, result.message);
+      } else if (result.report.pointsExpired > 0 || result.report.tierChanges.length > 0) {
+        console.log(
+          `Loyalty maintenance for ${businessId}: ${result.report.pointsExpired} points expired, ` +
+          `${result.report.tierChanges.length} tier changes`
+        );
+      }
+    } catch (err) {
+      console.error(`Loyalty maintenance failed for ${businessId}:`, err);
+    }
+  }
+}
+
+/**
+ * Run loyalty maintenance daily. Runs never overlap; if one is still going
+ * when the next is due, the next is skipped.
+ */
+export function startLoyaltyMaintenanceJob(intervalMs = JOB_INTERVAL_MS) {
+  let running = false;
+  const run = async () => {
+    if (running) return;
+    running = true;
+    try {
+      await runScheduledLoyaltyMaintenance();
+    } finally {
+      running = false;
+    }
+  };
+
+  return setInterval(run, intervalMs);
+}
@@ -0,0 +1,95 @@
+import { parseTimeToMinutes } from './availability';
+import { parseJsonField } from './utils';
+import { DEFAULT_TIMEZONE, getZonedParts } from './timezone';
+
+/**
+ * Menu dayparts. A category can be limited to a time window
+ * (availableStartTime-availableEndTime, "HH:mm" in the business's
+ * timezone; windows that end before they start run past midnight) and to
+ * days of the week (0 = Sunday). Outside its schedule a category's items
+ * are hidden from the time-filtered public menu and can't be ordered.
+ */
+
+export type CategorySchedule = {
+  availableStartTime: string | null;
+  availableEndTime: string | null;
+  availableDays: number[] | null;
+};
+
+export type Daypart = {
+  startTime: string | null; // null for categories available all day
+  endTime: string | null;
+  days: number[] | null; // null for every day
+  categories: Array<{ id: string; name: string }>;
+};
+
+// "HH:mm" from a time column, which may come back as "HH:mm:ss"
+function toHoursMinutes(time: string | null | undefined): string | null {
+  return time ? time.slice(0, 5) : null;
+}
+
+export function mapCategorySchedule(row: Record<string, any>): CategorySchedule {
+  const days = Array.isArray(row.available_days)
+    ? row.available_days
+    : parseJsonField<number[]>(row.available_days);
+
+  return {
+    availableStartTime: toHoursMinutes(row.available_start_time),
+    availableEndTime: toHoursMinutes(row.available_end_time),
+    availableDays: days && days.length > 0 ? [...days].sort((a, b) => a - b) : null,
+  };
+}
+
+// Whether a category's items can be ordered at `minutes` past midnight on
+// `dayOfWeek`. The hours after midnight of a window that runs past it
+// belong to the day the window started.
+export function isCategoryAvailable(schedule: CategorySchedule, dayOfWeek: number, minutes: number): boolean {
+  const isAvailableOn = (day: number) =>
+    !schedule.availableDays || schedule.availableDays.length === 0 || schedule.availableDays.includes(day);
+
+  if (!schedule.availableStartTime || !schedule.availableEndTime) {
+    return isAvailableOn(dayOfWeek);
+  }
+
+  const start = parseTimeToMinutes(schedule.availableStartTime);
+  const end = parseTimeToMinutes(schedule.availableEndTime);
+  if (start <= end) {
+    return isAvailableOn(dayOfWeek) && minutes >= start && minutes < end;
+  }
+  if (minutes >= start) {
+    return isAvailableOn(dayOfWeek);
+  }
+  return minutes < end && isAvailableOn((dayOfWeek + 6) % 7);
+}
+
+// Whether a category's items can be ordered at `at`, in the business's timezone
+export function isCategoryAvailableAt(schedule: CategorySchedule, at: Date, timeZone: string = DEFAULT_TIMEZONE): boolean {
+  const { dayOfWeek, hour, minute } = getZonedParts(at, timeZone);
+  return isCategoryAvailable(schedule, dayOfWeek, hour * 60 + minute);
+}
+
+/**
+ * Group categories that share a schedule into dayparts, ordered by start
+ * time with all-day categories first. Categories keep their given order.
+ */
+export function getDayparts(categories: Array<{ id: string; name: string } & CategorySchedule>): Daypart[] {
+  const dayparts = new Map<string, Daypart>();
+
+  for (const category of categories) {
+    const hasWindow = !!category.availableStartTime && !!category.availableEndTime;
+    const startTime = hasWindow ? category.availableStartTime : null;
+    const endTime = hasWindow ? category.availableEndTime : null;
+    const days = category.availableDays && category.availableDays.length > 0 ? category.availableDays : null;
+
+    const key = `${startTime}|${endTime}|${days?.join(',') ?? ''}`;
+    let daypart = dayparts.get(key);
+    if (!daypart) {
+      daypart = { startTime, endTime, days, categories: [] };
+      dayparts.set(key, daypart);
+    }
+    daypart.categories.push({ id: category.id, name: category.name });
+  }
+
+  const startMinutes = (daypart: Daypart) => daypart.startTime === null ? -1 : parseTimeToMinutes(daypart.startTime);
+  return [...dayparts.values()].sort((a, b) => startMinutes(a) - startMinutes(b));
+}
@@ -1,4 +1,5 @@
 import { createMiddleware } from "hono/factory";
+import type { Context } from "hono";
 import { createClient } from "@supabase/supabase-js";
 import { env } from "../env";
 
@@ -17,22 +18,40 @@ export type AuthUser = {
   email?: string;
 };
 
+// Event streams (SSE and WebSocket), the only routes taking a query token
+const QUERY_TOKEN_PATH = /^\/api\/events\/[^/]+(\/ws)?$/;
+
+/**
+ * Read the bearer token from the Authorization header.
+ * Browsers can't set headers on EventSource or WebSocket connections, so
+ * event stream requests may pass the token as the `access_token` query param
+ * instead. Nowhere else, so tokens stay out of other URLs and logs.
+ */
+function getAccessToken(c: Context): string | null {
+  const authHeader = c.req.header("Authorization");
+  if (authHeader?.startsWith("Bearer ")) {
+    return authHeader.slice(7);
+  }
+  if (c.req.method === "GET" && QUERY_TOKEN_PATH.test(c.req.path)) {
+    return c.req.query("access_token") || null;
+  }
+  return null;
+}
+
 /**
  * Middleware that verifies the Supabase JWT from the Authorization header.
  * On success, sets `user` (AuthUser) on the Hono context.
  * Returns 401 if the token is missing, invalid, or expired.
  */
 export const requireAuth = createMiddleware(async (c, next) => {
-  const authHeader = c.req.header("Authorization");
-  if (!authHeader?.startsWith("Bearer ")) {
+  const token = getAccessToken(c);
+  if (!token) {
     return c.json(
       { error: { message: "Missing authorization token", code: "UNAUTHORIZED" } },
       401
     );
   }
 
-  const token = authHeader.slice(7);
-
   try {
     const userSupabase = createUserSupabase(token);
     const {
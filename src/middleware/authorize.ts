@@ -0,0 +1,207 @@
+import { createMiddleware } from "hono/factory";
+import { supabase } from "../supabase";
+import type { AuthUser } from "./auth";
+import type { TeamRole } from "../types";
+
+export type Permission =
+  | "business:read"
+  | "business:write"
+  | "team:read"
+  | "team:manage"
+  | "menu:read"
+  | "menu:write"
+  | "orders:read"
+  | "orders:write"
+  | "reservations:read"
+  | "reservations:write"
+  | "customers:read"
+  | "customers:write"
+  | "loyalty:redeem"
+  | "loyalty:manage"
+  | "analytics:read"
+  | "payments:read"
+  | "payments:write";
+
+/**
+ * Permission matrix for business team roles.
+ * Owners can do everything; every other role gets an explicit allow-list.
+ */
+export const ROLE_PERMISSIONS: Record<TeamRole, readonly Permission[]> = {
+  owner: [
+    "business:read",
+    "business:write",
+    "team:read",
+    "team:manage",
+    "menu:read",
+    "menu:write",
+    "orders:read",
+    "orders:write",
+    "reservations:read",
+    "reservations:write",
+    "customers:read",
+    "customers:write",
+    "loyalty:redeem",
+    "loyalty:manage",
+    "analytics:read",
+    "payments:read",
+    "payments:write",
+  ],
+  manager: [
+    "business:read",
+    "business:write",
+    "team:read",
+    "menu:read",
+    "menu:write",
+    "orders:read",
+    "orders:write",
+    "reservations:read",
+    "reservations:write",
+    "customers:read",
+    "customers:write",
+    "loyalty:redeem",
+    "loyalty:manage",
+    "analytics:read",
+    "payments:read",
+  ],
+  staff: [
+    "business:read",
+    "menu:read",
+    "orders:read",
+    "orders:write",
+    "reservations:read",
+    "reservations:write",
+    "customers:read",
+    "customers:write",
+    "loyalty:redeem",
+  ],
+  accountant: [
+    "business:read",
+    "menu:read",
+    "orders:read",
+    "reservations:read",
+    "customers:read",
+    "analytics:read",
+    "payments:read",
+  ],
+  marketing: [
+    "business:read",
+    "menu:read",
+    "reservations:read",
+    "customers:read",
+    "customers:write",
+    "analytics:read",
+  ],
+};
+
+export function hasPermission(role: TeamRole, permission: Permission): boolean {
+  return ROLE_PERMISSIONS[role].includes(permission);
+}
+
+/**
+ * Resolve the caller's role within a business.
+ * Owners are matched on business_accounts.owner_user_id, everyone else through
+ * an active business_team_members row. Superadmins act with owner permissions.
+ * Returns null if the user has no access to the business.
+ */
+export async function resolveBusinessRole(
+  userId: string,
+  businessId: string
+): Promise<TeamRole | null> {
+  const [businessResult, memberResult] = await Promise.all([
+    supabase
+      .from("business_accounts")
+      .select("owner_user_id")
+      .eq("id", businessId)
+      .maybeSingle(),
+    supabase
+      .from("business_team_members")
+      .select("role")
+      .eq("business_id", businessId)
+      .eq("user_id", userId)
+      .eq("status", "active")
+      .maybeSingle(),
+  ]);
+
+  if (businessResult.data?.owner_user_id === userId) {
+    return "owner";
+  }
+
+  if (memberResult.data?.role) {
+    return memberResult.data.role as TeamRole;
+  }
+
+  const { data: profile } = await supabase
+    .from("user_profiles")
+    .select("is_superadmin")
+    .eq("user_id", userId)
+    .maybeSingle();
+
+  return profile?.is_superadmin ? "owner" : null;
+}
+
+/**
+ * Middleware that checks the authenticated user holds `permission` in the
+ * business identified by the `:businessId` route param (or `:id` on the
+ * business router). On success, sets `role` (TeamRole) on the Hono context.
+ * Returns 403 if the user is not a member or their role lacks the permission.
+ */
+export function requirePermission(permission: Permission) {
+  return createMiddleware<{ Variables: { user: AuthUser; role: TeamRole } }>(
+    async (c, next) => {
+      const user = c.get("user");
+      const businessId = c.req.param("businessId") ?? c.req.param("id");
+
+      if (!user || !businessId) {
+        return c.json(
+          { error: { message: "Access denied", code: "FORBIDDEN" } },
+          403
+        );
+      }
+
+      try {
+        const role = await resolveBusinessRole(user.id, businessId);
+
+        if (!role || !hasPermission(role, permission)) {
+          return c.json(
+            { error: { message: "You do not have permission to perform this action", code: "FORBIDDEN" } },
+            403
+          );
+        }
+
+        c.set("role", role);
+        return next();
+      } catch (error) {
+        console.error("Error resolving business role:", error);
+        return c.json(
+          { error: { message: "Access denied", code: "FORBIDDEN" } },
+          403
+        );
+      }
+    }
+  );
+}
+
+/**
+ * Middleware for platform administration routes.
+ * Returns 403 unless the authenticated user is a superadmin.
+ */
+export const requireSuperadmin = createMiddleware<{ Variables: { user: AuthUser } }>(
+  async (c, next) => {
+    const user = c.get("user");
+
+    const { data: profile } = await supabase
+      .from("user_profiles")
+      .select("is_superadmin")
+      .eq("user_id", user?.id ?? "")
+      .maybeSingle();
+
+    if (!profile?.is_superadmin) {
+      return c.json(
+        { error: { message: "Only superadmins can perform this action", code: "FORBIDDEN" } },
+        403
+      );
+    }
+
+    return next();
+  }
+);
@@ -0,0 +1,204 @@
+import { createMiddleware } from "hono/factory";
+import { createHash } from "node:crypto";
+import { supabase } from "../supabase";
+
+const DEFAULT_TTL_MS = 24 * 60 * 60 * 1000;
+const MAX_KEY_LENGTH = 255;
+const MUTATING_METHODS = ["POST", "PUT", "PATCH", "DELETE"];
+
+export type StoredResponse = {
+  status: number;
+  headers: Record<string, string>;
+  body: string;
+};
+
+export type IdempotencyRecord = {
+  fingerprint: string;
+  response: StoredResponse | null; // null while the first request is still running
+  expiresAt: Date;
+};
+
+/**
+ * Where idempotency keys are kept. The Supabase store is used in
+ * production; tests use the in-memory store.
+ */
+export interface IdempotencyStore {
+  // Claim a key for a request. Returns null if the key was free (or had
+  // expired) and is now held, otherwise the record already stored under it.
+  claim(key: string, fingerprint: string, expiresAt: Date): Promise<IdempotencyRecord | null>;
+  // Save the response so retries replay it
+  complete(key: string, response: StoredResponse): Promise<void>;
+  // Let go of a key whose request failed, so a retry runs it again
+  release(key: string): Promise<void>;
+}
+
+export function createMemoryIdempotencyStore(): IdempotencyStore {
+  const records = new Map<string, IdempotencyRecord>();
+
+  return {
+    async claim(key, fingerprint, expiresAt) {
+      const existing = records.get(key);
+      if (existing && existing.expiresAt > new Date()) {
+        return existing;
+      }
+      records.set(key, { fingerprint, response: null, expiresAt });
+      return null;
+    },
+
+    async complete(key, response) {
+      const record = records.get(key);
+      if (record) record.response = response;
+    },
+
+    async release(key) {
+      records.delete(key);
+    },
+  };
+}
+
+function toRecord(row: Record<string, any>): IdempotencyRecord {
+  return {
+    fingerprint: row.fingerprint,
+    response: row.response_status === null
+      ? null
+      : { status: row.response_status, headers: row.response_headers ?? {}, body: row.response_body ?? "" },
+    expiresAt: new Date(row.expires_at),
+  };
+}
+
+export const supabaseIdempotencyStore: IdempotencyStore = {
+  async claim(key, fingerprint, expiresAt) {
+    // Clear this key if it has expired, so it can be claimed again
+    await supabase
+      .from("idempotency_keys")
+      .delete()
+      .eq("key", key)
+      .lt("expires_at", new Date().toISOString());
+
+    const { error } = await supabase
+      .from("idempotency_keys")
+      .insert({ key, fingerprint, expires_at: expiresAt.toISOString() });
+
+    if (!error) return null;
+    if (error.code !== "23505") {
+      throw new Error(`Failed to store idempotency key: ${error.message}`);
+    }
+
+    const { data: existing, error: fetchError } = await supabase
+      .from("idempotency_keys")
+      .select("*")
+      .eq("key", key)
+      .single();
+
+    if (fetchError || !existing) {
+      throw new Error(`Failed to load idempotency key: ${fetchError?.message}`);
+    }
+    return toRecord(existing);
+  },
+
+  async complete(key, response) {
+    await supabase
+      .from("idempotency_keys")
+      .update({
+        response_status: response.status,
+        response_headers: response.headers,
+        response_body: response.body,
+      })
+      .eq("key", key);
+  },
+
+  async release(key) {
+    await supabase.from("idempotency_keys").delete().eq("key", key);
+  },
+};
+
+// Remove expired keys; the store ignores them anyway, this just keeps the table small
+export async function purgeExpiredIdempotencyKeys(): Promise<void> {
+  const { error } = await supabase
+    .from("idempotency_keys")
+    .delete()
+    .lt("expires_at", new Date().toISOString());
+
+  if (error) {
+    console.error("Error purging idempotency keys:", error);
+  }
+}
+
+// Same method, path and body give the same fingerprint
+export function getRequestFingerprint(method: string, path: string, body: string): string {
+  return createHash("sha256").update(`${method} ${path}\n${body}`).digest("hex");
+}
+
+/**
+ * Middleware honoring the `Idempotency-Key` header on mutating requests.
+ * The first request with a key runs normally and its response is stored;
+ * retries with the same key and body get the stored response back (marked
+ * with `Idempotent-Replayed: true`) instead of running again. Reusing a key
+ * with a different request, or while the first is still running, is a 409.
+ * Server errors aren't stored, so the request can be retried. Keys are
+ * scoped to the authenticated user and expire after `ttlMs` (24 hours);
+ * unauthenticated requests aren't deduplicated, since their keys would be
+ * shared by every guest.
+ */
+export function idempotency(opts: { store?: IdempotencyStore; ttlMs?: number } = {}) {
+  const store = opts.store ?? supabaseIdempotencyStore;
+  const ttlMs = opts.ttlMs ?? DEFAULT_TTL_MS;
+
+  return createMiddleware(async (c, next) => {
+    const idempotencyKey = c.req.header("Idempotency-Key");
+    const user = c.get("user") as { id: string } | undefined;
+    if (!idempotencyKey || !user || !MUTATING_METHODS.includes(c.req.method)) {
+      return next();
+    }
+
+    if (idempotencyKey.length > MAX_KEY_LENGTH) {
+      return c.json(
+        { error: { message: `Idempotency-Key must be at most ${MAX_KEY_LENGTH} characters`, code: "VALIDATION_ERROR" } },
+        400
+      );
+    }
+
+    const key = `${user.id}:${idempotencyKey}`;
+    const fingerprint = getRequestFingerprint(c.req.method, c.req.path, await c.req.text());
+
+    const existing = await store.claim(key, fingerprint, new Date(Date.now() + ttlMs));
+
+    if (existing) {
+      if (existing.fingerprint !== fingerprint) {
+        return c.json(
+          { error: { message: "Idempotency-Key was already used for a different request", code: "IDEMPOTENCY_KEY_REUSED" } },
+          409
+        );
+      }
+      if (!existing.response) {
+        return c.json(
+          { error: { message: "A request with this Idempotency-Key is still in progress", code: "IDEMPOTENCY_IN_PROGRESS" } },
+          409
+        );
+      }
+
+      const headers = new Headers(existing.response.headers);
+      headers.set("Idempotent-Replayed", "true");
+      return new Response(existing.response.body, { status: existing.response.status, headers });
+    }
+
+    try {
+      await next();
+    } catch (error) {
+      await store.release(key);
+      throw error;
+    }
+
+    if (c.res.status >= 500) {
+      await store.release(key);
+      return;
+    }
+
+    const contentType = c.res.headers.get("Content-Type");
+    await store.complete(key, {
+      status: c.res.status,
+      headers: contentType ? { "Content-Type": contentType } : {},
+      body: await c.res.clone().text(),
+    });
+  });
+}
@@ -0,0 +1,166 @@
+import { supabase } from './supabase';
+
+/**
+ * Resolve the modifiers chosen for an order item against the menu's
+ * menu_modifier_groups / menu_modifiers rows, so order totals never depend
+ * on names or prices sent by the client.
+ */
+
+export type ModifierGroupRow = {
+  id: string;
+  menu_item_id: string;
+  name: string;
+  is_required: boolean | null;
+  min_selections: number | null;
+  max_selections: number | null;
+};
+
+export type ModifierRow = {
+  id: string;
+  modifier_group_id: string;
+  name: string;
+  price_adjustment: number | null;
+  is_available: boolean | null;
+};
+
+// Snapshot stored on order_items.modifiers
+export type ResolvedModifier = {
+  modifierId: string;
+  modifierGroupId: string;
+  groupName: string;
+  name: string;
+  priceAdjustment: number;
+};
+
+export type ModifierResolution =
+  | { ok: true; modifiers: ResolvedModifier[]; modifiersTotal: number }
+  | { ok: false; code: 'INVALID_MODIFIER' | 'MODIFIER_UNAVAILABLE' | 'MODIFIER_SELECTION'; message: string };
+
+// Allowed number of selections in a group. A required group needs at least
+// one; an optional group may be skipped entirely.
+export function getSelectionBounds(group: ModifierGroupRow): { min: number; max: number } {
+  const min = group.min_selections ?? 0;
+  return {
+    min: group.is_required ? Math.max(1, min) : min,
+    max: group.max_selections ?? Infinity,
+  };
+}
+
+/**
+ * Check `modifierIds` against the item's modifier groups and price them.
+ * Every id must belong to one of the item's groups and be available, and
+ * each group's selection count must be within its bounds.
+ */
+export function resolveItemModifiers(
+  itemName: string,
+  groups: ModifierGroupRow[],
+  modifiers: ModifierRow[],
+  modifierIds: string[]
+): ModifierResolution {
+  const groupsById = new Map(groups.map(g => [g.id, g]));
+  const modifiersById = new Map(
+    modifiers.filter(m => groupsById.has(m.modifier_group_id)).map(m => [m.id, m])
+  );
+
+  const selectedByGroup = new Map<string, ModifierRow[]>();
+  const seen = new Set<string>();
+
+  for (const id of modifierIds) {
+    const modifier = modifiersById.get(id);
+    if (!modifier) {
+      return { ok: false, code: 'INVALID_MODIFIER', message: `Modifier ${id} is not an option for ${itemName}` };
+    }
+    if (seen.has(id)) {
+      return { ok: false, code: 'INVALID_MODIFIER', message: `Modifier ${modifier.name} is selected more than once` };
+    }
+    if (modifier.is_available === false) {
+      return { ok: false, code: 'MODIFIER_UNAVAILABLE', message: `Modifier not available: ${modifier.name}` };
+    }
+    seen.add(id);
+
+    const selected = selectedByGroup.get(modifier.modifier_group_id) ?? [];
+    selected.push(modifier);
+    selectedByGroup.set(modifier.modifier_group_id, selected);
+  }
+
+  for (const group of groups) {
+    const count = selectedByGroup.get(group.id)?.length ?? 0;
+    const { min, max } = getSelectionBounds(group);
+
+    if (count === 0 && !group.is_required) continue;
+    if (count < Math.max(min, 1) || count > max) {
+      const range = max === Infinity ? `at least ${min}` : min === max ? `${min}` : `${min}-${max}`;
+      return {
+        ok: false,
+        code: 'MODIFIER_SELECTION',
+        message: `${itemName}: choose ${range} from ${group.name}`,
+      };
+    }
+  }
+
+  const resolved: ResolvedModifier[] = [];
+  for (const group of groups) {
+    for (const modifier of selectedByGroup.get(group.id) ?? []) {
+      resolved.push({
+        modifierId: modifier.id,
+        modifierGroupId: group.id,
+        groupName: group.name,
+        name: modifier.name,
+        priceAdjustment: Number(modifier.price_adjustment ?? 0),
+      });
+    }
+  }
+
+  return {
+    ok: true,
+    modifiers: resolved,
+    modifiersTotal: resolved.reduce((sum, m) => sum + m.priceAdjustment, 0),
+  };
+}
+
+/**
+ * Load the modifier groups (in display order) and modifiers for a set of
+ * menu items, keyed by menu item id.
+ */
+export async function getModifierOptions(menuItemIds: string[]): Promise<Map<string, { groups: ModifierGroupRow[]; modifiers: ModifierRow[] }>> {
+  const options = new Map<string, { groups: ModifierGroupRow[]; modifiers: ModifierRow[] }>();
+  if (menuItemIds.length === 0) return options;
+
+  const { data: groups, error: groupsError } = await supabase
+    .from('menu_modifier_groups')
+    .select('id, menu_item_id, name, is_required, min_selections, max_selections')
+    .in('menu_item_id', menuItemIds)
+    .order('display_order', { ascending: true });
+
+  if (groupsError) {
+    throw new Error(`Failed to load modifier groups: ${groupsError.message}`);
+  }
+
+  const groupIds = (groups || []).map(g => g.id);
+  let modifiers: ModifierRow[] = [];
+  if (groupIds.length > 0) {
+    const { data, error } = await supabase
+      .from('menu_modifiers')
+      .select('id, modifier_group_id, name, price_adjustment, is_available')
+      .in('modifier_group_id', groupIds);
+
+    if (error) {
+      throw new Error(`Failed to load modifiers: ${error.message}`);
+    }
+    modifiers = data || [];
+  }
+
+  const itemByGroup = new Map<string, string>();
+  for (const group of groups || []) {
+    itemByGroup.set(group.id, group.menu_item_id);
+    const entry = options.get(group.menu_item_id) ?? { groups: [], modifiers: [] };
+    entry.groups.push(group);
+    options.set(group.menu_item_id, entry);
+  }
+  for (const modifier of modifiers) {
+    const itemId = itemByGroup.get(modifier.modifier_group_id);
+    if (itemId) options.get(itemId)!.modifiers.push(modifier);
+  }
+
+  return options;
+}
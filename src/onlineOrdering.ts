@@ -0,0 +1,413 @@
+import { createHash, randomBytes } from 'node:crypto';
+import { supabase } from './supabase';
+import { parseTimeToMinutes, formatMinutes } from './availability';
+import { DEFAULT_TIMEZONE, addDays, getBusinessDate, getDayOfWeek, zonedTimeToUtc } from './timezone';
+
+/**
+ * Online ordering from the storefront. Guests order takeout or delivery
+ * while the business is open (ASAP) or for a pickup slot: every
+ * `slotMinutes` from opening until closing, starting at least `leadMinutes`
+ * from now, each taking a limited number of scheduled orders and items if
+ * the business sets a capacity. Orders staff schedule count toward it but
+ * are never refused. Guests get a tracking token with their order; only its
+ * hash is stored.
+ */
+
+export type OpeningHours = {
+  openTime: string | null;
+  closeTime: string | null;
+  isClosed: boolean;
+};
+
+export type PickupSlot = {
+  time: string; // "HH:mm" in the business's timezone
+  pickupTime: string; // ISO instant
+};
+
+export type OnlineOrderingSettings = {
+  isActive: boolean;
+  enabled: boolean;
+  timezone: string;
+  leadMinutes: number;
+  slotMinutes: number;
+  hours: Map<number, OpeningHours>; // by day of week
+  capacity: PickupCapacity;
+};
+
+// Most scheduled orders and items (total quantity) a pickup slot takes; null for no limit
+export type PickupCapacity = {
+  maxOrders: number | null;
+  maxItems: number | null;
+};
+
+export type SlotUsage = {
+  orders: number;
+  items: number;
+};
+
+// How many days ahead guests can pick a slot
+export const MAX_PICKUP_DAYS_AHEAD = 7;
+
+const MINUTES_PER_DAY = 24 * 60;
+const DEFAULT_LEAD_MINUTES = 20;
+const DEFAULT_SLOT_MINUTES = 15;
+
+export function mapOpeningHoursRow(row: Record<string, any>): OpeningHours {
+  return {
+    openTime: row.open_time ?? null,
+    closeTime: row.close_time ?? null,
+    isClosed: !!row.is_closed,
+  };
+}
+
+// Opening and closing minutes of a day; closing runs past midnight (> 1440)
+// when the business closes after midnight
+function getOpenWindow(hours: OpeningHours | undefined): [number, number] | null {
+  if (!hours || hours.isClosed || !hours.openTime || !hours.closeTime) return null;
+  const open = parseTimeToMinutes(hours.openTime);
+  const close = parseTimeToMinutes(hours.closeTime);
+  return [open, close <= open ? close + MINUTES_PER_DAY : close];
+}
+
+// Whether the business is open at `minutes` past midnight on `dayOfWeek`,
+// counting the previous day's hours if they run past midnight
+export function isOpenAt(hours: Map<number, OpeningHours>, dayOfWeek: number, minutes: number): boolean {
+  const today = getOpenWindow(hours.get(dayOfWeek));
+  if (today && minutes >= today[0] && minutes < today[1]) return true;
+
+  const yesterday = getOpenWindow(hours.get((dayOfWeek + 6) % 7));
+  return !!yesterday && minutes + MINUTES_PER_DAY < yesterday[1];
+}
+
+/**
+ * Pickup slots on a business date: every `slotMinutes` from opening until
+ * closing, leaving at least `leadMinutes` from `now` to prepare the order.
+ */
+export function getPickupSlots(params: {
+  date: string;
+  hours: OpeningHours | undefined;
+  now: Date;
+  timeZone?: string;
+  slotMinutes: number;
+  leadMinutes: number;
+}): PickupSlot[] {
+  const window = getOpenWindow(params.hours);
+  if (!window || params.slotMinutes <= 0) return [];
+
+  const timeZone = params.timeZone ?? DEFAULT_TIMEZONE;
+  const earliest = params.now.getTime() + params.leadMinutes * 60 * 1000;
+  const slots: PickupSlot[] = [];
+
+  for (let minutes = window[0]; minutes < window[1]; minutes += params.slotMinutes) {
+    const date = minutes >= MINUTES_PER_DAY ? addDays(params.date, 1) : params.date;
+    const time = formatMinutes(minutes % MINUTES_PER_DAY);
+    const at = zonedTimeToUtc(date, time, timeZone);
+    if (at.getTime() < earliest) continue;
+
+    // Wall-clock times repeated when clocks go back resolve to one instant
+    const pickupTime = at.toISOString();
+    if (slots[slots.length - 1]?.pickupTime === pickupTime) continue;
+    slots.push({ time, pickupTime });
+  }
+
+  return slots;
+}
+
+/**
+ * Whether `pickupTime` is one of the business's pickup slots, no more than
+ * MAX_PICKUP_DAYS_AHEAD days out. Slots after midnight belong to the
+ * previous day's hours.
+ */
+export function isPickupSlot(
+  settings: Pick<OnlineOrderingSettings, 'timezone' | 'hours' | 'leadMinutes' | 'slotMinutes'>,
+  pickupTime: Date,
+  now: Date
+): boolean {
+  if (pickupTime.getTime() > now.getTime() + MAX_PICKUP_DAYS_AHEAD * MINUTES_PER_DAY * 60 * 1000) {
+    return false;
+  }
+
+  const date = getBusinessDate(pickupTime, settings.timezone);
+  return [addDays(date, -1), date].some(day =>
+    getPickupSlots({
+      date: day,
+      hours: settings.hours.get(getDayOfWeek(day)),
+      now,
+      timeZone: settings.timezone,
+      slotMinutes: settings.slotMinutes,
+      leadMinutes: settings.leadMinutes,
+    }).some(slot => Date.parse(slot.pickupTime) === pickupTime.getTime())
+  );
+}
+
+// What's left of a slot's capacity (null where there's no limit), and
+// whether an order of `items` items still fits
+export function getSlotCapacity(
+  usage: SlotUsage | undefined,
+  capacity: PickupCapacity,
+  items: number
+): { available: boolean; remainingOrders: number | null; remainingItems: number | null } {
+  const used = usage ?? { orders: 0, items: 0 };
+  const remainingOrders = capacity.maxOrders === null ? null : Math.max(0, capacity.maxOrders - used.orders);
+  const remainingItems = capacity.maxItems === null ? null : Math.max(0, capacity.maxItems - used.items);
+
+  return {
+    available: (remainingOrders === null || remainingOrders >= 1) && (remainingItems === null || remainingItems >= items),
+    remainingOrders,
+    remainingItems,
+  };
+}
+
+export function hasPickupCapacity(capacity: PickupCapacity): boolean {
+  return capacity.maxOrders !== null || capacity.maxItems !== null;
+}
+
+/**
+ * Start of the pickup slot `at` falls in (from the slot's start, for
+ * `slotMinutes`), or null if it's outside the business's hours. Slots after
+ * midnight belong to the previous day's hours.
+ */
+export function findPickupSlot(
+  settings: Pick<OnlineOrderingSettings, 'timezone' | 'hours' | 'slotMinutes'>,
+  at: Date
+): Date | null {
+  const date = getBusinessDate(at, settings.timezone);
+  const slotMs = settings.slotMinutes * 60 * 1000;
+
+  for (const day of [addDays(date, -1), date]) {
+    const slot = getPickupSlots({
+      date: day,
+      hours: settings.hours.get(getDayOfWeek(day)),
+      now: new Date(0),
+      timeZone: settings.timezone,
+      slotMinutes: settings.slotMinutes,
+      leadMinutes: 0,
+    }).find(s => at.getTime() >= Date.parse(s.pickupTime) && at.getTime() < Date.parse(s.pickupTime) + slotMs);
+    if (slot) return new Date(slot.pickupTime);
+  }
+  return null;
+}
+
+/**
+ * Where pickup slot usage is counted. The Supabase store is used in
+ * production; tests use the in-memory store.
+ */
+export interface PickupSlotStore {
+  // Count an order of `items` items against a slot unless that would go
+  // over `capacity`; concurrent claims can't both take the last place
+  claim(businessId: string, slotStart: Date, items: number, capacity: PickupCapacity): Promise<boolean>;
+  // Give back a place taken by claim
+  release(businessId: string, slotStart: Date, items: number): Promise<void>;
+}
+
+export function createMemoryPickupSlotStore(): PickupSlotStore & { usage: Map<string, SlotUsage> } {
+  const usage = new Map<string, SlotUsage>();
+  const keyOf = (businessId: string, slotStart: Date) => `${businessId}:${slotStart.toISOString()}`;
+
+  return {
+    usage,
+
+    async claim(businessId, slotStart, items, capacity) {
+      const key = keyOf(businessId, slotStart);
+      const used = usage.get(key);
+      if (!getSlotCapacity(used, capacity, items).available) return false;
+      usage.set(key, { orders: (used?.orders ?? 0) + 1, items: (used?.items ?? 0) + items });
+      return true;
+    },
+
+    async release(businessId, slotStart, items) {
+      const used = usage.get(keyOf(businessId, slotStart));
+      if (used) {
+        used.orders = Math.max(0, used.orders - 1);
+        used.items = Math.max(0, used.items - items);
+      }
+    },
+  };
+}
+
+export const supabasePickupSlotStore: PickupSlotStore = {
+  async claim(businessId, slotStart, items, capacity) {
+    const { data: claimed, error } = await supabase.rpc('claim_pickup_slot', {
+      p_business_id: businessId,
+      p_slot_start: slotStart.toISOString(),
+      p_items: items,
+      p_max_orders: capacity.maxOrders,
+      p_max_items: capacity.maxItems,
+    });
+
+    if (error) {
+      throw new Error(`Failed to claim pickup slot: ${error.message}`);
+    }
+    return claimed === true;
+  },
+
+  async release(businessId, slotStart, items) {
+    const { error } = await supabase.rpc('release_pickup_slot', {
+      p_business_id: businessId,
+      p_slot_start: slotStart.toISOString(),
+      p_items: items,
+    });
+
+    if (error) {
+      console.error('Error releasing pickup slot:', error);
+    }
+  },
+};
+
+const NO_CAPACITY: PickupCapacity = { maxOrders: null, maxItems: null };
+
+export type PickupSlotClaim = { slotStart: Date; items: number };
+
+/**
+ * Count a scheduled order of `items` items against the pickup slot its
+ * time falls in. Guest orders (`enforceCapacity`) are refused when the
+ * slot is full; staff orders always fit but still use up the slot, so
+ * guests see what's really left. Returns the claim to store on the order
+ * (null when the time is outside every slot), or not ok when the slot is
+ * full.
+ */
+export async function claimPickupSlot(params: {
+  businessId: string;
+  settings: Pick<OnlineOrderingSettings, 'timezone' | 'hours' | 'slotMinutes' | 'capacity'>;
+  at: Date;
+  items: number;
+  enforceCapacity: boolean;
+  store?: PickupSlotStore;
+}): Promise<{ ok: true; claim: PickupSlotClaim | null } | { ok: false }> {
+  const store = params.store ?? supabasePickupSlotStore;
+  const slotStart = findPickupSlot(params.settings, params.at);
+  if (!slotStart) return { ok: true, claim: null };
+
+  const capacity = params.enforceCapacity ? params.settings.capacity : NO_CAPACITY;
+  if (!(await store.claim(params.businessId, slotStart, params.items, capacity))) {
+    return { ok: false };
+  }
+  return { ok: true, claim: { slotStart, items: params.items } };
+}
+
+// Give back the place an order took, for an order that wasn't placed
+export async function releasePickupSlot(
+  businessId: string,
+  claim: PickupSlotClaim,
+  store: PickupSlotStore = supabasePickupSlotStore
+): Promise<void> {
+  await store.release(businessId, claim.slotStart, claim.items);
+}
+
+/**
+ * What a guest sees of their order: status, timing, items and totals, but
+ * not staff-facing fields like the table, payment ids or internal notes.
+ */
+export function toGuestOrder(order: Record<string, any>): Record<string, unknown> {
+  return {
+    orderNumber: order.orderNumber,
+    ticketNumber: order.ticketNumber ?? null,
+    status: order.status,
+    orderType: order.orderType,
+    customerName: order.customerName,
+    scheduledFor: order.scheduledFor ?? null,
+    deliveryAddress: order.deliveryAddress ?? null,
+    items: (order.items || []).map((item: Record<string, any>) => ({
+      itemName: item.itemName,
+      quantity: item.quantity,
+      modifiers: item.modifiers ?? null,
+      specialRequests: item.specialRequests ?? null,
+      totalPrice: item.totalPrice,
+    })),
+    subtotal: order.subtotal,
+    discountAmount: order.discountAmount,
+    taxAmount: order.taxAmount,
+    taxInclusive: order.taxInclusive,
+    tipAmount: order.tipAmount,
+    deliveryFee: order.deliveryFee ?? null,
+    totalAmount: order.totalAmount,
+    paymentStatus: order.paymentStatus ?? null,
+    createdAt: order.createdAt,
+    updatedAt: order.updatedAt,
+  };
+}
+
+// A random token the guest uses to track their order
+export function createGuestToken(): string {
+  return randomBytes(24).toString('base64url');
+}
+
+export function hashGuestToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+// Whether an email or phone number is the one on the order. Emails match
+// case-insensitively, phone numbers on their digits.
+export function matchesOrderContact(
+  order: { customer_email?: string | null; customer_phone?: string | null },
+  contact: string
+): boolean {
+  const value = contact.trim();
+  if (value.includes('@')) {
+    return !!order.customer_email && order.customer_email.trim().toLowerCase() === value.toLowerCase();
+  }
+
+  const digits = value.replace(/\D/g, '');
+  return digits.length >= 7 && !!order.customer_phone && order.customer_phone.replace(/\D/g, '') === digits;
+}
+
+/**
+ * Scheduled orders and items that have taken a place in each pickup slot from
+ * `from` up to `to`, by slot start (ISO instant).
+ */
+export async function getPickupSlotUsage(businessId: string, from: Date, to: Date): Promise<Map<string, SlotUsage>> {
+  const { data: rows, error } = await supabase
+    .from('pickup_slot_usage')
+    .select('slot_start, orders, items')
+    .eq('business_id', businessId)
+    .gte('slot_start', from.toISOString())
+    .lt('slot_start', to.toISOString());
+
+  if (error) {
+    throw new Error(`Failed to load pickup slot usage: ${error.message}`);
+  }
+
+  return new Map((rows || []).map(row => [
+    new Date(row.slot_start).toISOString(),
+    { orders: row.orders ?? 0, items: row.items ?? 0 },
+  ]));
+}
+
+/**
+ * Load whether a business takes online orders, its timezone, pickup slot
+ * settings, capacity and opening hours. Returns null if the business
+ * doesn't exist.
+ */
+export async function getOnlineOrderingSettings(businessId: string): Promise<OnlineOrderingSettings | null> {
+  const [{ data: business, error }, { data: hours, error: hoursError }] = await Promise.all([
+    supabase
+      .from('business_accounts')
+      .select('is_active, online_ordering_enabled, timezone, pickup_lead_minutes, pickup_slot_minutes, pickup_capacity_orders, pickup_capacity_items')
+      .eq('id', businessId)
+      .maybeSingle(),
+    supabase
+      .from('business_hours')
+      .select('day_of_week, open_time, close_time, is_closed')
+      .eq('business_id', businessId),
+  ]);
+
+  if (error || hoursError) {
+    throw new Error(`Failed to load online ordering settings: ${(error ?? hoursError)?.message}`);
+  }
+  if (!business) {
+    return null;
+  }
+
+  return {
+    isActive: !!business.is_active,
+    enabled: business.online_ordering_enabled ?? false,
+    timezone: business.timezone || DEFAULT_TIMEZONE,
+    leadMinutes: business.pickup_lead_minutes ?? DEFAULT_LEAD_MINUTES,
+    slotMinutes: business.pickup_slot_minutes ?? DEFAULT_SLOT_MINUTES,
+    hours: new Map((hours || []).map(h => [h.day_of_week as number, mapOpeningHoursRow(h)])),
+    capacity: {
+      maxOrders: business.pickup_capacity_orders ?? null,
+      maxItems: business.pickup_capacity_items ?? null,
+    },
+  };
+}
@@ -0,0 +1,468 @@
+import { supabase } from './supabase';
+import type { CreateOrderRequest, TaxCategory } from './types';
+import { getOrderWithDetails } from './orderDetails';
+import { publishEvent } from './events';
+import { getModifierOptions, resolveItemModifiers } from './modifiers';
+import { applyPromotions, claimPromotionUsage, getPromotionContext, releasePromotionUsage } from './promotions';
+import type { PromotionLine, PromotionResult } from './promotions';
+import { calculateRedemption, callLoyaltyLedger, restoreRedeemedPoints } from './loyalty';
+import { generateOrderNumber } from './orderNumbers';
+import { calculateTax, getTaxSettings } from './tax';
+import type { TaxResult } from './tax';
+import { getDeliveryContext, quoteDelivery } from './deliveryZones';
+import type { DeliveryContext, DeliveryQuote } from './deliveryZones';
+import { isCategoryAvailableAt, mapCategorySchedule } from './menuSchedule';
+import { DEFAULT_TIMEZONE } from './timezone';
+import { recordOrderStatusChange } from './orderStatus';
+import { calculateFireAt, shouldHoldOrder } from './scheduledOrders';
+import { claimPickupSlot, getOnlineOrderingSettings, releasePickupSlot } from './onlineOrdering';
+import type { PickupSlotClaim } from './onlineOrdering';
+
+export type CreateOrderOptions = {
+  userId?: string | null;
+  canRedeemLoyalty: boolean;
+  guestTokenHash?: string;
+  // Refuse a scheduled order whose pickup slot is full (guest orders; staff
+  // orders still count toward the slot but always fit)
+  enforcePickupCapacity?: boolean;
+};
+
+export type CreateOrderResult =
+  | { ok: true; order: any }
+  | { ok: false; status: 400 | 403 | 404 | 409 | 500; code: string; message: string };
+
+function fail(status: 400 | 403 | 404 | 409 | 500, code: string, message: string): CreateOrderResult {
+  return { ok: false, status, code, message };
+}
+
+/**
+ * Create an order with server-side prices: menu items and modifiers are
+ * priced from the menu, then delivery, promotions, loyalty redemption and
+ * tax are applied. Items must be available and on their category's menu
+ * schedule at the time the order is for (scheduledFor, or now); orders for
+ * later are held as scheduled until their fire time and count toward their
+ * pickup slot's capacity. Used by staff (POS)
+ * and guest (storefront) ordering.
+ * On success the order has been published as order.created.
+ */
+export async function createOrder(
+  businessId: string,
+  input: CreateOrderRequest,
+  options: CreateOrderOptions
+): Promise<CreateOrderResult> {
+  const { data: business, error: bizError } = await supabase
+    .from('business_accounts')
+    .select('id, timezone')
+    .eq('id', businessId)
+    .single();
+
+  if (bizError || !business) {
+    return fail(404, 'NOT_FOUND', 'Business not found');
+  }
+
+  const timeZone = business.timezone || DEFAULT_TIMEZONE;
+  const orderFor = input.scheduledFor ? new Date(input.scheduledFor) : new Date();
+
+  // Validate table if dine-in
+  if (input.orderType === 'dine_in' && input.tableId) {
+    const { data: table, error: tableError } = await supabase
+      .from('restaurant_tables')
+      .select('id')
+      .eq('id', input.tableId)
+      .eq('business_id', businessId)
+      .single();
+
+    if (tableError || !table) {
+      return fail(404, 'NOT_FOUND', 'Table not found');
+    }
+  }
+
+  // Fetch menu items and calculate prices
+  const menuItemIds = input.items.map(item => item.menuItemId);
+  const { data: menuItems, error: menuError } = await supabase
+    .from('menu_items')
+    .select('*')
+    .in('id', menuItemIds)
+    .eq('business_id', businessId);
+
+  if (menuError) {
+    return fail(500, 'DB_ERROR', menuError.message);
+  }
+
+  const menuItemMap = new Map((menuItems || []).map(item => [item.id, item]));
+
+  // Resolve prep stations (an item's station overrides its category's)
+  const categoryIds = [...new Set((menuItems || []).map(item => item.category_id))];
+  const { data: categories, error: categoriesError } = await supabase
+    .from('menu_categories')
+    .select('id, station_id, available_start_time, available_end_time, available_days')
+    .in('id', categoryIds);
+
+  // Without the categories, their schedules can't be checked
+  if (categoriesError) {
+    return fail(500, 'DB_ERROR', categoriesError.message);
+  }
+
+  const categoryMap = new Map((categories || []).map(cat => [cat.id, cat]));
+
+  let modifierOptions: Awaited<ReturnType<typeof getModifierOptions>>;
+  try {
+    modifierOptions = await getModifierOptions([...menuItemMap.keys()]);
+  } catch (error) {
+    return fail(500, 'DB_ERROR', (error as Error).message);
+  }
+
+  // Validate all items exist and calculate totals
+  let subtotal = 0;
+  const orderItems: Array<{
+    menu_item_id: string;
+    item_name: string;
+    item_price: number;
+    quantity: number;
+    modifiers: string | null;
+    modifiers_total: number;
+    total_price: number;
+    special_requests: string | null;
+    station_id: string | null;
+    tax_category: TaxCategory;
+  }> = [];
+  const promotionLines: PromotionLine[] = [];
+  const prepTimes: Array<number | null> = [];
+
+  for (const item of input.items) {
+    const menuItem = menuItemMap.get(item.menuItemId);
+    if (!menuItem) {
+      return fail(404, 'NOT_FOUND', `Menu item not found: ${item.menuItemId}`);
+    }
+
+    if (!menuItem.is_available || !menuItem.is_active) {
+      return fail(400, 'ITEM_UNAVAILABLE', `Menu item not available: ${menuItem.name}`);
+    }
+
+    // Dayparts: the item's category must be on the menu when the order is for
+    const category = categoryMap.get(menuItem.category_id);
+    if (category && !isCategoryAvailableAt(mapCategorySchedule(category), orderFor, timeZone)) {
+      return fail(400, 'ITEM_UNAVAILABLE', `${menuItem.name} is not available at ${input.scheduledFor ? 'the scheduled time' : 'this time'}`);
+    }
+
+    const options = modifierOptions.get(menuItem.id) ?? { groups: [], modifiers: [] };
+    const resolved = resolveItemModifiers(menuItem.name, options.groups, options.modifiers, item.modifierIds ?? []);
+    if (!resolved.ok) {
+      return fail(400, resolved.code, resolved.message);
+    }
+
+    const modifiersTotal = resolved.modifiersTotal;
+    const itemTotal = (menuItem.price + modifiersTotal) * item.quantity;
+    subtotal += itemTotal;
+
+    orderItems.push({
+      menu_item_id: menuItem.id,
+      item_name: menuItem.name,
+      item_price: menuItem.price,
+      quantity: item.quantity,
+      modifiers: resolved.modifiers.length > 0 ? JSON.stringify(resolved.modifiers) : null,
+      modifiers_total: modifiersTotal,
+      total_price: itemTotal,
+      special_requests: item.specialRequests || null,
+      station_id: menuItem.station_id ?? category?.station_id ?? null,
+      tax_category: menuItem.tax_category ?? 'standard',
+    });
+    promotionLines.push({
+      menuItemId: menuItem.id,
+      categoryId: menuItem.category_id ?? null,
+      unitPrice: menuItem.price + modifiersTotal,
+      quantity: item.quantity,
+    });
+    prepTimes.push(menuItem.prep_time_minutes ?? null);
+  }
+
+  // Delivery orders are priced by the zone they're going to
+  let delivery: (DeliveryQuote & { ok: true }) | null = null;
+  if (input.orderType === 'delivery') {
+    let deliveryContext: DeliveryContext | null;
+    try {
+      deliveryContext = await getDeliveryContext(businessId);
+    } catch (error) {
+      return fail(500, 'DB_ERROR', (error as Error).message);
+    }
+    if (!deliveryContext) {
+      return fail(404, 'NOT_FOUND', 'Business not found');
+    }
+
+    const quote = quoteDelivery(deliveryContext, input.deliveryLocation, subtotal);
+    if (!quote.ok) {
+      return fail(400, quote.code, quote.message);
+    }
+    delivery = quote;
+  }
+
+  // Apply the promo code and any automatic promotions running at the time
+  // the order is for, so a pre-order gets the happy hour it's picked up in
+  let promotions: PromotionResult;
+  try {
+    const context = await getPromotionContext(businessId, orderFor);
+    promotions = applyPromotions({ ...context, lines: promotionLines, at: orderFor, promoCode: input.promoCode });
+  } catch (error) {
+    return fail(500, 'DB_ERROR', (error as Error).message);
+  }
+
+  if (!promotions.ok) {
+    return fail(400, promotions.code, promotions.message);
+  }
+
+  // Redeem loyalty points against what's left after promotions
+  const { customerId, redeemPoints, redeemRewards } = input;
+  let redemption: { customerId: string; points: number; discount: number } | null = null;
+
+  if (customerId && (redeemPoints || redeemRewards)) {
+    if (!options.canRedeemLoyalty) {
+      return fail(403, 'FORBIDDEN', 'You do not have permission to redeem loyalty points');
+    }
+
+    const [{ data: customer }, { data: loyaltySettings }, { data: loyaltyPoints }] = await Promise.all([
+      supabase.from('customers').select('id').eq('id', customerId).eq('business_id', businessId).maybeSingle(),
+      supabase.from('loyalty_settings').select('*').eq('business_id', businessId).maybeSingle(),
+      supabase.from('loyalty_points').select('points_balance').eq('customer_id', customerId).maybeSingle(),
+    ]);
+
+    if (!customer) {
+      return fail(404, 'NOT_FOUND', 'Customer not found');
+    }
+    if (!loyaltySettings?.is_enabled) {
+      return fail(400, 'LOYALTY_DISABLED', 'Loyalty program is not enabled');
+    }
+
+    const pointsPerReward = Number(loyaltySettings.points_per_reward ?? 0);
+    const calculated = calculateRedemption({
+      points: redeemPoints ?? (redeemRewards ?? 0) * pointsPerReward,
+      balance: loyaltyPoints?.points_balance ?? 0,
+      pointsPerReward,
+      rewardValue: Number(loyaltySettings.reward_value ?? 0),
+      maxRedemptionPercent: Number(loyaltySettings.max_redemption_percent ?? 100),
+      orderAmount: subtotal - promotions.discountTotal,
+    });
+
+    if (!calculated.ok) {
+      return fail(400, calculated.code, calculated.message);
+    }
+    redemption = { customerId, points: calculated.points, discount: calculated.discount };
+  }
+
+  const discountAmount = promotions.discountTotal + (redemption?.discount ?? 0);
+
+  // Tax is charged per line, on the discounted line amounts
+  let tax: TaxResult;
+  let taxInclusive: boolean;
+  try {
+    const taxSettings = await getTaxSettings(businessId);
+    taxInclusive = taxSettings.inclusive;
+    tax = calculateTax({
+      lines: orderItems.map(item => ({ taxCategory: item.tax_category, amount: item.total_price })),
+      discount: discountAmount,
+      orderType: input.orderType,
+      settings: taxSettings,
+    });
+  } catch (error) {
+    return fail(500, 'DB_ERROR', (error as Error).message);
+  }
+
+  const taxAmount = tax.taxAmount;
+  const tipAmount = input.tipAmount || 0;
+  const deliveryFee = delivery?.fee ?? 0;
+  // Tax-inclusive prices already contain the tax
+  const totalAmount = subtotal - discountAmount + (taxInclusive ? 0 : taxAmount) + tipAmount + deliveryFee;
+
+  if (!(await claimPromotionUsage(promotions.applied))) {
+    return fail(409, 'PROMOTION_UNAVAILABLE', 'A promotion on this order has reached its usage limit');
+  }
+
+  // Orders for later use up their pickup slot; only guest orders are refused when it's full
+  let pickupSlot: PickupSlotClaim | null = null;
+  if (input.scheduledFor) {
+    let claimed: Awaited<ReturnType<typeof claimPickupSlot>>;
+    try {
+      const settings = await getOnlineOrderingSettings(businessId);
+      claimed = settings
+        ? await claimPickupSlot({
+          businessId,
+          settings,
+          at: orderFor,
+          items: input.items.reduce((sum, item) => sum + item.quantity, 0),
+          enforceCapacity: !!options.enforcePickupCapacity,
+        })
+        : { ok: true, claim: null };
+    } catch (error) {
+      await releasePromotionUsage(promotions.applied.map(a => a.promotion.id));
+      return fail(500, 'DB_ERROR', (error as Error).message);
+    }
+    if (!claimed.ok) {
+      await releasePromotionUsage(promotions.applied.map(a => a.promotion.id));
+      return fail(409, 'SLOT_FULL', 'That pickup time is fully booked; choose another');
+    }
+    pickupSlot = claimed.claim;
+  }
+
+  // Give back what was claimed for an order that isn't placed after all
+  const releaseClaims = async () => {
+    await releasePromotionUsage(promotions.applied.map(a => a.promotion.id));
+    if (pickupSlot) await releasePickupSlot(businessId, pickupSlot);
+  };
+
+  // Orders for later wait in `scheduled` until the kitchen needs to start them
+  const fireAt = input.scheduledFor ? calculateFireAt(orderFor, prepTimes) : null;
+  const status = shouldHoldOrder(fireAt, new Date()) ? 'scheduled' : 'pending';
+
+  // Generate order number
+  let orderNumber: Awaited<ReturnType<typeof generateOrderNumber>>;
+  try {
+    orderNumber = await generateOrderNumber(businessId);
+  } catch (error) {
+    await releaseClaims();
+    return fail(500, 'DB_ERROR', (error as Error).message);
+  }
+
+  // Create order
+  const { data: order, error: orderError } = await supabase
+    .from('orders')
+    .insert({
+      business_id: businessId,
+      order_number: orderNumber.orderNumber,
+      ticket_number: orderNumber.ticketNumber,
+      order_type: input.orderType,
+      customer_name: input.customerName,
+      customer_email: input.customerEmail,
+      customer_phone: input.customerPhone,
+      table_id: input.tableId,
+      reservation_id: input.reservationId,
+      delivery_address: input.deliveryAddress,
+      delivery_notes: input.deliveryNotes,
+      delivery_fee: delivery ? deliveryFee : null,
+      delivery_zone_id: delivery?.zone?.id ?? null,
+      delivery_latitude: delivery ? input.deliveryLocation?.latitude ?? null : null,
+      delivery_longitude: delivery ? input.deliveryLocation?.longitude ?? null : null,
+      scheduled_for: input.scheduledFor ? orderFor.toISOString() : null,
+      fire_at: fireAt?.toISOString() ?? null,
+      subtotal,
+      tax_amount: taxAmount,
+      tax_inclusive: taxInclusive,
+      tax_breakdown: tax.breakdown.map(t => ({
+        tax_rule_id: t.taxRuleId,
+        name: t.name,
+        rate: t.rate,
+        taxable_amount: t.taxableAmount,
+        tax_amount: t.taxAmount,
+      })),
+      tip_amount: tipAmount,
+      discount_amount: discountAmount,
+      total_amount: totalAmount,
+      payment_method: input.paymentMethod,
+      special_instructions: input.specialInstructions,
+      source: input.source || 'pos',
+      guest_token_hash: options.guestTokenHash ?? null,
+      pickup_slot: pickupSlot?.slotStart.toISOString() ?? null,
+      pickup_slot_items: pickupSlot?.items ?? null,
+      status,
+    })
+    .select()
+    .single();
+
+  if (orderError || !order) {
+    await releaseClaims();
+    return fail(500, 'DB_ERROR', orderError?.message || 'Failed to create order');
+  }
+
+  // Spend the points against the new order; if the balance was spent in
+  // the meantime the order is dropped
+  if (redemption) {
+    const redeemed = await callLoyaltyLedger('redeem_loyalty_points', {
+      p_customer_id: redemption.customerId,
+      p_business_id: businessId,
+      p_points: redemption.points,
+      p_order_id: order.id,
+      p_description: `Redeemed ${redemption.points} points on order ${order.order_number}`,
+      p_processed_by: options.userId ?? null,
+    });
+
+    if (!redeemed.ok) {
+      await supabase.from('orders').delete().eq('id', order.id);
+      await releaseClaims();
+      return redeemed.code === 'INSUFFICIENT_POINTS'
+        ? fail(409, 'INSUFFICIENT_POINTS', 'Loyalty balance changed; try again')
+        : fail(500, 'DB_ERROR', redeemed.message);
+    }
+  }
+
+  if (promotions.applied.length > 0) {
+    const { error: promotionsError } = await supabase
+      .from('order_promotions')
+      .insert(promotions.applied.map(({ promotion, discount }) => ({
+        order_id: order.id,
+        promotion_id: promotion.id,
+        business_id: businessId,
+        name: promotion.name,
+        code: promotion.code,
+        discount_amount: discount,
+      })));
+
+    if (promotionsError) {
+      console.error('Error recording order promotions:', promotionsError);
+    }
+  }
+
+  if (redemption) {
+    await Promise.all([
+      supabase.from('order_promotions').insert({
+        order_id: order.id,
+        promotion_id: null,
+        business_id: businessId,
+        kind: 'loyalty',
+        name: 'Loyalty reward',
+        code: null,
+        discount_amount: redemption.discount,
+        points_redeemed: redemption.points,
+      }),
+      supabase.from('customer_activities').insert({
+        customer_id: redemption.customerId,
+        business_id: businessId,
+        activity_type: 'loyalty_redeemed',
+        amount: redemption.points,
+        order_id: order.id,
+        description: `Redeemed ${redemption.points} points`,
+      }),
+    ]);
+  }
+
+  // Create order items
+  const itemsToInsert = orderItems.map((item, index) => ({
+    ...item,
+    order_id: order.id,
+    tax_rule_id: tax.lines[index]?.taxRuleId ?? null,
+    tax_rate: tax.lines[index]?.rate ?? null,
+    tax_amount: tax.lines[index]?.taxAmount ?? null,
+  }));
+
+  const { error: itemsError } = await supabase
+    .from('order_items')
+    .insert(itemsToInsert);
+
+  // Without its items the order can't be made; drop it and give back what it took
+  if (itemsError) {
+    if (redemption) await restoreRedeemedPoints({ id: order.id, businessId });
+    await supabase.from('orders').delete().eq('id', order.id);
+    await releaseClaims();
+    return fail(500, 'DB_ERROR', itemsError.message);
+  }
+
+  await recordOrderStatusChange({
+    orderId: order.id,
+    businessId,
+    fromStatus: null,
+    toStatus: status,
+    changedBy: options.userId ?? undefined,
+  });
+
+  const camelOrder = await getOrderWithDetails(order);
+  publishEvent(businessId, 'order.created', camelOrder);
+
+  return { ok: true, order: camelOrder };
+}
@@ -0,0 +1,45 @@
+import { supabase } from './supabase';
+import { toCamelCase, parseJsonField } from './utils';
+
+export function parseOrderItemFields(item: Record<string, unknown>): Record<string, unknown> {
+  if (item.modifiers && typeof item.modifiers === 'string') {
+    item.modifiers = parseJsonField(item.modifiers);
+  }
+  return item;
+}
+
+/**
+ * Build the camelCase order payload returned by the orders API:
+ * the order row with its `table`, `items` and applied `promotions` attached.
+ */
+export async function getOrderWithDetails(order: Record<string, any>): Promise<any> {
+  const [tableResult, itemsResult, promotionsResult] = await Promise.all([
+    order.table_id
+      ? supabase
+          .from('restaurant_tables')
+          .select('id, table_number, section')
+          .eq('id', order.table_id)
+          .single()
+      : Promise.resolve({ data: null }),
+    supabase
+      .from('order_items')
+      .select('*')
+      .eq('order_id', order.id),
+    supabase
+      .from('order_promotions')
+      .select('id, order_id, promotion_id, kind, name, code, discount_amount, points_redeemed, created_at')
+      .eq('order_id', order.id),
+  ]);
+
+  const tableData = tableResult.data;
+
+  const camelOrder = toCamelCase<any>(order);
+  delete camelOrder.guestTokenHash; // guest tracking token hash stays server-side
+  camelOrder.table = tableData
+    ? { id: tableData.id, tableNumber: tableData.table_number, section: tableData.section }
+    : null;
+  camelOrder.items = (itemsResult.data || []).map((i: any) => parseOrderItemFields(toCamelCase(i)));
+  camelOrder.promotions = (promotionsResult.data || []).map((p: any) => toCamelCase(p));
+
+  return camelOrder;
+}
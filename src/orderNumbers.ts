@@ -0,0 +1,102 @@
+import { supabase } from './supabase';
+import { getBusinessDate, DEFAULT_TIMEZONE } from './timezone';
+
+/**
+ * Order numbers come from a per-business counter incremented in the
+ * database (next_order_number), so concurrent orders never get the same
+ * number. The counter restarts every business day (in the business's
+ * timezone) or runs continuously, and each order also gets a short ticket
+ * number for pickup screens.
+ */
+
+export type OrderNumberReset = 'daily' | 'never';
+
+export type OrderNumberSettings = {
+  prefix: string;
+  reset: OrderNumberReset;
+  ticketNumberMax: number | null; // ticket numbers cycle 1..max; null for none
+  timezone: string;
+};
+
+// Numbers already taken under a previous format are skipped; this bounds how far
+const MAX_SKIPPED_NUMBERS = 50;
+
+export function mapOrderNumberSettings(row: Record<string, any>): OrderNumberSettings {
+  return {
+    prefix: row.order_number_prefix ?? '',
+    reset: row.order_number_reset === 'never' ? 'never' : 'daily',
+    ticketNumberMax: row.ticket_number_max ?? null,
+    timezone: row.timezone || DEFAULT_TIMEZONE,
+  };
+}
+
+// Counter the sequence is drawn from: one per business day, or one overall
+export function getCounterPeriod(settings: OrderNumberSettings, placedAt: Date): string {
+  return settings.reset === 'daily' ? getBusinessDate(placedAt, settings.timezone) : 'all';
+}
+
+/**
+ * Daily numbers look like 20260314-0042 (business date and sequence);
+ * continuous ones are the zero-padded sequence, e.g. 000042. Either way
+ * the prefix goes in front.
+ */
+export function formatOrderNumber(settings: OrderNumberSettings, period: string, sequence: number): string {
+  if (settings.reset === 'daily') {
+    return `${settings.prefix}${period.replace(/-/g, '')}-${String(sequence).padStart(4, '0')}`;
+  }
+  return `${settings.prefix}${String(sequence).padStart(6, '0')}`;
+}
+
+export function getTicketNumber(sequence: number, ticketNumberMax: number | null): number | null {
+  if (!ticketNumberMax || ticketNumberMax < 1) return null;
+  return ((sequence - 1) % ticketNumberMax) + 1;
+}
+
+/**
+ * Next order number (and ticket number) for an order placed at `placedAt`.
+ * Throws if the counter can't be read.
+ */
+export async function generateOrderNumber(
+  businessId: string,
+  placedAt = new Date()
+): Promise<{ orderNumber: string; ticketNumber: number | null }> {
+  const { data: business, error: businessError } = await supabase
+    .from('business_accounts')
+    .select('timezone, order_number_prefix, order_number_reset, ticket_number_max')
+    .eq('id', businessId)
+    .single();
+
+  if (businessError || !business) {
+    throw new Error(`Failed to load order number settings: ${businessError?.message}`);
+  }
+
+  const settings = mapOrderNumberSettings(business);
+  const period = getCounterPeriod(settings, placedAt);
+
+  for (let skipped = 0; skipped <= MAX_SKIPPED_NUMBERS; skipped++) {
+    const { data: sequence, error } = await supabase.rpc('next_order_number', {
+      p_business_id: businessId,
+      p_period: period,
+    });
+
+    if (error || typeof sequence !== 'number') {
+      throw new Error(`Failed to generate order number: ${error?.message}`);
+    }
+
+    const orderNumber = formatOrderNumber(settings, period, sequence);
+
+    // Orders numbered before the counter existed (or under another prefix)
+    // may already hold this number
+    const { count } = await supabase
+      .from('orders')
+      .select('id', { count: 'exact', head: true })
+      .eq('business_id', businessId)
+      .eq('order_number', orderNumber);
+
+    if (!count) {
+      return { orderNumber, ticketNumber: getTicketNumber(sequence, settings.ticketNumberMax) };
+    }
+  }
+
+  throw new Error('Failed to generate order number: too many numbers already taken');
+}
@@ -0,0 +1,204 @@
+import type Stripe from 'stripe';
+import { supabase } from './supabase';
+import { getStripe } from './stripe';
+import { hasPermission, resolveBusinessRole } from './middleware/authorize';
+import type { AuthUser } from './middleware/auth';
+import type { TeamRole } from './types';
+
+const ORDER_CURRENCY = 'usd';
+
+// Intents the customer can still confirm; anything else needs a new intent
+const REUSABLE_INTENT_STATUSES: Stripe.PaymentIntent.Status[] = [
+  'requires_payment_method',
+  'requires_confirmation',
+  'requires_action',
+];
+
+export type OrderPaymentErrorCode =
+  | 'NOT_FOUND'
+  | 'ORDER_CANCELLED'
+  | 'ORDER_ALREADY_PAID'
+  | 'PAYMENT_IN_PROGRESS'
+  | 'INVALID_AMOUNT'
+  | 'PAYMENTS_NOT_CONFIGURED';
+
+export type OrderPaymentIntent = {
+  clientSecret: string | null;
+  paymentIntentId: string;
+  amount: number;
+  currency: string;
+};
+
+export type OrderPaymentIntentResult =
+  | { ok: true; payment: OrderPaymentIntent }
+  | { ok: false; code: OrderPaymentErrorCode; message: string };
+
+export function toMinorUnits(amount: number): number {
+  return Math.round(amount * 100);
+}
+
+/**
+ * Platform fee in cents for an order charge of `amountCents`.
+ */
+export function calculateApplicationFee(amountCents: number, feePercent: number): number {
+  if (!Number.isFinite(feePercent) || feePercent <= 0) return 0;
+  return Math.min(amountCents, Math.round(amountCents * feePercent / 100));
+}
+
+export function getApplicationFeePercent(): number {
+  return Number(process.env.STRIPE_APPLICATION_FEE_PERCENT ?? 0);
+}
+
+/**
+ * Why an order can't be paid, or null if it can.
+ */
+export function getOrderPaymentBlocker(order: {
+  status: string;
+  payment_status: string;
+  total_amount: number | string;
+}): { code: OrderPaymentErrorCode; message: string } | null {
+  if (order.status === 'cancelled') {
+    return { code: 'ORDER_CANCELLED', message: 'Order has been cancelled' };
+  }
+  if (order.payment_status === 'paid' || order.payment_status === 'refunded') {
+    return { code: 'ORDER_ALREADY_PAID', message: 'Order has already been paid' };
+  }
+  if (!(Number(order.total_amount) > 0)) {
+    return { code: 'INVALID_AMOUNT', message: 'Order has no amount to pay' };
+  }
+  return null;
+}
+
+/**
+ * Whether a user may pay for an order: staff of the order's business who
+ * can take orders, or the customer it was placed for (matched on email).
+ * `role` is the user's role in the order's business, null if they have none.
+ */
+export function canPayForOrder(
+  order: { customer_email?: string | null },
+  user: Pick<AuthUser, 'email'>,
+  role: TeamRole | null
+): boolean {
+  if (role && hasPermission(role, 'orders:write')) return true;
+  return !!user.email && !!order.customer_email
+    && order.customer_email.trim().toLowerCase() === user.email.trim().toLowerCase();
+}
+
+function toPayment(intent: Stripe.PaymentIntent): { ok: true; payment: OrderPaymentIntent } {
+  return {
+    ok: true,
+    payment: {
+      clientSecret: intent.client_secret,
+      paymentIntentId: intent.id,
+      amount: intent.amount / 100,
+      currency: intent.currency,
+    },
+  };
+}
+
+/**
+ * Get the PaymentIntent for an order, charging the order's own total rather
+ * than a client-supplied amount. Funds go to the business's Connect account
+ * as a destination charge, less the platform's application fee.
+ * The intent id is stored on the order, so repeated calls return the same
+ * intent (with its amount brought up to date) until it is paid or cancelled.
+ * Orders the user can't pay for (see canPayForOrder) are reported as not
+ * found. Stripe errors are thrown.
+ */
+export async function getOrCreateOrderPaymentIntent(params: {
+  orderId: string;
+  user: AuthUser;
+  customerId?: string;
+  metadata?: Record<string, string>;
+}): Promise<OrderPaymentIntentResult> {
+  const stripe = getStripe();
+
+  const { data: order } = await supabase
+    .from('orders')
+    .select('id, business_id, status, payment_status, total_amount, customer_email, stripe_payment_intent_id')
+    .eq('id', params.orderId)
+    .single();
+
+  if (!order || !canPayForOrder(order, params.user, await resolveBusinessRole(params.user.id, order.business_id))) {
+    return { ok: false, code: 'NOT_FOUND', message: 'Order not found' };
+  }
+
+  const blocker = getOrderPaymentBlocker(order);
+  if (blocker) return { ok: false, ...blocker };
+
+  const { data: business } = await supabase
+    .from('business_accounts')
+    .select('stripe_account_id')
+    .eq('id', order.business_id)
+    .single();
+
+  if (!business?.stripe_account_id) {
+    return { ok: false, code: 'PAYMENTS_NOT_CONFIGURED', message: 'This business cannot take payments yet' };
+  }
+
+  const amount = toMinorUnits(Number(order.total_amount));
+  const applicationFee = calculateApplicationFee(amount, getApplicationFeePercent());
+
+  if (order.stripe_payment_intent_id) {
+    const existing = await stripe.paymentIntents.retrieve(order.stripe_payment_intent_id);
+
+    if (existing.status === 'succeeded') {
+      // Paid, but the webhook hasn't updated the order yet
+      return { ok: false, code: 'ORDER_ALREADY_PAID', message: 'Order has already been paid' };
+    }
+    if (existing.status === 'processing') {
+      return { ok: false, code: 'PAYMENT_IN_PROGRESS', message: 'A payment for this order is already processing' };
+    }
+
+    if (REUSABLE_INTENT_STATUSES.includes(existing.status)) {
+      if (existing.amount === amount && (existing.application_fee_amount ?? 0) === applicationFee) {
+        return toPayment(existing);
+      }
+      // The order total changed since the intent was created
+      return toPayment(await stripe.paymentIntents.update(existing.id, {
+        amount,
+        application_fee_amount: applicationFee || undefined,
+      }));
+    }
+  }
+
+  const paymentIntent = await stripe.paymentIntents.create({
+    amount,
+    currency: ORDER_CURRENCY,
+    customer: params.customerId,
+    automatic_payment_methods: { enabled: true },
+    application_fee_amount: applicationFee || undefined,
+    transfer_data: { destination: business.stripe_account_id },
+    metadata: {
+      ...params.metadata,
+      user_id: params.user.id,
+      business_id: order.business_id,
+      order_id: order.id,
+    },
+  });
+
+  // Store the intent only if a concurrent call hasn't replaced the one we saw
+  let claim = supabase
+    .from('orders')
+    .update({ stripe_payment_intent_id: paymentIntent.id, updated_at: new Date().toISOString() })
+    .eq('id', order.id);
+  claim = order.stripe_payment_intent_id
+    ? claim.eq('stripe_payment_intent_id', order.stripe_payment_intent_id)
+    : claim.is('stripe_payment_intent_id', null);
+
+  const { data: claimed } = await claim.select('id').maybeSingle();
+  if (claimed) return toPayment(paymentIntent);
+
+  await stripe.paymentIntents.cancel(paymentIntent.id);
+
+  const { data: current } = await supabase
+    .from('orders')
+    .select('stripe_payment_intent_id')
+    .eq('id', order.id)
+    .single();
+
+  if (!current?.stripe_payment_intent_id) {
+    throw new Error('Failed to store payment intent on order');
+  }
+  return toPayment(await stripe.paymentIntents.retrieve(current.stripe_payment_intent_id));
+}
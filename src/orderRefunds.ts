@@ -0,0 +1,280 @@
+import { supabase } from './supabase';
+import { getStripe } from './stripe';
+import { publishEvent } from './events';
+import { getOrderWithDetails } from './orderDetails';
+import { reverseLoyaltyPoints } from './loyalty';
+import { toMinorUnits } from './orderPayments';
+import type { CreateOrderRefundRequest } from './types';
+
+export type RefundMethod = 'stripe' | 'cash';
+
+// Refunds that count against the order's balance; failed ones don't
+export const ACTIVE_REFUND_STATUSES = ['pending', 'succeeded'];
+
+export type RefundLineItem = {
+  orderItemId: string;
+  quantity: number;
+  amount: number;
+};
+
+export type OrderRefundResult =
+  | { ok: true; refund: Record<string, any>; order: Record<string, any> }
+  | {
+      ok: false;
+      code: 'ORDER_NOT_PAID' | 'NOTHING_TO_REFUND' | 'REFUND_EXCEEDS_BALANCE' | 'INVALID_ITEMS' | 'CONFLICT' | 'STRIPE_ERROR' | 'DB_ERROR';
+      message: string;
+    };
+
+export function roundCurrency(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+// The PaymentIntent an order was paid with, if it was paid through Stripe
+export function getOrderPaymentIntentId(order: Record<string, any>): string | null {
+  if (order.stripe_payment_intent_id) return order.stripe_payment_intent_id;
+  if (typeof order.payment_reference === 'string' && order.payment_reference.startsWith('pi_')) {
+    return order.payment_reference;
+  }
+  return null;
+}
+
+export function getRefundableAmount(order: { total_amount: number; refunded_amount?: number | null }): number {
+  return roundCurrency(Math.max(0, Number(order.total_amount) - Number(order.refunded_amount ?? 0)));
+}
+
+// Quantity of each order item already refunded, from the ledger's line items
+export function getRefundedQuantities(refunds: Array<{ status: string; items: RefundLineItem[] | null }>): Map<string, number> {
+  const refunded = new Map<string, number>();
+  for (const refund of refunds) {
+    if (!ACTIVE_REFUND_STATUSES.includes(refund.status)) continue;
+    for (const item of refund.items ?? []) {
+      refunded.set(item.orderItemId, (refunded.get(item.orderItemId) ?? 0) + item.quantity);
+    }
+  }
+  return refunded;
+}
+
+/**
+ * Price the refunded line items: each unit's share of the item's total_price,
+ * less its share of the order's discount, plus the tax charged on it.
+ * Returns an error if an item isn't on the order or more units are requested
+ * than are left to refund.
+ */
+export function calculateItemRefund(
+  order: { subtotal: number; tax_amount: number; discount_amount?: number | null; tax_inclusive?: boolean | null },
+  orderItems: Array<{ id: string; quantity: number; total_price: number }>,
+  requested: Array<{ orderItemId: string; quantity?: number }>,
+  alreadyRefunded: Map<string, number>
+): { amount: number; items: RefundLineItem[] } | { error: string } {
+  const itemsById = new Map(orderItems.map(item => [item.id, item]));
+  const subtotal = Number(order.subtotal);
+  // What each dollar of item price was actually charged, after discount and
+  // tax (already part of the price when tax-inclusive)
+  const addedTax = order.tax_inclusive ? 0 : Number(order.tax_amount);
+  const chargedRate = subtotal > 0
+    ? (subtotal - Number(order.discount_amount ?? 0) + addedTax) / subtotal
+    : 0;
+  const requestedQuantities = new Map<string, number>();
+  const items: RefundLineItem[] = [];
+
+  for (const line of requested) {
+    const item = itemsById.get(line.orderItemId);
+    if (!item) {
+      return { error: `Order item not found: ${line.orderItemId}` };
+    }
+
+    const remaining = item.quantity - (alreadyRefunded.get(item.id) ?? 0) - (requestedQuantities.get(item.id) ?? 0);
+    const quantity = line.quantity ?? remaining;
+    if (quantity <= 0 || quantity > remaining) {
+      return { error: `Only ${Math.max(0, remaining)} of order item ${item.id} left to refund` };
+    }
+    requestedQuantities.set(item.id, (requestedQuantities.get(item.id) ?? 0) + quantity);
+
+    const unitPrice = Number(item.total_price) / item.quantity;
+    items.push({
+      orderItemId: item.id,
+      quantity,
+      amount: roundCurrency(unitPrice * quantity * chargedRate),
+    });
+  }
+
+  return { amount: roundCurrency(items.reduce((sum, i) => sum + i.amount, 0)), items };
+}
+
+// Compare-and-set the order's refunded_amount so concurrent refunds can't
+// together exceed the total
+async function setRefundedAmount(orderId: string, from: number, to: number): Promise<Record<string, any> | null> {
+  const { data } = await supabase
+    .from('orders')
+    .update({ refunded_amount: to, updated_at: new Date().toISOString() })
+    .eq('id', orderId)
+    .eq('refunded_amount', from)
+    .select()
+    .maybeSingle();
+  return data;
+}
+
+/**
+ * Refund all or part of a paid order. With `amount` that amount is refunded,
+ * with `items` those line items are, and with neither the whole remaining
+ * balance. Orders paid through Stripe are refunded to the card; anything else
+ * is recorded as a cash refund. Every refund is written to order_refunds, and
+ * loyalty points earned on the order are reversed in proportion.
+ */
+export async function createOrderRefund(
+  order: Record<string, any>,
+  request: CreateOrderRefundRequest,
+  createdBy?: string | null
+): Promise<OrderRefundResult> {
+  if (order.payment_status !== 'paid') {
+    return { ok: false, code: 'ORDER_NOT_PAID', message: 'Only paid orders can be refunded' };
+  }
+
+  const refundable = getRefundableAmount({
+    total_amount: order.total_amount,
+    refunded_amount: order.refunded_amount,
+  });
+  if (refundable <= 0) {
+    return { ok: false, code: 'NOTHING_TO_REFUND', message: 'Order has already been fully refunded' };
+  }
+
+  let amount = refundable;
+  let items: RefundLineItem[] | null = null;
+
+  if (request.items) {
+    const [{ data: orderItems }, { data: refunds }] = await Promise.all([
+      supabase.from('order_items').select('id, quantity, total_price').eq('order_id', order.id),
+      supabase.from('order_refunds').select('status, items').eq('order_id', order.id),
+    ]);
+
+    const priced = calculateItemRefund(
+      {
+        subtotal: order.subtotal,
+        tax_amount: order.tax_amount,
+        discount_amount: order.discount_amount,
+        tax_inclusive: order.tax_inclusive,
+      },
+      orderItems || [],
+      request.items,
+      getRefundedQuantities(refunds || [])
+    );
+    if ('error' in priced) {
+      return { ok: false, code: 'INVALID_ITEMS', message: priced.error };
+    }
+    amount = priced.amount;
+    items = priced.items;
+  } else if (request.amount !== undefined) {
+    amount = roundCurrency(request.amount);
+  }
+
+  if (amount <= 0) {
+    return { ok: false, code: 'NOTHING_TO_REFUND', message: 'Refund amount must be greater than zero' };
+  }
+  if (amount > refundable) {
+    return {
+      ok: false,
+      code: 'REFUND_EXCEEDS_BALANCE',
+      message: `Refund of ${amount.toFixed(2)} exceeds the ${refundable.toFixed(2)} left to refund`,
+    };
+  }
+
+  const refundedBefore = roundCurrency(Number(order.refunded_amount ?? 0));
+  const refundedAfter = roundCurrency(refundedBefore + amount);
+
+  if (!(await setRefundedAmount(order.id, refundedBefore, refundedAfter))) {
+    return { ok: false, code: 'CONFLICT', message: 'Order was refunded by another request; try again' };
+  }
+
+  const paymentIntentId = getOrderPaymentIntentId(order);
+  const method: RefundMethod = paymentIntentId ? 'stripe' : 'cash';
+
+  const { data: refund, error: insertError } = await supabase
+    .from('order_refunds')
+    .insert({
+      order_id: order.id,
+      business_id: order.business_id,
+      amount,
+      method,
+      status: method === 'cash' ? 'succeeded' : 'pending',
+      reason: request.reason ?? null,
+      items,
+      created_by: createdBy ?? null,
+    })
+    .select()
+    .single();
+
+  if (insertError || !refund) {
+    await setRefundedAmount(order.id, refundedAfter, refundedBefore);
+    return { ok: false, code: 'DB_ERROR', message: insertError?.message || 'Failed to record refund' };
+  }
+
+  let recorded = refund;
+
+  if (method === 'stripe') {
+    try {
+      const stripe = getStripe();
+      const intent = await stripe.paymentIntents.retrieve(paymentIntentId!);
+      // Destination charges also take the money back from the business's
+      // Connect account, and return the platform fee on that amount
+      const isDestinationCharge = !!intent.transfer_data;
+
+      const stripeRefund = await stripe.refunds.create({
+        payment_intent: paymentIntentId!,
+        amount: toMinorUnits(amount),
+        reverse_transfer: isDestinationCharge || undefined,
+        refund_application_fee: isDestinationCharge || undefined,
+        metadata: { order_id: order.id, order_refund_id: refund.id },
+      });
+
+      const { data: updated } = await supabase
+        .from('order_refunds')
+        .update({
+          stripe_refund_id: stripeRefund.id,
+          status: stripeRefund.status === 'succeeded' ? 'succeeded' : 'pending',
+        })
+        .eq('id', refund.id)
+        .select()
+        .single();
+      recorded = updated ?? recorded;
+    } catch (error) {
+      console.error('Error creating Stripe refund:', error);
+      await supabase.from('order_refunds').update({ status: 'failed' }).eq('id', refund.id);
+      await setRefundedAmount(order.id, refundedAfter, refundedBefore);
+      return { ok: false, code: 'STRIPE_ERROR', message: 'Failed to refund payment' };
+    }
+  }
+
+  const fullyRefunded = refundedAfter >= Number(order.total_amount);
+  const now = new Date().toISOString();
+  const { data: updatedOrder } = await supabase
+    .from('orders')
+    .update(fullyRefunded
+      ? { payment_status: 'refunded', refunded_at: now, updated_at: now }
+      : { updated_at: now })
+    .eq('id', order.id)
+    .select()
+    .single();
+
+  const loyalty = await reverseLoyaltyPoints({
+    id: order.id,
+    businessId: order.business_id,
+    totalAmount: Number(order.total_amount),
+    refundAmount: amount,
+    refundedTotal: refundedAfter,
+  });
+
+  if (loyalty?.pointsReversed) {
+    const { data: updated } = await supabase
+      .from('order_refunds')
+      .update({ points_reversed: loyalty.pointsReversed })
+      .eq('id', refund.id)
+      .select()
+      .single();
+    recorded = updated ?? recorded;
+  }
+
+  const finalOrder = updatedOrder ?? { ...order, refunded_amount: refundedAfter };
+  publishEvent(order.business_id, 'order.payment_updated', await getOrderWithDetails(finalOrder));
+
+  return { ok: true, refund: recorded, order: finalOrder };
+}
@@ -0,0 +1,211 @@
+import { supabase } from './supabase';
+import { awardLoyaltyPoints, restoreRedeemedPoints } from './loyalty';
+import { getOrderWithDetails } from './orderDetails';
+import { publishEvent } from './events';
+import type { OrderStatus } from './types';
+
+/**
+ * Allowed order status transitions.
+ * Orders move forward through the kitchen flow, can be cancelled any time
+ * before completion, and can only be refunded once completed. A ready order
+ * can drop back to preparing when an item is recalled on the KDS. Scheduled
+ * orders are released straight to confirmed when it's time to start them.
+ */
+export const ORDER_STATUS_TRANSITIONS: Record<OrderStatus, readonly OrderStatus[]> = {
+  scheduled: ['confirmed', 'cancelled'],
+  pending: ['confirmed', 'cancelled'],
+  confirmed: ['preparing', 'cancelled'],
+  preparing: ['ready', 'cancelled'],
+  ready: ['completed', 'cancelled', 'preparing'],
+  completed: ['refunded'],
+  cancelled: [],
+  refunded: [],
+};
+
+// Statuses an order walks through while the kitchen works on it
+const KITCHEN_FLOW: readonly OrderStatus[] = ['pending', 'confirmed', 'preparing', 'ready'];
+
+// Timestamp column stamped when an order enters each status
+const STATUS_TIMESTAMP_COLUMNS: Partial<Record<OrderStatus, string>> = {
+  confirmed: 'confirmed_at',
+  preparing: 'preparing_at',
+  ready: 'ready_at',
+  completed: 'completed_at',
+  cancelled: 'cancelled_at',
+  refunded: 'refunded_at',
+};
+
+export function canTransitionOrder(from: OrderStatus, to: OrderStatus): boolean {
+  return ORDER_STATUS_TRANSITIONS[from]?.includes(to) ?? false;
+}
+
+export type OrderTransitionResult =
+  | { ok: true; order: Record<string, any> }
+  | { ok: false; code: 'INVALID_TRANSITION' | 'DB_ERROR'; message: string };
+
+/**
+ * Record a row in order_status_history.
+ * `fromStatus` is null for the initial status written on creation.
+ */
+export async function recordOrderStatusChange(entry: {
+  orderId: string;
+  businessId: string;
+  fromStatus: OrderStatus | null;
+  toStatus: OrderStatus;
+  changedBy?: string | null;
+  reason?: string | null;
+}) {
+  const { error } = await supabase
+    .from('order_status_history')
+    .insert({
+      order_id: entry.orderId,
+      business_id: entry.businessId,
+      from_status: entry.fromStatus,
+      to_status: entry.toStatus,
+      changed_by: entry.changedBy ?? null,
+      reason: entry.reason ?? null,
+    });
+
+  if (error) {
+    console.error('Error recording order status history:', error);
+  }
+}
+
+/**
+ * Move an order to a new status, enforcing ORDER_STATUS_TRANSITIONS.
+ * The update is conditional on the order still being in its current status,
+ * so two concurrent transitions can't both succeed. `updates` are extra
+ * snake_case columns written in the same update.
+ */
+export async function transitionOrderStatus(
+  existing: Record<string, any>,
+  toStatus: OrderStatus,
+  opts: {
+    changedBy?: string | null;
+    reason?: string | null;
+    updates?: Record<string, unknown>;
+  } = {}
+): Promise<OrderTransitionResult> {
+  const fromStatus = existing.status as OrderStatus;
+
+  if (!canTransitionOrder(fromStatus, toStatus)) {
+    return {
+      ok: false,
+      code: 'INVALID_TRANSITION',
+      message: `Cannot change order status from ${fromStatus} to ${toStatus}`,
+    };
+  }
+
+  const now = new Date().toISOString();
+  const updateData: Record<string, unknown> = {
+    ...opts.updates,
+    status: toStatus,
+    updated_at: now,
+  };
+
+  const timestampColumn = STATUS_TIMESTAMP_COLUMNS[toStatus];
+  if (timestampColumn) {
+    updateData[timestampColumn] = now;
+  }
+
+  if (toStatus === 'cancelled' && opts.reason && updateData.cancellation_reason === undefined) {
+    updateData.cancellation_reason = opts.reason;
+  }
+
+  const { data: order, error } = await supabase
+    .from('orders')
+    .update(updateData)
+    .eq('id', existing.id)
+    .eq('status', fromStatus)
+    .select()
+    .maybeSingle();
+
+  if (error) {
+    return { ok: false, code: 'DB_ERROR', message: error.message };
+  }
+
+  if (!order) {
+    return {
+      ok: false,
+      code: 'INVALID_TRANSITION',
+      message: 'Order status was changed by another request',
+    };
+  }
+
+  await recordOrderStatusChange({
+    orderId: order.id,
+    businessId: order.business_id,
+    fromStatus,
+    toStatus,
+    changedBy: opts.changedBy,
+    reason: opts.reason,
+  });
+
+  publishEvent(order.business_id, 'order.status_changed', await getOrderWithDetails(order));
+
+  if (toStatus === 'completed') {
+    await awardLoyaltyPoints({
+      id: order.id,
+      businessId: order.business_id,
+      totalAmount: order.total_amount,
+      customerEmail: order.customer_email,
+      customerPhone: order.customer_phone,
+      customerName: order.customer_name,
+    });
+  }
+
+  // Points redeemed on a cancelled order go back to the customer
+  if (toStatus === 'cancelled') {
+    await restoreRedeemedPoints({ id: order.id, businessId: order.business_id });
+  }
+
+  return { ok: true, order };
+}
+
+/**
+ * Keep an order's status in step with its items.
+ * When every item is ready (or served) the order is walked forward to `ready`;
+ * when a ready order has an item recalled it goes back to `preparing`.
+ * Returns the updated order row, or null if the status didn't change.
+ */
+export async function syncOrderStatusWithItems(
+  orderId: string,
+  changedBy?: string | null
+): Promise<Record<string, any> | null> {
+  const [{ data: order }, { data: items }] = await Promise.all([
+    supabase.from('orders').select('*').eq('id', orderId).single(),
+    supabase.from('order_items').select('status').eq('order_id', orderId),
+  ]);
+
+  if (!order || !items || items.length === 0) {
+    return null;
+  }
+
+  const allReady = items.every(item => item.status === 'ready' || item.status === 'served');
+  const currentIndex = KITCHEN_FLOW.indexOf(order.status);
+
+  if (allReady && currentIndex !== -1 && order.status !== 'ready') {
+    let current: Record<string, any> = order;
+    for (const nextStatus of KITCHEN_FLOW.slice(currentIndex + 1)) {
+      const result = await transitionOrderStatus(current, nextStatus, {
+        changedBy,
+        reason: 'All items ready',
+      });
+      if (!result.ok) {
+        return null;
+      }
+      current = result.order;
+    }
+    return current;
+  }
+
+  if (!allReady && order.status === 'ready') {
+    const result = await transitionOrderStatus(order, 'preparing', {
+      changedBy,
+      reason: 'Item recalled',
+    });
+    return result.ok ? result.order : null;
+  }
+
+  return null;
+}
@@ -0,0 +1,77 @@
+import type { SyncOrderRequest } from './types';
+
+/**
+ * Offline POS sync: orders taken while a tablet had no connection are
+ * uploaded later with the prices they were charged at. The charged prices
+ * are kept; differences from the current menu are reported as conflicts.
+ */
+
+export type SyncConflict = {
+  type: 'ITEM_NOT_FOUND' | 'PRICE_CHANGED';
+  menuItemId: string;
+  message: string;
+  chargedPrice?: number;
+  currentPrice?: number;
+};
+
+export type SyncOrderResult = {
+  clientOrderId: string;
+  status: 'created' | 'duplicate' | 'conflict' | 'error';
+  orderId?: string;
+  orderNumber?: string;
+  conflicts: SyncConflict[];
+  error?: string;
+};
+
+// Offline clocks drift; timestamps a little ahead of the server are accepted
+export const MAX_CLOCK_SKEW_MS = 5 * 60 * 1000;
+
+function roundCurrency(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+// Oldest first, so order numbers follow the order the orders were taken in
+export function sortByCreatedAt<T extends { createdAt: string }>(orders: T[]): T[] {
+  return [...orders].sort((a, b) => Date.parse(a.createdAt) - Date.parse(b.createdAt));
+}
+
+/**
+ * Compare a synced order's items to the menu. Items that no longer exist
+ * block the order (there's nothing to attach them to); items whose base
+ * price has changed since the order was taken are reported but don't.
+ */
+export function findSyncConflicts(
+  order: Pick<SyncOrderRequest, 'items'>,
+  menuItems: Map<string, { price: number; name: string }>
+): { blocking: boolean; conflicts: SyncConflict[] } {
+  const conflicts: SyncConflict[] = [];
+  let blocking = false;
+
+  for (const item of order.items) {
+    const menuItem = menuItems.get(item.menuItemId);
+    if (!menuItem) {
+      blocking = true;
+      conflicts.push({
+        type: 'ITEM_NOT_FOUND',
+        menuItemId: item.menuItemId,
+        message: `Menu item ${item.itemName ?? item.menuItemId} no longer exists`,
+      });
+      continue;
+    }
+
+    const modifiersTotal = (item.modifiers ?? []).reduce((sum, m) => sum + m.priceAdjustment, 0);
+    const chargedPrice = roundCurrency(item.unitPrice - modifiersTotal);
+    const currentPrice = roundCurrency(Number(menuItem.price));
+    if (chargedPrice !== currentPrice) {
+      conflicts.push({
+        type: 'PRICE_CHANGED',
+        menuItemId: item.menuItemId,
+        message: `${menuItem.name} was charged ${chargedPrice.toFixed(2)} but now costs ${currentPrice.toFixed(2)}`,
+        chargedPrice,
+        currentPrice,
+      });
+    }
+  }
+
+  return { blocking, conflicts };
+}
@@ -0,0 +1,336 @@
+import { supabase } from './supabase';
+import { parseTimeToMinutes } from './availability';
+import { DEFAULT_TIMEZONE, getBusinessTimezone, getZonedParts } from './timezone';
+
+/**
+ * Promotions engine: which promotions apply to an order and what they take
+ * off. The pure functions work on camelCase promotions and order lines;
+ * the loaders below map database rows into them.
+ */
+
+export type PromotionDiscountType = 'percent' | 'fixed' | 'bogo';
+export type PromotionScope = 'order' | 'category' | 'item';
+
+export type Promotion = {
+  id: string;
+  name: string;
+  code: string | null; // null for automatic promotions
+  discountType: PromotionDiscountType;
+  discountValue: number; // percent off, amount off, or for bogo the percent off the free items
+  scope: PromotionScope;
+  categoryIds: string[];
+  menuItemIds: string[];
+  buyQuantity: number; // bogo: buy this many...
+  getQuantity: number; // ...get this many discounted
+  minSubtotal: number | null;
+  stackable: boolean;
+  isActive: boolean;
+  startsAt: string | null;
+  endsAt: string | null;
+  usageLimit: number | null;
+  usageCount: number;
+  // Happy hour: days and a window, either fixed times or relative to the
+  // day's business_hours (the first/last `durationMinutes` after opening or
+  // before closing, shifted by `anchorOffsetMinutes`)
+  daysOfWeek: number[] | null;
+  startTime: string | null;
+  endTime: string | null;
+  hoursAnchor: 'open' | 'close' | null;
+  anchorOffsetMinutes: number;
+  durationMinutes: number | null;
+};
+
+export type PromotionLine = {
+  menuItemId: string;
+  categoryId: string | null;
+  unitPrice: number; // including modifiers
+  quantity: number;
+};
+
+export type DayHours = {
+  openTime: string | null;
+  closeTime: string | null;
+  isClosed: boolean;
+};
+
+export type AppliedPromotion = {
+  promotion: Promotion;
+  discount: number;
+};
+
+export type PromotionResult =
+  | { ok: true; applied: AppliedPromotion[]; discountTotal: number }
+  | { ok: false; code: 'INVALID_PROMO_CODE' | 'PROMO_CODE_NOT_APPLICABLE'; message: string };
+
+function roundCurrency(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+function hasHappyHour(promotion: Promotion): boolean {
+  return !!(promotion.hoursAnchor || promotion.startTime || promotion.endTime);
+}
+
+/**
+ * The [start, end) minutes of the day a promotion runs, clipped to the
+ * business's opening hours. Null if it doesn't run that day (or the business
+ * is closed). Promotions without a time window run whenever the business is open.
+ */
+export function getPromotionWindow(promotion: Promotion, hours: DayHours | null): [number, number] | null {
+  const open = hours && !hours.isClosed && hours.openTime && hours.closeTime
+    ? [parseTimeToMinutes(hours.openTime), parseTimeToMinutes(hours.closeTime)] as [number, number]
+    : null;
+
+  let window: [number, number];
+  if (promotion.hoursAnchor) {
+    if (!open) return null;
+    const offset = promotion.anchorOffsetMinutes;
+    const duration = promotion.durationMinutes ?? 60;
+    window = promotion.hoursAnchor === 'open'
+      ? [open[0] + offset, open[0] + offset + duration]
+      : [open[1] - offset - duration, open[1] - offset];
+  } else {
+    window = [
+      promotion.startTime ? parseTimeToMinutes(promotion.startTime) : 0,
+      promotion.endTime ? parseTimeToMinutes(promotion.endTime) : 24 * 60,
+    ];
+  }
+
+  // Without hours for the day only fixed windows can be checked
+  if (open) {
+    window = [Math.max(window[0], open[0]), Math.min(window[1], open[1])];
+  } else if (hours) {
+    return null;
+  }
+
+  return window[0] < window[1] ? window : null;
+}
+
+/**
+ * Whether a promotion can be used at `at`: active, inside its date range,
+ * under its usage limit, and within its happy-hour window. Days and times
+ * are the business's, in `timeZone`.
+ */
+export function isPromotionActive(
+  promotion: Promotion,
+  at: Date,
+  hours: DayHours | null,
+  timeZone: string = DEFAULT_TIMEZONE
+): boolean {
+  if (!promotion.isActive) return false;
+  if (promotion.startsAt && at < new Date(promotion.startsAt)) return false;
+  if (promotion.endsAt && at >= new Date(promotion.endsAt)) return false;
+  if (promotion.usageLimit !== null && promotion.usageCount >= promotion.usageLimit) return false;
+  const local = getZonedParts(at, timeZone);
+  if (promotion.daysOfWeek && promotion.daysOfWeek.length > 0 && !promotion.daysOfWeek.includes(local.dayOfWeek)) {
+    return false;
+  }
+  if (!hasHappyHour(promotion)) return true;
+
+  const window = getPromotionWindow(promotion, hours);
+  const minutes = local.hour * 60 + local.minute;
+  return !!window && window[0] <= minutes && minutes < window[1];
+}
+
+function isEligibleLine(promotion: Promotion, line: PromotionLine): boolean {
+  switch (promotion.scope) {
+    case 'category':
+      return !!line.categoryId && promotion.categoryIds.includes(line.categoryId);
+    case 'item':
+      return promotion.menuItemIds.includes(line.menuItemId);
+    default:
+      return true;
+  }
+}
+
+/**
+ * What a promotion takes off these lines, never more than the eligible
+ * items cost. BOGO groups eligible units from most to least expensive and
+ * discounts the cheapest `getQuantity` of every `buyQuantity + getQuantity`.
+ */
+export function calculatePromotionDiscount(promotion: Promotion, lines: PromotionLine[]): number {
+  const eligible = lines.filter(line => isEligibleLine(promotion, line));
+  const eligibleTotal = eligible.reduce((sum, line) => sum + line.unitPrice * line.quantity, 0);
+  if (eligibleTotal <= 0) return 0;
+
+  let discount = 0;
+  switch (promotion.discountType) {
+    case 'percent':
+      discount = eligibleTotal * Math.min(promotion.discountValue, 100) / 100;
+      break;
+    case 'fixed':
+      discount = promotion.discountValue;
+      break;
+    case 'bogo': {
+      const units = eligible
+        .flatMap(line => Array<number>(line.quantity).fill(line.unitPrice))
+        .sort((a, b) => b - a);
+      const groupSize = promotion.buyQuantity + promotion.getQuantity;
+      if (promotion.getQuantity <= 0 || groupSize <= 0) return 0;
+
+      const percentOff = Math.min(promotion.discountValue || 100, 100) / 100;
+      for (let start = 0; start + groupSize <= units.length; start += groupSize) {
+        for (let i = start + promotion.buyQuantity; i < start + groupSize; i++) {
+          discount += units[i]! * percentOff;
+        }
+      }
+      break;
+    }
+  }
+
+  return roundCurrency(Math.min(Math.max(discount, 0), eligibleTotal));
+}
+
+/**
+ * Pick the promotions for an order. A valid promo code always applies;
+ * otherwise the customer gets whichever is worth more: every stackable
+ * automatic promotion together, or the best single non-stackable one.
+ * Non-stackable promotions never combine with anything.
+ */
+export function applyPromotions(params: {
+  promotions: Promotion[];
+  lines: PromotionLine[];
+  at: Date;
+  hours: DayHours | null;
+  timezone?: string;
+  promoCode?: string;
+}): PromotionResult {
+  const { promotions, lines, at, hours, timezone } = params;
+  const subtotal = roundCurrency(lines.reduce((sum, line) => sum + line.unitPrice * line.quantity, 0));
+
+  const evaluate = (promotion: Promotion): AppliedPromotion | null => {
+    if (!isPromotionActive(promotion, at, hours, timezone)) return null;
+    if (promotion.minSubtotal !== null && subtotal < promotion.minSubtotal) return null;
+    const discount = calculatePromotionDiscount(promotion, lines);
+    return discount > 0 ? { promotion, discount } : null;
+  };
+
+  const automatic = promotions
+    .filter(p => !p.code)
+    .map(evaluate)
+    .filter((a): a is AppliedPromotion => !!a);
+  const stackable = automatic.filter(a => a.promotion.stackable);
+  const sum = (applied: AppliedPromotion[]) => applied.reduce((total, a) => total + a.discount, 0);
+
+  let selected: AppliedPromotion[];
+
+  if (params.promoCode) {
+    const code = params.promoCode.trim().toUpperCase();
+    const promotion = promotions.find(p => p.code?.toUpperCase() === code);
+    if (!promotion || !isPromotionActive(promotion, at, hours, timezone)) {
+      return { ok: false, code: 'INVALID_PROMO_CODE', message: 'Promo code is invalid or has expired' };
+    }
+
+    const applied = evaluate(promotion);
+    if (!applied) {
+      const message = promotion.minSubtotal !== null && subtotal < promotion.minSubtotal
+        ? `Promo code requires a subtotal of at least ${promotion.minSubtotal.toFixed(2)}`
+        : 'Promo code does not apply to the items in this order';
+      return { ok: false, code: 'PROMO_CODE_NOT_APPLICABLE', message };
+    }
+
+    selected = promotion.stackable ? [applied, ...stackable] : [applied];
+  } else {
+    const bestSingle = automatic
+      .filter(a => !a.promotion.stackable)
+      .sort((a, b) => b.discount - a.discount)[0];
+    selected = bestSingle && bestSingle.discount > sum(stackable) ? [bestSingle] : stackable;
+  }
+
+  // The order's discounts together can't exceed its subtotal
+  let remaining = subtotal;
+  const applied = selected.map(a => {
+    const discount = roundCurrency(Math.min(a.discount, remaining));
+    remaining = roundCurrency(remaining - discount);
+    return { promotion: a.promotion, discount };
+  }).filter(a => a.discount > 0);
+
+  return { ok: true, applied, discountTotal: roundCurrency(sum(applied)) };
+}
+
+export function mapPromotionRow(row: Record<string, any>): Promotion {
+  return {
+    id: row.id,
+    name: row.name,
+    code: row.code ?? null,
+    discountType: row.discount_type,
+    discountValue: Number(row.discount_value ?? 0),
+    scope: row.scope ?? 'order',
+    categoryIds: row.category_ids ?? [],
+    menuItemIds: row.menu_item_ids ?? [],
+    buyQuantity: row.buy_quantity ?? 1,
+    getQuantity: row.get_quantity ?? 1,
+    minSubtotal: row.min_subtotal !== null && row.min_subtotal !== undefined ? Number(row.min_subtotal) : null,
+    stackable: !!row.stackable,
+    isActive: row.is_active !== false,
+    startsAt: row.starts_at ?? null,
+    endsAt: row.ends_at ?? null,
+    usageLimit: row.usage_limit ?? null,
+    usageCount: row.usage_count ?? 0,
+    daysOfWeek: row.days_of_week ?? null,
+    startTime: row.start_time ?? null,
+    endTime: row.end_time ?? null,
+    hoursAnchor: row.hours_anchor ?? null,
+    anchorOffsetMinutes: row.anchor_offset_minutes ?? 0,
+    durationMinutes: row.duration_minutes ?? null,
+  };
+}
+
+/**
+ * Load a business's active promotions, its timezone and its opening hours
+ * for `at`'s day there.
+ */
+export async function getPromotionContext(
+  businessId: string,
+  at: Date
+): Promise<{ promotions: Promotion[]; hours: DayHours | null; timezone: string }> {
+  const timezone = await getBusinessTimezone(businessId);
+  const [{ data: promotions, error }, { data: hours }] = await Promise.all([
+    supabase
+      .from('promotions')
+      .select('*')
+      .eq('business_id', businessId)
+      .eq('is_active', true),
+    supabase
+      .from('business_hours')
+      .select('open_time, close_time, is_closed')
+      .eq('business_id', businessId)
+      .eq('day_of_week', getZonedParts(at, timezone).dayOfWeek)
+      .maybeSingle(),
+  ]);
+
+  if (error) {
+    throw new Error(`Failed to load promotions: ${error.message}`);
+  }
+
+  return {
+    promotions: (promotions || []).map(mapPromotionRow),
+    hours: hours
+      ? { openTime: hours.open_time, closeTime: hours.close_time, isClosed: !!hours.is_closed }
+      : null,
+    timezone,
+  };
+}
+
+/**
+ * Count one use of each applied promotion, atomically against its usage
+ * limit. If any has run out, the uses already counted are released and
+ * false is returned.
+ */
+export async function claimPromotionUsage(applied: AppliedPromotion[]): Promise<boolean> {
+  const claimed: string[] = [];
+  for (const { promotion } of applied) {
+    const { data: ok, error } = await supabase.rpc('claim_promotion_usage', { p_promotion_id: promotion.id });
+    if (error || !ok) {
+      await releasePromotionUsage(claimed);
+      return false;
+    }
+    claimed.push(promotion.id);
+  }
+  return true;
+}
+
+export async function releasePromotionUsage(promotionIds: string[]): Promise<void> {
+  for (const id of promotionIds) {
+    await supabase.rpc('release_promotion_usage', { p_promotion_id: id });
+  }
+}
@@ -0,0 +1,41 @@
+/**
+ * Expo push notification delivery.
+ */
+
+export async function sendExpoPush(
+  tokens: string[],
+  title: string,
+  body: string,
+  data?: Record<string, unknown>,
+): Promise<{ sent: number; failed: number }> {
+  if (tokens.length === 0) return { sent: 0, failed: 0 };
+
+  const messages = tokens.map(token => ({
+    to: token,
+    sound: 'default' as const,
+    title,
+    body,
+    data: data ?? {},
+  }));
+
+  try {
+    const response = await fetch('https://exp.host/--/api/v2/push/send', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(messages),
+    });
+
+    if (!response.ok) {
+      console.error('Expo push API error:', response.status);
+      return { sent: 0, failed: tokens.length };
+    }
+
+    const result = await response.json() as { data?: Array<{ status: string }> };
+    const tickets = result.data ?? [];
+    const sent = tickets.filter(t => t.status === 'ok').length;
+    return { sent, failed: tokens.length - sent };
+  } catch (err) {
+    console.error('Push notification error:', err);
+    return { sent: 0, failed: tokens.length };
+  }
+}
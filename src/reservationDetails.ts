@@ -0,0 +1,45 @@
+import { supabase } from './supabase';
+import { toCamelCase } from './utils';
+
+/**
+ * Build the camelCase reservation payload returned by the reservations API,
+ * with its assigned `table` (if any) attached.
+ */
+export function formatReservationResponse(reservation: Record<string, unknown>, table?: Record<string, unknown> | null) {
+  const camelRes = toCamelCase(reservation);
+  return {
+    ...camelRes,
+    reservationDate: camelRes.reservationDate
+      ? new Date(camelRes.reservationDate as string).toISOString().split('T')[0]
+      : null,
+    confirmedAt: camelRes.confirmedAt ? new Date(camelRes.confirmedAt as string).toISOString() : null,
+    seatedAt: camelRes.seatedAt ? new Date(camelRes.seatedAt as string).toISOString() : null,
+    completedAt: camelRes.completedAt ? new Date(camelRes.completedAt as string).toISOString() : null,
+    cancelledAt: camelRes.cancelledAt ? new Date(camelRes.cancelledAt as string).toISOString() : null,
+    createdAt: camelRes.createdAt ? new Date(camelRes.createdAt as string).toISOString() : null,
+    updatedAt: camelRes.updatedAt ? new Date(camelRes.updatedAt as string).toISOString() : null,
+    table: table
+      ? {
+          id: table.id,
+          tableNumber: table.table_number,
+          section: table.section,
+        }
+      : null,
+  };
+}
+
+/**
+ * Format a reservation row, fetching its assigned table.
+ */
+export async function getReservationWithDetails(reservation: Record<string, any>) {
+  let table = null;
+  if (reservation.table_id) {
+    const { data: tableData } = await supabase
+      .from('restaurant_tables')
+      .select('id, table_number, section')
+      .eq('id', reservation.table_id)
+      .single();
+    table = tableData;
+  }
+  return formatReservationResponse(reservation, table);
+}
@@ -0,0 +1,387 @@
+import type Stripe from 'stripe';
+import { supabase } from './supabase';
+import { getStripe } from './stripe';
+import { publishEvent } from './events';
+import { getReservationWithDetails } from './reservationDetails';
+import { getBusinessTimezone, zonedTimeToUtc } from './timezone';
+
+export type DepositMode = 'deposit' | 'card_on_file';
+
+const DEPOSIT_CURRENCY = 'usd';
+
+// How long a guest has to pay the deposit or save a card before the
+// reservation is cancelled and its table released
+export const PAYMENT_WINDOW_MINUTES = 15;
+
+const EXPIRY_JOB_INTERVAL_MS = 60 * 1000;
+const EXPIRY_BATCH_SIZE = 200;
+
+export function getPaymentExpiry(now: Date = new Date()): Date {
+  return new Date(now.getTime() + PAYMENT_WINDOW_MINUTES * 60 * 1000);
+}
+
+/**
+ * Whether a cancellation made at `now` is early enough for a deposit refund.
+ * The reservation's date and time are wall-clock times in `timeZone`.
+ */
+export function isBeforeCancellationDeadline(
+  reservationDate: string,
+  reservationTime: string,
+  deadlineHours: number,
+  timeZone: string,
+  now: Date = new Date()
+): boolean {
+  const start = zonedTimeToUtc(reservationDate, reservationTime.slice(0, 5), timeZone);
+  return now.getTime() <= start.getTime() - deadlineHours * 60 * 60 * 1000;
+}
+
+/**
+ * Start collecting a reservation's deposit (PaymentIntent) or saving a card
+ * for the no-show fee (SetupIntent). Both are created on the business's
+ * Connect account so funds go straight to the business.
+ * Returns what the client needs to confirm the payment with Stripe.js.
+ */
+export async function startReservationPayment(params: {
+  reservation: Record<string, any>;
+  mode: DepositMode;
+  amount: number;
+  stripeAccountId: string;
+}) {
+  const { reservation, mode, amount, stripeAccountId } = params;
+  const stripe = getStripe();
+  const requestOptions = { stripeAccount: stripeAccountId };
+  const metadata = {
+    reservation_id: reservation.id,
+    business_id: reservation.business_id,
+  };
+
+  const customer = await stripe.customers.create({
+    email: reservation.customer_email || undefined,
+    name: reservation.customer_name,
+    phone: reservation.customer_phone || undefined,
+    metadata,
+  }, requestOptions);
+
+  let clientSecret: string | null;
+  let paymentIntentId: string | null = null;
+  let setupIntentId: string | null = null;
+
+  if (mode === 'deposit') {
+    const paymentIntent = await stripe.paymentIntents.create({
+      amount: Math.round(amount * 100),
+      currency: DEPOSIT_CURRENCY,
+      customer: customer.id,
+      automatic_payment_methods: { enabled: true },
+      metadata,
+    }, requestOptions);
+    clientSecret = paymentIntent.client_secret;
+    paymentIntentId = paymentIntent.id;
+  } else {
+    const setupIntent = await stripe.setupIntents.create({
+      customer: customer.id,
+      usage: 'off_session',
+      automatic_payment_methods: { enabled: true },
+      metadata,
+    }, requestOptions);
+    clientSecret = setupIntent.client_secret;
+    setupIntentId = setupIntent.id;
+  }
+
+  const { error } = await supabase
+    .from('reservation_payments')
+    .insert({
+      reservation_id: reservation.id,
+      business_id: reservation.business_id,
+      mode,
+      status: 'requires_payment',
+      amount,
+      currency: DEPOSIT_CURRENCY,
+      stripe_account_id: stripeAccountId,
+      stripe_customer_id: customer.id,
+      stripe_payment_intent_id: paymentIntentId,
+      stripe_setup_intent_id: setupIntentId,
+    });
+
+  if (error) {
+    throw new Error(`Failed to record reservation payment: ${error.message}`);
+  }
+
+  return {
+    mode,
+    amount,
+    currency: DEPOSIT_CURRENCY,
+    clientSecret,
+    stripeAccountId,
+  };
+}
+
+async function updatePayment(paymentId: string, updates: Record<string, unknown>) {
+  await supabase
+    .from('reservation_payments')
+    .update({ ...updates, updated_at: new Date().toISOString() })
+    .eq('id', paymentId);
+}
+
+// Move a reservation out of pending_payment once its deposit or card is in place
+// If the guest cancelled while paying, settle the payment instead
+async function confirmPaidReservation(reservationId: string) {
+  const { data: reservation } = await supabase
+    .from('reservations')
+    .select('*')
+    .eq('id', reservationId)
+    .single();
+
+  if (!reservation) return;
+
+  if (reservation.status === 'cancelled') {
+    await settleReservationPayment(reservation, 'cancelled');
+    return;
+  }
+
+  if (reservation.status !== 'pending_payment') return;
+
+  const { data: settings } = await supabase
+    .from('reservation_settings')
+    .select('auto_confirm')
+    .eq('business_id', reservation.business_id)
+    .single();
+
+  const status = settings?.auto_confirm === false ? 'pending' : 'confirmed';
+  const { data: updated } = await supabase
+    .from('reservations')
+    .update({
+      status,
+      confirmed_at: status === 'confirmed' ? new Date().toISOString() : null,
+    })
+    .eq('id', reservationId)
+    .eq('status', 'pending_payment')
+    .select()
+    .single();
+
+  if (updated) {
+    publishEvent(updated.business_id, 'reservation.updated', await getReservationWithDetails(updated));
+  }
+}
+
+/**
+ * Apply a Stripe webhook event to reservation payments.
+ * Returns false for events that don't belong to a reservation payment.
+ */
+export async function handleReservationPaymentEvent(event: Stripe.Event): Promise<boolean> {
+  switch (event.type) {
+    case 'payment_intent.succeeded':
+    case 'payment_intent.payment_failed': {
+      const intent = event.data.object;
+      const succeeded = event.type === 'payment_intent.succeeded';
+
+      const { data: deposit } = await supabase
+        .from('reservation_payments')
+        .select('*')
+        .eq('stripe_payment_intent_id', intent.id)
+        .maybeSingle();
+
+      if (deposit) {
+        if (deposit.status !== 'requires_payment' && deposit.status !== 'failed') return true;
+        await updatePayment(deposit.id, { status: succeeded ? 'succeeded' : 'failed' });
+        if (succeeded) {
+          await confirmPaidReservation(deposit.reservation_id);
+        }
+        return true;
+      }
+
+      // Off-session no-show fee charges
+      const { data: noShow } = await supabase
+        .from('reservation_payments')
+        .select('*')
+        .eq('no_show_payment_intent_id', intent.id)
+        .maybeSingle();
+
+      if (noShow) {
+        await updatePayment(noShow.id, { status: succeeded ? 'charged' : 'charge_failed' });
+        return true;
+      }
+
+      return false;
+    }
+
+    case 'setup_intent.succeeded':
+    case 'setup_intent.setup_failed': {
+      const intent = event.data.object;
+
+      const { data: payment } = await supabase
+        .from('reservation_payments')
+        .select('*')
+        .eq('stripe_setup_intent_id', intent.id)
+        .maybeSingle();
+
+      if (!payment) return false;
+      if (payment.status !== 'requires_payment' && payment.status !== 'failed') return true;
+
+      if (event.type === 'setup_intent.succeeded') {
+        const paymentMethodId = typeof intent.payment_method === 'string'
+          ? intent.payment_method
+          : intent.payment_method?.id ?? null;
+        await updatePayment(payment.id, { status: 'card_saved', stripe_payment_method_id: paymentMethodId });
+        await confirmPaidReservation(payment.reservation_id);
+      } else {
+        await updatePayment(payment.id, { status: 'failed' });
+      }
+      return true;
+    }
+
+    default:
+      return false;
+  }
+}
+
+/**
+ * Settle a reservation's payment when it is cancelled or marked no_show:
+ * - unpaid intents are cancelled
+ * - deposits are refunded if cancelled before the deadline, otherwise kept
+ * - saved cards are charged the no-show fee, or released on cancellation
+ * Stripe errors are logged and recorded on the payment; they don't undo the
+ * reservation's status change.
+ */
+export async function settleReservationPayment(
+  reservation: Record<string, any>,
+  outcome: 'cancelled' | 'no_show'
+): Promise<void> {
+  const { data: payment } = await supabase
+    .from('reservation_payments')
+    .select('*')
+    .eq('reservation_id', reservation.id)
+    .maybeSingle();
+
+  if (!payment) return;
+
+  const requestOptions = { stripeAccount: payment.stripe_account_id };
+
+  try {
+    const stripe = getStripe();
+
+    if (payment.status === 'requires_payment' || payment.status === 'failed') {
+      if (payment.stripe_payment_intent_id) {
+        await stripe.paymentIntents.cancel(payment.stripe_payment_intent_id, {}, requestOptions);
+      } else if (payment.stripe_setup_intent_id) {
+        await stripe.setupIntents.cancel(payment.stripe_setup_intent_id, {}, requestOptions);
+      }
+      await updatePayment(payment.id, { status: 'cancelled' });
+      return;
+    }
+
+    if (payment.mode === 'deposit' && payment.status === 'succeeded') {
+      const { data: settings } = await supabase
+        .from('reservation_settings')
+        .select('cancellation_deadline_hours')
+        .eq('business_id', reservation.business_id)
+        .single();
+
+      const refundable = outcome === 'cancelled' && isBeforeCancellationDeadline(
+        reservation.reservation_date,
+        reservation.reservation_time,
+        settings?.cancellation_deadline_hours ?? 24,
+        await getBusinessTimezone(reservation.business_id)
+      );
+
+      if (!refundable) {
+        await updatePayment(payment.id, { status: 'forfeited' });
+        return;
+      }
+
+      const refund = await stripe.refunds.create({
+        payment_intent: payment.stripe_payment_intent_id,
+        metadata: { reservation_id: reservation.id },
+      }, requestOptions);
+      await updatePayment(payment.id, { status: 'refunded', stripe_refund_id: refund.id });
+      return;
+    }
+
+    if (payment.mode === 'card_on_file' && payment.status === 'card_saved') {
+      if (outcome === 'cancelled') {
+        await updatePayment(payment.id, { status: 'released' });
+        return;
+      }
+
+      const charge = await stripe.paymentIntents.create({
+        amount: Math.round(Number(payment.amount) * 100),
+        currency: payment.currency,
+        customer: payment.stripe_customer_id,
+        payment_method: payment.stripe_payment_method_id,
+        off_session: true,
+        confirm: true,
+        description: 'No-show fee',
+        metadata: { reservation_id: reservation.id, business_id: reservation.business_id },
+      }, requestOptions);
+
+      await updatePayment(payment.id, {
+        status: charge.status === 'succeeded' ? 'charged' : 'charge_pending',
+        no_show_payment_intent_id: charge.id,
+      });
+    }
+  } catch (error) {
+    console.error('Error settling reservation payment:', error);
+    if (payment.mode === 'card_on_file' && outcome === 'no_show') {
+      await updatePayment(payment.id, { status: 'charge_failed' });
+    } else if (payment.status === 'succeeded') {
+      await updatePayment(payment.id, { status: 'refund_failed' });
+    }
+  }
+}
+
+/**
+ * Cancel reservations still waiting for payment past their
+ * payment_expires_at, releasing their tables and cancelling the unpaid
+ * intents. Returns how many were cancelled; a payment that lands afterwards
+ * is settled like one for a cancelled reservation.
+ */
+export async function expireUnpaidReservations(now: Date = new Date()): Promise<number> {
+  const { data: reservations, error } = await supabase
+    .from('reservations')
+    .select('id')
+    .eq('status', 'pending_payment')
+    .lte('payment_expires_at', now.toISOString())
+    .limit(EXPIRY_BATCH_SIZE);
+
+  if (error) {
+    console.error('Error loading unpaid reservations:', error);
+    return 0;
+  }
+
+  let expired = 0;
+  for (const { id } of reservations || []) {
+    const { data: cancelled } = await supabase
+      .from('reservations')
+      .update({
+        status: 'cancelled',
+        cancelled_at: now.toISOString(),
+        cancellation_reason: 'Payment not completed in time',
+        updated_at: now.toISOString(),
+      })
+      .eq('id', id)
+      .eq('status', 'pending_payment')
+      .select()
+      .maybeSingle();
+
+    if (!cancelled) continue;
+    expired++;
+    publishEvent(cancelled.business_id, 'reservation.updated', await getReservationWithDetails(cancelled));
+    await settleReservationPayment(cancelled, 'cancelled');
+  }
+
+  return expired;
+}
+
+export function startReservationPaymentExpiryJob(intervalMs = EXPIRY_JOB_INTERVAL_MS) {
+  let running = false;
+  const run = async () => {
+    if (running) return;
+    running = true;
+    try {
+      await expireUnpaidReservations();
+    } finally {
+      running = false;
+    }
+  };
+
+  return setInterval(run, intervalMs);
+}
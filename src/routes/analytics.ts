@@ -1,55 +1,83 @@
 import { Hono } from 'hono';
 import { supabase } from '../supabase';
 import { toCamelCase } from '../utils';
+import { requirePermission } from '../middleware/authorize';
+import {
+  addDays,
+  DEFAULT_TIMEZONE,
+  getBusinessDate,
+  getBusinessDayBounds,
+  getBusinessTimezone,
+  getDayOfWeek,
+  getZonedParts,
+  zonedTimeToUtc,
+} from '../timezone';
 
 const analyticsRouter = new Hono();
 
-function getDateRanges() {
+// Periods are business days, weeks (from Monday) and months in the
+// business's timezone
+function getDateRanges(timeZone: string) {
   const now = new Date();
+  const today = getBusinessDate(now, timeZone);
 
   // Today (start and end)
-  const todayStart = new Date(now);
-  todayStart.setHours(0, 0, 0, 0);
-  const todayEnd = new Date(now);
-  todayEnd.setHours(23, 59, 59, 999);
+  const { start: todayStart, end: todayEnd } = getBusinessDayBounds(today, timeZone);
 
   // This week (start from Monday)
-  const weekStart = new Date(now);
-  const day = weekStart.getDay();
-  const diff = weekStart.getDate() - day + (day === 0 ? -6 : 1);
-  weekStart.setDate(diff);
-  weekStart.setHours(0, 0, 0, 0);
+  const day = getDayOfWeek(today);
+  const weekStart = zonedTimeToUtc(addDays(today, day === 0 ? -6 : 1 - day), '00:00', timeZone);
 
   // This month
-  const monthStart = new Date(now.getFullYear(), now.getMonth(), 1);
-  monthStart.setHours(0, 0, 0, 0);
+  const monthStart = zonedTimeToUtc(`${today.slice(0, 8)}01`, '00:00', timeZone);
+
+  // Start of the 30-day trend (today and the 29 days before it)
+  const trendStart = zonedTimeToUtc(addDays(today, -29), '00:00', timeZone);
 
   // 30 days ago
   const thirtyDaysAgo = new Date(now.getTime() - 30 * 24 * 60 * 60 * 1000);
 
   return {
     now,
+    today,
     todayStart,
     todayEnd,
     weekStart,
     monthStart,
+    trendStart,
     thirtyDaysAgo,
   };
 }
 
+/**
+ * `created_at` bounds for the startDate/endDate query parameters. Plain
+ * dates are whole business days; full timestamps are used as given (the
+ * end still runs to the close of that business day).
+ */
+function getDateFilter(startDate: string | undefined, endDate: string | undefined, timeZone: string) {
+  const isDate = (value: string) => /^\d{4}-\d{2}-\d{2}$/.test(value);
+
+  const start = startDate
+    ? (isDate(startDate) ? zonedTimeToUtc(startDate, '00:00', timeZone) : new Date(startDate)).toISOString()
+    : undefined;
+  const end = endDate
+    ? getBusinessDayBounds(isDate(endDate) ? endDate : getBusinessDate(new Date(endDate), timeZone), timeZone).end.toISOString()
+    : undefined;
+
+  return { start, end };
+}
+
 // ============================================
 // Dashboard - Comprehensive analytics summary
 // ============================================
 
-analyticsRouter.get('/:businessId/dashboard', async (c) => {
+analyticsRouter.get('/:businessId/dashboard', requirePermission('analytics:read'), async (c) => {
   const { businessId } = c.req.param();
 
-  const { todayStart, todayEnd, weekStart, monthStart, thirtyDaysAgo, now } = getDateRanges();
-
   // Verify business exists
   const { data: business, error: businessError } = await supabase
     .from('business_accounts')
-    .select('id')
+    .select('id, timezone')
     .eq('id', businessId)
     .single();
 
@@ -57,6 +85,9 @@ analyticsRouter.get('/:businessId/dashboard', async (c) => {
     return c.json({ error: { message: 'Business not found', code: 'NOT_FOUND' } }, 404);
   }
 
+  const timeZone: string = business.timezone || DEFAULT_TIMEZONE;
+  const { today, todayStart, todayEnd, weekStart, monthStart, trendStart, thirtyDaysAgo } = getDateRanges(timeZone);
+
   // Revenue queries - fetch orders for different time periods
   const [
     todayOrdersResult,
@@ -89,7 +120,7 @@ analyticsRouter.get('/:businessId/dashboard', async (c) => {
       .select('total_amount, created_at')
       .eq('business_id', businessId)
       .eq('status', 'completed')
-      .gte('created_at', thirtyDaysAgo.toISOString()),
+      .gte('created_at', trendStart.toISOString()),
   ]);
 
   const todayOrders = todayOrdersResult.data || [];
@@ -100,13 +131,11 @@ analyticsRouter.get('/:businessId/dashboard', async (c) => {
   // Calculate revenue trend by day
   const trendMap = new Map<string, { revenue: number; orders: number }>();
   for (let i = 0; i < 30; i++) {
-    const date = new Date(now.getTime() - i * 24 * 60 * 60 * 1000);
-    const dateStr = date.toISOString().split('T')[0] as string;
-    trendMap.set(dateStr, { revenue: 0, orders: 0 });
+    trendMap.set(addDays(today, -i), { revenue: 0, orders: 0 });
   }
 
   for (const order of recentOrders) {
-    const dateStr = new Date(order.created_at).toISOString().split('T')[0] as string;
+    const dateStr = getBusinessDate(new Date(order.created_at), timeZone);
     const existing = trendMap.get(dateStr);
     if (existing) {
       existing.revenue += order.total_amount;
@@ -185,7 +214,7 @@ analyticsRouter.get('/:businessId/dashboard', async (c) => {
   }
 
   for (const order of allTodayOrders) {
-    const hour = new Date(order.created_at).getHours();
+    const hour = getZonedParts(new Date(order.created_at), timeZone).hour;
     const existing = byHourMap.get(hour);
     if (existing) {
       existing.count += 1;
@@ -391,13 +420,12 @@ analyticsRouter.get('/:businessId/dashboard', async (c) => {
       .select('id', { count: 'exact', head: true })
       .eq('business_id', businessId)
       .in('status', ['pending', 'confirmed'])
-      .gte('reservation_date', todayStart.toISOString()),
+      .gte('reservation_date', today),
     supabase
       .from('reservations')
       .select('id', { count: 'exact', head: true })
       .eq('business_id', businessId)
-      .gte('reservation_date', todayStart.toISOString())
-      .lte('reservation_date', todayEnd.toISOString()),
+      .eq('reservation_date', today),
     supabase
       .from('reservations')
       .select('status, party_size')
@@ -456,7 +484,7 @@ analyticsRouter.get('/:businessId/dashboard', async (c) => {
 // Revenue Analytics
 // ============================================
 
-analyticsRouter.get('/:businessId/revenue', async (c) => {
+analyticsRouter.get('/:businessId/revenue', requirePermission('analytics:read'), async (c) => {
   const { businessId } = c.req.param();
   const startDate = c.req.query('startDate');
   const endDate = c.req.query('endDate');
@@ -464,16 +492,15 @@ analyticsRouter.get('/:businessId/revenue', async (c) => {
   // Build query
   let query = supabase
     .from('orders')
-    .select('id, total_amount, tax_amount, tip_amount, discount_amount, order_type, payment_status, status')
+    .select('id, total_amount, tax_amount, tax_breakdown, tip_amount, discount_amount, order_type, payment_status, status')
     .eq('business_id', businessId);
 
-  if (startDate) {
-    query = query.gte('created_at', new Date(startDate).toISOString());
+  const { start, end } = getDateFilter(startDate, endDate, await getBusinessTimezone(businessId));
+  if (start) {
+    query = query.gte('created_at', start);
   }
-  if (endDate) {
-    const end = new Date(endDate);
-    end.setHours(23, 59, 59, 999);
-    query = query.lte('created_at', end.toISOString());
+  if (end) {
+    query = query.lte('created_at', end);
   }
 
   const { data: orders, error } = await query;
@@ -494,6 +521,8 @@ analyticsRouter.get('/:businessId/revenue', async (c) => {
   let refundedAmount = 0;
 
   const byOrderType: Record<string, { count: number; revenue: number }> = {};
+  // Tax by rule name and rate; orders from before breakdowns were recorded aren't itemised
+  const taxBreakdownMap = new Map<string, { name: string; rate: number; taxableAmount: number; taxAmount: number }>();
 
   for (const order of ordersList) {
     if (order.status === 'completed') {
@@ -501,6 +530,14 @@ analyticsRouter.get('/:businessId/revenue', async (c) => {
       totalTax += order.tax_amount;
       totalTips += order.tip_amount;
       totalDiscounts += order.discount_amount;
+
+      for (const tax of order.tax_breakdown || []) {
+        const key = `${tax.name}:${tax.rate}`;
+        const existing = taxBreakdownMap.get(key) ?? { name: tax.name, rate: Number(tax.rate), taxableAmount: 0, taxAmount: 0 };
+        existing.taxableAmount += Number(tax.taxable_amount);
+        existing.taxAmount += Number(tax.tax_amount);
+        taxBreakdownMap.set(key, existing);
+      }
     }
 
     if (order.payment_status === 'paid') {
@@ -530,6 +567,7 @@ analyticsRouter.get('/:businessId/revenue', async (c) => {
       avgOrderValue,
       totalOrders: ordersList.length,
       totalTax,
+      taxBreakdown: Array.from(taxBreakdownMap.values()).sort((a, b) => b.taxAmount - a.taxAmount),
       totalTips,
       totalDiscounts,
       paidAmount,
@@ -540,11 +578,82 @@ analyticsRouter.get('/:businessId/revenue', async (c) => {
   });
 });
 
+// ============================================
+// Promotion Analytics
+// ============================================
+
+// Discount cost per promotion, over orders that weren't cancelled
+analyticsRouter.get('/:businessId/promotions', requirePermission('analytics:read'), async (c) => {
+  const { businessId } = c.req.param();
+  const startDate = c.req.query('startDate');
+  const endDate = c.req.query('endDate');
+
+  let query = supabase
+    .from('order_promotions')
+    .select('promotion_id, name, code, discount_amount, orders!inner(status, total_amount)')
+    .eq('business_id', businessId)
+    .eq('kind', 'promotion')
+    .neq('orders.status', 'cancelled');
+
+  const { start, end } = getDateFilter(startDate, endDate, await getBusinessTimezone(businessId));
+  if (start) {
+    query = query.gte('created_at', start);
+  }
+  if (end) {
+    query = query.lte('created_at', end);
+  }
+
+  const { data: rows, error } = await query;
+
+  if (error) {
+    return c.json({ error: { message: 'Failed to fetch promotions', code: 'DATABASE_ERROR' } }, 500);
+  }
+
+  const byPromotion = new Map<string, {
+    promotionId: string | null;
+    name: string;
+    code: string | null;
+    orders: number;
+    discountCost: number;
+    revenue: number;
+  }>();
+
+  for (const row of rows || []) {
+    // Deleted promotions are grouped by the name they were applied under
+    const key = row.promotion_id ?? `deleted:${row.name}`;
+    const order = row.orders as any;
+    const entry = byPromotion.get(key) ?? {
+      promotionId: row.promotion_id,
+      name: row.name,
+      code: row.code,
+      orders: 0,
+      discountCost: 0,
+      revenue: 0,
+    };
+    entry.orders += 1;
+    entry.discountCost += Number(row.discount_amount);
+    entry.revenue += Number(order?.total_amount ?? 0);
+    byPromotion.set(key, entry);
+  }
+
+  const promotions = [...byPromotion.values()].sort((a, b) => b.discountCost - a.discountCost);
+
+  return c.json({
+    data: {
+      totalDiscountCost: promotions.reduce((sum, p) => sum + p.discountCost, 0),
+      promotions: promotions.map(p => ({
+        ...p,
+        avgDiscount: p.orders > 0 ? p.discountCost / p.orders : 0,
+      })),
+    },
+  });
+});
+
 // ============================================
 // Order Analytics
 // ============================================
 
-analyticsRouter.get('/:businessId/orders', async (c) => {
+analyticsRouter.get('/:businessId/orders', requirePermission('analytics:read'), async (c) => {
   const { businessId } = c.req.param();
   const startDate = c.req.query('startDate');
   const endDate = c.req.query('endDate');
@@ -555,13 +664,12 @@ analyticsRouter.get('/:businessId/orders', async (c) => {
     .select('status, order_type, source')
     .eq('business_id', businessId);
 
-  if (startDate) {
-    query = query.gte('created_at', new Date(startDate).toISOString());
+  const { start, end } = getDateFilter(startDate, endDate, await getBusinessTimezone(businessId));
+  if (start) {
+    query = query.gte('created_at', start);
   }
-  if (endDate) {
-    const end = new Date(endDate);
-    end.setHours(23, 59, 59, 999);
-    query = query.lte('created_at', end.toISOString());
+  if (end) {
+    query = query.lte('created_at', end);
   }
 
   const { data: orders, error, count } = await query;
@@ -607,10 +715,10 @@ analyticsRouter.get('/:businessId/orders', async (c) => {
 // Customer Analytics
 // ============================================
 
-analyticsRouter.get('/:businessId/customers', async (c) => {
+analyticsRouter.get('/:businessId/customers', requirePermission('analytics:read'), async (c) => {
   const { businessId } = c.req.param();
 
-  const { monthStart, thirtyDaysAgo } = getDateRanges();
+  const { monthStart, thirtyDaysAgo } = getDateRanges(await getBusinessTimezone(businessId));
 
   // Get customer aggregations
   const [
@@ -683,7 +791,7 @@ analyticsRouter.get('/:businessId/customers', async (c) => {
 // Menu Analytics
 // ============================================
 
-analyticsRouter.get('/:businessId/menu', async (c) => {
+analyticsRouter.get('/:businessId/menu', requirePermission('analytics:read'), async (c) => {
   const { businessId } = c.req.param();
   const startDate = c.req.query('startDate');
   const endDate = c.req.query('endDate');
@@ -695,13 +803,12 @@ analyticsRouter.get('/:businessId/menu', async (c) => {
     .eq('business_id', businessId)
     .eq('status', 'completed');
 
-  if (startDate) {
-    ordersQuery = ordersQuery.gte('created_at', new Date(startDate).toISOString());
+  const { start, end } = getDateFilter(startDate, endDate, await getBusinessTimezone(businessId));
+  if (start) {
+    ordersQuery = ordersQuery.gte('created_at', start);
   }
-  if (endDate) {
-    const end = new Date(endDate);
-    end.setHours(23, 59, 59, 999);
-    ordersQuery = ordersQuery.lte('created_at', end.toISOString());
+  if (end) {
+    ordersQuery = ordersQuery.lte('created_at', end);
   }
 
   const { data: completedOrdersData } = await ordersQuery;
@@ -844,7 +951,7 @@ analyticsRouter.get('/:businessId/menu', async (c) => {
 // Reservation Analytics
 // ============================================
 
-analyticsRouter.get('/:businessId/reservations', async (c) => {
+analyticsRouter.get('/:businessId/reservations', requirePermission('analytics:read'), async (c) => {
   const { businessId } = c.req.param();
   const startDate = c.req.query('startDate');
   const endDate = c.req.query('endDate');
@@ -855,13 +962,12 @@ analyticsRouter.get('/:businessId/reservations', async (c) => {
     .select('status, party_size, source')
     .eq('business_id', businessId);
 
-  if (startDate) {
-    query = query.gte('created_at', new Date(startDate).toISOString());
+  const { start, end } = getDateFilter(startDate, endDate, await getBusinessTimezone(businessId));
+  if (start) {
+    query = query.gte('created_at', start);
   }
-  if (endDate) {
-    const end = new Date(endDate);
-    end.setHours(23, 59, 59, 999);
-    query = query.lte('created_at', end.toISOString());
+  if (end) {
+    query = query.lte('created_at', end);
   }
 
   const { data: reservations, error } = await query;
@@ -6,11 +6,20 @@ import {
   UpdateBusinessSchema,
   InviteTeamMemberSchema,
   BusinessHoursSchema,
-  DeleteBusinessSchema
+  DeleteBusinessSchema,
+  CreateTaxRuleSchema,
+  UpdateTaxRuleSchema,
+  CreateDeliveryZoneSchema,
+  UpdateDeliveryZoneSchema,
 } from '../types';
+import type { UpdateDeliveryZoneRequest, UpdateTaxRuleRequest } from '../types';
 import { z } from 'zod';
 import { toCamelCase } from '../utils';
+import { DEFAULT_TIMEZONE } from '../timezone';
+import { mapTaxRuleRow } from '../tax';
+import { mapDeliveryZoneRow } from '../deliveryZones';
 import type { AuthUser } from '../middleware/auth';
+import { requirePermission, requireSuperadmin } from '../middleware/authorize';
 
 type Env = { Variables: { user: AuthUser } };
 
@@ -48,6 +57,17 @@ function mapBusinessAccount(row: Record<string, unknown>): Record<string, unknow
     latitude: row.latitude,
     longitude: row.longitude,
     taxId: row.tax_id,
+    taxRate: row.tax_rate,
+    taxInclusive: row.tax_inclusive,
+    timezone: row.timezone,
+    orderNumberPrefix: row.order_number_prefix,
+    orderNumberReset: row.order_number_reset,
+    ticketNumberMax: row.ticket_number_max,
+    onlineOrderingEnabled: row.online_ordering_enabled,
+    pickupLeadMinutes: row.pickup_lead_minutes,
+    pickupSlotMinutes: row.pickup_slot_minutes,
+    pickupCapacityOrders: row.pickup_capacity_orders,
+    pickupCapacityItems: row.pickup_capacity_items,
     subscriptionTier: row.subscription_tier,
     subscriptionStatus: row.subscription_status,
     trialEndsAt: row.trial_ends_at,
@@ -123,6 +143,7 @@ businessRouter.post(
           email: data.email,
           phone: data.phone || null,
           description: data.description || null,
+          timezone: data.timezone ?? DEFAULT_TIMEZONE,
           trial_ends_at: new Date(Date.now() + 14 * 24 * 60 * 60 * 1000).toISOString(), // 14 day trial
           is_active: true,
           is_verified: false,
@@ -289,7 +310,7 @@ businessRouter.get('/user/me', async (c) => {
 });
 
 // Get business by ID
-businessRouter.get('/:id', async (c) => {
+businessRouter.get('/:id', requirePermission('business:read'), async (c) => {
   const id = c.req.param('id');
 
   // Check if this is the slug route (handled separately)
@@ -389,6 +410,7 @@ businessRouter.get('/slug/:slug', async (c) => {
 // Update business
 businessRouter.put(
   '/:id',
+  requirePermission('business:write'),
   zValidator('json', UpdateBusinessSchema),
   async (c) => {
     const id = c.req.param('id');
@@ -414,8 +436,20 @@ businessRouter.put(
       if (data.city !== undefined) updateData.city = data.city;
       if (data.state !== undefined) updateData.state = data.state;
       if (data.postalCode !== undefined) updateData.postal_code = data.postalCode;
+      if (data.latitude !== undefined) updateData.latitude = data.latitude;
+      if (data.longitude !== undefined) updateData.longitude = data.longitude;
       if (data.taxRate !== undefined) updateData.tax_rate = data.taxRate;
+      if (data.taxInclusive !== undefined) updateData.tax_inclusive = data.taxInclusive;
       if (data.deliveryFee !== undefined) updateData.delivery_fee = data.deliveryFee;
+      if (data.timezone !== undefined) updateData.timezone = data.timezone;
+      if (data.orderNumberPrefix !== undefined) updateData.order_number_prefix = data.orderNumberPrefix;
+      if (data.orderNumberReset !== undefined) updateData.order_number_reset = data.orderNumberReset;
+      if (data.ticketNumberMax !== undefined) updateData.ticket_number_max = data.ticketNumberMax;
+      if (data.onlineOrderingEnabled !== undefined) updateData.online_ordering_enabled = data.onlineOrderingEnabled;
+      if (data.pickupLeadMinutes !== undefined) updateData.pickup_lead_minutes = data.pickupLeadMinutes;
+      if (data.pickupSlotMinutes !== undefined) updateData.pickup_slot_minutes = data.pickupSlotMinutes;
+      if (data.pickupCapacityOrders !== undefined) updateData.pickup_capacity_orders = data.pickupCapacityOrders;
+      if (data.pickupCapacityItems !== undefined) updateData.pickup_capacity_items = data.pickupCapacityItems;
 
       const { data: business, error } = await supabase
         .from('business_accounts')
@@ -522,7 +556,7 @@ businessRouter.get('/', async (c) => {
 });
 
 // Get team members for a business
-businessRouter.get('/:id/team', async (c) => {
+businessRouter.get('/:id/team', requirePermission('team:read'), async (c) => {
   const businessId = c.req.param('id');
 
   try {
@@ -577,6 +611,7 @@ businessRouter.get('/:id/team', async (c) => {
 // Invite team member
 businessRouter.post(
   '/:id/team/invite',
+  requirePermission('team:manage'),
   zValidator('json', InviteTeamMemberSchema),
   async (c) => {
     const businessId = c.req.param('id');
@@ -649,6 +684,7 @@ const UpdateTeamMemberSchema = z.object({
 
 businessRouter.put(
   '/:id/team/:memberId',
+  requirePermission('team:manage'),
   zValidator('json', UpdateTeamMemberSchema),
   async (c) => {
     const businessId = c.req.param('id');
@@ -680,7 +716,7 @@ businessRouter.put(
   }
 );
 
-businessRouter.delete('/:id/team/:memberId', async (c) => {
+businessRouter.delete('/:id/team/:memberId', requirePermission('team:manage'), async (c) => {
   const businessId = c.req.param('id');
   const memberId = c.req.param('memberId');
 
@@ -708,6 +744,7 @@ const VerifyBusinessSchema = z.object({
 
 businessRouter.put(
   '/:id/verify',
+  requireSuperadmin,
   zValidator('json', VerifyBusinessSchema),
   async (c) => {
     const businessId = c.req.param('id');
@@ -757,6 +794,7 @@ const RejectBusinessSchema = z.object({
 
 businessRouter.put(
   '/:id/reject',
+  requireSuperadmin,
   zValidator('json', RejectBusinessSchema),
   async (c) => {
     const businessId = c.req.param('id');
@@ -807,6 +845,7 @@ const ToggleActiveSchema = z.object({
 
 businessRouter.put(
   '/:id/toggle-active',
+  requireSuperadmin,
   zValidator('json', ToggleActiveSchema),
   async (c) => {
     const businessId = c.req.param('id');
@@ -851,6 +890,7 @@ businessRouter.put(
 // Update business hours
 businessRouter.put(
   '/:id/hours',
+  requirePermission('business:write'),
   zValidator('json', z.array(BusinessHoursSchema)),
   async (c) => {
     const businessId = c.req.param('id');
@@ -895,8 +935,300 @@ businessRouter.put(
   }
 );
 
+// Map tax_rules row to camelCase response
+function mapTaxRule(row: Record<string, any>) {
+  return {
+    ...mapTaxRuleRow(row),
+    businessId: row.business_id,
+    isActive: row.is_active,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+// camelCase request fields to tax_rules columns
+function toTaxRuleColumns(data: UpdateTaxRuleRequest): Record<string, unknown> {
+  const columns: Record<string, unknown> = {};
+  if (data.name !== undefined) columns.name = data.name;
+  if (data.taxCategory !== undefined) columns.tax_category = data.taxCategory;
+  if (data.orderType !== undefined) columns.order_type = data.orderType;
+  if (data.rate !== undefined) columns.rate = data.rate;
+  if (data.isActive !== undefined) columns.is_active = data.isActive;
+  return columns;
+}
+
+// List tax rules
+businessRouter.get('/:id/tax-rules', requirePermission('business:read'), async (c) => {
+  const businessId = c.req.param('id');
+
+  try {
+    const { data: rules, error } = await supabase
+      .from('tax_rules')
+      .select('*')
+      .eq('business_id', businessId)
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      console.error('Error listing tax rules:', error);
+      return c.json({ error: { message: 'Failed to list tax rules', code: 'LIST_FAILED' } }, 500);
+    }
+
+    return c.json({ data: (rules || []).map(mapTaxRule) });
+  } catch (error) {
+    console.error('Error listing tax rules:', error);
+    return c.json({ error: { message: 'Failed to list tax rules', code: 'LIST_FAILED' } }, 500);
+  }
+});
+
+// Create tax rule
+businessRouter.post(
+  '/:id/tax-rules',
+  requirePermission('business:write'),
+  zValidator('json', CreateTaxRuleSchema),
+  async (c) => {
+    const businessId = c.req.param('id');
+    const data = c.req.valid('json');
+
+    try {
+      const { data: rule, error } = await supabase
+        .from('tax_rules')
+        .insert({ ...toTaxRuleColumns(data), business_id: businessId })
+        .select()
+        .single();
+
+      if (error) {
+        console.error('Error creating tax rule:', error);
+        return c.json({ error: { message: 'Failed to create tax rule', code: 'CREATE_FAILED' } }, 500);
+      }
+
+      return c.json({ data: mapTaxRule(rule) }, 201);
+    } catch (error) {
+      console.error('Error creating tax rule:', error);
+      return c.json({ error: { message: 'Failed to create tax rule', code: 'CREATE_FAILED' } }, 500);
+    }
+  }
+);
+
+// Update tax rule
+businessRouter.put(
+  '/:id/tax-rules/:ruleId',
+  requirePermission('business:write'),
+  zValidator('json', UpdateTaxRuleSchema),
+  async (c) => {
+    const businessId = c.req.param('id');
+    const ruleId = c.req.param('ruleId');
+    const data = c.req.valid('json');
+
+    try {
+      const { data: rule, error } = await supabase
+        .from('tax_rules')
+        .update({ ...toTaxRuleColumns(data), updated_at: new Date().toISOString() })
+        .eq('id', ruleId)
+        .eq('business_id', businessId)
+        .select()
+        .maybeSingle();
+
+      if (error) {
+        console.error('Error updating tax rule:', error);
+        return c.json({ error: { message: 'Failed to update tax rule', code: 'UPDATE_FAILED' } }, 500);
+      }
+      if (!rule) {
+        return c.json({ error: { message: 'Tax rule not found', code: 'NOT_FOUND' } }, 404);
+      }
+
+      return c.json({ data: mapTaxRule(rule) });
+    } catch (error) {
+      console.error('Error updating tax rule:', error);
+      return c.json({ error: { message: 'Failed to update tax rule', code: 'UPDATE_FAILED' } }, 500);
+    }
+  }
+);
+
+// Delete tax rule (orders keep the rate and name they were charged)
+businessRouter.delete('/:id/tax-rules/:ruleId', requirePermission('business:write'), async (c) => {
+  const businessId = c.req.param('id');
+  const ruleId = c.req.param('ruleId');
+
+  try {
+    const { data: deleted, error } = await supabase
+      .from('tax_rules')
+      .delete()
+      .eq('id', ruleId)
+      .eq('business_id', businessId)
+      .select('id');
+
+    if (error) {
+      console.error('Error deleting tax rule:', error);
+      return c.json({ error: { message: 'Failed to delete tax rule', code: 'DELETE_FAILED' } }, 500);
+    }
+    if (!deleted || deleted.length === 0) {
+      return c.json({ error: { message: 'Tax rule not found', code: 'NOT_FOUND' } }, 404);
+    }
+
+    return c.json({ data: { success: true } });
+  } catch (error) {
+    console.error('Error deleting tax rule:', error);
+    return c.json({ error: { message: 'Failed to delete tax rule', code: 'DELETE_FAILED' } }, 500);
+  }
+});
+
+// Map delivery_zones row to camelCase response
+function mapDeliveryZone(row: Record<string, any>) {
+  return {
+    ...mapDeliveryZoneRow(row),
+    businessId: row.business_id,
+    isActive: row.is_active,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+// camelCase request fields to delivery_zones columns
+function toDeliveryZoneColumns(data: UpdateDeliveryZoneRequest): Record<string, unknown> {
+  const columns: Record<string, unknown> = {};
+  if (data.name !== undefined) columns.name = data.name;
+  if (data.zoneType !== undefined) columns.zone_type = data.zoneType;
+  if (data.radiusKm !== undefined) columns.radius_km = data.radiusKm;
+  if (data.polygon !== undefined) columns.polygon = data.polygon;
+  if (data.fee !== undefined) columns.fee = data.fee;
+  if (data.minimumOrder !== undefined) columns.minimum_order = data.minimumOrder;
+  if (data.estimatedMinutes !== undefined) columns.estimated_minutes = data.estimatedMinutes;
+  if (data.displayOrder !== undefined) columns.display_order = data.displayOrder;
+  if (data.isActive !== undefined) columns.is_active = data.isActive;
+  return columns;
+}
+
+// List delivery zones
+businessRouter.get('/:id/delivery-zones', requirePermission('business:read'), async (c) => {
+  const businessId = c.req.param('id');
+
+  try {
+    const { data: zones, error } = await supabase
+      .from('delivery_zones')
+      .select('*')
+      .eq('business_id', businessId)
+      .order('display_order', { ascending: true })
+      .order('radius_km', { ascending: true });
+
+    if (error) {
+      console.error('Error listing delivery zones:', error);
+      return c.json({ error: { message: 'Failed to list delivery zones', code: 'LIST_FAILED' } }, 500);
+    }
+
+    return c.json({ data: (zones || []).map(mapDeliveryZone) });
+  } catch (error) {
+    console.error('Error listing delivery zones:', error);
+    return c.json({ error: { message: 'Failed to list delivery zones', code: 'LIST_FAILED' } }, 500);
+  }
+});
+
+// Create delivery zone
+businessRouter.post(
+  '/:id/delivery-zones',
+  requirePermission('business:write'),
+  zValidator('json', CreateDeliveryZoneSchema),
+  async (c) => {
+    const businessId = c.req.param('id');
+    const data = c.req.valid('json');
+
+    try {
+      const { data: zone, error } = await supabase
+        .from('delivery_zones')
+        .insert({ ...toDeliveryZoneColumns(data), business_id: businessId })
+        .select()
+        .single();
+
+      if (error) {
+        console.error('Error creating delivery zone:', error);
+        return c.json({ error: { message: 'Failed to create delivery zone', code: 'CREATE_FAILED' } }, 500);
+      }
+
+      return c.json({ data: mapDeliveryZone(zone) }, 201);
+    } catch (error) {
+      console.error('Error creating delivery zone:', error);
+      return c.json({ error: { message: 'Failed to create delivery zone', code: 'CREATE_FAILED' } }, 500);
+    }
+  }
+);
+
+// Update delivery zone
+businessRouter.put(
+  '/:id/delivery-zones/:zoneId',
+  requirePermission('business:write'),
+  zValidator('json', UpdateDeliveryZoneSchema),
+  async (c) => {
+    const businessId = c.req.param('id');
+    const zoneId = c.req.param('zoneId');
+    const data = c.req.valid('json');
+
+    try {
+      const { data: existing, error: existingError } = await supabase
+        .from('delivery_zones')
+        .select('*')
+        .eq('id', zoneId)
+        .eq('business_id', businessId)
+        .single();
+
+      if (existingError || !existing) {
+        return c.json({ error: { message: 'Delivery zone not found', code: 'NOT_FOUND' } }, 404);
+      }
+
+      // Validate the zone as it will be after the update
+      const merged = CreateDeliveryZoneSchema.safeParse({ ...mapDeliveryZone(existing), ...data });
+      if (!merged.success) {
+        return c.json({ error: { message: 'Invalid request', code: 'VALIDATION_ERROR', details: merged.error.issues } }, 400);
+      }
+
+      const { data: zone, error } = await supabase
+        .from('delivery_zones')
+        .update({ ...toDeliveryZoneColumns(data), updated_at: new Date().toISOString() })
+        .eq('id', zoneId)
+        .select()
+        .single();
+
+      if (error) {
+        console.error('Error updating delivery zone:', error);
+        return c.json({ error: { message: 'Failed to update delivery zone', code: 'UPDATE_FAILED' } }, 500);
+      }
+
+      return c.json({ data: mapDeliveryZone(zone) });
+    } catch (error) {
+      console.error('Error updating delivery zone:', error);
+      return c.json({ error: { message: 'Failed to update delivery zone', code: 'UPDATE_FAILED' } }, 500);
+    }
+  }
+);
+
+// Delete delivery zone
+businessRouter.delete('/:id/delivery-zones/:zoneId', requirePermission('business:write'), async (c) => {
+  const businessId = c.req.param('id');
+  const zoneId = c.req.param('zoneId');
+
+  try {
+    const { data: deleted, error } = await supabase
+      .from('delivery_zones')
+      .delete()
+      .eq('id', zoneId)
+      .eq('business_id', businessId)
+      .select('id');
+
+    if (error) {
+      console.error('Error deleting delivery zone:', error);
+      return c.json({ error: { message: 'Failed to delete delivery zone', code: 'DELETE_FAILED' } }, 500);
+    }
+    if (!deleted || deleted.length === 0) {
+      return c.json({ error: { message: 'Delivery zone not found', code: 'NOT_FOUND' } }, 404);
+    }
+
+    return c.json({ data: { success: true } });
+  } catch (error) {
+    console.error('Error deleting delivery zone:', error);
+    return c.json({ error: { message: 'Failed to delete delivery zone', code: 'DELETE_FAILED' } }, 500);
+  }
+});
+
 // Get related data counts for a business (admin only)
-businessRouter.get('/:id/related-counts', async (c) => {
+businessRouter.get('/:id/related-counts', requireSuperadmin, async (c) => {
   const businessId = c.req.param('id');
 
   try {
@@ -7,10 +7,14 @@ import {
   AdjustLoyaltyPointsSchema,
   RedeemLoyaltyPointsSchema,
   UpdateLoyaltySettingsSchema,
+  RunLoyaltyMaintenanceSchema,
   CustomerSourceSchema,
 } from '../types';
 import { z } from 'zod';
 import { toCamelCase, parseJsonField } from '../utils';
+import { requirePermission } from '../middleware/authorize';
+import { runLoyaltyMaintenance } from '../loyaltyMaintenance';
+import { callLoyaltyLedger, getLoyaltyTier } from '../loyalty';
 
 const customersRouter = new Hono();
 
@@ -32,7 +36,7 @@ function parseCustomerFields(obj: Record<string, unknown>): Record<string, unkno
 // ============================================
 
 // List customers for a business
-customersRouter.get('/:businessId', async (c) => {
+customersRouter.get('/:businessId', requirePermission('customers:read'), async (c) => {
   const { businessId } = c.req.param();
   const search = c.req.query('search');
   const tag = c.req.query('tag');
@@ -116,7 +120,7 @@ customersRouter.get('/:businessId', async (c) => {
 });
 
 // Get single customer
-customersRouter.get('/:businessId/:customerId', async (c) => {
+customersRouter.get('/:businessId/:customerId', requirePermission('customers:read'), async (c) => {
   const { businessId, customerId } = c.req.param();
 
   const { data: customer, error } = await supabase
@@ -140,7 +144,7 @@ customersRouter.get('/:businessId/:customerId', async (c) => {
 });
 
 // Create customer
-customersRouter.post('/:businessId', async (c) => {
+customersRouter.post('/:businessId', requirePermission('customers:write'), async (c) => {
   const { businessId } = c.req.param();
   const body = await c.req.json();
 
@@ -229,7 +233,7 @@ customersRouter.post('/:businessId', async (c) => {
 });
 
 // Update customer
-customersRouter.put('/:businessId/:customerId', async (c) => {
+customersRouter.put('/:businessId/:customerId', requirePermission('customers:write'), async (c) => {
   const { businessId, customerId } = c.req.param();
   const body = await c.req.json();
 
@@ -295,7 +299,7 @@ customersRouter.put('/:businessId/:customerId', async (c) => {
   return c.json({ data: transformed });
 });
 
-customersRouter.delete('/:businessId/:customerId', async (c) => {
+customersRouter.delete('/:businessId/:customerId', requirePermission('customers:write'), async (c) => {
   const { businessId, customerId } = c.req.param();
 
   const { data: existing, error: fetchError } = await supabase
@@ -326,7 +330,7 @@ customersRouter.delete('/:businessId/:customerId', async (c) => {
 // ============================================
 
 // Get customer activities
-customersRouter.get('/:businessId/:customerId/activities', async (c) => {
+customersRouter.get('/:businessId/:customerId/activities', requirePermission('customers:read'), async (c) => {
   const { businessId, customerId } = c.req.param();
   const activityType = c.req.query('activityType');
   const limit = parseInt(c.req.query('limit') || '50');
@@ -375,7 +379,7 @@ customersRouter.get('/:businessId/:customerId/activities', async (c) => {
 });
 
 // Add customer activity
-customersRouter.post('/:businessId/:customerId/activities', async (c) => {
+customersRouter.post('/:businessId/:customerId/activities', requirePermission('customers:write'), async (c) => {
   const { businessId, customerId } = c.req.param();
   const body = await c.req.json();
 
@@ -439,7 +443,7 @@ customersRouter.post('/:businessId/:customerId/activities', async (c) => {
 // ============================================
 
 // Get customer loyalty points
-customersRouter.get('/:businessId/:customerId/loyalty', async (c) => {
+customersRouter.get('/:businessId/:customerId/loyalty', requirePermission('customers:read'), async (c) => {
   const { businessId, customerId } = c.req.param();
 
   const { data: customer, error: customerError } = await supabase
@@ -491,7 +495,7 @@ customersRouter.get('/:businessId/:customerId/loyalty', async (c) => {
 });
 
 // Adjust loyalty points (manual adjustment)
-customersRouter.post('/:businessId/:customerId/loyalty/adjust', async (c) => {
+customersRouter.post('/:businessId/:customerId/loyalty/adjust', requirePermission('loyalty:manage'), async (c) => {
   const { businessId, customerId } = c.req.param();
   const body = await c.req.json();
 
@@ -511,61 +515,21 @@ customersRouter.post('/:businessId/:customerId/loyalty/adjust', async (c) => {
     return c.json({ error: { message: 'Customer not found', code: 'NOT_FOUND' } }, 404);
   }
 
-  // Get or create loyalty points
-  let { data: loyaltyPoints } = await supabase
-    .from('loyalty_points')
-    .select('*')
-    .eq('customer_id', customerId)
-    .single();
-
-  if (!loyaltyPoints) {
-    const { data: newLoyaltyPoints, error: createError } = await supabase
-      .from('loyalty_points')
-      .insert({ customer_id: customerId, business_id: businessId })
-      .select('*')
-      .single();
-
-    if (createError) {
-      return c.json({ error: { message: createError.message, code: 'DATABASE_ERROR' } }, 500);
-    }
-    loyaltyPoints = newLoyaltyPoints;
-  }
-
-  const newBalance = (loyaltyPoints!.points_balance || 0) + parsed.data.points;
-  if (newBalance < 0) {
-    return c.json({ error: { message: 'Insufficient points', code: 'INSUFFICIENT_POINTS' } }, 400);
-  }
-
-  const transactionType = parsed.data.points > 0 ? 'earned' : 'adjusted';
-
-  // Update points
-  const { data: updatedPoints, error: updateError } = await supabase
-    .from('loyalty_points')
-    .update({
-      points_balance: newBalance,
-      lifetime_earned: parsed.data.points > 0
-        ? (loyaltyPoints!.lifetime_earned || 0) + parsed.data.points
-        : loyaltyPoints!.lifetime_earned,
-    })
-    .eq('customer_id', customerId)
-    .select('*')
-    .single();
+  const adjusted = await callLoyaltyLedger('adjust_loyalty_points', {
+    p_customer_id: customerId,
+    p_business_id: businessId,
+    p_points: parsed.data.points,
+    p_description: parsed.data.description || 'Manual adjustment',
+    p_processed_by: c.get('user')?.id ?? null,
+  });
 
-  if (updateError || !updatedPoints) {
-    return c.json({ error: { message: updateError?.message || 'Failed to update points', code: 'DATABASE_ERROR' } }, 500);
+  if (!adjusted.ok) {
+    return adjusted.code === 'INSUFFICIENT_POINTS'
+      ? c.json({ error: { message: 'Insufficient points', code: 'INSUFFICIENT_POINTS' } }, 400)
+      : c.json({ error: { message: adjusted.message, code: 'DATABASE_ERROR' } }, 500);
   }
 
-  // Create transaction
-  await supabase
-    .from('loyalty_transactions')
-    .insert({
-      loyalty_points_id: loyaltyPoints!.id,
-      business_id: businessId,
-      transaction_type: transactionType,
-      points: parsed.data.points,
-      balance_after: newBalance,
-      description: parsed.data.description || 'Manual adjustment',
-    });
+  let updatedPoints = adjusted.loyaltyPoints!;
 
   // Update tier based on lifetime points
   const { data: settings } = await supabase
@@ -575,21 +539,16 @@ customersRouter.post('/:businessId/:customerId/loyalty/adjust', async (c) => {
     .single();
 
   if (settings?.tier_thresholds) {
-    const thresholds = typeof settings.tier_thresholds === 'string'
-      ? JSON.parse(settings.tier_thresholds)
-      : settings.tier_thresholds;
-    let newTier = 'bronze';
-    const lifetime = updatedPoints.lifetime_earned || 0;
-
-    if (thresholds.platinum && lifetime >= thresholds.platinum) newTier = 'platinum';
-    else if (thresholds.gold && lifetime >= thresholds.gold) newTier = 'gold';
-    else if (thresholds.silver && lifetime >= thresholds.silver) newTier = 'silver';
+    const newTier = getLoyaltyTier(settings.tier_thresholds, updatedPoints.lifetime_earned || 0);
 
     if (newTier !== updatedPoints.tier) {
-      await supabase
+      const { data: tiered } = await supabase
         .from('loyalty_points')
         .update({ tier: newTier })
-        .eq('customer_id', customerId);
+        .eq('id', updatedPoints.id)
+        .select('*')
+        .single();
+      updatedPoints = tiered ?? updatedPoints;
     }
   }
 
@@ -608,7 +567,7 @@ customersRouter.post('/:businessId/:customerId/loyalty/adjust', async (c) => {
 });
 
 // Redeem loyalty points
-customersRouter.post('/:businessId/:customerId/loyalty/redeem', async (c) => {
+customersRouter.post('/:businessId/:customerId/loyalty/redeem', requirePermission('loyalty:redeem'), async (c) => {
   const { businessId, customerId } = c.req.param();
   const body = await c.req.json();
 
@@ -628,45 +587,22 @@ customersRouter.post('/:businessId/:customerId/loyalty/redeem', async (c) => {
     return c.json({ error: { message: 'Customer not found', code: 'NOT_FOUND' } }, 404);
   }
 
-  const { data: loyaltyPoints, error: loyaltyError } = await supabase
-    .from('loyalty_points')
-    .select('*')
-    .eq('customer_id', customerId)
-    .single();
-
-  if (loyaltyError || !loyaltyPoints || (loyaltyPoints.points_balance || 0) < parsed.data.points) {
-    return c.json({ error: { message: 'Insufficient points', code: 'INSUFFICIENT_POINTS' } }, 400);
-  }
-
-  const newBalance = (loyaltyPoints.points_balance || 0) - parsed.data.points;
-
-  // Update points
-  const { data: updatedPoints, error: updateError } = await supabase
-    .from('loyalty_points')
-    .update({
-      points_balance: newBalance,
-      lifetime_redeemed: (loyaltyPoints.lifetime_redeemed || 0) + parsed.data.points,
-    })
-    .eq('customer_id', customerId)
-    .select('*')
-    .single();
+  const redeemed = await callLoyaltyLedger('redeem_loyalty_points', {
+    p_customer_id: customerId,
+    p_business_id: businessId,
+    p_points: parsed.data.points,
+    p_order_id: parsed.data.orderId ?? null,
+    p_description: parsed.data.description || `Redeemed ${parsed.data.points} points`,
+    p_processed_by: c.get('user')?.id ?? null,
+  });
 
-  if (updateError || !updatedPoints) {
-    return c.json({ error: { message: updateError?.message || 'Failed to update points', code: 'DATABASE_ERROR' } }, 500);
+  if (!redeemed.ok) {
+    return redeemed.code === 'INSUFFICIENT_POINTS'
+      ? c.json({ error: { message: 'Insufficient points', code: 'INSUFFICIENT_POINTS' } }, 400)
+      : c.json({ error: { message: redeemed.message, code: 'DATABASE_ERROR' } }, 500);
   }
 
-  // Create transaction
-  await supabase
-    .from('loyalty_transactions')
-    .insert({
-      loyalty_points_id: loyaltyPoints.id,
-      business_id: businessId,
-      transaction_type: 'redeemed',
-      points: -parsed.data.points,
-      balance_after: newBalance,
-      order_id: parsed.data.orderId,
-      description: parsed.data.description || `Redeemed ${parsed.data.points} points`,
-    });
+  const updatedPoints = redeemed.loyaltyPoints!;
 
   // Record activity
   await supabase
@@ -688,7 +624,7 @@ customersRouter.post('/:businessId/:customerId/loyalty/redeem', async (c) => {
 // ============================================
 
 // Get loyalty settings
-customersRouter.get('/:businessId/settings/loyalty', async (c) => {
+customersRouter.get('/:businessId/settings/loyalty', requirePermission('customers:read'), async (c) => {
   const { businessId } = c.req.param();
 
   let { data: settings, error } = await supabase
@@ -715,7 +651,7 @@ customersRouter.get('/:businessId/settings/loyalty', async (c) => {
 });
 
 // Update loyalty settings
-customersRouter.put('/:businessId/settings/loyalty', async (c) => {
+customersRouter.put('/:businessId/settings/loyalty', requirePermission('loyalty:manage'), async (c) => {
   const { businessId } = c.req.param();
   const body = await c.req.json();
 
@@ -744,6 +680,8 @@ customersRouter.put('/:businessId/settings/loyalty', async (c) => {
   if (parsed.data.rewardValue !== undefined) updateData.reward_value = parsed.data.rewardValue;
   if (parsed.data.maxRedemptionPercent !== undefined) updateData.max_redemption_percent = parsed.data.maxRedemptionPercent;
   if (parsed.data.pointsExpireDays !== undefined) updateData.points_expire_days = parsed.data.pointsExpireDays;
+  if (parsed.data.tierRequalifyMonths !== undefined) updateData.tier_requalify_months = parsed.data.tierRequalifyMonths;
+  if (parsed.data.tierGraceDays !== undefined) updateData.tier_grace_days = parsed.data.tierGraceDays;
   if (parsed.data.tierThresholds !== undefined) {
     updateData.tier_thresholds = JSON.stringify(parsed.data.tierThresholds);
   }
@@ -786,12 +724,57 @@ customersRouter.put('/:businessId/settings/loyalty', async (c) => {
   return c.json({ data: toCamelCase(settings!) });
 });
 
+// Expire points and requalify tiers now (also runs daily)
+customersRouter.post('/:businessId/loyalty/expire', requirePermission('loyalty:manage'), async (c) => {
+  const { businessId } = c.req.param();
+  const body = await c.req.json().catch(() => ({}));
+
+  const parsed = RunLoyaltyMaintenanceSchema.safeParse(body);
+  if (!parsed.success) {
+    return c.json({ error: { message: 'Invalid request', code: 'VALIDATION_ERROR', details: parsed.error.issues } }, 400);
+  }
+
+  const result = await runLoyaltyMaintenance(businessId, {
+    dryRun: parsed.data.dryRun,
+    asOf: parsed.data.asOf ? new Date(parsed.data.asOf) : undefined,
+  });
+
+  if (!result.ok) {
+    return c.json({ error: { message: result.message, code: result.code } }, result.code === 'LOYALTY_DISABLED' ? 400 : 500);
+  }
+
+  return c.json({ data: result.report });
+});
+
+// Members whose points balance doesn't match their transaction ledger
+customersRouter.get('/:businessId/loyalty/reconcile', requirePermission('loyalty:manage'), async (c) => {
+  const { businessId } = c.req.param();
+
+  const { data: rows, error } = await supabase.rpc('reconcile_loyalty_balances', { p_business_id: businessId });
+
+  if (error) {
+    return c.json({ error: { message: error.message, code: 'DATABASE_ERROR' } }, 500);
+  }
+
+  const drifted = (rows || []) as Array<Record<string, any>>;
+
+  return c.json({
+    data: {
+      businessId,
+      checkedAt: new Date().toISOString(),
+      driftedMembers: drifted.length,
+      totalDrift: drifted.reduce((sum, r) => sum + (r.drift || 0), 0),
+      members: drifted.map(r => toCamelCase(r)),
+    },
+  });
+});
+
 // ============================================
 // Customer Stats
 // ============================================
 
 // Get customer stats for business
-customersRouter.get('/:businessId/stats/summary', async (c) => {
+customersRouter.get('/:businessId/stats/summary', requirePermission('customers:read'), async (c) => {
   const { businessId } = c.req.param();
 
   const now = new Date();
@@ -891,7 +874,7 @@ const FindOrCreateCustomerSchema = z.object({
   source: CustomerSourceSchema.optional(),
 });
 
-customersRouter.post('/:businessId/find-or-create', async (c) => {
+customersRouter.post('/:businessId/find-or-create', requirePermission('customers:write'), async (c) => {
   const { businessId } = c.req.param();
   const body = await c.req.json();
 
@@ -0,0 +1,96 @@
+import { Hono } from 'hono';
+import { streamSSE } from 'hono/streaming';
+import { createBunWebSocket } from 'hono/bun';
+import { requirePermission, hasPermission } from '../middleware/authorize';
+import { subscribeToEvents, getEventsSince, EVENT_PERMISSIONS } from '../events';
+import type { BusinessEvent } from '../events';
+import type { TeamRole } from '../types';
+
+const eventsRouter = new Hono();
+
+// Bun needs the `websocket` handler passed to its server (see src/index.ts)
+const { upgradeWebSocket, websocket } = createBunWebSocket();
+
+// How often to write a keep-alive comment so proxies don't close idle streams
+const HEARTBEAT_INTERVAL_MS = 25 * 1000;
+
+function canReceive(role: TeamRole, event: BusinessEvent): boolean {
+  return hasPermission(role, EVENT_PERMISSIONS[event.type]);
+}
+
+function parseLastEventId(value: string | undefined): string | undefined {
+  return value?.trim() || undefined;
+}
+
+// ============================================
+// Event Stream
+// ============================================
+
+// Stream business events over Server-Sent Events
+// Resumes from the Last-Event-ID header (or ?lastEventId=) when reconnecting
+eventsRouter.get('/:businessId', requirePermission('business:read'), async (c) => {
+  const { businessId } = c.req.param();
+  const role = c.get('role');
+  const lastEventId = parseLastEventId(c.req.header('Last-Event-ID') ?? c.req.query('lastEventId'));
+
+  return streamSSE(c, async (stream) => {
+    // Serialize writes so events are delivered in publish order
+    let writing: Promise<unknown> = Promise.resolve();
+    const deliver = (event: BusinessEvent) => {
+      if (!canReceive(role, event)) return;
+      writing = writing.then(() => stream.writeSSE({
+        id: event.id,
+        event: event.type,
+        data: JSON.stringify(event.data),
+      }));
+    };
+
+    // Replay and subscribe synchronously so no event falls between the two
+    getEventsSince(businessId, lastEventId).forEach(deliver);
+    const unsubscribe = subscribeToEvents(businessId, deliver);
+    stream.onAbort(unsubscribe);
+
+    try {
+      while (!stream.aborted && !stream.closed) {
+        await stream.sleep(HEARTBEAT_INTERVAL_MS);
+        writing = writing.then(() => stream.write(': ping\n\n'));
+        await writing;
+      }
+    } finally {
+      unsubscribe();
+    }
+  });
+});
+
+// Stream business events over a WebSocket (Bun only)
+// Each message is a JSON BusinessEvent; pass ?lastEventId= to resume
+eventsRouter.get(
+  '/:businessId/ws',
+  requirePermission('business:read'),
+  upgradeWebSocket((c) => {
+    const businessId = c.req.param('businessId') as string;
+    const role = c.get('role') as TeamRole;
+    const lastEventId = parseLastEventId(c.req.query('lastEventId'));
+    let unsubscribe = () => {};
+
+    return {
+      onOpen(_evt, ws) {
+        const deliver = (event: BusinessEvent) => {
+          if (canReceive(role, event)) {
+            ws.send(JSON.stringify(event));
+          }
+        };
+        getEventsSince(businessId, lastEventId).forEach(deliver);
+        unsubscribe = subscribeToEvents(businessId, deliver);
+      },
+      onClose() {
+        unsubscribe();
+      },
+      onError() {
+        unsubscribe();
+      },
+    };
+  })
+);
+
+export { eventsRouter, websocket };
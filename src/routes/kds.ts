@@ -0,0 +1,339 @@
+import { Hono } from 'hono';
+import { supabase } from '../supabase';
+import {
+  CreateKitchenStationSchema,
+  UpdateKitchenStationSchema,
+} from '../types';
+import { toCamelCase } from '../utils';
+import { parseOrderItemFields } from '../orderDetails';
+import { requirePermission } from '../middleware/authorize';
+import { syncOrderStatusWithItems } from '../orderStatus';
+import { publishEvent } from '../events';
+
+const kdsRouter = new Hono();
+
+// Order statuses whose items still show on the kitchen screens
+const ACTIVE_ORDER_STATUSES = ['pending', 'confirmed', 'preparing', 'ready'];
+
+async function getStation(businessId: string, stationId: string) {
+  const { data: station } = await supabase
+    .from('kitchen_stations')
+    .select('*')
+    .eq('id', stationId)
+    .eq('business_id', businessId)
+    .single();
+  return station;
+}
+
+// ============================================
+// Stations
+// ============================================
+
+// List stations
+kdsRouter.get('/:businessId/stations', requirePermission('orders:read'), async (c) => {
+  const { businessId } = c.req.param();
+
+  const { data: stations, error } = await supabase
+    .from('kitchen_stations')
+    .select('*')
+    .eq('business_id', businessId)
+    .order('display_order', { ascending: true });
+
+  if (error) {
+    return c.json({ error: { message: error.message, code: 'DB_ERROR' } }, 500);
+  }
+
+  return c.json({ data: (stations || []).map(s => toCamelCase(s)) });
+});
+
+// Create station
+kdsRouter.post('/:businessId/stations', requirePermission('menu:write'), async (c) => {
+  const { businessId } = c.req.param();
+  const body = await c.req.json();
+
+  const parsed = CreateKitchenStationSchema.safeParse(body);
+  if (!parsed.success) {
+    return c.json({ error: { message: 'Invalid request', code: 'VALIDATION_ERROR', details: parsed.error.issues } }, 400);
+  }
+
+  const { data: station, error } = await supabase
+    .from('kitchen_stations')
+    .insert({
+      business_id: businessId,
+      name: parsed.data.name,
+      station_type: parsed.data.stationType ?? 'other',
+      display_order: parsed.data.displayOrder ?? 0,
+      is_active: parsed.data.isActive ?? true,
+    })
+    .select()
+    .single();
+
+  if (error || !station) {
+    return c.json({ error: { message: error?.message || 'Failed to create station', code: 'DB_ERROR' } }, 500);
+  }
+
+  return c.json({ data: toCamelCase(station) }, 201);
+});
+
+// Update station
+kdsRouter.put('/:businessId/stations/:stationId', requirePermission('menu:write'), async (c) => {
+  const { businessId, stationId } = c.req.param();
+  const body = await c.req.json();
+
+  const parsed = UpdateKitchenStationSchema.safeParse(body);
+  if (!parsed.success) {
+    return c.json({ error: { message: 'Invalid request', code: 'VALIDATION_ERROR', details: parsed.error.issues } }, 400);
+  }
+
+  if (!(await getStation(businessId, stationId))) {
+    return c.json({ error: { message: 'Station not found', code: 'NOT_FOUND' } }, 404);
+  }
+
+  const updateData: Record<string, unknown> = { updated_at: new Date().toISOString() };
+  if (parsed.data.name !== undefined) updateData.name = parsed.data.name;
+  if (parsed.data.stationType !== undefined) updateData.station_type = parsed.data.stationType;
+  if (parsed.data.displayOrder !== undefined) updateData.display_order = parsed.data.displayOrder;
+  if (parsed.data.isActive !== undefined) updateData.is_active = parsed.data.isActive;
+
+  const { data: station, error } = await supabase
+    .from('kitchen_stations')
+    .update(updateData)
+    .eq('id', stationId)
+    .select()
+    .single();
+
+  if (error || !station) {
+    return c.json({ error: { message: error?.message || 'Failed to update station', code: 'DB_ERROR' } }, 500);
+  }
+
+  return c.json({ data: toCamelCase(station) });
+});
+
+// Delete station (menu and order items fall back to no station)
+kdsRouter.delete('/:businessId/stations/:stationId', requirePermission('menu:write'), async (c) => {
+  const { businessId, stationId } = c.req.param();
+
+  if (!(await getStation(businessId, stationId))) {
+    return c.json({ error: { message: 'Station not found', code: 'NOT_FOUND' } }, 404);
+  }
+
+  const { error } = await supabase
+    .from('kitchen_stations')
+    .delete()
+    .eq('id', stationId);
+
+  if (error) {
+    return c.json({ error: { message: error.message, code: 'DB_ERROR' } }, 500);
+  }
+
+  return c.body(null, 204);
+});
+
+// ============================================
+// Tickets
+// ============================================
+
+// Get ticket feed for a station, grouped by order (oldest first)
+// ?view=bumped returns recently bumped tickets for recall instead
+kdsRouter.get('/:businessId/stations/:stationId/tickets', requirePermission('orders:read'), async (c) => {
+  const { businessId, stationId } = c.req.param();
+  const view = c.req.query('view') === 'bumped' ? 'bumped' : 'active';
+  const limit = parseInt(c.req.query('limit') || '50');
+
+  if (!(await getStation(businessId, stationId))) {
+    return c.json({ error: { message: 'Station not found', code: 'NOT_FOUND' } }, 404);
+  }
+
+  let query = supabase
+    .from('order_items')
+    .select('*, orders!inner(id, business_id, order_number, order_type, status, customer_name, table_id, special_instructions, created_at)')
+    .eq('station_id', stationId)
+    .eq('orders.business_id', businessId)
+    .in('orders.status', ACTIVE_ORDER_STATUSES);
+
+  if (view === 'bumped') {
+    query = query
+      .eq('status', 'ready')
+      .order('prepared_at', { ascending: false })
+      .limit(limit);
+  } else {
+    query = query
+      .in('status', ['pending', 'preparing'])
+      .order('created_at', { ascending: true });
+  }
+
+  const { data: rows, error } = await query;
+
+  if (error) {
+    return c.json({ error: { message: error.message, code: 'DB_ERROR' } }, 500);
+  }
+
+  // Get table info for dine-in tickets
+  const tableIds = [...new Set((rows || []).map((r: any) => r.orders.table_id).filter(Boolean))];
+  let tablesMap = new Map<string, any>();
+  if (tableIds.length > 0) {
+    const { data: tables } = await supabase
+      .from('restaurant_tables')
+      .select('id, table_number, section')
+      .in('id', tableIds);
+    if (tables) {
+      tablesMap = new Map(tables.map(t => [t.id, { id: t.id, tableNumber: t.table_number, section: t.section }]));
+    }
+  }
+
+  // Group items into one ticket per order
+  const now = Date.now();
+  const tickets = new Map<string, any>();
+  for (const row of (rows || []) as any[]) {
+    const { orders: order, ...item } = row;
+    if (!tickets.has(order.id)) {
+      tickets.set(order.id, {
+        orderId: order.id,
+        orderNumber: order.order_number,
+        orderType: order.order_type,
+        orderStatus: order.status,
+        customerName: order.customer_name,
+        specialInstructions: order.special_instructions,
+        table: order.table_id ? tablesMap.get(order.table_id) || null : null,
+        createdAt: order.created_at,
+        ageSeconds: Math.max(0, Math.floor((now - new Date(order.created_at).getTime()) / 1000)),
+        items: [],
+      });
+    }
+    tickets.get(order.id).items.push(parseOrderItemFields(toCamelCase(item)));
+  }
+
+  const result = [...tickets.values()];
+  if (view === 'active') {
+    result.sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime());
+  }
+
+  return c.json({ data: result });
+});
+
+// Bump a ticket: mark the order's items at this station ready
+kdsRouter.post('/:businessId/stations/:stationId/tickets/:orderId/bump', requirePermission('orders:write'), async (c) => {
+  const { businessId, stationId, orderId } = c.req.param();
+
+  const { data: order, error: orderError } = await supabase
+    .from('orders')
+    .select('id')
+    .eq('id', orderId)
+    .eq('business_id', businessId)
+    .single();
+
+  if (orderError || !order) {
+    return c.json({ error: { message: 'Order not found', code: 'NOT_FOUND' } }, 404);
+  }
+
+  const now = new Date().toISOString();
+  const { data: items, error } = await supabase
+    .from('order_items')
+    .update({ status: 'ready', prepared_at: now, updated_at: now })
+    .eq('order_id', orderId)
+    .eq('station_id', stationId)
+    .in('status', ['pending', 'preparing'])
+    .select();
+
+  if (error) {
+    return c.json({ error: { message: error.message, code: 'DB_ERROR' } }, 500);
+  }
+
+  const camelItems = (items || []).map(i => parseOrderItemFields(toCamelCase(i)));
+  for (const item of camelItems) {
+    publishEvent(businessId, 'order.item_status_changed', item);
+  }
+
+  const updatedOrder = await syncOrderStatusWithItems(orderId, c.get('user')?.id);
+
+  return c.json({
+    data: {
+      items: camelItems,
+      orderStatus: updatedOrder?.status ?? null,
+    },
+  });
+});
+
+// Recall a bumped ticket: put the station's ready items back to preparing
+kdsRouter.post('/:businessId/stations/:stationId/tickets/:orderId/recall', requirePermission('orders:write'), async (c) => {
+  const { businessId, stationId, orderId } = c.req.param();
+
+  const { data: order, error: orderError } = await supabase
+    .from('orders')
+    .select('id, status')
+    .eq('id', orderId)
+    .eq('business_id', businessId)
+    .single();
+
+  if (orderError || !order) {
+    return c.json({ error: { message: 'Order not found', code: 'NOT_FOUND' } }, 404);
+  }
+
+  if (!ACTIVE_ORDER_STATUSES.includes(order.status)) {
+    return c.json({ error: { message: `Cannot recall a ${order.status} order`, code: 'INVALID_TRANSITION' } }, 409);
+  }
+
+  const { data: items, error } = await supabase
+    .from('order_items')
+    .update({ status: 'preparing', prepared_at: null, updated_at: new Date().toISOString() })
+    .eq('order_id', orderId)
+    .eq('station_id', stationId)
+    .eq('status', 'ready')
+    .select();
+
+  if (error) {
+    return c.json({ error: { message: error.message, code: 'DB_ERROR' } }, 500);
+  }
+
+  const camelItems = (items || []).map(i => parseOrderItemFields(toCamelCase(i)));
+  for (const item of camelItems) {
+    publishEvent(businessId, 'order.item_status_changed', item);
+  }
+
+  const updatedOrder = await syncOrderStatusWithItems(orderId, c.get('user')?.id);
+
+  return c.json({
+    data: {
+      items: camelItems,
+      orderStatus: updatedOrder?.status ?? order.status,
+    },
+  });
+});
+
+// "All day" counts: outstanding quantity per item at this station
+kdsRouter.get('/:businessId/stations/:stationId/all-day', requirePermission('orders:read'), async (c) => {
+  const { businessId, stationId } = c.req.param();
+
+  if (!(await getStation(businessId, stationId))) {
+    return c.json({ error: { message: 'Station not found', code: 'NOT_FOUND' } }, 404);
+  }
+
+  const { data: rows, error } = await supabase
+    .from('order_items')
+    .select('menu_item_id, item_name, quantity, orders!inner(business_id, status)')
+    .eq('station_id', stationId)
+    .eq('orders.business_id', businessId)
+    .in('orders.status', ACTIVE_ORDER_STATUSES)
+    .in('status', ['pending', 'preparing']);
+
+  if (error) {
+    return c.json({ error: { message: error.message, code: 'DB_ERROR' } }, 500);
+  }
+
+  const counts = new Map<string, { menuItemId: string | null; itemName: string; quantity: number }>();
+  for (const row of rows || []) {
+    const key = row.menu_item_id || row.item_name;
+    const existing = counts.get(key);
+    if (existing) {
+      existing.quantity += row.quantity;
+    } else {
+      counts.set(key, { menuItemId: row.menu_item_id, itemName: row.item_name, quantity: row.quantity });
+    }
+  }
+
+  const result = [...counts.values()].sort((a, b) => b.quantity - a.quantity);
+
+  return c.json({ data: result });
+});
+
+export { kdsRouter };
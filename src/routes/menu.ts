@@ -11,6 +11,9 @@ import {
   UpdateModifierSchema,
 } from '../types';
 import { toCamelCase, parseJsonField } from '../utils';
+import { requirePermission } from '../middleware/authorize';
+import { getDayparts, isCategoryAvailableAt, mapCategorySchedule } from '../menuSchedule';
+import { DEFAULT_TIMEZONE } from '../timezone';
 
 const menuRoutes = new Hono();
 
@@ -21,6 +24,16 @@ function parseMenuItemFields(item: Record<string, unknown>): Record<string, unkn
   return item;
 }
 
+async function stationBelongsToBusiness(businessId: string, stationId: string): Promise<boolean> {
+  const { data: station } = await supabase
+    .from('kitchen_stations')
+    .select('id')
+    .eq('id', stationId)
+    .eq('business_id', businessId)
+    .single();
+  return !!station;
+}
+
 function parseCategoryFields(cat: Record<string, unknown>): Record<string, unknown> {
   if (cat.availableDays && typeof cat.availableDays === 'string') {
     cat.availableDays = parseJsonField<number[]>(cat.availableDays);
@@ -33,7 +46,7 @@ function parseCategoryFields(cat: Record<string, unknown>): Record<string, unkno
 // ============================================
 
 // Get all categories for a business (with items)
-menuRoutes.get('/:businessId/categories', async (c) => {
+menuRoutes.get('/:businessId/categories', requirePermission('menu:read'), async (c) => {
   const { businessId } = c.req.param();
 
   // Get categories
@@ -137,7 +150,7 @@ menuRoutes.get('/:businessId/categories', async (c) => {
   return c.json({ data: result });
 });
 
-menuRoutes.get('/:businessId/categories/:categoryId', async (c) => {
+menuRoutes.get('/:businessId/categories/:categoryId', requirePermission('menu:read'), async (c) => {
   const { businessId, categoryId } = c.req.param();
 
   const { data: category, error } = await supabase
@@ -164,7 +177,7 @@ menuRoutes.get('/:businessId/categories/:categoryId', async (c) => {
   return c.json({ data: camelCategory });
 });
 
-menuRoutes.post('/:businessId/categories', async (c) => {
+menuRoutes.post('/:businessId/categories', requirePermission('menu:write'), async (c) => {
   const { businessId } = c.req.param();
   const body = await c.req.json();
 
@@ -195,6 +208,11 @@ menuRoutes.post('/:businessId/categories', async (c) => {
 
   const maxOrder = maxOrderResult?.display_order ?? 0;
 
+  // Verify prep station belongs to business
+  if (parsed.data.stationId && !(await stationBelongsToBusiness(businessId, parsed.data.stationId))) {
+    return c.json({ error: { message: 'Station not found', code: 'NOT_FOUND' } }, 404);
+  }
+
   const insertData = {
     business_id: businessId,
     name: parsed.data.name,
@@ -205,6 +223,7 @@ menuRoutes.post('/:businessId/categories', async (c) => {
     available_start_time: parsed.data.availableStartTime || null,
     available_end_time: parsed.data.availableEndTime || null,
     available_days: parsed.data.availableDays ? JSON.stringify(parsed.data.availableDays) : null,
+    station_id: parsed.data.stationId || null,
   };
 
   const { data: category, error } = await supabase
@@ -220,7 +239,7 @@ menuRoutes.post('/:businessId/categories', async (c) => {
   return c.json({ data: parseCategoryFields(toCamelCase(category)) }, 201);
 });
 
-menuRoutes.put('/:businessId/categories/:categoryId', async (c) => {
+menuRoutes.put('/:businessId/categories/:categoryId', requirePermission('menu:write'), async (c) => {
   const { businessId, categoryId } = c.req.param();
   const body = await c.req.json();
 
@@ -241,6 +260,11 @@ menuRoutes.put('/:businessId/categories/:categoryId', async (c) => {
     return c.json({ error: { message: 'Category not found', code: 'NOT_FOUND' } }, 404);
   }
 
+  // Verify prep station belongs to business
+  if (parsed.data.stationId && !(await stationBelongsToBusiness(businessId, parsed.data.stationId))) {
+    return c.json({ error: { message: 'Station not found', code: 'NOT_FOUND' } }, 404);
+  }
+
   // Build update data
   const updateData: any = {};
   if (parsed.data.name !== undefined) updateData.name = parsed.data.name;
@@ -250,7 +274,8 @@ menuRoutes.put('/:businessId/categories/:categoryId', async (c) => {
   if (parsed.data.isActive !== undefined) updateData.is_active = parsed.data.isActive;
   if (parsed.data.availableStartTime !== undefined) updateData.available_start_time = parsed.data.availableStartTime;
   if (parsed.data.availableEndTime !== undefined) updateData.available_end_time = parsed.data.availableEndTime;
-  if (parsed.data.availableDays !== undefined) updateData.available_days = JSON.stringify(parsed.data.availableDays);
+  if (parsed.data.availableDays !== undefined) updateData.available_days = parsed.data.availableDays ? JSON.stringify(parsed.data.availableDays) : null;
+  if (parsed.data.stationId !== undefined) updateData.station_id = parsed.data.stationId;
   updateData.updated_at = new Date().toISOString();
 
   const { data: category, error } = await supabase
@@ -267,7 +292,7 @@ menuRoutes.put('/:businessId/categories/:categoryId', async (c) => {
   return c.json({ data: parseCategoryFields(toCamelCase(category)) });
 });
 
-menuRoutes.delete('/:businessId/categories/:categoryId', async (c) => {
+menuRoutes.delete('/:businessId/categories/:categoryId', requirePermission('menu:write'), async (c) => {
   const { businessId, categoryId } = c.req.param();
 
   // Check if category exists
@@ -295,7 +320,7 @@ menuRoutes.delete('/:businessId/categories/:categoryId', async (c) => {
 });
 
 // Reorder categories
-menuRoutes.put('/:businessId/categories/reorder', async (c) => {
+menuRoutes.put('/:businessId/categories/reorder', requirePermission('menu:write'), async (c) => {
   const { businessId } = c.req.param();
   const body = await c.req.json();
 
@@ -322,7 +347,7 @@ menuRoutes.put('/:businessId/categories/reorder', async (c) => {
 // ============================================
 
 // Get all items for a business
-menuRoutes.get('/:businessId/items', async (c) => {
+menuRoutes.get('/:businessId/items', requirePermission('menu:read'), async (c) => {
   const { businessId } = c.req.param();
   const categoryId = c.req.query('categoryId');
 
@@ -409,7 +434,7 @@ menuRoutes.get('/:businessId/items', async (c) => {
   return c.json({ data: result });
 });
 
-menuRoutes.get('/:businessId/items/:itemId', async (c) => {
+menuRoutes.get('/:businessId/items/:itemId', requirePermission('menu:read'), async (c) => {
   const { businessId, itemId } = c.req.param();
 
   const { data: item, error } = await supabase
@@ -470,7 +495,7 @@ menuRoutes.get('/:businessId/items/:itemId', async (c) => {
   return c.json({ data: camelItem });
 });
 
-menuRoutes.post('/:businessId/items', async (c) => {
+menuRoutes.post('/:businessId/items', requirePermission('menu:write'), async (c) => {
   const { businessId } = c.req.param();
   const body = await c.req.json();
 
@@ -502,6 +527,11 @@ menuRoutes.post('/:businessId/items', async (c) => {
 
   const maxOrder = maxOrderResult?.display_order ?? 0;
 
+  // Verify prep station belongs to business
+  if (parsed.data.stationId && !(await stationBelongsToBusiness(businessId, parsed.data.stationId))) {
+    return c.json({ error: { message: 'Station not found', code: 'NOT_FOUND' } }, 404);
+  }
+
   const insertData = {
     business_id: businessId,
     category_id: parsed.data.categoryId,
@@ -520,6 +550,8 @@ menuRoutes.post('/:businessId/items', async (c) => {
     calories: parsed.data.calories || null,
     prep_time_minutes: parsed.data.prepTimeMinutes || null,
     tags: parsed.data.tags ? JSON.stringify(parsed.data.tags) : null,
+    station_id: parsed.data.stationId || null,
+    tax_category: parsed.data.taxCategory ?? 'standard',
   };
 
   const { data: item, error } = await supabase
@@ -538,7 +570,7 @@ menuRoutes.post('/:businessId/items', async (c) => {
   return c.json({ data: camelItem }, 201);
 });
 
-menuRoutes.put('/:businessId/items/:itemId', async (c) => {
+menuRoutes.put('/:businessId/items/:itemId', requirePermission('menu:write'), async (c) => {
   const { businessId, itemId } = c.req.param();
   const body = await c.req.json();
 
@@ -573,6 +605,11 @@ menuRoutes.put('/:businessId/items/:itemId', async (c) => {
     }
   }
 
+  // Verify prep station belongs to business
+  if (parsed.data.stationId && !(await stationBelongsToBusiness(businessId, parsed.data.stationId))) {
+    return c.json({ error: { message: 'Station not found', code: 'NOT_FOUND' } }, 404);
+  }
+
   // Build update data
   const updateData: any = { updated_at: new Date().toISOString() };
   if (parsed.data.categoryId !== undefined) updateData.category_id = parsed.data.categoryId;
@@ -591,6 +628,8 @@ menuRoutes.put('/:businessId/items/:itemId', async (c) => {
   if (parsed.data.calories !== undefined) updateData.calories = parsed.data.calories;
   if (parsed.data.prepTimeMinutes !== undefined) updateData.prep_time_minutes = parsed.data.prepTimeMinutes;
   if (parsed.data.tags !== undefined) updateData.tags = JSON.stringify(parsed.data.tags);
+  if (parsed.data.stationId !== undefined) updateData.station_id = parsed.data.stationId;
+  if (parsed.data.taxCategory !== undefined) updateData.tax_category = parsed.data.taxCategory;
   if (parsed.data.isAvailable !== undefined) updateData.is_available = parsed.data.isAvailable;
   if (parsed.data.unavailableReason !== undefined) updateData.unavailable_reason = parsed.data.unavailableReason;
 
@@ -652,7 +691,7 @@ menuRoutes.put('/:businessId/items/:itemId', async (c) => {
   return c.json({ data: camelItem });
 });
 
-menuRoutes.delete('/:businessId/items/:itemId', async (c) => {
+menuRoutes.delete('/:businessId/items/:itemId', requirePermission('menu:write'), async (c) => {
   const { businessId, itemId } = c.req.param();
 
   // Check if item exists
@@ -680,7 +719,7 @@ menuRoutes.delete('/:businessId/items/:itemId', async (c) => {
 });
 
 // Reorder items within a category
-menuRoutes.put('/:businessId/items/reorder', async (c) => {
+menuRoutes.put('/:businessId/items/reorder', requirePermission('menu:write'), async (c) => {
   const { businessId } = c.req.param();
   const body = await c.req.json();
 
@@ -706,7 +745,7 @@ menuRoutes.put('/:businessId/items/reorder', async (c) => {
 // ============================================
 
 // Create modifier group
-menuRoutes.post('/:businessId/modifier-groups', async (c) => {
+menuRoutes.post('/:businessId/modifier-groups', requirePermission('menu:write'), async (c) => {
   const { businessId } = c.req.param();
   const body = await c.req.json();
 
@@ -765,7 +804,7 @@ menuRoutes.post('/:businessId/modifier-groups', async (c) => {
 });
 
 // Update modifier group
-menuRoutes.put('/:businessId/modifier-groups/:groupId', async (c) => {
+menuRoutes.put('/:businessId/modifier-groups/:groupId', requirePermission('menu:write'), async (c) => {
   const { businessId, groupId } = c.req.param();
   const body = await c.req.json();
 
@@ -819,7 +858,7 @@ menuRoutes.put('/:businessId/modifier-groups/:groupId', async (c) => {
 });
 
 // Delete modifier group
-menuRoutes.delete('/:businessId/modifier-groups/:groupId', async (c) => {
+menuRoutes.delete('/:businessId/modifier-groups/:groupId', requirePermission('menu:write'), async (c) => {
   const { businessId, groupId } = c.req.param();
 
   // Verify group exists and belongs to business via menu item
@@ -850,7 +889,7 @@ menuRoutes.delete('/:businessId/modifier-groups/:groupId', async (c) => {
 // ============================================
 
 // Create modifier
-menuRoutes.post('/:businessId/modifiers', async (c) => {
+menuRoutes.post('/:businessId/modifiers', requirePermission('menu:write'), async (c) => {
   const { businessId } = c.req.param();
   const body = await c.req.json();
 
@@ -904,7 +943,7 @@ menuRoutes.post('/:businessId/modifiers', async (c) => {
 });
 
 // Update modifier
-menuRoutes.put('/:businessId/modifiers/:modifierId', async (c) => {
+menuRoutes.put('/:businessId/modifiers/:modifierId', requirePermission('menu:write'), async (c) => {
   const { businessId, modifierId } = c.req.param();
   const body = await c.req.json();
 
@@ -952,7 +991,7 @@ menuRoutes.put('/:businessId/modifiers/:modifierId', async (c) => {
 });
 
 // Delete modifier
-menuRoutes.delete('/:businessId/modifiers/:modifierId', async (c) => {
+menuRoutes.delete('/:businessId/modifiers/:modifierId', requirePermission('menu:write'), async (c) => {
   const { businessId, modifierId } = c.req.param();
 
   // Verify modifier exists and belongs to business
@@ -987,13 +1026,21 @@ menuRoutes.delete('/:businessId/modifiers/:modifierId', async (c) => {
 // Public Menu (for customer-facing views)
 // ============================================
 
-// Get full menu for a business (public)
+// Get full menu for a business (public). With `at` (ISO datetime), only
+// what can be ordered then: categories on their daypart schedule in the
+// business's timezone, and items not marked unavailable.
 menuRoutes.get('/:businessId/public', async (c) => {
   const { businessId } = c.req.param();
+  const atParam = c.req.query('at');
+
+  const at = atParam ? new Date(atParam) : null;
+  if (at && isNaN(at.getTime())) {
+    return c.json({ error: { message: 'at must be an ISO date', code: 'VALIDATION_ERROR' } }, 400);
+  }
 
   const { data: business, error: bizError } = await supabase
     .from('business_accounts')
-    .select('id, business_name, is_active')
+    .select('id, business_name, is_active, timezone')
     .eq('id', businessId)
     .single();
 
@@ -1001,8 +1048,10 @@ menuRoutes.get('/:businessId/public', async (c) => {
     return c.json({ error: { message: 'Business not found', code: 'NOT_FOUND' } }, 404);
   }
 
+  const timeZone = business.timezone || DEFAULT_TIMEZONE;
+
   // Get active categories
-  const { data: categories, error: catError } = await supabase
+  const { data: activeCategories, error: catError } = await supabase
     .from('menu_categories')
     .select('*')
     .eq('business_id', businessId)
@@ -1013,17 +1062,25 @@ menuRoutes.get('/:businessId/public', async (c) => {
     return c.json({ error: { message: catError.message, code: 'DB_ERROR' } }, 500);
   }
 
+  const categories = at
+    ? (activeCategories || []).filter((cat) => isCategoryAvailableAt(mapCategorySchedule(cat), at, timeZone))
+    : activeCategories;
+
   // Get active items for all categories
   const categoryIds = categories?.map((cat) => cat.id) || [];
 
   let items: any[] = [];
   if (categoryIds.length > 0) {
-    const { data: itemsData, error: itemsError } = await supabase
+    let itemsQuery = supabase
       .from('menu_items')
       .select('*')
       .in('category_id', categoryIds)
-      .eq('is_active', true)
-      .order('display_order', { ascending: true });
+      .eq('is_active', true);
+    if (at) {
+      itemsQuery = itemsQuery.eq('is_available', true);
+    }
+
+    const { data: itemsData, error: itemsError } = await itemsQuery.order('display_order', { ascending: true });
 
     if (itemsError) {
       return c.json({ error: { message: itemsError.message, code: 'DB_ERROR' } }, 500);
@@ -1106,9 +1163,44 @@ menuRoutes.get('/:businessId/public', async (c) => {
     data: {
       businessId: business.id,
       businessName: business.business_name,
+      timezone: timeZone,
       categories: resultCategories,
     },
   });
 });
 
+// List the menu's dayparts: categories grouped by when they're available
+menuRoutes.get('/:businessId/public/schedule', async (c) => {
+  const { businessId } = c.req.param();
+
+  const { data: business, error: bizError } = await supabase
+    .from('business_accounts')
+    .select('id, is_active, timezone')
+    .eq('id', businessId)
+    .single();
+
+  if (bizError || !business || !business.is_active) {
+    return c.json({ error: { message: 'Business not found', code: 'NOT_FOUND' } }, 404);
+  }
+
+  const { data: categories, error } = await supabase
+    .from('menu_categories')
+    .select('id, name, available_start_time, available_end_time, available_days')
+    .eq('business_id', businessId)
+    .eq('is_active', true)
+    .order('display_order', { ascending: true });
+
+  if (error) {
+    return c.json({ error: { message: error.message, code: 'DB_ERROR' } }, 500);
+  }
+
+  return c.json({
+    data: {
+      businessId: business.id,
+      timezone: business.timezone || DEFAULT_TIMEZONE,
+      dayparts: getDayparts((categories || []).map((cat) => ({ id: cat.id, name: cat.name, ...mapCategorySchedule(cat) }))),
+    },
+  });
+});
+
 export { menuRoutes };
@@ -2,6 +2,7 @@ import { Hono } from 'hono';
 import { zValidator } from '@hono/zod-validator';
 import { z } from 'zod';
 import { supabase } from '../supabase';
+import { sendExpoPush } from '../push';
 
 const notificationsRouter = new Hono();
 
@@ -23,44 +24,6 @@ const digestSchema = z.object({
   userId: z.string().uuid(),
 });
 
-async function sendExpoPush(
-  tokens: string[],
-  title: string,
-  body: string,
-  data?: Record<string, unknown>,
-): Promise<{ sent: number; failed: number }> {
-  if (tokens.length === 0) return { sent: 0, failed: 0 };
-
-  const messages = tokens.map(token => ({
-    to: token,
-    sound: 'default' as const,
-    title,
-    body,
-    data: data ?? {},
-  }));
-
-  try {
-    const response = await fetch('https://exp.host/--/api/v2/push/send', {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify(messages),
-    });
-
-    if (!response.ok) {
-      console.error('Expo push API error:', response.status);
-      return { sent: 0, failed: tokens.length };
-    }
-
-    const result = await response.json();
-    const tickets = result.data ?? [];
-    const sent = tickets.filter((t: any) => t.status === 'ok').length;
-    return { sent, failed: tokens.length - sent };
-  } catch (err) {
-    console.error('Push notification error:', err);
-    return { sent: 0, failed: tokens.length };
-  }
-}
-
 // Send a push notification to a single user
 notificationsRouter.post('/push', zValidator('json', sendPushSchema), async (c) => {
   const { userId, title, body, data } = c.req.valid('json');
@@ -1,251 +1,55 @@
 import { Hono } from 'hono';
+import type { Context } from 'hono';
 import { supabase } from '../supabase';
 import {
   CreateOrderSchema,
   UpdateOrderSchema,
+  UpdateOrderStatusSchema,
   UpdateOrderItemStatusSchema,
+  CreateOrderRefundSchema,
+  SyncOrdersSchema,
+  DeliveryQuoteSchema,
+  PublicOrderSchema,
 } from '../types';
-import { toCamelCase, parseJsonField } from '../utils';
+import { toCamelCase } from '../utils';
+import { requirePermission, hasPermission } from '../middleware/authorize';
+import { parseOrderItemFields, getOrderWithDetails } from '../orderDetails';
+import { publishEvent } from '../events';
+import { createOrderRefund } from '../orderRefunds';
+import { generateOrderNumber } from '../orderNumbers';
+import { createOrder } from '../orderCreation';
+import { getDeliveryContext, quoteDelivery } from '../deliveryZones';
+import type { DeliveryContext } from '../deliveryZones';
+import { getBusinessDate, getBusinessDayBounds, getBusinessTimezone, getDayOfWeek, getZonedParts } from '../timezone';
+import {
+  MAX_PICKUP_DAYS_AHEAD,
+  createGuestToken,
+  getOnlineOrderingSettings,
+  getPickupSlotUsage,
+  getPickupSlots,
+  getSlotCapacity,
+  hasPickupCapacity,
+  hashGuestToken,
+  isOpenAt,
+  isPickupSlot,
+  matchesOrderContact,
+  toGuestOrder,
+} from '../onlineOrdering';
+import type { OnlineOrderingSettings, SlotUsage } from '../onlineOrdering';
+import { verifyCaptcha } from '../captcha';
+import { getClientIp } from '../clientIp';
+import { findSyncConflicts, sortByCreatedAt, MAX_CLOCK_SKEW_MS } from '../orderSync';
+import type { SyncOrderResult } from '../orderSync';
+import { transitionOrderStatus, recordOrderStatusChange, syncOrderStatusWithItems } from '../orderStatus';
 
 const ordersRouter = new Hono();
 
-function parseOrderItemFields(item: Record<string, unknown>): Record<string, unknown> {
-  if (item.modifiers && typeof item.modifiers === 'string') {
-    item.modifiers = parseJsonField(item.modifiers);
-  }
-  return item;
-}
-
-/**
- * Generates a unique order number with retry logic to handle race conditions.
- * Uses optimistic generation with conflict detection on retry.
- */
-async function generateOrderNumber(businessId: string, maxRetries = 3): Promise<string> {
-  const today = new Date();
-  const datePrefix = `${today.getFullYear()}${String(today.getMonth() + 1).padStart(2, '0')}${String(today.getDate()).padStart(2, '0')}`;
-
-  const startOfDay = new Date(today);
-  startOfDay.setHours(0, 0, 0, 0);
-  const endOfDay = new Date(today);
-  endOfDay.setHours(23, 59, 59, 999);
-
-  for (let attempt = 0; attempt < maxRetries; attempt++) {
-    const { count } = await supabase
-      .from('orders')
-      .select('*', { count: 'exact', head: true })
-      .eq('business_id', businessId)
-      .gte('created_at', startOfDay.toISOString())
-      .lte('created_at', endOfDay.toISOString());
-
-    const orderNumber = `${datePrefix}-${String((count || 0) + 1 + attempt).padStart(4, '0')}`;
-
-    const { count: existingCount } = await supabase
-      .from('orders')
-      .select('*', { count: 'exact', head: true })
-      .eq('business_id', businessId)
-      .eq('order_number', orderNumber);
-
-    if (!existingCount || existingCount === 0) {
-      return orderNumber;
-    }
-  }
-
-  const randomSuffix = Math.random().toString(36).substring(2, 6).toUpperCase();
-  return `${datePrefix}-${randomSuffix}`;
-}
-
-// Helper to award loyalty points for completed orders
-async function awardLoyaltyPoints(order: {
-  id: string;
-  businessId: string;
-  totalAmount: number;
-  customerEmail?: string | null;
-  customerPhone?: string | null;
-  customerName: string;
-}) {
-  // Check if loyalty program is enabled
-  const { data: loyaltySettings, error: settingsError } = await supabase
-    .from('loyalty_settings')
-    .select('*')
-    .eq('business_id', order.businessId)
-    .single();
-
-  if (settingsError || !loyaltySettings?.is_enabled) {
-    return null;
-  }
-
-  // Check minimum spend requirement
-  if (loyaltySettings.minimum_spend && order.totalAmount < loyaltySettings.minimum_spend) {
-    return null;
-  }
-
-  // Find or create customer
-  let customer = null;
-
-  if (order.customerEmail) {
-    const { data: customerByEmail } = await supabase
-      .from('customers')
-      .select('*')
-      .eq('business_id', order.businessId)
-      .eq('email', order.customerEmail)
-      .single();
-    customer = customerByEmail;
-  }
-
-  if (!customer && order.customerPhone) {
-    const { data: customerByPhone } = await supabase
-      .from('customers')
-      .select('*')
-      .eq('business_id', order.businessId)
-      .eq('phone', order.customerPhone)
-      .single();
-    customer = customerByPhone;
-  }
-
-  // If no customer exists, create one
-  if (!customer) {
-    const nameParts = order.customerName.split(' ');
-    const firstName = nameParts[0] || 'Guest';
-    const lastName = nameParts.slice(1).join(' ') || '';
-
-    const { data: newCustomer, error: createError } = await supabase
-      .from('customers')
-      .insert({
-        business_id: order.businessId,
-        first_name: firstName,
-        last_name: lastName,
-        email: order.customerEmail,
-        phone: order.customerPhone,
-        source: 'order',
-      })
-      .select()
-      .single();
-
-    if (createError) {
-      return null;
-    }
-    customer = newCustomer;
-  }
-
-  // Get or create loyalty points record
-  let loyaltyPoints = null;
-  const { data: existingPoints } = await supabase
-    .from('loyalty_points')
-    .select('*')
-    .eq('customer_id', customer.id)
-    .single();
-
-  loyaltyPoints = existingPoints;
-
-  if (!loyaltyPoints) {
-    const { data: newPoints, error: createPointsError } = await supabase
-      .from('loyalty_points')
-      .insert({
-        customer_id: customer.id,
-        business_id: order.businessId,
-      })
-      .select()
-      .single();
-
-    if (createPointsError) {
-      return null;
-    }
-    loyaltyPoints = newPoints;
-  }
-
-  // Calculate points to award
-  const pointsToAward = Math.floor(order.totalAmount * loyaltySettings.points_per_dollar);
-
-  if (pointsToAward <= 0) {
-    return null;
-  }
-
-  const newBalance = (loyaltyPoints.points_balance || 0) + pointsToAward;
-  const newLifetimeEarned = (loyaltyPoints.lifetime_earned || 0) + pointsToAward;
-
-  // Determine new tier based on lifetime points
-  let newTier = 'bronze';
-  if (loyaltySettings.tier_thresholds) {
-    const thresholds = typeof loyaltySettings.tier_thresholds === 'string'
-      ? JSON.parse(loyaltySettings.tier_thresholds)
-      : loyaltySettings.tier_thresholds as Record<string, number>;
-    if (thresholds.platinum && newLifetimeEarned >= thresholds.platinum) newTier = 'platinum';
-    else if (thresholds.gold && newLifetimeEarned >= thresholds.gold) newTier = 'gold';
-    else if (thresholds.silver && newLifetimeEarned >= thresholds.silver) newTier = 'silver';
-  }
-
-  // Update loyalty points
-  const { data: updatedPoints, error: updateError } = await supabase
-    .from('loyalty_points')
-    .update({
-      points_balance: newBalance,
-      lifetime_earned: newLifetimeEarned,
-      tier: newTier,
-      updated_at: new Date().toISOString(),
-    })
-    .eq('customer_id', customer.id)
-    .select()
-    .single();
-
-  if (updateError) {
-    return null;
-  }
-
-  // Create transaction record
-  await supabase
-    .from('loyalty_transactions')
-    .insert({
-      loyalty_points_id: loyaltyPoints.id,
-      business_id: order.businessId,
-      transaction_type: 'earned',
-      points: pointsToAward,
-      balance_after: newBalance,
-      order_id: order.id,
-      description: `Earned from order (${order.totalAmount.toFixed(2)})`,
-    });
-
-  // Record customer activity
-  await supabase
-    .from('customer_activities')
-    .insert({
-      customer_id: customer.id,
-      business_id: order.businessId,
-      activity_type: 'loyalty_earned',
-      order_id: order.id,
-      amount: pointsToAward,
-      description: `Earned ${pointsToAward} points from order`,
-    });
-
-  // Update customer stats
-  const newTotalVisits = (customer.total_visits || 0) + 1;
-  const newTotalSpent = (customer.total_spent || 0) + order.totalAmount;
-  const newAverageSpend = newTotalSpent / newTotalVisits;
-
-  await supabase
-    .from('customers')
-    .update({
-      total_visits: newTotalVisits,
-      total_spent: newTotalSpent,
-      average_spend: newAverageSpend,
-      last_visit_at: new Date().toISOString(),
-      updated_at: new Date().toISOString(),
-    })
-    .eq('id', customer.id);
-
-  return {
-    customerId: customer.id,
-    pointsAwarded: pointsToAward,
-    newBalance,
-    tier: newTier,
-  };
-}
-
 // ============================================
 // Orders CRUD
 // ============================================
 
 // List orders for a business
-ordersRouter.get('/:businessId', async (c) => {
+ordersRouter.get('/:businessId', requirePermission('orders:read'), async (c) => {
   const { businessId } = c.req.param();
   const status = c.req.query('status');
   const orderType = c.req.query('orderType');
@@ -260,8 +64,12 @@ ordersRouter.get('/:businessId', async (c) => {
     .order('created_at', { ascending: false })
     .range(offset, offset + limit - 1);
 
+  // Scheduled orders are held out of the list until they're released
+  // (list them with status=scheduled)
   if (status) {
     query = query.eq('status', status);
+  } else {
+    query = query.neq('status', 'scheduled');
   }
 
   if (orderType) {
@@ -269,10 +77,7 @@ ordersRouter.get('/:businessId', async (c) => {
   }
 
   if (date) {
-    const startOfDay = new Date(date);
-    startOfDay.setHours(0, 0, 0, 0);
-    const endOfDay = new Date(date);
-    endOfDay.setHours(23, 59, 59, 999);
+    const { start: startOfDay, end: endOfDay } = getBusinessDayBounds(date, await getBusinessTimezone(businessId));
     query = query
       .gte('created_at', startOfDay.toISOString())
       .lte('created_at', endOfDay.toISOString());
@@ -318,6 +123,7 @@ ordersRouter.get('/:businessId', async (c) => {
   // Assemble orders with nested data
   const result = (orders || []).map(order => {
     const camelOrder = toCamelCase<any>(order);
+    delete camelOrder.guestTokenHash;
     camelOrder.table = order.table_id ? tablesMap.get(order.table_id) || null : null;
     camelOrder.items = itemsMap.get(order.id) || [];
     return camelOrder;
@@ -337,7 +143,7 @@ ordersRouter.get('/:businessId', async (c) => {
 });
 
 // Get single order
-ordersRouter.get('/:businessId/:orderId', async (c) => {
+ordersRouter.get('/:businessId/:orderId', requirePermission('orders:read'), async (c) => {
   const { businessId, orderId } = c.req.param();
 
   const { data: order, error } = await supabase
@@ -351,34 +157,13 @@ ordersRouter.get('/:businessId/:orderId', async (c) => {
     return c.json({ error: { message: 'Order not found', code: 'NOT_FOUND' } }, 404);
   }
 
-  // Get table info if exists
-  let table = null;
-  if (order.table_id) {
-    const { data: tableData } = await supabase
-      .from('restaurant_tables')
-      .select('id, table_number, section')
-      .eq('id', order.table_id)
-      .single();
-    if (tableData) {
-      table = { id: tableData.id, tableNumber: tableData.table_number, section: tableData.section };
-    }
-  }
-
-  // Get order items
-  const { data: items } = await supabase
-    .from('order_items')
-    .select('*')
-    .eq('order_id', orderId);
-
-  const camelOrder = toCamelCase<any>(order);
-  camelOrder.table = table;
-  camelOrder.items = (items || []).map((i: any) => parseOrderItemFields(toCamelCase(i)));
+  const camelOrder = await getOrderWithDetails(order);
 
   return c.json({ data: camelOrder });
 });
 
 // Create order
-ordersRouter.post('/:businessId', async (c) => {
+ordersRouter.post('/:businessId', requirePermission('orders:write'), async (c) => {
   const { businessId } = c.req.param();
   const body = await c.req.json();
 
@@ -387,171 +172,21 @@ ordersRouter.post('/:businessId', async (c) => {
     return c.json({ error: { message: 'Invalid request', code: 'VALIDATION_ERROR', details: parsed.error.issues } }, 400);
   }
 
-  const { data: business, error: bizError } = await supabase
-    .from('business_accounts')
-    .select('id, tax_rate, delivery_fee')
-    .eq('id', businessId)
-    .single();
-
-  if (bizError || !business) {
-    return c.json({ error: { message: 'Business not found', code: 'NOT_FOUND' } }, 404);
-  }
-
-  // Validate table if dine-in
-  if (parsed.data.orderType === 'dine_in' && parsed.data.tableId) {
-    const { data: table, error: tableError } = await supabase
-      .from('restaurant_tables')
-      .select('id')
-      .eq('id', parsed.data.tableId)
-      .eq('business_id', businessId)
-      .single();
-
-    if (tableError || !table) {
-      return c.json({ error: { message: 'Table not found', code: 'NOT_FOUND' } }, 404);
-    }
-  }
-
-  // Fetch menu items and calculate prices
-  const menuItemIds = parsed.data.items.map(item => item.menuItemId);
-  const { data: menuItems, error: menuError } = await supabase
-    .from('menu_items')
-    .select('*')
-    .in('id', menuItemIds)
-    .eq('business_id', businessId);
-
-  if (menuError) {
-    return c.json({ error: { message: menuError.message, code: 'DB_ERROR' } }, 500);
-  }
-
-  const menuItemMap = new Map((menuItems || []).map(item => [item.id, item]));
-
-  // Validate all items exist and calculate totals
-  let subtotal = 0;
-  const orderItems: Array<{
-    menu_item_id: string;
-    item_name: string;
-    item_price: number;
-    quantity: number;
-    modifiers: string | null;
-    modifiers_total: number;
-    total_price: number;
-    special_requests: string | null;
-  }> = [];
-
-  for (const item of parsed.data.items) {
-    const menuItem = menuItemMap.get(item.menuItemId);
-    if (!menuItem) {
-      return c.json({
-        error: {
-          message: `Menu item not found: ${item.menuItemId}`,
-          code: 'NOT_FOUND'
-        }
-      }, 404);
-    }
-
-    if (!menuItem.is_available || !menuItem.is_active) {
-      return c.json({
-        error: {
-          message: `Menu item not available: ${menuItem.name}`,
-          code: 'ITEM_UNAVAILABLE'
-        }
-      }, 400);
-    }
-
-    const modifiersTotal = item.modifiers?.reduce((sum, m) => sum + m.priceAdjustment, 0) || 0;
-    const itemTotal = (menuItem.price + modifiersTotal) * item.quantity;
-    subtotal += itemTotal;
-
-    orderItems.push({
-      menu_item_id: menuItem.id,
-      item_name: menuItem.name,
-      item_price: menuItem.price,
-      quantity: item.quantity,
-      modifiers: item.modifiers ? JSON.stringify(item.modifiers) : null,
-      modifiers_total: modifiersTotal,
-      total_price: itemTotal,
-      special_requests: item.specialRequests || null,
-    });
-  }
-
-  const taxRate = business.tax_rate ?? 0.08;
-  const taxAmount = subtotal * taxRate;
-  const tipAmount = parsed.data.tipAmount || 0;
-  const deliveryFee = parsed.data.orderType === 'delivery' ? (business.delivery_fee ?? 5.00) : 0;
-  const totalAmount = subtotal + taxAmount + tipAmount + deliveryFee;
-
-  // Generate order number
-  const orderNumber = await generateOrderNumber(businessId);
-
-  // Create order
-  const { data: order, error: orderError } = await supabase
-    .from('orders')
-    .insert({
-      business_id: businessId,
-      order_number: orderNumber,
-      order_type: parsed.data.orderType,
-      customer_name: parsed.data.customerName,
-      customer_email: parsed.data.customerEmail,
-      customer_phone: parsed.data.customerPhone,
-      table_id: parsed.data.tableId,
-      reservation_id: parsed.data.reservationId,
-      delivery_address: parsed.data.deliveryAddress,
-      delivery_notes: parsed.data.deliveryNotes,
-      delivery_fee: parsed.data.orderType === 'delivery' ? deliveryFee : null,
-      scheduled_for: parsed.data.scheduledFor ? new Date(parsed.data.scheduledFor).toISOString() : null,
-      subtotal,
-      tax_amount: taxAmount,
-      tip_amount: tipAmount,
-      total_amount: totalAmount,
-      payment_method: parsed.data.paymentMethod,
-      special_instructions: parsed.data.specialInstructions,
-      source: parsed.data.source || 'pos',
-      status: 'pending',
-    })
-    .select()
-    .single();
-
-  if (orderError || !order) {
-    return c.json({ error: { message: orderError?.message || 'Failed to create order', code: 'DB_ERROR' } }, 500);
-  }
-
-  // Create order items
-  const itemsToInsert = orderItems.map(item => ({
-    ...item,
-    order_id: order.id,
-  }));
-
-  const { data: items, error: itemsError } = await supabase
-    .from('order_items')
-    .insert(itemsToInsert)
-    .select();
-
-  if (itemsError) {
-    return c.json({ error: { message: itemsError.message, code: 'DB_ERROR' } }, 500);
-  }
+  const role = c.get('role');
+  const result = await createOrder(businessId, parsed.data, {
+    userId: c.get('user')?.id,
+    canRedeemLoyalty: !!role && hasPermission(role, 'loyalty:redeem'),
+  });
 
-  // Get table info if exists
-  let table = null;
-  if (order.table_id) {
-    const { data: tableData } = await supabase
-      .from('restaurant_tables')
-      .select('id, table_number, section')
-      .eq('id', order.table_id)
-      .single();
-    if (tableData) {
-      table = { id: tableData.id, tableNumber: tableData.table_number, section: tableData.section };
-    }
+  if (!result.ok) {
+    return c.json({ error: { message: result.message, code: result.code } }, result.status);
   }
 
-  const camelOrder = toCamelCase<any>(order);
-  camelOrder.table = table;
-  camelOrder.items = (items || []).map((i: any) => parseOrderItemFields(toCamelCase(i)));
-
-  return c.json({ data: camelOrder }, 201);
+  return c.json({ data: result.order }, 201);
 });
 
 // Update order
-ordersRouter.put('/:businessId/:orderId', async (c) => {
+ordersRouter.put('/:businessId/:orderId', requirePermission('orders:write'), async (c) => {
   const { businessId, orderId } = c.req.param();
   const body = await c.req.json();
 
@@ -575,7 +210,6 @@ ordersRouter.put('/:businessId/:orderId', async (c) => {
   const updateData: Record<string, unknown> = { updated_at: new Date().toISOString() };
 
   // Map camelCase fields to snake_case
-  if (parsed.data.status !== undefined) updateData.status = parsed.data.status;
   if (parsed.data.paymentStatus !== undefined) updateData.payment_status = parsed.data.paymentStatus;
   if (parsed.data.paymentMethod !== undefined) updateData.payment_method = parsed.data.paymentMethod;
   if (parsed.data.paymentReference !== undefined) updateData.payment_reference = parsed.data.paymentReference;
@@ -583,38 +217,6 @@ ordersRouter.put('/:businessId/:orderId', async (c) => {
   if (parsed.data.tableId !== undefined) updateData.table_id = parsed.data.tableId;
   if (parsed.data.cancellationReason !== undefined) updateData.cancellation_reason = parsed.data.cancellationReason;
 
-  if (parsed.data.status) {
-    const now = new Date().toISOString();
-    switch (parsed.data.status) {
-      case 'confirmed':
-        updateData.confirmed_at = now;
-        break;
-      case 'preparing':
-        updateData.preparing_at = now;
-        break;
-      case 'ready':
-        updateData.ready_at = now;
-        break;
-      case 'completed':
-        updateData.completed_at = now;
-        // Award loyalty points when order is completed
-        if (existing.status !== 'completed') {
-          await awardLoyaltyPoints({
-            id: orderId,
-            businessId,
-            totalAmount: existing.total_amount,
-            customerEmail: existing.customer_email,
-            customerPhone: existing.customer_phone,
-            customerName: existing.customer_name,
-          });
-        }
-        break;
-      case 'cancelled':
-        updateData.cancelled_at = now;
-        break;
-    }
-  }
-
   if (parsed.data.paymentStatus === 'paid') {
     updateData.paid_at = new Date().toISOString();
   }
@@ -623,52 +225,48 @@ ordersRouter.put('/:businessId/:orderId', async (c) => {
     updateData.estimated_ready = new Date(parsed.data.estimatedReady).toISOString();
   }
 
-  const { data: order, error: updateError } = await supabase
-    .from('orders')
-    .update(updateData)
-    .eq('id', orderId)
-    .select()
-    .single();
+  let order: Record<string, any>;
 
-  if (updateError || !order) {
-    return c.json({ error: { message: updateError?.message || 'Failed to update order', code: 'DB_ERROR' } }, 500);
-  }
+  // Status changes go through the state machine; other fields are written with it
+  if (parsed.data.status !== undefined && parsed.data.status !== existing.status) {
+    const result = await transitionOrderStatus(existing, parsed.data.status, {
+      changedBy: c.get('user')?.id,
+      reason: parsed.data.cancellationReason,
+      updates: updateData,
+    });
 
-  // Get table info if exists
-  let table = null;
-  if (order.table_id) {
-    const { data: tableData } = await supabase
-      .from('restaurant_tables')
-      .select('id, table_number, section')
-      .eq('id', order.table_id)
+    if (!result.ok) {
+      const status = result.code === 'INVALID_TRANSITION' ? 409 : 500;
+      return c.json({ error: { message: result.message, code: result.code } }, status);
+    }
+    order = result.order;
+  } else {
+    const { data: updated, error: updateError } = await supabase
+      .from('orders')
+      .update(updateData)
+      .eq('id', orderId)
+      .select()
       .single();
-    if (tableData) {
-      table = { id: tableData.id, tableNumber: tableData.table_number, section: tableData.section };
+
+    if (updateError || !updated) {
+      return c.json({ error: { message: updateError?.message || 'Failed to update order', code: 'DB_ERROR' } }, 500);
     }
+    order = updated;
   }
 
-  // Get order items
-  const { data: items } = await supabase
-    .from('order_items')
-    .select('*')
-    .eq('order_id', orderId);
-
-  const camelOrder = toCamelCase<any>(order);
-  camelOrder.table = table;
-  camelOrder.items = (items || []).map((i: any) => parseOrderItemFields(toCamelCase(i)));
+  const camelOrder = await getOrderWithDetails(order);
 
   return c.json({ data: camelOrder });
 });
 
 // Update order status (shorthand)
-ordersRouter.put('/:businessId/:orderId/status', async (c) => {
+ordersRouter.put('/:businessId/:orderId/status', requirePermission('orders:write'), async (c) => {
   const { businessId, orderId } = c.req.param();
   const body = await c.req.json();
 
-  const { status, cancellationReason } = body;
-
-  if (!['pending', 'confirmed', 'preparing', 'ready', 'completed', 'cancelled'].includes(status)) {
-    return c.json({ error: { message: 'Invalid status', code: 'VALIDATION_ERROR' } }, 400);
+  const parsed = UpdateOrderStatusSchema.safeParse(body);
+  if (!parsed.success) {
+    return c.json({ error: { message: 'Invalid status', code: 'VALIDATION_ERROR', details: parsed.error.issues } }, 400);
   }
 
   const { data: existing, error: existError } = await supabase
@@ -682,76 +280,501 @@ ordersRouter.put('/:businessId/:orderId/status', async (c) => {
     return c.json({ error: { message: 'Order not found', code: 'NOT_FOUND' } }, 404);
   }
 
-  const now = new Date().toISOString();
-  const updateData: Record<string, unknown> = { status, updated_at: now };
-
-  switch (status) {
-    case 'confirmed':
-      updateData.confirmed_at = now;
-      break;
-    case 'preparing':
-      updateData.preparing_at = now;
-      break;
-    case 'ready':
-      updateData.ready_at = now;
-      break;
-    case 'completed':
-      updateData.completed_at = now;
-      // Award loyalty points when order is completed
-      if (existing.status !== 'completed') {
-        await awardLoyaltyPoints({
-          id: orderId,
-          businessId,
-          totalAmount: existing.total_amount,
-          customerEmail: existing.customer_email,
-          customerPhone: existing.customer_phone,
-          customerName: existing.customer_name,
-        });
-      }
-      break;
-    case 'cancelled':
-      updateData.cancelled_at = now;
-      if (cancellationReason) {
-        updateData.cancellation_reason = cancellationReason;
-      }
-      break;
+  const result = await transitionOrderStatus(existing, parsed.data.status, {
+    changedBy: c.get('user')?.id,
+    reason: parsed.data.reason ?? parsed.data.cancellationReason,
+  });
+
+  if (!result.ok) {
+    const status = result.code === 'INVALID_TRANSITION' ? 409 : 500;
+    return c.json({ error: { message: result.message, code: result.code } }, status);
   }
 
-  const { data: order, error: updateError } = await supabase
+  const order = result.order;
+
+  const camelOrder = await getOrderWithDetails(order);
+
+  return c.json({ data: camelOrder });
+});
+
+// Get order status history
+ordersRouter.get('/:businessId/:orderId/history', requirePermission('orders:read'), async (c) => {
+  const { businessId, orderId } = c.req.param();
+
+  const { data: order, error: orderError } = await supabase
     .from('orders')
-    .update(updateData)
+    .select('id')
     .eq('id', orderId)
-    .select()
+    .eq('business_id', businessId)
     .single();
 
-  if (updateError || !order) {
-    return c.json({ error: { message: updateError?.message || 'Failed to update order', code: 'DB_ERROR' } }, 500);
+  if (orderError || !order) {
+    return c.json({ error: { message: 'Order not found', code: 'NOT_FOUND' } }, 404);
   }
 
-  // Get table info if exists
-  let table = null;
-  if (order.table_id) {
-    const { data: tableData } = await supabase
-      .from('restaurant_tables')
-      .select('id, table_number, section')
-      .eq('id', order.table_id)
+  const { data: history, error } = await supabase
+    .from('order_status_history')
+    .select('*')
+    .eq('order_id', orderId)
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    return c.json({ error: { message: error.message, code: 'DB_ERROR' } }, 500);
+  }
+
+  return c.json({ data: (history || []).map(h => toCamelCase(h)) });
+});
+
+// ============================================
+// Delivery Quotes
+// ============================================
+
+// Check delivery to a location before checkout (public, for the storefront)
+ordersRouter.post('/:businessId/delivery-quote', async (c) => {
+  const { businessId } = c.req.param();
+  const body = await c.req.json();
+
+  const parsed = DeliveryQuoteSchema.safeParse(body);
+  if (!parsed.success) {
+    return c.json({ error: { message: 'Invalid request', code: 'VALIDATION_ERROR', details: parsed.error.issues } }, 400);
+  }
+
+  let deliveryContext: DeliveryContext | null;
+  try {
+    deliveryContext = await getDeliveryContext(businessId);
+  } catch (error) {
+    return c.json({ error: { message: (error as Error).message, code: 'DB_ERROR' } }, 500);
+  }
+  if (!deliveryContext) {
+    return c.json({ error: { message: 'Business not found', code: 'NOT_FOUND' } }, 404);
+  }
+
+  const quote = quoteDelivery(deliveryContext, parsed.data.location, parsed.data.subtotal);
+  if (!quote.ok) {
+    return c.json({ error: { message: quote.message, code: quote.code } }, 400);
+  }
+
+  return c.json({
+    data: {
+      zoneId: quote.zone?.id ?? null,
+      zoneName: quote.zone?.name ?? null,
+      fee: quote.fee,
+      minimumOrder: quote.minimumOrder,
+      estimatedMinutes: quote.estimatedMinutes,
+      distanceKm: quote.distanceKm,
+    },
+  });
+});
+
+// ============================================
+// Online Ordering (public, for the storefront)
+// ============================================
+
+// Pickup slots for a business date (default: today). With a pickup
+// capacity, each slot says whether an order of `items` items (default 1)
+// still fits and how much room is left.
+ordersRouter.get('/:businessId/public/pickup-slots', async (c) => {
+  const { businessId } = c.req.param();
+  const items = Math.max(1, parseInt(c.req.query('items') || '1') || 1);
+
+  let settings: OnlineOrderingSettings | null;
+  try {
+    settings = await getOnlineOrderingSettings(businessId);
+  } catch (error) {
+    return c.json({ error: { message: (error as Error).message, code: 'DB_ERROR' } }, 500);
+  }
+  if (!settings || !settings.isActive) {
+    return c.json({ error: { message: 'Business not found', code: 'NOT_FOUND' } }, 404);
+  }
+  if (!settings.enabled) {
+    return c.json({ data: [] });
+  }
+
+  const now = new Date();
+  const date = c.req.query('date') || getBusinessDate(now, settings.timezone); // "YYYY-MM-DD"
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(date) || isNaN(Date.parse(date))) {
+    return c.json({ error: { message: 'date must be YYYY-MM-DD', code: 'VALIDATION_ERROR' } }, 400);
+  }
+
+  const slots = getPickupSlots({
+    date,
+    hours: settings.hours.get(getDayOfWeek(date)),
+    now,
+    timeZone: settings.timezone,
+    slotMinutes: settings.slotMinutes,
+    leadMinutes: settings.leadMinutes,
+  });
+  const latest = now.getTime() + MAX_PICKUP_DAYS_AHEAD * 24 * 60 * 60 * 1000;
+  const bookable = slots.filter(slot => Date.parse(slot.pickupTime) <= latest);
+
+  let usage = new Map<string, SlotUsage>();
+  const firstSlot = bookable[0];
+  const lastSlot = bookable[bookable.length - 1];
+  if (firstSlot && lastSlot && hasPickupCapacity(settings.capacity)) {
+    try {
+      usage = await getPickupSlotUsage(businessId, new Date(firstSlot.pickupTime), new Date(Date.parse(lastSlot.pickupTime) + 1));
+    } catch (error) {
+      return c.json({ error: { message: (error as Error).message, code: 'DB_ERROR' } }, 500);
+    }
+  }
+
+  return c.json({
+    data: bookable.map(slot => ({
+      ...slot,
+      ...getSlotCapacity(usage.get(slot.pickupTime), settings.capacity, items),
+    })),
+  });
+});
+
+/**
+ * Place a guest order. Prices and availability are checked server-side:
+ * ASAP orders need the business to be open, scheduled ones a place in one
+ * of its pickup slots, and every item's category must be available at that time.
+ * The tracking token is only ever returned here.
+ */
+ordersRouter.post('/:businessId/public', async (c) => {
+  const { businessId } = c.req.param();
+  const body = await c.req.json();
+
+  const parsed = PublicOrderSchema.safeParse(body);
+  if (!parsed.success) {
+    return c.json({ error: { message: 'Invalid request', code: 'VALIDATION_ERROR', details: parsed.error.issues } }, 400);
+  }
+
+  const { captchaToken, pickupTime, ...order } = parsed.data;
+  if (!(await verifyCaptcha(captchaToken, getClientIp(c) ?? undefined))) {
+    return c.json({ error: { message: 'CAPTCHA verification failed', code: 'CAPTCHA_FAILED' } }, 400);
+  }
+
+  let settings: OnlineOrderingSettings | null;
+  try {
+    settings = await getOnlineOrderingSettings(businessId);
+  } catch (error) {
+    return c.json({ error: { message: (error as Error).message, code: 'DB_ERROR' } }, 500);
+  }
+  if (!settings || !settings.isActive) {
+    return c.json({ error: { message: 'Business not found', code: 'NOT_FOUND' } }, 404);
+  }
+  if (!settings.enabled) {
+    return c.json({ error: { message: 'This business is not taking online orders', code: 'ONLINE_ORDERING_DISABLED' } }, 400);
+  }
+
+  const now = new Date();
+  const scheduledFor = pickupTime ? new Date(pickupTime) : null;
+  if (scheduledFor) {
+    if (!isPickupSlot(settings, scheduledFor, now)) {
+      return c.json({ error: { message: 'That pickup time is not available', code: 'INVALID_PICKUP_TIME' } }, 400);
+    }
+  } else {
+    const { dayOfWeek, hour, minute } = getZonedParts(now, settings.timezone);
+    if (!isOpenAt(settings.hours, dayOfWeek, hour * 60 + minute)) {
+      return c.json({ error: { message: 'The business is closed; choose a pickup time', code: 'BUSINESS_CLOSED' } }, 400);
+    }
+  }
+
+  const trackingToken = createGuestToken();
+  const result = await createOrder(businessId, {
+    ...order,
+    scheduledFor: scheduledFor?.toISOString(),
+    source: 'website',
+  }, {
+    canRedeemLoyalty: false,
+    guestTokenHash: hashGuestToken(trackingToken),
+    enforcePickupCapacity: true,
+  });
+
+  if (!result.ok) {
+    return c.json({ error: { message: result.message, code: result.code } }, result.status);
+  }
+
+  return c.json({ data: { order: toGuestOrder(result.order), trackingToken } }, 201);
+});
+
+// Track a guest order by its number and either its tracking token or the
+// email or phone number it was placed with
+ordersRouter.get('/:businessId/public/track/:orderNumber', async (c) => {
+  const { businessId, orderNumber } = c.req.param();
+  const token = c.req.query('token');
+  const contact = c.req.query('contact');
+
+  if (!token && !contact) {
+    return c.json({ error: { message: 'A tracking token or the email or phone on the order is required', code: 'VALIDATION_ERROR' } }, 400);
+  }
+
+  const { data: order, error } = await supabase
+    .from('orders')
+    .select('*')
+    .eq('business_id', businessId)
+    .eq('order_number', orderNumber)
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) {
+    return c.json({ error: { message: error.message, code: 'DB_ERROR' } }, 500);
+  }
+
+  // Unknown orders and wrong credentials look the same
+  const authorized = !!order && (token
+    ? !!order.guest_token_hash && order.guest_token_hash === hashGuestToken(token)
+    : matchesOrderContact(order, contact!));
+  if (!order || !authorized) {
+    return c.json({ error: { message: 'Order not found', code: 'NOT_FOUND' } }, 404);
+  }
+
+  return c.json({ data: toGuestOrder(await getOrderWithDetails(order)) });
+});
+
+// ============================================
+// Offline Sync
+// ============================================
+
+/**
+ * Upload orders a POS tablet took while offline. Each order is created with
+ * its original timestamp and the prices it was charged at, numbered in the
+ * order it was taken. Orders already uploaded (same clientOrderId) are
+ * reported as duplicates; one order's problems never fail the batch.
+ */
+ordersRouter.post('/:businessId/sync', requirePermission('orders:write'), async (c) => {
+  const { businessId } = c.req.param();
+  const body = await c.req.json();
+
+  const parsed = SyncOrdersSchema.safeParse(body);
+  if (!parsed.success) {
+    return c.json({ error: { message: 'Invalid request', code: 'VALIDATION_ERROR', details: parsed.error.issues } }, 400);
+  }
+
+  const orders = sortByCreatedAt(parsed.data.orders);
+  const clientOrderIds = orders.map(o => o.clientOrderId);
+  const menuItemIds = [...new Set(orders.flatMap(o => o.items.map(i => i.menuItemId)))];
+
+  const [{ data: existing, error: existingError }, { data: menuItems, error: menuError }] = await Promise.all([
+    supabase
+      .from('orders')
+      .select('id, order_number, client_order_id')
+      .eq('business_id', businessId)
+      .in('client_order_id', clientOrderIds),
+    supabase
+      .from('menu_items')
+      .select('id, name, price, category_id, station_id, tax_category')
+      .in('id', menuItemIds)
+      .eq('business_id', businessId),
+  ]);
+
+  if (existingError || menuError) {
+    return c.json({ error: { message: (existingError ?? menuError)!.message, code: 'DB_ERROR' } }, 500);
+  }
+
+  const existingByClientId = new Map((existing || []).map(o => [o.client_order_id, o]));
+  const menuItemMap = new Map((menuItems || []).map(item => [item.id, item]));
+
+  const categoryIds = [...new Set((menuItems || []).map(item => item.category_id))];
+  const { data: categories, error: categoriesError } = await supabase
+    .from('menu_categories')
+    .select('id, station_id')
+    .in('id', categoryIds);
+
+  // Nothing has been written yet, so the whole batch can be retried
+  if (categoriesError) {
+    return c.json({ error: { message: categoriesError.message, code: 'DB_ERROR' } }, 500);
+  }
+
+  const categoryStationMap = new Map((categories || []).map(cat => [cat.id, cat.station_id as string | null]));
+
+  const results: SyncOrderResult[] = [];
+
+  // One at a time and oldest first, so order numbers are chronological
+  for (const syncOrder of orders) {
+    const { clientOrderId } = syncOrder;
+    const duplicate = existingByClientId.get(clientOrderId);
+    if (duplicate) {
+      results.push({ clientOrderId, status: 'duplicate', orderId: duplicate.id, orderNumber: duplicate.order_number, conflicts: [] });
+      continue;
+    }
+
+    const createdAt = new Date(syncOrder.createdAt);
+    if (createdAt.getTime() > Date.now() + MAX_CLOCK_SKEW_MS) {
+      results.push({ clientOrderId, status: 'error', conflicts: [], error: 'createdAt is in the future' });
+      continue;
+    }
+
+    const { blocking, conflicts } = findSyncConflicts(syncOrder, menuItemMap);
+    if (blocking) {
+      results.push({ clientOrderId, status: 'conflict', conflicts });
+      continue;
+    }
+
+    let orderNumber: Awaited<ReturnType<typeof generateOrderNumber>>;
+    try {
+      orderNumber = await generateOrderNumber(businessId, createdAt);
+    } catch (error) {
+      results.push({ clientOrderId, status: 'error', conflicts, error: (error as Error).message });
+      continue;
+    }
+
+    const { data: order, error: orderError } = await supabase
+      .from('orders')
+      .insert({
+        business_id: businessId,
+        client_order_id: clientOrderId,
+        order_number: orderNumber.orderNumber,
+        ticket_number: orderNumber.ticketNumber,
+        order_type: syncOrder.orderType,
+        customer_name: syncOrder.customerName,
+        customer_email: syncOrder.customerEmail,
+        customer_phone: syncOrder.customerPhone,
+        table_id: syncOrder.tableId,
+        delivery_fee: syncOrder.deliveryFee ?? null,
+        subtotal: syncOrder.subtotal,
+        tax_amount: syncOrder.taxAmount,
+        tip_amount: syncOrder.tipAmount ?? 0,
+        discount_amount: syncOrder.discountAmount ?? 0,
+        total_amount: syncOrder.totalAmount,
+        payment_method: syncOrder.paymentMethod,
+        payment_status: syncOrder.paymentStatus ?? 'pending',
+        paid_at: syncOrder.paymentStatus === 'paid' ? createdAt.toISOString() : null,
+        special_instructions: syncOrder.specialInstructions,
+        source: 'pos',
+        status: 'pending',
+        created_at: createdAt.toISOString(),
+      })
+      .select()
       .single();
-    if (tableData) {
-      table = { id: tableData.id, tableNumber: tableData.table_number, section: tableData.section };
+
+    if (orderError || !order) {
+      // Another upload of the same batch got there first
+      if (orderError?.code === '23505') {
+        const { data: raced } = await supabase
+          .from('orders')
+          .select('id, order_number')
+          .eq('business_id', businessId)
+          .eq('client_order_id', clientOrderId)
+          .maybeSingle();
+        if (raced) {
+          results.push({ clientOrderId, status: 'duplicate', orderId: raced.id, orderNumber: raced.order_number, conflicts: [] });
+          continue;
+        }
+      }
+      results.push({ clientOrderId, status: 'error', conflicts, error: orderError?.message || 'Failed to create order' });
+      continue;
+    }
+
+    const { error: itemsError } = await supabase
+      .from('order_items')
+      .insert(syncOrder.items.map(item => {
+        const menuItem = menuItemMap.get(item.menuItemId)!;
+        const modifiersTotal = (item.modifiers ?? []).reduce((sum, m) => sum + m.priceAdjustment, 0);
+        return {
+          order_id: order.id,
+          menu_item_id: menuItem.id,
+          item_name: item.itemName ?? menuItem.name,
+          item_price: item.unitPrice - modifiersTotal,
+          quantity: item.quantity,
+          modifiers: item.modifiers && item.modifiers.length > 0 ? JSON.stringify(item.modifiers) : null,
+          modifiers_total: modifiersTotal,
+          total_price: item.unitPrice * item.quantity,
+          special_requests: item.specialRequests || null,
+          station_id: menuItem.station_id ?? categoryStationMap.get(menuItem.category_id) ?? null,
+          tax_category: menuItem.tax_category ?? 'standard',
+        };
+      }));
+
+    if (itemsError) {
+      // Without its items the order is useless; drop it so the retry starts clean
+      await supabase.from('orders').delete().eq('id', order.id);
+      results.push({ clientOrderId, status: 'error', conflicts, error: itemsError.message });
+      continue;
     }
+
+    await recordOrderStatusChange({
+      orderId: order.id,
+      businessId,
+      fromStatus: null,
+      toStatus: 'pending',
+      changedBy: c.get('user')?.id,
+      reason: 'Synced from offline POS',
+    });
+
+    publishEvent(businessId, 'order.created', await getOrderWithDetails(order));
+    results.push({ clientOrderId, status: 'created', orderId: order.id, orderNumber: order.order_number, conflicts });
   }
 
-  // Get order items
-  const { data: items } = await supabase
-    .from('order_items')
+  return c.json({
+    data: {
+      results,
+      created: results.filter(r => r.status === 'created').length,
+      duplicates: results.filter(r => r.status === 'duplicate').length,
+      conflicts: results.filter(r => r.status === 'conflict').length,
+      errors: results.filter(r => r.status === 'error').length,
+    },
+  });
+});
+
+// ============================================
+// Order Refunds
+// ============================================
+
+const REFUND_ERROR_STATUS = {
+  ORDER_NOT_PAID: 409,
+  NOTHING_TO_REFUND: 409,
+  REFUND_EXCEEDS_BALANCE: 400,
+  INVALID_ITEMS: 400,
+  CONFLICT: 409,
+  STRIPE_ERROR: 500,
+  DB_ERROR: 500,
+} as const;
+
+// List refunds for an order
+ordersRouter.get('/:businessId/:orderId/refunds', requirePermission('orders:read'), async (c) => {
+  const { businessId, orderId } = c.req.param();
+
+  const { data: refunds, error } = await supabase
+    .from('order_refunds')
     .select('*')
-    .eq('order_id', orderId);
+    .eq('order_id', orderId)
+    .eq('business_id', businessId)
+    .order('created_at', { ascending: true });
 
-  const camelOrder = toCamelCase<any>(order);
-  camelOrder.table = table;
-  camelOrder.items = (items || []).map((i: any) => parseOrderItemFields(toCamelCase(i)));
+  if (error) {
+    return c.json({ error: { message: error.message, code: 'DB_ERROR' } }, 500);
+  }
 
-  return c.json({ data: camelOrder });
+  return c.json({ data: (refunds || []).map(r => toCamelCase(r)) });
+});
+
+// Refund an order: full, partial amount, or line items
+ordersRouter.post('/:businessId/:orderId/refunds', requirePermission('orders:write'), async (c) => {
+  const { businessId, orderId } = c.req.param();
+  const body = await c.req.json();
+
+  const parsed = CreateOrderRefundSchema.safeParse(body);
+  if (!parsed.success) {
+    return c.json({ error: { message: 'Invalid request', code: 'VALIDATION_ERROR', details: parsed.error.issues } }, 400);
+  }
+
+  const { data: order, error: orderError } = await supabase
+    .from('orders')
+    .select('*')
+    .eq('id', orderId)
+    .eq('business_id', businessId)
+    .single();
+
+  if (orderError || !order) {
+    return c.json({ error: { message: 'Order not found', code: 'NOT_FOUND' } }, 404);
+  }
+
+  const result = await createOrderRefund(order, parsed.data, c.get('user')?.id);
+
+  if (!result.ok) {
+    return c.json({ error: { message: result.message, code: result.code } }, REFUND_ERROR_STATUS[result.code]);
+  }
+
+  return c.json({
+    data: {
+      refund: toCamelCase(result.refund),
+      order: await getOrderWithDetails(result.order),
+    },
+  }, 201);
 });
 
 // ============================================
@@ -759,7 +782,7 @@ ordersRouter.put('/:businessId/:orderId/status', async (c) => {
 // ============================================
 
 // Update order item status
-ordersRouter.put('/:businessId/:orderId/items/:itemId/status', async (c) => {
+ordersRouter.put('/:businessId/:orderId/items/:itemId/status', requirePermission('orders:write'), async (c) => {
   const { businessId, orderId, itemId } = c.req.param();
   const body = await c.req.json();
 
@@ -811,7 +834,13 @@ ordersRouter.put('/:businessId/:orderId/items/:itemId/status', async (c) => {
     return c.json({ error: { message: updateError?.message || 'Failed to update item', code: 'DB_ERROR' } }, 500);
   }
 
-  return c.json({ data: toCamelCase(updatedItem) });
+  const camelItem = toCamelCase(updatedItem);
+  publishEvent(businessId, 'order.item_status_changed', camelItem);
+
+  // Roll the parent order to ready once every item is ready
+  await syncOrderStatusWithItems(orderId, c.get('user')?.id);
+
+  return c.json({ data: camelItem });
 });
 
 // ============================================
@@ -819,7 +848,7 @@ ordersRouter.put('/:businessId/:orderId/items/:itemId/status', async (c) => {
 // ============================================
 
 // Get order stats for a business
-ordersRouter.get('/:businessId/stats/summary', async (c) => {
+ordersRouter.get('/:businessId/stats/summary', requirePermission('orders:read'), async (c) => {
   const { businessId } = c.req.param();
   const date = c.req.query('date');
 
@@ -828,14 +857,13 @@ ordersRouter.get('/:businessId/stats/summary', async (c) => {
     .select('*', { count: 'exact', head: true })
     .eq('business_id', businessId);
 
-  if (date) {
-    const startOfDay = new Date(date);
-    startOfDay.setHours(0, 0, 0, 0);
-    const endOfDay = new Date(date);
-    endOfDay.setHours(23, 59, 59, 999);
+  // `date` is a business day in the business's timezone
+  const dayBounds = date ? getBusinessDayBounds(date, await getBusinessTimezone(businessId)) : null;
+
+  if (dayBounds) {
     baseQuery = baseQuery
-      .gte('created_at', startOfDay.toISOString())
-      .lte('created_at', endOfDay.toISOString());
+      .gte('created_at', dayBounds.start.toISOString())
+      .lte('created_at', dayBounds.end.toISOString());
   }
 
   // Get total orders count
@@ -872,13 +900,9 @@ ordersRouter.get('/:businessId/stats/summary', async (c) => {
     .eq('business_id', businessId)
     .eq('status', 'completed');
 
-  if (date) {
-    const startOfDay = new Date(date);
-    startOfDay.setHours(0, 0, 0, 0);
-    const endOfDay = new Date(date);
-    endOfDay.setHours(23, 59, 59, 999);
-    const startStr = startOfDay.toISOString();
-    const endStr = endOfDay.toISOString();
+  if (dayBounds) {
+    const startStr = dayBounds.start.toISOString();
+    const endStr = dayBounds.end.toISOString();
 
     pendingQuery = pendingQuery.gte('created_at', startStr).lte('created_at', endStr);
     preparingQuery = preparingQuery.gte('created_at', startStr).lte('created_at', endStr);
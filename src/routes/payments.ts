@@ -1,65 +1,93 @@
 import { Hono } from 'hono';
-import Stripe from 'stripe';
+import type Stripe from 'stripe';
 import { supabase } from '../supabase';
+import { getStripe } from '../stripe';
+import { getOrCreateOrderPaymentIntent } from '../orderPayments';
+import type { OrderPaymentErrorCode } from '../orderPayments';
+import { constructStripeEvent, processStripeEvent, supabaseWebhookStore } from '../stripeWebhooks';
 import type { AuthUser } from '../middleware/auth';
+import { requirePermission, resolveBusinessRole, hasPermission } from '../middleware/authorize';
 
 type Env = { Variables: { user: AuthUser } };
 export const paymentsRouter = new Hono<Env>();
 
-let _stripe: Stripe | null = null;
-function getStripe(): Stripe {
-  if (!_stripe) {
-    const key = process.env.STRIPE_SECRET_KEY;
-    if (!key) throw new Error('STRIPE_SECRET_KEY is not configured');
-    _stripe = new Stripe(key, { apiVersion: '2024-12-18.acacia' as any });
+// Platform customer for a user, created on first payment
+async function getOrCreateStripeCustomer(stripe: Stripe, userId: string): Promise<string> {
+  const { data: profile } = await supabase
+    .from('user_profiles')
+    .select('stripe_customer_id')
+    .eq('user_id', userId)
+    .single();
+
+  if (profile?.stripe_customer_id) {
+    return profile.stripe_customer_id;
   }
-  return _stripe;
+
+  const { data: authUser } = await supabase.auth.admin.getUserById(userId);
+  const customer = await stripe.customers.create({
+    email: authUser?.user?.email,
+    metadata: { supabase_user_id: userId },
+  });
+
+  await supabase
+    .from('user_profiles')
+    .update({ stripe_customer_id: customer.id })
+    .eq('user_id', userId);
+
+  return customer.id;
 }
 
-// Create a payment intent for an order
+const ORDER_PAYMENT_ERROR_STATUS: Record<OrderPaymentErrorCode, 400 | 404 | 409> = {
+  NOT_FOUND: 404,
+  ORDER_CANCELLED: 409,
+  ORDER_ALREADY_PAID: 409,
+  PAYMENT_IN_PROGRESS: 409,
+  INVALID_AMOUNT: 400,
+  PAYMENTS_NOT_CONFIGURED: 400,
+};
+
+// Create a payment intent
+// With an orderId, the amount comes from the order itself and any `amount`
+// in the body is ignored; repeated calls return the order's existing intent.
+// Only the business's staff or the order's customer can pay for an order.
+// Without one, the intent is for the client-supplied `amount` and is never
+// tied to an order.
 paymentsRouter.post('/create-payment-intent', async (c) => {
   const user = c.get('user');
   const { amount, currency = 'usd', businessId, orderId, metadata } = await c.req.json();
 
-    if (!amount || amount <= 0) {
-      return c.json({ error: { message: 'Invalid amount', code: 'INVALID_AMOUNT' } }, 400);
-    }
+  if (!orderId && (!amount || amount <= 0)) {
+    return c.json({ error: { message: 'Invalid amount', code: 'INVALID_AMOUNT' } }, 400);
+  }
+
+  try {
+    const stripe = getStripe();
+    const stripeCustomerId = await getOrCreateStripeCustomer(stripe, user.id);
+
+    if (orderId) {
+      const result = await getOrCreateOrderPaymentIntent({
+        orderId,
+        user,
+        customerId: stripeCustomerId,
+        metadata,
+      });
 
-    try {
-      const stripe = getStripe();
-      let stripeCustomerId: string | undefined;
-
-      const { data: profile } = await supabase
-        .from('user_profiles')
-        .select('stripe_customer_id')
-        .eq('user_id', user.id)
-        .single();
-
-      if (profile?.stripe_customer_id) {
-        stripeCustomerId = profile.stripe_customer_id;
-      } else {
-        const { data: authUser } = await supabase.auth.admin.getUserById(user.id);
-        const customer = await stripe.customers.create({
-          email: authUser?.user?.email,
-          metadata: { supabase_user_id: user.id },
-        });
-        stripeCustomerId = customer.id;
-
-        await supabase
-          .from('user_profiles')
-          .update({ stripe_customer_id: customer.id })
-          .eq('user_id', user.id);
+      if (!result.ok) {
+        return c.json({ error: { message: result.message, code: result.code } }, ORDER_PAYMENT_ERROR_STATUS[result.code]);
       }
+      return c.json(result.payment);
+    }
 
-      const paymentIntent = await stripe.paymentIntents.create({
+    const paymentIntent = await stripe.paymentIntents.create({
       amount: Math.round(amount * 100),
       currency,
       customer: stripeCustomerId,
+      // Caller metadata can't claim an order: only orderId intents pay orders
       metadata: {
+        ...metadata,
         user_id: user.id,
         business_id: businessId || '',
-        order_id: orderId || '',
-        ...metadata,
+        order_id: '',
       },
     });
 
@@ -83,6 +111,11 @@ paymentsRouter.post('/connect/create-account', async (c) => {
   }
 
   try {
+    const role = await resolveBusinessRole(user.id, businessId);
+    if (!role || !hasPermission(role, 'payments:write')) {
+      return c.json({ error: { message: 'You do not have permission to perform this action', code: 'FORBIDDEN' } }, 403);
+    }
+
     const stripe = getStripe();
     const { data: business } = await supabase
       .from('business_accounts')
@@ -90,8 +123,8 @@ paymentsRouter.post('/connect/create-account', async (c) => {
       .eq('id', businessId)
       .single();
 
-    if (!business || business.owner_user_id !== user.id) {
-      return c.json({ error: { message: 'Not authorized', code: 'UNAUTHORIZED' } }, 403);
+    if (!business) {
+      return c.json({ error: { message: 'Business not found', code: 'NOT_FOUND' } }, 404);
     }
 
     if (business.stripe_account_id) {
@@ -135,7 +168,7 @@ paymentsRouter.post('/connect/create-account', async (c) => {
 });
 
 // Get Stripe Connect account status
-paymentsRouter.get('/connect/status/:businessId', async (c) => {
+paymentsRouter.get('/connect/status/:businessId', requirePermission('payments:read'), async (c) => {
   const businessId = c.req.param('businessId');
 
   try {
@@ -200,3 +233,37 @@ paymentsRouter.get('/payment-methods', async (c) => {
     return c.json({ paymentMethods: [] });
   }
 });
+
+// Stripe webhook (public - authenticated by the Stripe-Signature header)
+// Reconciles order payments, reservation deposits and Connect onboarding state;
+// each event id is applied once, so Stripe's retries are safe
+paymentsRouter.post('/webhook', async (c) => {
+  const secret = process.env.STRIPE_WEBHOOK_SECRET;
+  const signature = c.req.header('stripe-signature');
+
+  if (!secret) {
+    console.error('STRIPE_WEBHOOK_SECRET is not configured');
+    return c.json({ error: { message: 'Webhook not configured', code: 'NOT_CONFIGURED' } }, 500);
+  }
+
+  if (!signature) {
+    return c.json({ error: { message: 'Missing Stripe signature', code: 'INVALID_SIGNATURE' } }, 400);
+  }
+
+  let event: Stripe.Event;
+  try {
+    event = await constructStripeEvent(await c.req.text(), signature, secret);
+  } catch (error) {
+    console.error('Invalid Stripe webhook signature:', error);
+    return c.json({ error: { message: 'Invalid Stripe signature', code: 'INVALID_SIGNATURE' } }, 400);
+  }
+
+  try {
+    const result = await processStripeEvent(event, supabaseWebhookStore);
+    return c.json({ received: true, ...result });
+  } catch (error) {
+    // A 500 makes Stripe retry the event
+    console.error('Error handling Stripe webhook:', error);
+    return c.json({ error: { message: 'Failed to handle webhook', code: 'WEBHOOK_FAILED' } }, 500);
+  }
+});
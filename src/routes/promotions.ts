@@ -0,0 +1,194 @@
+import { Hono } from 'hono';
+import { zValidator } from '@hono/zod-validator';
+import { supabase } from '../supabase';
+import { CreatePromotionSchema, UpdatePromotionSchema } from '../types';
+import type { CreatePromotionRequest } from '../types';
+import { requirePermission } from '../middleware/authorize';
+import { mapPromotionRow } from '../promotions';
+
+const promotionsRouter = new Hono();
+
+const UNIQUE_VIOLATION = '23505';
+
+// Map promotions row to camelCase response
+function formatPromotionResponse(row: Record<string, any>) {
+  return {
+    ...mapPromotionRow(row),
+    businessId: row.business_id,
+    description: row.description ?? null,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+// camelCase request fields to promotions columns
+function toPromotionColumns(data: Partial<CreatePromotionRequest>): Record<string, unknown> {
+  const columns: Record<string, unknown> = {};
+  if (data.name !== undefined) columns.name = data.name;
+  if (data.description !== undefined) columns.description = data.description;
+  if (data.code !== undefined) columns.code = data.code ? data.code.toUpperCase() : null;
+  if (data.discountType !== undefined) columns.discount_type = data.discountType;
+  if (data.discountValue !== undefined) columns.discount_value = data.discountValue;
+  if (data.scope !== undefined) columns.scope = data.scope;
+  if (data.categoryIds !== undefined) columns.category_ids = data.categoryIds;
+  if (data.menuItemIds !== undefined) columns.menu_item_ids = data.menuItemIds;
+  if (data.buyQuantity !== undefined) columns.buy_quantity = data.buyQuantity;
+  if (data.getQuantity !== undefined) columns.get_quantity = data.getQuantity;
+  if (data.minSubtotal !== undefined) columns.min_subtotal = data.minSubtotal;
+  if (data.stackable !== undefined) columns.stackable = data.stackable;
+  if (data.startsAt !== undefined) columns.starts_at = data.startsAt;
+  if (data.endsAt !== undefined) columns.ends_at = data.endsAt;
+  if (data.usageLimit !== undefined) columns.usage_limit = data.usageLimit;
+  if (data.daysOfWeek !== undefined) columns.days_of_week = data.daysOfWeek;
+  if (data.startTime !== undefined) columns.start_time = data.startTime;
+  if (data.endTime !== undefined) columns.end_time = data.endTime;
+  if (data.hoursAnchor !== undefined) columns.hours_anchor = data.hoursAnchor;
+  if (data.anchorOffsetMinutes !== undefined) columns.anchor_offset_minutes = data.anchorOffsetMinutes;
+  if (data.durationMinutes !== undefined) columns.duration_minutes = data.durationMinutes;
+  if (data.isActive !== undefined) columns.is_active = data.isActive;
+  return columns;
+}
+
+// List promotions
+promotionsRouter.get('/:businessId', requirePermission('menu:read'), async (c) => {
+  const businessId = c.req.param('businessId');
+  const active = c.req.query('active');
+
+  try {
+    let query = supabase
+      .from('promotions')
+      .select('*')
+      .eq('business_id', businessId)
+      .order('created_at', { ascending: false });
+
+    if (active !== undefined) {
+      query = query.eq('is_active', active === 'true');
+    }
+
+    const { data: promotions, error } = await query;
+
+    if (error) {
+      console.error('Error listing promotions:', error);
+      return c.json({ error: { message: 'Failed to list promotions', code: 'LIST_FAILED' } }, 500);
+    }
+
+    return c.json({ data: (promotions || []).map(formatPromotionResponse) });
+  } catch (error) {
+    console.error('Error listing promotions:', error);
+    return c.json({ error: { message: 'Failed to list promotions', code: 'LIST_FAILED' } }, 500);
+  }
+});
+
+// Create promotion
+promotionsRouter.post(
+  '/:businessId',
+  requirePermission('menu:write'),
+  zValidator('json', CreatePromotionSchema),
+  async (c) => {
+    const businessId = c.req.param('businessId');
+    const data = c.req.valid('json');
+
+    try {
+      const { data: promotion, error } = await supabase
+        .from('promotions')
+        .insert({ ...toPromotionColumns(data), business_id: businessId })
+        .select()
+        .single();
+
+      if (error?.code === UNIQUE_VIOLATION) {
+        return c.json({ error: { message: 'A promotion with this code already exists', code: 'DUPLICATE_CODE' } }, 409);
+      }
+      if (error) {
+        console.error('Error creating promotion:', error);
+        return c.json({ error: { message: 'Failed to create promotion', code: 'CREATE_FAILED' } }, 500);
+      }
+
+      return c.json({ data: formatPromotionResponse(promotion) }, 201);
+    } catch (error) {
+      console.error('Error creating promotion:', error);
+      return c.json({ error: { message: 'Failed to create promotion', code: 'CREATE_FAILED' } }, 500);
+    }
+  }
+);
+
+// Update promotion
+promotionsRouter.put(
+  '/:businessId/:promotionId',
+  requirePermission('menu:write'),
+  zValidator('json', UpdatePromotionSchema),
+  async (c) => {
+    const businessId = c.req.param('businessId');
+    const promotionId = c.req.param('promotionId');
+    const data = c.req.valid('json');
+
+    try {
+      const { data: existing, error: existingError } = await supabase
+        .from('promotions')
+        .select('*')
+        .eq('id', promotionId)
+        .eq('business_id', businessId)
+        .single();
+
+      if (existingError || !existing) {
+        return c.json({ error: { message: 'Promotion not found', code: 'NOT_FOUND' } }, 404);
+      }
+
+      // Validate the promotion as it will be after the update
+      const merged = CreatePromotionSchema.safeParse({ ...formatPromotionResponse(existing), ...data });
+      if (!merged.success) {
+        return c.json({ error: { message: 'Invalid request', code: 'VALIDATION_ERROR', details: merged.error.issues } }, 400);
+      }
+
+      const { data: promotion, error } = await supabase
+        .from('promotions')
+        .update({ ...toPromotionColumns(data), updated_at: new Date().toISOString() })
+        .eq('id', promotionId)
+        .select()
+        .single();
+
+      if (error?.code === UNIQUE_VIOLATION) {
+        return c.json({ error: { message: 'A promotion with this code already exists', code: 'DUPLICATE_CODE' } }, 409);
+      }
+      if (error) {
+        console.error('Error updating promotion:', error);
+        return c.json({ error: { message: 'Failed to update promotion', code: 'UPDATE_FAILED' } }, 500);
+      }
+
+      return c.json({ data: formatPromotionResponse(promotion) });
+    } catch (error) {
+      console.error('Error updating promotion:', error);
+      return c.json({ error: { message: 'Failed to update promotion', code: 'UPDATE_FAILED' } }, 500);
+    }
+  }
+);
+
+// Delete promotion (orders keep their recorded discounts)
+promotionsRouter.delete('/:businessId/:promotionId', requirePermission('menu:write'), async (c) => {
+  const businessId = c.req.param('businessId');
+  const promotionId = c.req.param('promotionId');
+
+  try {
+    const { data: deleted, error } = await supabase
+      .from('promotions')
+      .delete()
+      .eq('id', promotionId)
+      .eq('business_id', businessId)
+      .select('id');
+
+    if (error) {
+      console.error('Error deleting promotion:', error);
+      return c.json({ error: { message: 'Failed to delete promotion', code: 'DELETE_FAILED' } }, 500);
+    }
+
+    if (!deleted || deleted.length === 0) {
+      return c.json({ error: { message: 'Promotion not found', code: 'NOT_FOUND' } }, 404);
+    }
+
+    return c.body(null, 204);
+  } catch (error) {
+    console.error('Error deleting promotion:', error);
+    return c.json({ error: { message: 'Failed to delete promotion', code: 'DELETE_FAILED' } }, 500);
+  }
+});
+
+export { promotionsRouter };
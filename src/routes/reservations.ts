@@ -8,8 +8,36 @@ import {
   CreateTableSchema,
   UpdateTableSchema,
   ReservationSettingsSchema,
+  CreateTableCombinationSchema,
+  UpdateTableCombinationSchema,
+  AssignTableSchema,
+  CreateWaitlistEntrySchema,
+  ReorderWaitlistEntrySchema,
 } from '../types';
 import { toCamelCase } from '../utils';
+import { formatReservationResponse } from '../reservationDetails';
+import { getPaymentExpiry, startReservationPayment, settleReservationPayment } from '../reservationPayments';
+import { requirePermission } from '../middleware/authorize';
+import { publishEvent } from '../events';
+import { sendExpoPush } from '../push';
+import { estimateWaits, moveEntry } from '../waitlist';
+import type { WaitlistParty } from '../waitlist';
+import {
+  getSlotAvailability,
+  getSeatingOptions,
+  getOccupiedTableIds,
+  findBestFit,
+  parseTimeToMinutes,
+  formatMinutes,
+  TABLE_HOLDING_STATUSES,
+} from '../availability';
+import { getBusinessDate, getBusinessMinutes, getBusinessTimezone, getDayOfWeek } from '../timezone';
+import type {
+  AvailabilityTable,
+  AvailabilityCombination,
+  BookedReservation,
+  SeatingPreferences,
+} from '../availability';
 
 export const reservationsRouter = new Hono();
 
@@ -22,27 +50,155 @@ function formatTableResponse(table: Record<string, unknown>) {
   };
 }
 
-// Helper to format reservation response
-function formatReservationResponse(reservation: Record<string, unknown>, table?: Record<string, unknown> | null) {
-  const camelRes = toCamelCase(reservation);
+// Helper to publish a reservation change to the event stream
+// Seating a guest is its own event type; other changes are `reservation.updated`
+function publishReservationChange(
+  businessId: string,
+  previousStatus: string,
+  status: string,
+  reservation: ReturnType<typeof formatReservationResponse>
+) {
+  const type = status === 'seated' && previousStatus !== 'seated'
+    ? 'reservation.seated'
+    : 'reservation.updated';
+  publishEvent(businessId, type, reservation);
+}
+
+// Postgres exclusion_violation, raised by the reservation table conflict trigger
+const TABLE_CONFLICT_ERROR_CODE = '23P01';
+
+function isTableConflict(error: { code?: string } | null) {
+  return error?.code === TABLE_CONFLICT_ERROR_CODE;
+}
+
+// Helper to format table combination response
+function formatCombinationResponse(combination: Record<string, unknown>) {
+  const camelCombination = toCamelCase(combination);
   return {
-    ...camelRes,
-    reservationDate: camelRes.reservationDate
-      ? new Date(camelRes.reservationDate as string).toISOString().split('T')[0]
-      : null,
-    confirmedAt: camelRes.confirmedAt ? new Date(camelRes.confirmedAt as string).toISOString() : null,
-    seatedAt: camelRes.seatedAt ? new Date(camelRes.seatedAt as string).toISOString() : null,
-    completedAt: camelRes.completedAt ? new Date(camelRes.completedAt as string).toISOString() : null,
-    cancelledAt: camelRes.cancelledAt ? new Date(camelRes.cancelledAt as string).toISOString() : null,
-    createdAt: camelRes.createdAt ? new Date(camelRes.createdAt as string).toISOString() : null,
-    updatedAt: camelRes.updatedAt ? new Date(camelRes.updatedAt as string).toISOString() : null,
-    table: table
-      ? {
-          id: table.id,
-          tableNumber: table.table_number,
-          section: table.section,
-        }
-      : null,
+    ...camelCombination,
+    createdAt: camelCombination.createdAt ? new Date(camelCombination.createdAt as string).toISOString() : null,
+    updatedAt: camelCombination.updatedAt ? new Date(camelCombination.updatedAt as string).toISOString() : null,
+  };
+}
+
+// Helper to load the active tables and combinations a party can be seated at
+async function getSeatingInventory(businessId: string, section?: string) {
+  let tablesQuery = supabase
+    .from('restaurant_tables')
+    .select('id, capacity_min, capacity_max, section')
+    .eq('business_id', businessId)
+    .eq('is_active', true);
+
+  if (section) {
+    tablesQuery = tablesQuery.eq('section', section);
+  }
+
+  const [{ data: tableRows }, { data: combinationRows }] = await Promise.all([
+    tablesQuery,
+    supabase
+      .from('table_combinations')
+      .select('id, table_ids, capacity_min, capacity_max')
+      .eq('business_id', businessId)
+      .eq('is_active', true),
+  ]);
+
+  const tables: AvailabilityTable[] = (tableRows || []).map((t) => ({
+    id: t.id,
+    capacityMin: t.capacity_min ?? 1,
+    capacityMax: t.capacity_max,
+    section: t.section,
+  }));
+
+  const combinations: AvailabilityCombination[] = (combinationRows || []).map((tc) => ({
+    id: tc.id,
+    tableIds: tc.table_ids || [],
+    capacityMin: tc.capacity_min,
+    capacityMax: tc.capacity_max,
+  }));
+
+  return { tables, combinations };
+}
+
+// Helper to load a day's table-holding reservations for the availability engine
+async function getDayReservations(
+  businessId: string,
+  date: string,
+  defaultDuration: number
+): Promise<BookedReservation[]> {
+  const { data: rows } = await supabase
+    .from('reservations')
+    .select('id, reservation_time, duration_minutes, party_size, table_id, table_combination_id, status')
+    .eq('business_id', businessId)
+    .eq('reservation_date', date)
+    .in('status', TABLE_HOLDING_STATUSES);
+
+  // Combinations held by reservations may since have been deactivated, so look them up directly
+  const combinationIds = [...new Set((rows || []).map((r) => r.table_combination_id).filter(Boolean))];
+  const combinationTables = new Map<string, string[]>();
+  if (combinationIds.length > 0) {
+    const { data: combinations } = await supabase
+      .from('table_combinations')
+      .select('id, table_ids')
+      .in('id', combinationIds);
+    for (const tc of combinations || []) {
+      combinationTables.set(tc.id, tc.table_ids || []);
+    }
+  }
+
+  return (rows || []).map((r) => ({
+    id: r.id,
+    startMinutes: parseTimeToMinutes(r.reservation_time),
+    durationMinutes: r.duration_minutes ?? defaultDuration,
+    partySize: r.party_size,
+    tableIds: r.table_combination_id
+      ? combinationTables.get(r.table_combination_id) ?? []
+      : r.table_id ? [r.table_id] : [],
+    status: r.status,
+  }));
+}
+
+// Helper to get the business's date today as "YYYY-MM-DD"
+function getToday(timeZone: string): string {
+  return getBusinessDate(new Date(), timeZone);
+}
+
+// Helper to get the business's current time in minutes when `date` is today
+// Parties seated earlier today keep their table until they leave
+function getNowMinutes(date: string, timeZone: string): number | undefined {
+  return date === getToday(timeZone) ? getBusinessMinutes(new Date(), timeZone) : undefined;
+}
+
+// Helper to work out which tables are taken during a reservation and its best free fit
+// `reservations` must not include the reservation being seated
+async function getSeatingForReservation(params: {
+  businessId: string;
+  date: string;
+  time: string;
+  durationMinutes: number;
+  partySize: number;
+  reservations: BookedReservation[];
+  preferences?: SeatingPreferences;
+}) {
+  const { tables, combinations } = await getSeatingInventory(params.businessId);
+  const options = getSeatingOptions(tables, combinations);
+  const startMinutes = parseTimeToMinutes(params.time);
+  const window: [number, number] = [startMinutes, startMinutes + params.durationMinutes];
+  const nowMinutes = getNowMinutes(params.date, await getBusinessTimezone(params.businessId));
+
+  // Tables assigned to overlapping reservations; these are hard conflicts
+  const held = getOccupiedTableIds(
+    [],
+    params.reservations.filter((r) => r.tableIds.length > 0),
+    window,
+    nowMinutes
+  );
+  // Auto-assignment also leaves room for overlapping reservations without a table
+  const occupied = getOccupiedTableIds(options, params.reservations, window, nowMinutes);
+
+  return {
+    options,
+    held,
+    bestFit: findBestFit(options, occupied, params.partySize, params.preferences),
   };
 }
 
@@ -61,7 +217,7 @@ function formatSettingsResponse(settings: Record<string, unknown>) {
 // ============================================
 
 // List tables
-reservationsRouter.get('/:businessId/tables', async (c) => {
+reservationsRouter.get('/:businessId/tables', requirePermission('reservations:read'), async (c) => {
   const businessId = c.req.param('businessId');
 
   try {
@@ -88,6 +244,7 @@ reservationsRouter.get('/:businessId/tables', async (c) => {
 // Create table
 reservationsRouter.post(
   '/:businessId/tables',
+  requirePermission('reservations:write'),
   zValidator('json', CreateTableSchema),
   async (c) => {
     const businessId = c.req.param('businessId');
@@ -149,6 +306,7 @@ reservationsRouter.post(
 // Update table
 reservationsRouter.put(
   '/:businessId/tables/:tableId',
+  requirePermission('reservations:write'),
   zValidator('json', UpdateTableSchema),
   async (c) => {
     const businessId = c.req.param('businessId');
@@ -215,7 +373,7 @@ reservationsRouter.put(
 );
 
 // Delete table
-reservationsRouter.delete('/:businessId/tables/:tableId', async (c) => {
+reservationsRouter.delete('/:businessId/tables/:tableId', requirePermission('reservations:write'), async (c) => {
   const businessId = c.req.param('businessId');
   const tableId = c.req.param('tableId');
 
@@ -237,7 +395,7 @@ reservationsRouter.delete('/:businessId/tables/:tableId', async (c) => {
       .from('reservations')
       .select('*', { count: 'exact', head: true })
       .eq('table_id', tableId)
-      .in('status', ['pending', 'confirmed', 'seated']);
+      .in('status', TABLE_HOLDING_STATUSES);
 
     if (activeReservations && activeReservations > 0) {
       return c.json({
@@ -265,12 +423,211 @@ reservationsRouter.delete('/:businessId/tables/:tableId', async (c) => {
   }
 });
 
+// ============================================
+// Table Combinations (must be before /:businessId/:id)
+// ============================================
+
+// Helper to load a business's tables by id, to validate combination members
+async function getBusinessTables(businessId: string, tableIds: string[]) {
+  const { data: tables } = await supabase
+    .from('restaurant_tables')
+    .select('id, capacity_max')
+    .eq('business_id', businessId)
+    .in('id', tableIds);
+  return tables || [];
+}
+
+// List table combinations
+reservationsRouter.get('/:businessId/table-combinations', requirePermission('reservations:read'), async (c) => {
+  const businessId = c.req.param('businessId');
+
+  try {
+    const { data: combinations, error } = await supabase
+      .from('table_combinations')
+      .select('*')
+      .eq('business_id', businessId)
+      .order('name', { ascending: true });
+
+    if (error) {
+      console.error('Error listing table combinations:', error);
+      return c.json({ error: { message: 'Failed to list table combinations', code: 'LIST_FAILED' } }, 500);
+    }
+
+    return c.json({
+      data: (combinations || []).map((tc) => formatCombinationResponse(tc)),
+    });
+  } catch (error) {
+    console.error('Error listing table combinations:', error);
+    return c.json({ error: { message: 'Failed to list table combinations', code: 'LIST_FAILED' } }, 500);
+  }
+});
+
+// Create table combination
+reservationsRouter.post(
+  '/:businessId/table-combinations',
+  requirePermission('reservations:write'),
+  zValidator('json', CreateTableCombinationSchema),
+  async (c) => {
+    const businessId = c.req.param('businessId');
+    const data = c.req.valid('json');
+
+    try {
+      const tableIds = [...new Set(data.tableIds)];
+      const tables = await getBusinessTables(businessId, tableIds);
+
+      if (tableIds.length < 2 || tables.length !== tableIds.length) {
+        return c.json({ error: { message: 'A combination needs at least two of this business\'s tables', code: 'INVALID_TABLES' } }, 400);
+      }
+
+      const { data: combination, error } = await supabase
+        .from('table_combinations')
+        .insert({
+          business_id: businessId,
+          name: data.name,
+          table_ids: tableIds,
+          capacity_min: data.capacityMin ?? 1,
+          capacity_max: data.capacityMax ?? tables.reduce((sum, t) => sum + t.capacity_max, 0),
+        })
+        .select()
+        .single();
+
+      if (error) {
+        console.error('Error creating table combination:', error);
+        return c.json({ error: { message: 'Failed to create table combination', code: 'CREATE_FAILED' } }, 500);
+      }
+
+      return c.json({
+        data: formatCombinationResponse(combination),
+      }, 201);
+    } catch (error) {
+      console.error('Error creating table combination:', error);
+      return c.json({ error: { message: 'Failed to create table combination', code: 'CREATE_FAILED' } }, 500);
+    }
+  }
+);
+
+// Update table combination
+reservationsRouter.put(
+  '/:businessId/table-combinations/:combinationId',
+  requirePermission('reservations:write'),
+  zValidator('json', UpdateTableCombinationSchema),
+  async (c) => {
+    const businessId = c.req.param('businessId');
+    const combinationId = c.req.param('combinationId');
+    const data = c.req.valid('json');
+
+    try {
+      // Verify combination exists and belongs to business
+      const { data: existing, error: existingError } = await supabase
+        .from('table_combinations')
+        .select('id')
+        .eq('id', combinationId)
+        .eq('business_id', businessId)
+        .single();
+
+      if (existingError || !existing) {
+        return c.json({ error: { message: 'Table combination not found', code: 'NOT_FOUND' } }, 404);
+      }
+
+      const updateData: Record<string, unknown> = { updated_at: new Date().toISOString() };
+      if (data.name !== undefined) updateData.name = data.name;
+      if (data.capacityMin !== undefined) updateData.capacity_min = data.capacityMin;
+      if (data.capacityMax !== undefined) updateData.capacity_max = data.capacityMax;
+      if (data.isActive !== undefined) updateData.is_active = data.isActive;
+
+      if (data.tableIds !== undefined) {
+        const tableIds = [...new Set(data.tableIds)];
+        const tables = await getBusinessTables(businessId, tableIds);
+
+        if (tableIds.length < 2 || tables.length !== tableIds.length) {
+          return c.json({ error: { message: 'A combination needs at least two of this business\'s tables', code: 'INVALID_TABLES' } }, 400);
+        }
+
+        updateData.table_ids = tableIds;
+        if (data.capacityMax === undefined) {
+          updateData.capacity_max = tables.reduce((sum, t) => sum + t.capacity_max, 0);
+        }
+      }
+
+      const { data: combination, error } = await supabase
+        .from('table_combinations')
+        .update(updateData)
+        .eq('id', combinationId)
+        .select()
+        .single();
+
+      if (error) {
+        console.error('Error updating table combination:', error);
+        return c.json({ error: { message: 'Failed to update table combination', code: 'UPDATE_FAILED' } }, 500);
+      }
+
+      return c.json({
+        data: formatCombinationResponse(combination),
+      });
+    } catch (error) {
+      console.error('Error updating table combination:', error);
+      return c.json({ error: { message: 'Failed to update table combination', code: 'UPDATE_FAILED' } }, 500);
+    }
+  }
+);
+
+// Delete table combination
+reservationsRouter.delete('/:businessId/table-combinations/:combinationId', requirePermission('reservations:write'), async (c) => {
+  const businessId = c.req.param('businessId');
+  const combinationId = c.req.param('combinationId');
+
+  try {
+    // Verify combination exists and belongs to business
+    const { data: existing, error: existingError } = await supabase
+      .from('table_combinations')
+      .select('id')
+      .eq('id', combinationId)
+      .eq('business_id', businessId)
+      .single();
+
+    if (existingError || !existing) {
+      return c.json({ error: { message: 'Table combination not found', code: 'NOT_FOUND' } }, 404);
+    }
+
+    // Check if combination has any active reservations
+    const { count: activeReservations } = await supabase
+      .from('reservations')
+      .select('*', { count: 'exact', head: true })
+      .eq('table_combination_id', combinationId)
+      .in('status', TABLE_HOLDING_STATUSES);
+
+    if (activeReservations && activeReservations > 0) {
+      return c.json({
+        error: {
+          message: 'Cannot delete table combination with active reservations',
+          code: 'HAS_RESERVATIONS',
+        },
+      }, 400);
+    }
+
+    const { error } = await supabase
+      .from('table_combinations')
+      .delete()
+      .eq('id', combinationId);
+
+    if (error) {
+      console.error('Error deleting table combination:', error);
+      return c.json({ error: { message: 'Failed to delete table combination', code: 'DELETE_FAILED' } }, 500);
+    }
+
+    return c.body(null, 204);
+  } catch (error) {
+    console.error('Error deleting table combination:', error);
+    return c.json({ error: { message: 'Failed to delete table combination', code: 'DELETE_FAILED' } }, 500);
+  }
+});
+
 // ============================================
 // Reservation Settings (must be before /:businessId/:id)
 // ============================================
 
 // Get settings
-reservationsRouter.get('/:businessId/settings', async (c) => {
+reservationsRouter.get('/:businessId/settings', requirePermission('reservations:read'), async (c) => {
   const businessId = c.req.param('businessId');
 
   try {
@@ -303,6 +660,7 @@ reservationsRouter.get('/:businessId/settings', async (c) => {
           requireDeposit: false,
           depositAmount: null,
           depositPolicy: null,
+          depositMode: 'deposit',
           createdAt: null,
           updatedAt: null,
         },
@@ -321,6 +679,7 @@ reservationsRouter.get('/:businessId/settings', async (c) => {
 // Update settings (upsert)
 reservationsRouter.put(
   '/:businessId/settings',
+  requirePermission('reservations:write'),
   zValidator('json', ReservationSettingsSchema),
   async (c) => {
     const businessId = c.req.param('businessId');
@@ -364,6 +723,7 @@ reservationsRouter.put(
         require_deposit: data.requireDeposit ?? false,
         deposit_amount: data.depositAmount,
         deposit_policy: data.depositPolicy,
+        deposit_mode: data.depositMode ?? 'deposit',
       };
 
       let settings;
@@ -410,11 +770,13 @@ reservationsRouter.put(
 // Availability (must be before /:businessId/:id)
 // ============================================
 
-// Check available time slots
+// Check available time slots for a party size, based on table inventory
+// ?section= limits the search to one section (e.g. "patio")
 reservationsRouter.get('/:businessId/availability', async (c) => {
   const businessId = c.req.param('businessId');
   const date = c.req.query('date'); // "YYYY-MM-DD"
   const partySizeStr = c.req.query('partySize');
+  const section = c.req.query('section'); // optional, e.g. "patio"
 
   if (!date) {
     return c.json({ error: { message: 'Date is required', code: 'MISSING_DATE' } }, 400);
@@ -446,8 +808,7 @@ reservationsRouter.get('/:businessId/availability', async (c) => {
     }
 
     // Get business hours for the day of week
-    const requestedDate = new Date(date);
-    const dayOfWeek = requestedDate.getDay();
+    const dayOfWeek = getDayOfWeek(date);
 
     const { data: hours } = await supabase
       .from('business_hours')
@@ -460,57 +821,62 @@ reservationsRouter.get('/:businessId/availability', async (c) => {
       return c.json({ data: [] }); // Closed, no slots
     }
 
-    // Get existing reservations for this date
-    const startDate = date;
-    const endDateObj = new Date(date);
-    endDateObj.setDate(endDateObj.getDate() + 1);
-    const endDate = endDateObj.toISOString().split('T')[0];
+    const defaultDuration = settings?.default_dining_duration ?? 90;
 
-    const { data: existingReservations } = await supabase
-      .from('reservations')
-      .select('reservation_time')
-      .eq('business_id', businessId)
-      .gte('reservation_date', startDate)
-      .lt('reservation_date', endDate)
-      .in('status', ['pending', 'confirmed', 'seated']);
+    // Get table inventory (optionally limited to one section) and the day's reservations
+    const [{ tables, combinations }, reservations] = await Promise.all([
+      getSeatingInventory(businessId, section),
+      getDayReservations(businessId, date, defaultDuration),
+    ]);
+    const nowMinutes = getNowMinutes(date, await getBusinessTimezone(businessId));
 
-    // Count reservations per time slot
+    // Count reservations per start time for the per-slot cap
     const reservationCounts: Record<string, number> = {};
-    for (const res of existingReservations || []) {
-      const time = res.reservation_time;
+    for (const res of reservations) {
+      const time = formatMinutes(res.startMinutes);
       reservationCounts[time] = (reservationCounts[time] || 0) + 1;
     }
 
     // Generate time slots
-    const slots: Array<{ time: string; available: boolean; remainingCapacity?: number }> = [];
+    const slots: Array<{ time: string; available: boolean; remainingCapacity?: number; sections: string[] }> = [];
 
-    const openTimeParts = hours.open_time.split(':').map(Number);
-    const closeTimeParts = hours.close_time.split(':').map(Number);
-    const openHour = openTimeParts[0] ?? 0;
-    const openMin = openTimeParts[1] ?? 0;
-    const closeHour = closeTimeParts[0] ?? 0;
-    const closeMin = closeTimeParts[1] ?? 0;
-
-    let currentMinutes = openHour * 60 + openMin;
-    const endMinutes = closeHour * 60 + closeMin;
+    let currentMinutes = parseTimeToMinutes(hours.open_time);
+    const endMinutes = parseTimeToMinutes(hours.close_time);
 
     // Reserve some buffer time before closing (don't allow new reservations too close to close)
-    const defaultDuration = settings?.default_dining_duration ?? 90;
     const lastBookingMinutes = endMinutes - defaultDuration;
 
     while (currentMinutes <= lastBookingMinutes) {
-      const hour = Math.floor(currentMinutes / 60);
-      const min = currentMinutes % 60;
-      const timeStr = `${hour.toString().padStart(2, '0')}:${min.toString().padStart(2, '0')}`;
+      const timeStr = formatMinutes(currentMinutes);
 
       const count = reservationCounts[timeStr] || 0;
-      const available = maxPerSlot ? count < maxPerSlot : true;
-      const remainingCapacity = maxPerSlot ? maxPerSlot - count : undefined;
+      const underCap = maxPerSlot ? count < maxPerSlot : true;
+      const remainingCapacity = maxPerSlot ? Math.max(0, maxPerSlot - count) : undefined;
+
+      // Without any tables configured, fall back to the per-slot cap alone
+      let available = underCap;
+      let sections: string[] = [];
+      if (tables.length > 0) {
+        const slot = getSlotAvailability({
+          tables,
+          combinations,
+          reservations,
+          startMinutes: currentMinutes,
+          durationMinutes: defaultDuration,
+          partySize,
+          nowMinutes,
+        });
+        available = underCap && slot.available;
+        sections = available ? slot.sections : [];
+      } else if (section) {
+        available = false;
+      }
 
       slots.push({
         time: timeStr,
         available,
         ...(remainingCapacity !== undefined && { remainingCapacity }),
+        sections,
       });
 
       currentMinutes += slotDuration;
@@ -524,110 +890,922 @@ reservationsRouter.get('/:businessId/availability', async (c) => {
 });
 
 // ============================================
-// Reservations CRUD
+// Waitlist (must be before /:businessId/:id)
 // ============================================
 
-// Create reservation
-reservationsRouter.post(
-  '/:businessId',
-  zValidator('json', CreateReservationSchema),
-  async (c) => {
-    const businessId = c.req.param('businessId');
-    const data = c.req.valid('json');
+// Waitlist statuses still in the queue
+const ACTIVE_WAITLIST_STATUSES = ['waiting', 'notified', 'offered'];
 
-    try {
-      // Verify business exists
-      const { data: business, error: businessError } = await supabase
-        .from('business_accounts')
-        .select('id')
-        .eq('id', businessId)
-        .single();
+// How long a guest has to accept a slot offered from the waitlist
+const WAITLIST_OFFER_MINUTES = 15;
 
-      if (businessError || !business) {
-        return c.json({ error: { message: 'Business not found', code: 'NOT_FOUND' } }, 404);
-      }
+// Helper to format waitlist entry response
+function formatWaitlistResponse(entry: Record<string, unknown>, estimatedWaitMinutes?: number | null) {
+  const camelEntry = toCamelCase(entry);
+  return {
+    ...camelEntry,
+    requestedDate: camelEntry.requestedDate
+      ? new Date(camelEntry.requestedDate as string).toISOString().split('T')[0]
+      : null,
+    notifiedAt: camelEntry.notifiedAt ? new Date(camelEntry.notifiedAt as string).toISOString() : null,
+    offeredAt: camelEntry.offeredAt ? new Date(camelEntry.offeredAt as string).toISOString() : null,
+    offerExpiresAt: camelEntry.offerExpiresAt ? new Date(camelEntry.offerExpiresAt as string).toISOString() : null,
+    seatedAt: camelEntry.seatedAt ? new Date(camelEntry.seatedAt as string).toISOString() : null,
+    cancelledAt: camelEntry.cancelledAt ? new Date(camelEntry.cancelledAt as string).toISOString() : null,
+    createdAt: camelEntry.createdAt ? new Date(camelEntry.createdAt as string).toISOString() : null,
+    updatedAt: camelEntry.updatedAt ? new Date(camelEntry.updatedAt as string).toISOString() : null,
+    ...(estimatedWaitMinutes !== undefined && { estimatedWaitMinutes }),
+  };
+}
 
-      // Get reservation settings for default duration
-      const { data: settings } = await supabase
-        .from('reservation_settings')
-        .select('*')
-        .eq('business_id', businessId)
-        .single();
+// Helper to load a waitlist entry that belongs to the business
+async function getWaitlistEntry(businessId: string, entryId: string) {
+  const { data: entry } = await supabase
+    .from('waitlist_entries')
+    .select('*')
+    .eq('id', entryId)
+    .eq('business_id', businessId)
+    .single();
+  return entry;
+}
 
-      const durationMinutes = settings?.default_dining_duration ?? 90;
+// Helper to load the active queue for a day, in position order
+async function getActiveWaitlist(businessId: string, date: string) {
+  const { data: entries } = await supabase
+    .from('waitlist_entries')
+    .select('*')
+    .eq('business_id', businessId)
+    .eq('requested_date', date)
+    .in('status', ACTIVE_WAITLIST_STATUSES)
+    .order('position', { ascending: true });
+  return entries || [];
+}
 
-      // Determine initial status based on settings
-      const initialStatus = settings?.auto_confirm ? 'confirmed' : 'pending';
+// Helper to estimate today's walk-in waits from seated and upcoming reservations
+// `queue` is the walk-in parties still waiting, in position order
+async function estimateWalkInWaits(businessId: string, queue: WaitlistParty[]) {
+  const { data: settings } = await supabase
+    .from('reservation_settings')
+    .select('default_dining_duration')
+    .eq('business_id', businessId)
+    .single();
+
+  const turnMinutes = settings?.default_dining_duration ?? 90;
+  const timeZone = await getBusinessTimezone(businessId);
+  const today = getToday(timeZone);
+
+  const [{ tables, combinations }, reservations] = await Promise.all([
+    getSeatingInventory(businessId),
+    getDayReservations(businessId, today, turnMinutes),
+  ]);
+
+  return estimateWaits({
+    options: getSeatingOptions(tables, combinations),
+    reservations,
+    queue,
+    nowMinutes: getNowMinutes(today, timeZone) ?? 0,
+    turnMinutes,
+  });
+}
 
-      const { data: reservation, error } = await supabase
-        .from('reservations')
-        .insert({
-          business_id: businessId,
-          customer_name: data.customerName,
-          customer_email: data.customerEmail,
-          customer_phone: data.customerPhone,
-          reservation_date: data.reservationDate,
-          reservation_time: data.reservationTime,
-          party_size: data.partySize,
-          duration_minutes: durationMinutes,
-          seating_preference: data.seatingPreference,
-          special_requests: data.specialRequests,
-          occasion: data.occasion,
-          source: data.source ?? 'app',
-          status: initialStatus,
-          confirmed_at: initialStatus === 'confirmed' ? new Date().toISOString() : null,
+// Walk-in parties still waiting to be seated, in queue order
+function walkInQueue(entries: Record<string, any>[]): WaitlistParty[] {
+  return entries
+    .filter((e) => e.source === 'walk_in' && (e.status === 'waiting' || e.status === 'notified'))
+    .map((e) => ({ id: e.id, partySize: e.party_size }));
+}
+
+// Helper to send a push notification to a waitlisted guest with the app
+async function notifyWaitlistGuest(entry: Record<string, any>, body: string) {
+  if (!entry.customer_user_id) return;
+
+  const { data: profile } = await supabase
+    .from('user_profiles')
+    .select('push_token')
+    .eq('user_id', entry.customer_user_id)
+    .single();
+
+  if (profile?.push_token) {
+    await sendExpoPush([profile.push_token], 'KitchenSync', body, {
+      type: 'waitlist',
+      waitlistEntryId: entry.id,
+      businessId: entry.business_id,
+    });
+  }
+}
+
+// Helper to create the reservation for a waitlist entry that is being seated or booked
+async function createReservationFromWaitlist(
+  entry: Record<string, any>,
+  params: {
+    date: string;
+    time: string;
+    durationMinutes: number;
+    status: 'seated' | 'confirmed' | 'pending_payment';
+    tableId: string | null;
+    tableCombinationId: string | null;
+    paymentExpiresAt?: string | null;
+  }
+) {
+  const now = new Date().toISOString();
+  return supabase
+    .from('reservations')
+    .insert({
+      business_id: entry.business_id,
+      customer_user_id: entry.customer_user_id,
+      customer_name: entry.customer_name,
+      customer_email: entry.customer_email ?? '',
+      customer_phone: entry.customer_phone,
+      reservation_date: params.date,
+      reservation_time: params.time,
+      party_size: entry.party_size,
+      duration_minutes: params.durationMinutes,
+      table_id: params.tableId,
+      table_combination_id: params.tableCombinationId,
+      seating_preference: entry.seating_preference,
+      special_requests: entry.notes,
+      source: entry.source === 'walk_in' ? 'walk_in' : 'website',
+      status: params.status,
+      confirmed_at: params.status === 'pending_payment' ? null : now,
+      seated_at: params.status === 'seated' ? now : null,
+      payment_expires_at: params.paymentExpiresAt ?? null,
+    })
+    .select()
+    .single();
+}
+
+// Helper to offer a cancelled reservation's slot to the waitlist
+// The first online request near that time that now fits gets a time-limited offer
+async function offerWaitlistPromotion(businessId: string, reservation: Record<string, any>) {
+  try {
+    const { data: settings } = await supabase
+      .from('reservation_settings')
+      .select('allow_waitlist, default_dining_duration')
+      .eq('business_id', businessId)
+      .single();
+
+    if (settings && settings.allow_waitlist === false) return;
+
+    const duration = settings?.default_dining_duration ?? 90;
+    const date = reservation.reservation_date;
+    const freedMinutes = parseTimeToMinutes(reservation.reservation_time);
+    const now = new Date();
+
+    // Online requests whose slot overlaps the freed table time; lapsed offers go back in line
+    const candidates = (await getActiveWaitlist(businessId, date)).filter((e) =>
+      e.source === 'online' &&
+      e.requested_time &&
+      (e.status === 'waiting' || (e.status === 'offered' && new Date(e.offer_expires_at) < now)) &&
+      Math.abs(parseTimeToMinutes(e.requested_time) - freedMinutes) < duration
+    );
+
+    if (candidates.length === 0) return;
+
+    const [{ tables, combinations }, reservations] = await Promise.all([
+      getSeatingInventory(businessId),
+      getDayReservations(businessId, date, duration),
+    ]);
+    const timeZone = await getBusinessTimezone(businessId);
+
+    for (const entry of candidates) {
+      const slot = getSlotAvailability({
+        tables,
+        combinations,
+        reservations,
+        startMinutes: parseTimeToMinutes(entry.requested_time),
+        durationMinutes: duration,
+        partySize: entry.party_size,
+        nowMinutes: getNowMinutes(date, timeZone),
+      });
+
+      // Without a table inventory there is nothing to check, so offer the slot
+      if (tables.length > 0 && !slot.available) continue;
+
+      const { data: offered } = await supabase
+        .from('waitlist_entries')
+        .update({
+          status: 'offered',
+          offered_at: now.toISOString(),
+          offer_expires_at: new Date(now.getTime() + WAITLIST_OFFER_MINUTES * 60 * 1000).toISOString(),
+          updated_at: now.toISOString(),
         })
+        .eq('id', entry.id)
         .select()
         .single();
 
-      if (error) {
-        console.error('Error creating reservation:', error);
-        return c.json({ error: { message: 'Failed to create reservation', code: 'CREATE_FAILED' } }, 500);
-      }
-
-      // Fetch table if assigned
-      let table = null;
-      if (reservation.table_id) {
-        const { data: tableData } = await supabase
-          .from('restaurant_tables')
-          .select('id, table_number, section')
-          .eq('id', reservation.table_id)
-          .single();
-        table = tableData;
+      if (offered) {
+        publishEvent(businessId, 'waitlist.offered', formatWaitlistResponse(offered));
+        await notifyWaitlistGuest(offered, `A table opened up at ${formatMinutes(parseTimeToMinutes(entry.requested_time))}. Accept within ${WAITLIST_OFFER_MINUTES} minutes to book it.`);
       }
-
-      return c.json({
-        data: formatReservationResponse(reservation, table),
-      }, 201);
-    } catch (error) {
-      console.error('Error creating reservation:', error);
-      return c.json({ error: { message: 'Failed to create reservation', code: 'CREATE_FAILED' } }, 500);
+      return;
     }
+  } catch (error) {
+    console.error('Error offering waitlist promotion:', error);
   }
-);
+}
 
-// List reservations with optional date filter
-reservationsRouter.get('/:businessId', async (c) => {
+// List the waitlist for a day (default today); ?status=all includes seated and cancelled entries
+reservationsRouter.get('/:businessId/waitlist', requirePermission('reservations:read'), async (c) => {
   const businessId = c.req.param('businessId');
-  const date = c.req.query('date'); // "YYYY-MM-DD"
+  const today = getToday(await getBusinessTimezone(businessId));
+  const date = c.req.query('date') || today;
   const status = c.req.query('status');
 
   try {
     let query = supabase
-      .from('reservations')
+      .from('waitlist_entries')
       .select('*')
       .eq('business_id', businessId)
-      .order('reservation_date', { ascending: true })
-      .order('reservation_time', { ascending: true });
+      .eq('requested_date', date)
+      .order('position', { ascending: true });
 
-    if (date) {
-      const endDateObj = new Date(date);
-      endDateObj.setDate(endDateObj.getDate() + 1);
-      const endDate = endDateObj.toISOString().split('T')[0];
-      query = query.gte('reservation_date', date).lt('reservation_date', endDate);
+    if (status && status !== 'all') {
+      query = query.eq('status', status);
+    } else if (!status) {
+      query = query.in('status', ACTIVE_WAITLIST_STATUSES);
     }
 
-    if (status) {
+    const { data: entries, error } = await query;
+
+    if (error) {
+      console.error('Error listing waitlist:', error);
+      return c.json({ error: { message: 'Failed to list waitlist', code: 'LIST_FAILED' } }, 500);
+    }
+
+    // Live estimates only make sense for today's walk-in queue
+    const waits = date === today
+      ? await estimateWalkInWaits(businessId, walkInQueue(await getActiveWaitlist(businessId, date)))
+      : new Map<string, number | null>();
+
+    return c.json({
+      data: (entries || []).map((e) =>
+        formatWaitlistResponse(e, waits.has(e.id) ? waits.get(e.id) : undefined)
+      ),
+    });
+  } catch (error) {
+    console.error('Error listing waitlist:', error);
+    return c.json({ error: { message: 'Failed to list waitlist', code: 'LIST_FAILED' } }, 500);
+  }
+});
+
+// Quote the current walk-in wait for a party size without joining the waitlist
+reservationsRouter.get('/:businessId/waitlist/quote', requirePermission('reservations:read'), async (c) => {
+  const businessId = c.req.param('businessId');
+  const partySize = parseInt(c.req.query('partySize') || '2', 10);
+
+  if (!Number.isInteger(partySize) || partySize < 1) {
+    return c.json({ error: { message: 'Invalid party size', code: 'INVALID_PARTY_SIZE' } }, 400);
+  }
+
+  try {
+    const today = getToday(await getBusinessTimezone(businessId));
+    const queue = walkInQueue(await getActiveWaitlist(businessId, today));
+    const waits = await estimateWalkInWaits(businessId, [...queue, { id: 'quote', partySize }]);
+
+    return c.json({
+      data: {
+        partySize,
+        partiesAhead: queue.length,
+        estimatedWaitMinutes: waits.get('quote') ?? null,
+      },
+    });
+  } catch (error) {
+    console.error('Error quoting waitlist:', error);
+    return c.json({ error: { message: 'Failed to quote wait', code: 'QUOTE_FAILED' } }, 500);
+  }
+});
+
+// Add a party to the waitlist
+reservationsRouter.post(
+  '/:businessId/waitlist',
+  requirePermission('reservations:write'),
+  zValidator('json', CreateWaitlistEntrySchema),
+  async (c) => {
+    const businessId = c.req.param('businessId');
+    const data = c.req.valid('json');
+
+    try {
+      const { data: settings } = await supabase
+        .from('reservation_settings')
+        .select('*')
+        .eq('business_id', businessId)
+        .single();
+
+      if (settings && settings.allow_waitlist === false) {
+        return c.json({ error: { message: 'Waitlist is not enabled for this business', code: 'WAITLIST_DISABLED' } }, 400);
+      }
+
+      const minParty = settings?.min_party_size ?? 1;
+      const maxParty = settings?.max_party_size ?? 20;
+      if (data.partySize < minParty || data.partySize > maxParty) {
+        return c.json({
+          error: {
+            message: `Party size must be between ${minParty} and ${maxParty}`,
+            code: 'INVALID_PARTY_SIZE',
+          },
+        }, 400);
+      }
+
+      const source = data.source ?? 'walk_in';
+      const today = getToday(await getBusinessTimezone(businessId));
+      const requestedDate = data.requestedDate ?? today;
+      const queue = await getActiveWaitlist(businessId, requestedDate);
+      const position = queue.reduce((max, e) => Math.max(max, e.position), 0) + 1;
+
+      // Quote walk-ins joining today's queue
+      let quotedWaitMinutes: number | null = null;
+      if (source === 'walk_in' && requestedDate === today) {
+        const waits = await estimateWalkInWaits(businessId, [
+          ...walkInQueue(queue),
+          { id: 'new', partySize: data.partySize },
+        ]);
+        quotedWaitMinutes = waits.get('new') ?? null;
+      }
+
+      const { data: entry, error } = await supabase
+        .from('waitlist_entries')
+        .insert({
+          business_id: businessId,
+          customer_user_id: data.customerUserId,
+          customer_name: data.customerName,
+          customer_phone: data.customerPhone,
+          customer_email: data.customerEmail,
+          party_size: data.partySize,
+          source,
+          requested_date: requestedDate,
+          requested_time: data.requestedTime,
+          seating_preference: data.seatingPreference,
+          notes: data.notes,
+          position,
+          status: 'waiting',
+          quoted_wait_minutes: quotedWaitMinutes,
+        })
+        .select()
+        .single();
+
+      if (error) {
+        console.error('Error adding to waitlist:', error);
+        return c.json({ error: { message: 'Failed to add to waitlist', code: 'CREATE_FAILED' } }, 500);
+      }
+
+      const payload = formatWaitlistResponse(entry);
+      publishEvent(businessId, 'waitlist.updated', payload);
+
+      return c.json({ data: payload }, 201);
+    } catch (error) {
+      console.error('Error adding to waitlist:', error);
+      return c.json({ error: { message: 'Failed to add to waitlist', code: 'CREATE_FAILED' } }, 500);
+    }
+  }
+);
+
+// Move an entry to a new position in the queue
+reservationsRouter.put(
+  '/:businessId/waitlist/:entryId/position',
+  requirePermission('reservations:write'),
+  zValidator('json', ReorderWaitlistEntrySchema),
+  async (c) => {
+    const businessId = c.req.param('businessId');
+    const entryId = c.req.param('entryId');
+    const data = c.req.valid('json');
+
+    try {
+      const entry = await getWaitlistEntry(businessId, entryId);
+      if (!entry) {
+        return c.json({ error: { message: 'Waitlist entry not found', code: 'NOT_FOUND' } }, 404);
+      }
+
+      if (!ACTIVE_WAITLIST_STATUSES.includes(entry.status)) {
+        return c.json({ error: { message: `Cannot reorder a ${entry.status} entry`, code: 'INVALID_STATUS' } }, 400);
+      }
+
+      const queue = await getActiveWaitlist(businessId, entry.requested_date);
+      const order = moveEntry(queue.map((e) => e.id), entryId, data.position - 1);
+
+      // Renumber only the entries whose position changed
+      const updates = order
+        .map((id, index) => ({ id, position: index + 1 }))
+        .filter(({ id, position }) => queue.find((e) => e.id === id)?.position !== position);
+
+      const results = await Promise.all(updates.map(({ id, position }) =>
+        supabase
+          .from('waitlist_entries')
+          .update({ position, updated_at: new Date().toISOString() })
+          .eq('id', id)
+      ));
+
+      const failed = results.find((r) => r.error);
+      if (failed) {
+        console.error('Error reordering waitlist:', failed.error);
+        return c.json({ error: { message: 'Failed to reorder waitlist', code: 'UPDATE_FAILED' } }, 500);
+      }
+
+      const entries = await getActiveWaitlist(businessId, entry.requested_date);
+      const moved = entries.find((e) => e.id === entryId);
+      if (moved) {
+        publishEvent(businessId, 'waitlist.updated', formatWaitlistResponse(moved));
+      }
+
+      return c.json({ data: entries.map((e) => formatWaitlistResponse(e)) });
+    } catch (error) {
+      console.error('Error reordering waitlist:', error);
+      return c.json({ error: { message: 'Failed to reorder waitlist', code: 'UPDATE_FAILED' } }, 500);
+    }
+  }
+);
+
+// Let a waiting guest know their table is ready
+reservationsRouter.post('/:businessId/waitlist/:entryId/notify', requirePermission('reservations:write'), async (c) => {
+  const businessId = c.req.param('businessId');
+  const entryId = c.req.param('entryId');
+
+  try {
+    const entry = await getWaitlistEntry(businessId, entryId);
+    if (!entry) {
+      return c.json({ error: { message: 'Waitlist entry not found', code: 'NOT_FOUND' } }, 404);
+    }
+
+    if (entry.status !== 'waiting' && entry.status !== 'notified') {
+      return c.json({ error: { message: `Cannot notify a ${entry.status} entry`, code: 'INVALID_STATUS' } }, 400);
+    }
+
+    const now = new Date().toISOString();
+    const { data: updated, error } = await supabase
+      .from('waitlist_entries')
+      .update({ status: 'notified', notified_at: now, updated_at: now })
+      .eq('id', entryId)
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error notifying waitlist guest:', error);
+      return c.json({ error: { message: 'Failed to notify guest', code: 'UPDATE_FAILED' } }, 500);
+    }
+
+    await notifyWaitlistGuest(updated, 'Your table is ready! Please head to the host stand.');
+
+    const payload = formatWaitlistResponse(updated);
+    publishEvent(businessId, 'waitlist.updated', payload);
+
+    return c.json({ data: payload });
+  } catch (error) {
+    console.error('Error notifying waitlist guest:', error);
+    return c.json({ error: { message: 'Failed to notify guest', code: 'UPDATE_FAILED' } }, 500);
+  }
+});
+
+// Seat a waiting party now, at the given table or the best free fit
+reservationsRouter.post(
+  '/:businessId/waitlist/:entryId/seat',
+  requirePermission('reservations:write'),
+  zValidator('json', AssignTableSchema),
+  async (c) => {
+    const businessId = c.req.param('businessId');
+    const entryId = c.req.param('entryId');
+    const data = c.req.valid('json');
+
+    try {
+      const entry = await getWaitlistEntry(businessId, entryId);
+      if (!entry) {
+        return c.json({ error: { message: 'Waitlist entry not found', code: 'NOT_FOUND' } }, 404);
+      }
+
+      if (!ACTIVE_WAITLIST_STATUSES.includes(entry.status)) {
+        return c.json({ error: { message: `Cannot seat a ${entry.status} entry`, code: 'INVALID_STATUS' } }, 400);
+      }
+
+      const { data: settings } = await supabase
+        .from('reservation_settings')
+        .select('default_dining_duration')
+        .eq('business_id', businessId)
+        .single();
+
+      const durationMinutes = settings?.default_dining_duration ?? 90;
+      const timeZone = await getBusinessTimezone(businessId);
+      const today = getToday(timeZone);
+      const time = formatMinutes(getNowMinutes(today, timeZone) ?? 0);
+
+      const { options, held, bestFit } = await getSeatingForReservation({
+        businessId,
+        date: today,
+        time,
+        durationMinutes,
+        partySize: entry.party_size,
+        reservations: await getDayReservations(businessId, today, durationMinutes),
+        preferences: { seatingPreference: entry.seating_preference ?? undefined },
+      });
+
+      let option = bestFit;
+      if (data.tableId || data.tableCombinationId) {
+        option = options.find((o) => data.tableId
+          ? o.tableId === data.tableId
+          : o.combinationId === data.tableCombinationId) ?? null;
+
+        if (!option) {
+          return c.json({ error: { message: 'Table not found', code: 'NOT_FOUND' } }, 404);
+        }
+
+        if (option.tableIds.some((tableId) => held.has(tableId))) {
+          return c.json({ error: { message: 'Table is already reserved for an overlapping time', code: 'TABLE_CONFLICT' } }, 409);
+        }
+      } else if (!option) {
+        return c.json({ error: { message: 'No table available for this party size', code: 'NO_TABLE_AVAILABLE' } }, 409);
+      }
+
+      const { data: reservation, error } = await createReservationFromWaitlist(entry, {
+        date: today,
+        time,
+        durationMinutes,
+        status: 'seated',
+        tableId: option.tableId,
+        tableCombinationId: option.combinationId,
+      });
+
+      if (isTableConflict(error)) {
+        return c.json({ error: { message: 'Table is already reserved for an overlapping time', code: 'TABLE_CONFLICT' } }, 409);
+      }
+
+      if (error) {
+        console.error('Error seating from waitlist:', error);
+        return c.json({ error: { message: 'Failed to seat party', code: 'SEAT_FAILED' } }, 500);
+      }
+
+      const now = new Date().toISOString();
+      const { data: updated } = await supabase
+        .from('waitlist_entries')
+        .update({ status: 'seated', seated_at: now, reservation_id: reservation.id, updated_at: now })
+        .eq('id', entryId)
+        .select()
+        .single();
+
+      // Fetch table if assigned
+      let table = null;
+      if (reservation.table_id) {
+        const { data: tableData } = await supabase
+          .from('restaurant_tables')
+          .select('id, table_number, section')
+          .eq('id', reservation.table_id)
+          .single();
+        table = tableData;
+      }
+
+      const reservationPayload = formatReservationResponse(reservation, table);
+      publishEvent(businessId, 'reservation.seated', reservationPayload);
+      const entryPayload = formatWaitlistResponse(updated ?? entry);
+      publishEvent(businessId, 'waitlist.updated', entryPayload);
+
+      return c.json({ data: { entry: entryPayload, reservation: reservationPayload } });
+    } catch (error) {
+      console.error('Error seating from waitlist:', error);
+      return c.json({ error: { message: 'Failed to seat party', code: 'SEAT_FAILED' } }, 500);
+    }
+  }
+);
+
+// Accept a slot offered to an online waitlist request, booking the reservation
+reservationsRouter.post('/:businessId/waitlist/:entryId/accept', requirePermission('reservations:write'), async (c) => {
+  const businessId = c.req.param('businessId');
+  const entryId = c.req.param('entryId');
+
+  try {
+    const entry = await getWaitlistEntry(businessId, entryId);
+    if (!entry) {
+      return c.json({ error: { message: 'Waitlist entry not found', code: 'NOT_FOUND' } }, 404);
+    }
+
+    if (entry.status !== 'offered') {
+      return c.json({ error: { message: 'This entry has no open offer', code: 'INVALID_STATUS' } }, 400);
+    }
+
+    const revertToWaiting = () => supabase
+      .from('waitlist_entries')
+      .update({ status: 'waiting', offered_at: null, offer_expires_at: null, updated_at: new Date().toISOString() })
+      .eq('id', entryId);
+
+    if (entry.offer_expires_at && new Date(entry.offer_expires_at) < new Date()) {
+      await revertToWaiting();
+      return c.json({ error: { message: 'The offer has expired', code: 'OFFER_EXPIRED' } }, 409);
+    }
+
+    const { data: settings } = await supabase
+      .from('reservation_settings')
+      .select('default_dining_duration, require_deposit, deposit_amount, deposit_mode')
+      .eq('business_id', businessId)
+      .single();
+
+    const durationMinutes = settings?.default_dining_duration ?? 90;
+
+    // Deposit-required bookings wait in pending_payment, same as a direct create
+    const depositAmount = Number(settings?.deposit_amount ?? 0);
+    const requiresPayment = !!settings?.require_deposit && depositAmount > 0;
+
+    let stripeAccountId: string | null = null;
+    if (requiresPayment) {
+      const { data: business } = await supabase
+        .from('business_accounts')
+        .select('stripe_account_id')
+        .eq('id', businessId)
+        .single();
+
+      stripeAccountId = business?.stripe_account_id ?? null;
+      if (!stripeAccountId) {
+        return c.json({ error: { message: 'This business cannot take deposits yet', code: 'PAYMENTS_NOT_CONFIGURED' } }, 400);
+      }
+    }
+
+    const { tables } = await getSeatingInventory(businessId);
+
+    // Book the best free table when the business tracks tables
+    let tableId: string | null = null;
+    let tableCombinationId: string | null = null;
+    if (tables.length > 0) {
+      const { bestFit } = await getSeatingForReservation({
+        businessId,
+        date: entry.requested_date,
+        time: entry.requested_time,
+        durationMinutes,
+        partySize: entry.party_size,
+        reservations: await getDayReservations(businessId, entry.requested_date, durationMinutes),
+        preferences: { seatingPreference: entry.seating_preference ?? undefined },
+      });
+
+      if (!bestFit) {
+        await revertToWaiting();
+        return c.json({ error: { message: 'The offered slot is no longer available', code: 'NO_TABLE_AVAILABLE' } }, 409);
+      }
+
+      tableId = bestFit.tableId;
+      tableCombinationId = bestFit.combinationId;
+    }
+
+    const { data: reservation, error } = await createReservationFromWaitlist(entry, {
+      date: entry.requested_date,
+      time: entry.requested_time,
+      durationMinutes,
+      status: requiresPayment ? 'pending_payment' : 'confirmed',
+      tableId,
+      tableCombinationId,
+      paymentExpiresAt: requiresPayment ? getPaymentExpiry().toISOString() : null,
+    });
+
+    if (isTableConflict(error)) {
+      await revertToWaiting();
+      return c.json({ error: { message: 'The offered slot is no longer available', code: 'TABLE_CONFLICT' } }, 409);
+    }
+
+    if (error) {
+      console.error('Error accepting waitlist offer:', error);
+      return c.json({ error: { message: 'Failed to accept offer', code: 'ACCEPT_FAILED' } }, 500);
+    }
+
+    // Start the deposit or card-on-file setup; the offer stays open if Stripe fails
+    let payment = null;
+    if (requiresPayment && stripeAccountId) {
+      try {
+        payment = await startReservationPayment({
+          reservation,
+          mode: settings?.deposit_mode === 'card_on_file' ? 'card_on_file' : 'deposit',
+          amount: depositAmount,
+          stripeAccountId,
+        });
+      } catch (paymentError) {
+        console.error('Error starting reservation payment:', paymentError);
+        await supabase.from('reservations').delete().eq('id', reservation.id);
+        return c.json({ error: { message: 'Failed to start deposit payment', code: 'STRIPE_ERROR' } }, 500);
+      }
+    }
+
+    const { data: updated } = await supabase
+      .from('waitlist_entries')
+      .update({ status: 'booked', reservation_id: reservation.id, updated_at: new Date().toISOString() })
+      .eq('id', entryId)
+      .select()
+      .single();
+
+    // Fetch table if assigned
+    let table = null;
+    if (reservation.table_id) {
+      const { data: tableData } = await supabase
+        .from('restaurant_tables')
+        .select('id, table_number, section')
+        .eq('id', reservation.table_id)
+        .single();
+      table = tableData;
+    }
+
+    const reservationPayload = formatReservationResponse(reservation, table);
+    publishEvent(businessId, 'reservation.created', reservationPayload);
+    const entryPayload = formatWaitlistResponse(updated ?? entry);
+    publishEvent(businessId, 'waitlist.updated', entryPayload);
+
+    return c.json({ data: { entry: entryPayload, reservation: reservationPayload, ...(payment && { payment }) } }, 201);
+  } catch (error) {
+    console.error('Error accepting waitlist offer:', error);
+    return c.json({ error: { message: 'Failed to accept offer', code: 'ACCEPT_FAILED' } }, 500);
+  }
+});
+
+// Remove a party from the waitlist
+reservationsRouter.post('/:businessId/waitlist/:entryId/cancel', requirePermission('reservations:write'), async (c) => {
+  const businessId = c.req.param('businessId');
+  const entryId = c.req.param('entryId');
+
+  try {
+    const entry = await getWaitlistEntry(businessId, entryId);
+    if (!entry) {
+      return c.json({ error: { message: 'Waitlist entry not found', code: 'NOT_FOUND' } }, 404);
+    }
+
+    if (!ACTIVE_WAITLIST_STATUSES.includes(entry.status)) {
+      return c.json({ error: { message: `Cannot cancel a ${entry.status} entry`, code: 'INVALID_STATUS' } }, 400);
+    }
+
+    const now = new Date().toISOString();
+    const { data: updated, error } = await supabase
+      .from('waitlist_entries')
+      .update({ status: 'cancelled', cancelled_at: now, updated_at: now })
+      .eq('id', entryId)
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error cancelling waitlist entry:', error);
+      return c.json({ error: { message: 'Failed to cancel waitlist entry', code: 'UPDATE_FAILED' } }, 500);
+    }
+
+    const payload = formatWaitlistResponse(updated);
+    publishEvent(businessId, 'waitlist.updated', payload);
+
+    return c.json({ data: payload });
+  } catch (error) {
+    console.error('Error cancelling waitlist entry:', error);
+    return c.json({ error: { message: 'Failed to cancel waitlist entry', code: 'UPDATE_FAILED' } }, 500);
+  }
+});
+
+// ============================================
+// Reservations CRUD
+// ============================================
+
+// Create reservation
+reservationsRouter.post(
+  '/:businessId',
+  requirePermission('reservations:write'),
+  zValidator('json', CreateReservationSchema),
+  async (c) => {
+    const businessId = c.req.param('businessId');
+    const data = c.req.valid('json');
+
+    try {
+      // Verify business exists
+      const { data: business, error: businessError } = await supabase
+        .from('business_accounts')
+        .select('id, stripe_account_id')
+        .eq('id', businessId)
+        .single();
+
+      if (businessError || !business) {
+        return c.json({ error: { message: 'Business not found', code: 'NOT_FOUND' } }, 404);
+      }
+
+      // Get reservation settings for default duration
+      const { data: settings } = await supabase
+        .from('reservation_settings')
+        .select('*')
+        .eq('business_id', businessId)
+        .single();
+
+      const durationMinutes = settings?.default_dining_duration ?? 90;
+
+      // Deposit-required reservations wait in pending_payment until Stripe confirms payment
+      const depositAmount = Number(settings?.deposit_amount ?? 0);
+      const requiresPayment = !!settings?.require_deposit && depositAmount > 0;
+
+      if (requiresPayment && !business.stripe_account_id) {
+        return c.json({ error: { message: 'This business cannot take deposits yet', code: 'PAYMENTS_NOT_CONFIGURED' } }, 400);
+      }
+
+      // Determine initial status based on settings
+      const initialStatus = requiresPayment
+        ? 'pending_payment'
+        : settings?.auto_confirm ? 'confirmed' : 'pending';
+
+      // Seat at the best-fit free table when requested
+      let tableId: string | null = null;
+      let tableCombinationId: string | null = null;
+      if (data.autoAssignTable) {
+        const { bestFit } = await getSeatingForReservation({
+          businessId,
+          date: data.reservationDate,
+          time: data.reservationTime,
+          durationMinutes,
+          partySize: data.partySize,
+          reservations: await getDayReservations(businessId, data.reservationDate, durationMinutes),
+          preferences: { section: data.section, seatingPreference: data.seatingPreference },
+        });
+
+        if (!bestFit) {
+          return c.json({ error: { message: 'No table available for this party size and time', code: 'NO_TABLE_AVAILABLE' } }, 409);
+        }
+
+        tableId = bestFit.tableId;
+        tableCombinationId = bestFit.combinationId;
+      }
+
+      const { data: reservation, error } = await supabase
+        .from('reservations')
+        .insert({
+          business_id: businessId,
+          customer_name: data.customerName,
+          customer_email: data.customerEmail,
+          customer_phone: data.customerPhone,
+          reservation_date: data.reservationDate,
+          reservation_time: data.reservationTime,
+          party_size: data.partySize,
+          duration_minutes: durationMinutes,
+          table_id: tableId,
+          table_combination_id: tableCombinationId,
+          seating_preference: data.seatingPreference,
+          special_requests: data.specialRequests,
+          occasion: data.occasion,
+          source: data.source ?? 'app',
+          status: initialStatus,
+          confirmed_at: initialStatus === 'confirmed' ? new Date().toISOString() : null,
+          payment_expires_at: requiresPayment ? getPaymentExpiry().toISOString() : null,
+        })
+        .select()
+        .single();
+
+      if (isTableConflict(error)) {
+        return c.json({ error: { message: 'Table was just booked for an overlapping time', code: 'TABLE_CONFLICT' } }, 409);
+      }
+
+      if (error) {
+        console.error('Error creating reservation:', error);
+        return c.json({ error: { message: 'Failed to create reservation', code: 'CREATE_FAILED' } }, 500);
+      }
+
+      // Fetch table if assigned
+      let table = null;
+      if (reservation.table_id) {
+        const { data: tableData } = await supabase
+          .from('restaurant_tables')
+          .select('id, table_number, section')
+          .eq('id', reservation.table_id)
+          .single();
+        table = tableData;
+      }
+
+      // Start the deposit or card-on-file setup on the business's Connect account
+      let payment = null;
+      if (requiresPayment) {
+        try {
+          payment = await startReservationPayment({
+            reservation,
+            mode: settings?.deposit_mode === 'card_on_file' ? 'card_on_file' : 'deposit',
+            amount: depositAmount,
+            stripeAccountId: business.stripe_account_id,
+          });
+        } catch (paymentError) {
+          console.error('Error starting reservation payment:', paymentError);
+          await supabase.from('reservations').delete().eq('id', reservation.id);
+          return c.json({ error: { message: 'Failed to start deposit payment', code: 'STRIPE_ERROR' } }, 500);
+        }
+      }
+
+      const payload = formatReservationResponse(reservation, table);
+      publishEvent(businessId, 'reservation.created', payload);
+
+      return c.json({ data: { ...payload, ...(payment && { payment }) } }, 201);
+    } catch (error) {
+      console.error('Error creating reservation:', error);
+      return c.json({ error: { message: 'Failed to create reservation', code: 'CREATE_FAILED' } }, 500);
+    }
+  }
+);
+
+// List reservations with optional date filter
+reservationsRouter.get('/:businessId', requirePermission('reservations:read'), async (c) => {
+  const businessId = c.req.param('businessId');
+  const date = c.req.query('date'); // "YYYY-MM-DD"
+  const status = c.req.query('status');
+
+  try {
+    let query = supabase
+      .from('reservations')
+      .select('*')
+      .eq('business_id', businessId)
+      .order('reservation_date', { ascending: true })
+      .order('reservation_time', { ascending: true });
+
+    if (date) {
+      const endDateObj = new Date(date);
+      endDateObj.setDate(endDateObj.getDate() + 1);
+      const endDate = endDateObj.toISOString().split('T')[0];
+      query = query.gte('reservation_date', date).lt('reservation_date', endDate);
+    }
+
+    if (status) {
       query = query.eq('status', status);
     }
 
@@ -671,6 +1849,7 @@ reservationsRouter.get('/:businessId', async (c) => {
 // Update reservation status (shortcut endpoint - must be before /:businessId/:id)
 reservationsRouter.put(
   '/:businessId/:id/status',
+  requirePermission('reservations:write'),
   zValidator('json', UpdateReservationStatusSchema),
   async (c) => {
     const businessId = c.req.param('businessId');
@@ -721,6 +1900,10 @@ reservationsRouter.put(
         .select()
         .single();
 
+      if (isTableConflict(error)) {
+        return c.json({ error: { message: 'Table is already reserved for an overlapping time', code: 'TABLE_CONFLICT' } }, 409);
+      }
+
       if (error) {
         console.error('Error updating reservation status:', error);
         return c.json({ error: { message: 'Failed to update status', code: 'UPDATE_FAILED' } }, 500);
@@ -737,9 +1920,20 @@ reservationsRouter.put(
         table = tableData;
       }
 
-      return c.json({
-        data: formatReservationResponse(reservation, table),
-      });
+      const payload = formatReservationResponse(reservation, table);
+      publishReservationChange(businessId, existing.status, reservation.status, payload);
+
+      // Refund, keep or charge any deposit, and offer a cancelled slot to the waitlist
+      if (reservation.status !== existing.status) {
+        if (reservation.status === 'cancelled' || reservation.status === 'no_show') {
+          await settleReservationPayment(reservation, reservation.status);
+        }
+        if (reservation.status === 'cancelled') {
+          await offerWaitlistPromotion(businessId, reservation);
+        }
+      }
+
+      return c.json({ data: payload });
     } catch (error) {
       console.error('Error updating reservation status:', error);
       return c.json({ error: { message: 'Failed to update status', code: 'UPDATE_FAILED' } }, 500);
@@ -747,8 +1941,109 @@ reservationsRouter.put(
   }
 );
 
+// Assign a table (or table combination) to a reservation
+// Omit both ids to auto-assign the best-fit free table
+reservationsRouter.post(
+  '/:businessId/:id/assign-table',
+  requirePermission('reservations:write'),
+  zValidator('json', AssignTableSchema),
+  async (c) => {
+    const businessId = c.req.param('businessId');
+    const id = c.req.param('id');
+    const data = c.req.valid('json');
+
+    try {
+      // Verify reservation exists and belongs to business
+      const { data: existing, error: existingError } = await supabase
+        .from('reservations')
+        .select('*')
+        .eq('id', id)
+        .eq('business_id', businessId)
+        .single();
+
+      if (existingError || !existing) {
+        return c.json({ error: { message: 'Reservation not found', code: 'NOT_FOUND' } }, 404);
+      }
+
+      if (!TABLE_HOLDING_STATUSES.includes(existing.status)) {
+        return c.json({ error: { message: `Cannot assign a table to a ${existing.status} reservation`, code: 'INVALID_STATUS' } }, 400);
+      }
+
+      const durationMinutes = existing.duration_minutes ?? 90;
+      const otherReservations = (await getDayReservations(businessId, existing.reservation_date, durationMinutes))
+        .filter((r) => r.id !== id);
+
+      const { options, held, bestFit } = await getSeatingForReservation({
+        businessId,
+        date: existing.reservation_date,
+        time: existing.reservation_time,
+        durationMinutes,
+        partySize: existing.party_size,
+        reservations: otherReservations,
+        preferences: { seatingPreference: existing.seating_preference ?? undefined },
+      });
+
+      let option = bestFit;
+      if (data.tableId || data.tableCombinationId) {
+        option = options.find((o) => data.tableId
+          ? o.tableId === data.tableId
+          : o.combinationId === data.tableCombinationId) ?? null;
+
+        if (!option) {
+          return c.json({ error: { message: 'Table not found', code: 'NOT_FOUND' } }, 404);
+        }
+
+        if (option.tableIds.some((tableId) => held.has(tableId))) {
+          return c.json({ error: { message: 'Table is already reserved for an overlapping time', code: 'TABLE_CONFLICT' } }, 409);
+        }
+      } else if (!option) {
+        return c.json({ error: { message: 'No table available for this party size and time', code: 'NO_TABLE_AVAILABLE' } }, 409);
+      }
+
+      const { data: reservation, error } = await supabase
+        .from('reservations')
+        .update({
+          table_id: option.tableId,
+          table_combination_id: option.combinationId,
+        })
+        .eq('id', id)
+        .select()
+        .single();
+
+      // The database re-checks overlaps under a lock, catching concurrent assignments
+      if (isTableConflict(error)) {
+        return c.json({ error: { message: 'Table is already reserved for an overlapping time', code: 'TABLE_CONFLICT' } }, 409);
+      }
+
+      if (error) {
+        console.error('Error assigning table:', error);
+        return c.json({ error: { message: 'Failed to assign table', code: 'UPDATE_FAILED' } }, 500);
+      }
+
+      // Fetch table if assigned
+      let table = null;
+      if (reservation.table_id) {
+        const { data: tableData } = await supabase
+          .from('restaurant_tables')
+          .select('id, table_number, section')
+          .eq('id', reservation.table_id)
+          .single();
+        table = tableData;
+      }
+
+      const payload = formatReservationResponse(reservation, table);
+      publishReservationChange(businessId, existing.status, reservation.status, payload);
+
+      return c.json({ data: payload });
+    } catch (error) {
+      console.error('Error assigning table:', error);
+      return c.json({ error: { message: 'Failed to assign table', code: 'UPDATE_FAILED' } }, 500);
+    }
+  }
+);
+
 // Get single reservation
-reservationsRouter.get('/:businessId/:id', async (c) => {
+reservationsRouter.get('/:businessId/:id', requirePermission('reservations:read'), async (c) => {
   const businessId = c.req.param('businessId');
   const id = c.req.param('id');
 
@@ -787,6 +2082,7 @@ reservationsRouter.get('/:businessId/:id', async (c) => {
 // Update reservation
 reservationsRouter.put(
   '/:businessId/:id',
+  requirePermission('reservations:write'),
   zValidator('json', UpdateReservationSchema),
   async (c) => {
     const businessId = c.req.param('businessId');
@@ -815,7 +2111,10 @@ reservationsRouter.put(
       if (data.reservationDate !== undefined) updateData.reservation_date = data.reservationDate;
       if (data.reservationTime !== undefined) updateData.reservation_time = data.reservationTime;
       if (data.partySize !== undefined) updateData.party_size = data.partySize;
-      if (data.tableId !== undefined) updateData.table_id = data.tableId || null;
+      if (data.tableId !== undefined) {
+        updateData.table_id = data.tableId || null;
+        updateData.table_combination_id = null;
+      }
       if (data.seatingPreference !== undefined) updateData.seating_preference = data.seatingPreference;
       if (data.specialRequests !== undefined) updateData.special_requests = data.specialRequests;
       if (data.occasion !== undefined) updateData.occasion = data.occasion;
@@ -853,6 +2152,10 @@ reservationsRouter.put(
         .select()
         .single();
 
+      if (isTableConflict(error)) {
+        return c.json({ error: { message: 'Table is already reserved for an overlapping time', code: 'TABLE_CONFLICT' } }, 409);
+      }
+
       if (error) {
         console.error('Error updating reservation:', error);
         return c.json({ error: { message: 'Failed to update reservation', code: 'UPDATE_FAILED' } }, 500);
@@ -869,9 +2172,20 @@ reservationsRouter.put(
         table = tableData;
       }
 
-      return c.json({
-        data: formatReservationResponse(reservation, table),
-      });
+      const payload = formatReservationResponse(reservation, table);
+      publishReservationChange(businessId, existing.status, reservation.status, payload);
+
+      // Refund, keep or charge any deposit, and offer a cancelled slot to the waitlist
+      if (reservation.status !== existing.status) {
+        if (reservation.status === 'cancelled' || reservation.status === 'no_show') {
+          await settleReservationPayment(reservation, reservation.status);
+        }
+        if (reservation.status === 'cancelled') {
+          await offerWaitlistPromotion(businessId, reservation);
+        }
+      }
+
+      return c.json({ data: payload });
     } catch (error) {
       console.error('Error updating reservation:', error);
       return c.json({ error: { message: 'Failed to update reservation', code: 'UPDATE_FAILED' } }, 500);
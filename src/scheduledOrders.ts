@@ -0,0 +1,71 @@
+import { supabase } from './supabase';
+import { transitionOrderStatus } from './orderStatus';
+
+/**
+ * Scheduled orders (pre-orders). An order placed for later is held in the
+ * `scheduled` status, off the kitchen screens, until its fire time: the
+ * scheduled time minus the prep time of its items (items without a prep
+ * time add nothing). A job checks every minute and releases due orders to
+ * `confirmed`; staff can release one early by confirming it.
+ */
+
+const JOB_INTERVAL_MS = 60 * 1000;
+const BATCH_SIZE = 200;
+
+// When the kitchen should start an order scheduled for `scheduledFor`
+export function calculateFireAt(scheduledFor: Date, prepTimeMinutes: Array<number | null | undefined>): Date {
+  const prepMinutes = prepTimeMinutes.reduce<number>((sum, minutes) => sum + (minutes ?? 0), 0);
+  return new Date(scheduledFor.getTime() - prepMinutes * 60 * 1000);
+}
+
+// Whether an order scheduled to fire at `fireAt` is held rather than sent to the kitchen now
+export function shouldHoldOrder(fireAt: Date | null, now: Date): boolean {
+  return fireAt !== null && fireAt.getTime() > now.getTime();
+}
+
+/**
+ * Release every scheduled order whose fire time has passed. Returns how
+ * many were released; orders changed by someone else in the meantime are
+ * skipped.
+ */
+export async function releaseDueScheduledOrders(now: Date = new Date()): Promise<number> {
+  const { data: orders, error } = await supabase
+    .from('orders')
+    .select('*')
+    .eq('status', 'scheduled')
+    .lte('fire_at', now.toISOString())
+    .order('fire_at', { ascending: true })
+    .limit(BATCH_SIZE);
+
+  if (error) {
+    console.error('Error loading due scheduled orders:', error);
+    return 0;
+  }
+
+  let released = 0;
+  for (const order of orders || []) {
+    const result = await transitionOrderStatus(order, 'confirmed', { reason: 'Scheduled order released to the kitchen' });
+    if (result.ok) {
+      released++;
+    } else if (result.code === 'DB_ERROR') {
+      console.error(`Error releasing scheduled order ${order.id}:`, result.message);
+    }
+  }
+
+  return released;
+}
+
+export function startScheduledOrderJob(intervalMs = JOB_INTERVAL_MS) {
+  let running = false;
+  const run = async () => {
+    if (running) return;
+    running = true;
+    try {
+      await releaseDueScheduledOrders();
+    } finally {
+      running = false;
+    }
+  };
+
+  return setInterval(run, intervalMs);
+}
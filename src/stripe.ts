@@ -0,0 +1,16 @@
+import Stripe from 'stripe';
+
+let _stripe: Stripe | null = null;
+
+/**
+ * Lazily created Stripe client. Throws if STRIPE_SECRET_KEY is not set, so
+ * routes that need Stripe fail at request time rather than at startup.
+ */
+export function getStripe(): Stripe {
+  if (!_stripe) {
+    const key = process.env.STRIPE_SECRET_KEY;
+    if (!key) throw new Error('STRIPE_SECRET_KEY is not configured');
+    _stripe = new Stripe(key, { apiVersion: '2024-12-18.acacia' as any });
+  }
+  return _stripe;
+}
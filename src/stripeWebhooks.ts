@@ -0,0 +1,231 @@
+import type Stripe from 'stripe';
+import { supabase } from './supabase';
+import { getStripe } from './stripe';
+import { publishEvent } from './events';
+import { getOrderWithDetails } from './orderDetails';
+import { handleReservationPaymentEvent } from './reservationPayments';
+import { toMinorUnits } from './orderPayments';
+import type { PaymentStatus } from './types';
+
+export type OrderPaymentUpdate = {
+  paymentStatus: PaymentStatus;
+  paymentReference?: string;
+  paidAt?: string;
+};
+
+// The payment intent an order was charged through, and what it should collect
+export type OrderPaymentTarget = {
+  paymentIntentId: string | null;
+  totalAmount: number;
+};
+
+export type ConnectAccountState = {
+  chargesEnabled: boolean;
+  payoutsEnabled: boolean;
+  detailsSubmitted: boolean;
+};
+
+/**
+ * Persistence used by the webhook handler. The Supabase store is used in
+ * production; tests pass an in-memory store so fixture events run offline.
+ */
+export interface WebhookStore {
+  // Record the event id; false if it was already processed
+  recordEvent(event: Stripe.Event): Promise<boolean>;
+  // Forget an event whose processing failed, so Stripe's retry is applied
+  forgetEvent(eventId: string): Promise<void>;
+  getOrderPaymentTarget(orderId: string): Promise<OrderPaymentTarget | null>;
+  // Update an order's payment fields if its payment status is one of `fromStatuses`
+  updateOrderPayment(orderId: string, update: OrderPaymentUpdate, fromStatuses: PaymentStatus[]): Promise<boolean>;
+  findOrderIdByPaymentReference(paymentIntentId: string): Promise<string | null>;
+  updateConnectAccount(accountId: string, state: ConnectAccountState): Promise<boolean>;
+  // Reservation deposits and no-show fees (see reservationPayments.ts)
+  applyReservationPaymentEvent(event: Stripe.Event): Promise<boolean>;
+}
+
+/**
+ * Verify the Stripe-Signature header and parse the event.
+ * Throws if the signature doesn't match the raw payload.
+ */
+export async function constructStripeEvent(payload: string, signature: string, secret: string): Promise<Stripe.Event> {
+  return getStripe().webhooks.constructEventAsync(payload, signature, secret);
+}
+
+function getPaymentIntentId(charge: Stripe.Charge): string | null {
+  if (!charge.payment_intent) return null;
+  return typeof charge.payment_intent === 'string' ? charge.payment_intent : charge.payment_intent.id;
+}
+
+/**
+ * Whether a succeeded payment intent paid for the order: it must be the
+ * intent created for the order and have collected the order's total.
+ * Metadata alone can't be trusted, since intents can carry any order id.
+ */
+export function isOrderPaidBy(intent: Pick<Stripe.PaymentIntent, 'id' | 'amount_received'>, order: OrderPaymentTarget): boolean {
+  return intent.id === order.paymentIntentId && intent.amount_received === toMinorUnits(order.totalAmount);
+}
+
+async function applyEvent(event: Stripe.Event, store: WebhookStore): Promise<boolean> {
+  switch (event.type) {
+    case 'payment_intent.succeeded': {
+      const intent = event.data.object;
+      const orderId = intent.metadata?.order_id;
+      if (!orderId) return store.applyReservationPaymentEvent(event);
+
+      const order = await store.getOrderPaymentTarget(orderId);
+      if (!order) return false;
+      if (!isOrderPaidBy(intent, order)) {
+        console.error(
+          `Ignoring ${intent.id} for order ${orderId}: expected ${order.paymentIntentId ?? 'no intent'} ` +
+          `for ${toMinorUnits(order.totalAmount)}, got ${intent.amount_received}`
+        );
+        return false;
+      }
+
+      // A late success still wins over an earlier failure, but never over a refund
+      return store.updateOrderPayment(orderId, {
+        paymentStatus: 'paid',
+        paymentReference: intent.id,
+        paidAt: new Date(event.created * 1000).toISOString(),
+      }, ['pending', 'failed']);
+    }
+
+    case 'payment_intent.payment_failed': {
+      const intent = event.data.object;
+      const orderId = intent.metadata?.order_id;
+      if (!orderId) return store.applyReservationPaymentEvent(event);
+
+      return store.updateOrderPayment(orderId, {
+        paymentStatus: 'failed',
+        paymentReference: intent.id,
+      }, ['pending']);
+    }
+
+    case 'charge.refunded': {
+      const charge = event.data.object;
+      // Partial refunds leave the order paid
+      if (charge.amount_refunded < charge.amount) return false;
+
+      const paymentIntentId = getPaymentIntentId(charge);
+      const orderId = charge.metadata?.order_id
+        || (paymentIntentId ? await store.findOrderIdByPaymentReference(paymentIntentId) : null);
+      if (!orderId) return false;
+
+      return store.updateOrderPayment(orderId, { paymentStatus: 'refunded' }, ['paid']);
+    }
+
+    case 'account.updated': {
+      const account = event.data.object;
+      return store.updateConnectAccount(account.id, {
+        chargesEnabled: account.charges_enabled ?? false,
+        payoutsEnabled: account.payouts_enabled ?? false,
+        detailsSubmitted: account.details_submitted ?? false,
+      });
+    }
+
+    default:
+      return store.applyReservationPaymentEvent(event);
+  }
+}
+
+/**
+ * Apply a verified Stripe event exactly once.
+ * Returns `duplicate` for events that were already processed, and `handled`
+ * when the event changed an order, reservation payment or Connect account.
+ */
+export async function processStripeEvent(
+  event: Stripe.Event,
+  store: WebhookStore
+): Promise<{ duplicate: boolean; handled: boolean }> {
+  if (!(await store.recordEvent(event))) {
+    return { duplicate: true, handled: false };
+  }
+
+  try {
+    const handled = await applyEvent(event, store);
+    return { duplicate: false, handled };
+  } catch (error) {
+    await store.forgetEvent(event.id);
+    throw error;
+  }
+}
+
+export const supabaseWebhookStore: WebhookStore = {
+  async recordEvent(event) {
+    const { error } = await supabase
+      .from('stripe_webhook_events')
+      .insert({ id: event.id, type: event.type, account: event.account ?? null });
+
+    // Unique violation: another delivery of this event got here first
+    if (error?.code === '23505') return false;
+    if (error) throw new Error(`Failed to record webhook event: ${error.message}`);
+    return true;
+  },
+
+  async forgetEvent(eventId) {
+    await supabase.from('stripe_webhook_events').delete().eq('id', eventId);
+  },
+
+  async getOrderPaymentTarget(orderId) {
+    const { data: order, error } = await supabase
+      .from('orders')
+      .select('stripe_payment_intent_id, total_amount')
+      .eq('id', orderId)
+      .maybeSingle();
+
+    if (error) throw new Error(`Failed to load order payment: ${error.message}`);
+    if (!order) return null;
+    return { paymentIntentId: order.stripe_payment_intent_id ?? null, totalAmount: Number(order.total_amount) };
+  },
+
+  async updateOrderPayment(orderId, update, fromStatuses) {
+    const updateData: Record<string, unknown> = {
+      payment_status: update.paymentStatus,
+      updated_at: new Date().toISOString(),
+    };
+    if (update.paymentReference !== undefined) updateData.payment_reference = update.paymentReference;
+    if (update.paidAt !== undefined) updateData.paid_at = update.paidAt;
+
+    const { data: order, error } = await supabase
+      .from('orders')
+      .update(updateData)
+      .eq('id', orderId)
+      .in('payment_status', fromStatuses)
+      .select()
+      .maybeSingle();
+
+    if (error) throw new Error(`Failed to update order payment: ${error.message}`);
+    if (!order) return false;
+
+    publishEvent(order.business_id, 'order.payment_updated', await getOrderWithDetails(order));
+    return true;
+  },
+
+  async findOrderIdByPaymentReference(paymentIntentId) {
+    const { data: order } = await supabase
+      .from('orders')
+      .select('id')
+      .eq('payment_reference', paymentIntentId)
+      .maybeSingle();
+    return order?.id ?? null;
+  },
+
+  async updateConnectAccount(accountId, state) {
+    const { data: business, error } = await supabase
+      .from('business_accounts')
+      .update({
+        stripe_charges_enabled: state.chargesEnabled,
+        stripe_payouts_enabled: state.payoutsEnabled,
+        stripe_details_submitted: state.detailsSubmitted,
+        stripe_account_updated_at: new Date().toISOString(),
+      })
+      .eq('stripe_account_id', accountId)
+      .select('id')
+      .maybeSingle();
+
+    if (error) throw new Error(`Failed to update Connect account state: ${error.message}`);
+    return !!business;
+  },
+
+  applyReservationPaymentEvent: handleReservationPaymentEvent,
+};
@@ -0,0 +1,167 @@
+import { supabase } from './supabase';
+import type { OrderTax, OrderType, TaxCategory } from './types';
+
+/**
+ * Tax engine. Each order line is taxed at the rate of the most specific
+ * active tax rule for its item's tax category and the order type: a rule
+ * for both beats one for the category, which beats one for the order type,
+ * which beats a catch-all. Lines no rule covers use the business's default
+ * rate; exempt items are never taxed. With tax-inclusive pricing the tax is
+ * the part of the (discounted) price that is tax, instead of added on top.
+ */
+
+export type TaxRule = {
+  id: string;
+  name: string;
+  taxCategory: TaxCategory | null;
+  orderType: OrderType | null;
+  rate: number;
+};
+
+export type TaxSettings = {
+  rules: TaxRule[];
+  defaultRate: number;
+  inclusive: boolean;
+};
+
+export type TaxLine = {
+  taxCategory: TaxCategory;
+  amount: number; // line total before discounts
+};
+
+export type LineTax = {
+  taxRuleId: string | null;
+  name: string;
+  rate: number;
+  taxableAmount: number;
+  taxAmount: number;
+};
+
+export type TaxResult = {
+  lines: LineTax[];
+  taxAmount: number;
+  breakdown: OrderTax[];
+};
+
+const DEFAULT_TAX_NAME = 'Sales tax';
+
+function roundCurrency(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+export function mapTaxRuleRow(row: Record<string, any>): TaxRule {
+  return {
+    id: row.id,
+    name: row.name,
+    taxCategory: row.tax_category ?? null,
+    orderType: row.order_type ?? null,
+    rate: Number(row.rate),
+  };
+}
+
+// The most specific rule for a category and order type, or null if none applies
+export function findTaxRule(rules: TaxRule[], taxCategory: TaxCategory, orderType: OrderType): TaxRule | null {
+  let best: { rule: TaxRule; score: number } | null = null;
+
+  for (const rule of rules) {
+    if (rule.taxCategory !== null && rule.taxCategory !== taxCategory) continue;
+    if (rule.orderType !== null && rule.orderType !== orderType) continue;
+
+    const score = (rule.taxCategory !== null ? 2 : 0) + (rule.orderType !== null ? 1 : 0);
+    if (!best || score > best.score) {
+      best = { rule, score };
+    }
+  }
+
+  return best?.rule ?? null;
+}
+
+/**
+ * Tax an order's lines. `discount` (promotions and rewards) is spread over
+ * the lines in proportion to their amounts and tax is charged on what's
+ * left. Each line's tax is rounded to the cent and the order's tax is their sum.
+ */
+export function calculateTax(params: {
+  lines: TaxLine[];
+  discount: number;
+  orderType: OrderType;
+  settings: TaxSettings;
+}): TaxResult {
+  const { lines, orderType, settings } = params;
+  const subtotal = lines.reduce((sum, line) => sum + line.amount, 0);
+  const discount = Math.min(Math.max(params.discount, 0), subtotal);
+
+  let discountLeft = roundCurrency(discount);
+  const taxed = lines.map((line, index): LineTax => {
+    // The last line takes whatever is left so the shares add up exactly
+    const share = index === lines.length - 1
+      ? discountLeft
+      : roundCurrency(subtotal > 0 ? (discount * line.amount) / subtotal : 0);
+    discountLeft = roundCurrency(discountLeft - share);
+    const amount = Math.max(0, roundCurrency(line.amount - share));
+
+    if (line.taxCategory === 'exempt') {
+      return { taxRuleId: null, name: 'Exempt', rate: 0, taxableAmount: amount, taxAmount: 0 };
+    }
+
+    const rule = findTaxRule(settings.rules, line.taxCategory, orderType);
+    const rate = rule?.rate ?? settings.defaultRate;
+    const taxAmount = settings.inclusive
+      ? roundCurrency(amount - amount / (1 + rate))
+      : roundCurrency(amount * rate);
+
+    return {
+      taxRuleId: rule?.id ?? null,
+      name: rule?.name ?? DEFAULT_TAX_NAME,
+      rate,
+      taxableAmount: settings.inclusive ? roundCurrency(amount - taxAmount) : amount,
+      taxAmount,
+    };
+  });
+
+  // One breakdown entry per rule (and rate) charged
+  const breakdown = new Map<string, OrderTax>();
+  for (const line of taxed) {
+    if (line.rate === 0) continue;
+    const key = `${line.taxRuleId ?? 'default'}:${line.rate}`;
+    const entry = breakdown.get(key);
+    if (entry) {
+      entry.taxableAmount = roundCurrency(entry.taxableAmount + line.taxableAmount);
+      entry.taxAmount = roundCurrency(entry.taxAmount + line.taxAmount);
+    } else {
+      breakdown.set(key, { ...line });
+    }
+  }
+
+  return {
+    lines: taxed,
+    taxAmount: roundCurrency(taxed.reduce((sum, line) => sum + line.taxAmount, 0)),
+    breakdown: [...breakdown.values()],
+  };
+}
+
+// Load a business's tax settings and active tax rules
+export async function getTaxSettings(businessId: string): Promise<TaxSettings> {
+  const [{ data: business, error: businessError }, { data: rules, error: rulesError }] = await Promise.all([
+    supabase
+      .from('business_accounts')
+      .select('tax_rate, tax_inclusive')
+      .eq('id', businessId)
+      .single(),
+    supabase
+      .from('tax_rules')
+      .select('*')
+      .eq('business_id', businessId)
+      .eq('is_active', true),
+  ]);
+
+  if (businessError || rulesError) {
+    throw new Error(`Failed to load tax settings: ${(businessError ?? rulesError)?.message}`);
+  }
+
+  return {
+    rules: (rules || []).map(mapTaxRuleRow),
+    defaultRate: Number(business?.tax_rate ?? 0),
+    inclusive: !!business?.tax_inclusive,
+  };
+}
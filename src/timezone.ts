@@ -0,0 +1,132 @@
+import { supabase } from './supabase';
+
+/**
+ * Business-local dates. Businesses keep an IANA `timezone` on
+ * business_accounts; the server runs in UTC, so anything that depends on
+ * the business's calendar day, day of week or time of day goes through
+ * these helpers. Calendar dates are "YYYY-MM-DD" strings.
+ */
+
+export const DEFAULT_TIMEZONE = 'UTC';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+export type ZonedParts = {
+  year: number;
+  month: number; // 1-12
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+  dayOfWeek: number; // 0 = Sunday, as in business_hours
+};
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+      weekday: 'short',
+      hourCycle: 'h23',
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+// Wall-clock date and time in `timeZone` at `at`
+export function getZonedParts(at: Date, timeZone: string = DEFAULT_TIMEZONE): ZonedParts {
+  const parts: Record<string, string> = {};
+  for (const part of getFormatter(timeZone).formatToParts(at)) {
+    parts[part.type] = part.value;
+  }
+  return {
+    year: Number(parts.year),
+    month: Number(parts.month),
+    day: Number(parts.day),
+    hour: Number(parts.hour),
+    minute: Number(parts.minute),
+    second: Number(parts.second),
+    dayOfWeek: WEEKDAYS.indexOf(parts.weekday ?? ''),
+  };
+}
+
+function pad(value: number): string {
+  return value.toString().padStart(2, '0');
+}
+
+// The business's calendar date at `at`
+export function getBusinessDate(at: Date, timeZone: string = DEFAULT_TIMEZONE): string {
+  const { year, month, day } = getZonedParts(at, timeZone);
+  return `${year}-${pad(month)}-${pad(day)}`;
+}
+
+// Minutes since the business's midnight at `at`
+export function getBusinessMinutes(at: Date, timeZone: string = DEFAULT_TIMEZONE): number {
+  const { hour, minute } = getZonedParts(at, timeZone);
+  return hour * 60 + minute;
+}
+
+// Day of week (0 = Sunday) of a calendar date; the same in every timezone
+export function getDayOfWeek(date: string): number {
+  return new Date(`${date.slice(0, 10)}T00:00:00Z`).getUTCDay();
+}
+
+export function addDays(date: string, days: number): string {
+  return new Date(Date.parse(`${date.slice(0, 10)}T00:00:00Z`) + days * DAY_MS).toISOString().slice(0, 10);
+}
+
+/**
+ * The instant the wall-clock time `date` `time` happens in `timeZone`. Times
+ * skipped by a DST jump resolve to the same offset as just before it; times
+ * repeated when clocks go back resolve to the first of the two.
+ */
+export function zonedTimeToUtc(date: string, time: string, timeZone: string = DEFAULT_TIMEZONE): Date {
+  const [hours = 0, minutes = 0] = time.split(':').map(Number);
+  const wallClock = Date.parse(`${date.slice(0, 10)}T00:00:00Z`) + (hours * 60 + minutes) * 60 * 1000;
+
+  const offsetAt = (instant: number) => {
+    const p = getZonedParts(new Date(instant), timeZone);
+    return Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second) - Math.floor(instant / 1000) * 1000;
+  };
+
+  // Try the offset in force a day earlier (before any change on this date),
+  // then the one in force at that guess if the two differ
+  const earlierOffset = offsetAt(wallClock - DAY_MS);
+  const before = wallClock - earlierOffset;
+  const offset = offsetAt(before);
+  if (offset === earlierOffset) return new Date(before);
+
+  const after = wallClock - offset;
+  return new Date(offsetAt(after) === offset ? after : before);
+}
+
+/**
+ * First and last instant of a business day. Days are 23 or 25 hours long
+ * when clocks change.
+ */
+export function getBusinessDayBounds(date: string, timeZone: string = DEFAULT_TIMEZONE): { start: Date; end: Date } {
+  const start = zonedTimeToUtc(date, '00:00', timeZone);
+  const nextStart = zonedTimeToUtc(addDays(date, 1), '00:00', timeZone);
+  return { start, end: new Date(nextStart.getTime() - 1) };
+}
+
+// A business's timezone, or UTC if it hasn't set one
+export async function getBusinessTimezone(businessId: string): Promise<string> {
+  const { data } = await supabase
+    .from('business_accounts')
+    .select('timezone')
+    .eq('id', businessId)
+    .maybeSingle();
+
+  return data?.timezone || DEFAULT_TIMEZONE;
+}
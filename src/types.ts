@@ -15,6 +15,16 @@ export const BusinessTypeSchema = z.enum([
 
 export type BusinessType = z.infer<typeof BusinessTypeSchema>;
 
+// IANA timezone name, e.g. "America/Chicago"
+export const TimezoneSchema = z.string().refine(value => {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: value });
+    return true;
+  } catch {
+    return false;
+  }
+}, 'Invalid timezone');
+
 // Business registration request (supabaseUserId derived from auth token)
 export const RegisterBusinessSchema = z.object({
   businessName: z.string().min(2).max(100),
@@ -24,6 +34,7 @@ export const RegisterBusinessSchema = z.object({
   description: z.string().max(500).optional(),
   ownerName: z.string().min(2),
   ownerEmail: z.string().email(),
+  timezone: TimezoneSchema.optional(),
 });
 
 export type RegisterBusinessRequest = z.infer<typeof RegisterBusinessSchema>;
@@ -61,11 +72,28 @@ export const UpdateBusinessSchema = z.object({
   city: z.string().optional(),
   state: z.string().optional(),
   postalCode: z.string().optional(),
+  latitude: z.number().min(-90).max(90).nullable().optional(), // center of radius delivery zones
+  longitude: z.number().min(-180).max(180).nullable().optional(),
   logoUrl: z.string().url().optional(),
   coverImageUrl: z.string().url().optional(),
   brandColor: z.string().optional(),
-  taxRate: z.number().min(0).max(1).optional(),
+  taxRate: z.number().min(0).max(1).optional(), // rate for items no tax rule covers
+  taxInclusive: z.boolean().optional(), // menu prices already include tax
   deliveryFee: z.number().min(0).optional(),
+  timezone: TimezoneSchema.optional(),
+  // Order numbering: prefix, whether the sequence restarts each business day,
+  // and the range short ticket numbers cycle through (null for none)
+  orderNumberPrefix: z.string().max(10).regex(/^[A-Za-z0-9-]*$/).optional(),
+  orderNumberReset: z.enum(['daily', 'never']).optional(),
+  ticketNumberMax: z.number().int().min(9).max(9999).nullable().optional(),
+  // Online ordering: whether the storefront takes orders, how long before
+  // the first pickup slot orders must be placed, and the slot interval
+  onlineOrderingEnabled: z.boolean().optional(),
+  pickupLeadMinutes: z.number().int().min(0).max(24 * 60).optional(),
+  pickupSlotMinutes: z.number().int().min(5).max(120).optional(),
+  // Most scheduled orders and items per pickup slot (null for no limit)
+  pickupCapacityOrders: z.number().int().min(1).nullable().optional(),
+  pickupCapacityItems: z.number().int().min(1).nullable().optional(),
 });
 
 export type UpdateBusinessRequest = z.infer<typeof UpdateBusinessSchema>;
@@ -187,6 +215,7 @@ export type RegisterBusinessResponse = z.infer<typeof RegisterBusinessResponseSc
 
 // Reservation status enum
 export const ReservationStatusSchema = z.enum([
+  'pending_payment',
   'pending',
   'confirmed',
   'seated',
@@ -209,6 +238,8 @@ export const CreateReservationSchema = z.object({
   specialRequests: z.string().optional(),
   occasion: z.string().optional(),
   source: z.enum(['app', 'website', 'phone', 'walk_in', 'third_party', 'admin']).optional(),
+  autoAssignTable: z.boolean().optional(), // seat at the best-fit free table
+  section: z.string().optional(), // only auto-assign within this section
 });
 
 export type CreateReservationRequest = z.infer<typeof CreateReservationSchema>;
@@ -258,6 +289,32 @@ export const UpdateTableSchema = CreateTableSchema.partial().extend({
 
 export type UpdateTableRequest = z.infer<typeof UpdateTableSchema>;
 
+// Table combination schemas (tables pushed together for larger parties)
+export const CreateTableCombinationSchema = z.object({
+  name: z.string().min(1),
+  tableIds: z.array(z.string()).min(2),
+  capacityMin: z.number().int().min(1).optional(),
+  capacityMax: z.number().int().min(1).optional(), // defaults to the tables' combined capacity
+});
+
+export type CreateTableCombinationRequest = z.infer<typeof CreateTableCombinationSchema>;
+
+export const UpdateTableCombinationSchema = CreateTableCombinationSchema.partial().extend({
+  isActive: z.boolean().optional(),
+});
+
+export type UpdateTableCombinationRequest = z.infer<typeof UpdateTableCombinationSchema>;
+
+// Assign a table to a reservation; omit both ids to auto-assign the best fit
+export const AssignTableSchema = z.object({
+  tableId: z.string().optional(),
+  tableCombinationId: z.string().optional(),
+}).refine((data) => !(data.tableId && data.tableCombinationId), {
+  message: 'Provide either tableId or tableCombinationId, not both',
+});
+
+export type AssignTableRequest = z.infer<typeof AssignTableSchema>;
+
 // Reservation settings schema
 export const ReservationSettingsSchema = z.object({
   minPartySize: z.number().int().min(1).optional(),
@@ -277,6 +334,8 @@ export const ReservationSettingsSchema = z.object({
   requireDeposit: z.boolean().optional(),
   depositAmount: z.number().optional(),
   depositPolicy: z.string().optional(),
+  // deposit: charge depositAmount up front; card_on_file: save a card and charge depositAmount on no-show
+  depositMode: z.enum(['deposit', 'card_on_file']).optional(),
 });
 
 export type ReservationSettingsRequest = z.infer<typeof ReservationSettingsSchema>;
@@ -294,6 +353,7 @@ export const ReservationResponseSchema = z.object({
   partySize: z.number(),
   durationMinutes: z.number(),
   tableId: z.string().nullable(),
+  tableCombinationId: z.string().nullable(),
   seatingPreference: z.string().nullable(),
   specialRequests: z.string().nullable(),
   occasion: z.string().nullable(),
@@ -312,6 +372,14 @@ export const ReservationResponseSchema = z.object({
     tableNumber: z.string(),
     section: z.string().nullable(),
   }).nullable().optional(),
+  // Returned on create when a deposit or card on file is required
+  payment: z.object({
+    mode: z.enum(['deposit', 'card_on_file']),
+    amount: z.number(),
+    currency: z.string(),
+    clientSecret: z.string().nullable(), // confirm with Stripe.js using stripeAccountId
+    stripeAccountId: z.string(),
+  }).optional(),
 });
 
 export type ReservationResponse = z.infer<typeof ReservationResponseSchema>;
@@ -332,6 +400,21 @@ export const TableResponseSchema = z.object({
 
 export type TableResponse = z.infer<typeof TableResponseSchema>;
 
+// Table combination response
+export const TableCombinationResponseSchema = z.object({
+  id: z.string(),
+  businessId: z.string(),
+  name: z.string(),
+  tableIds: z.array(z.string()),
+  capacityMin: z.number(),
+  capacityMax: z.number(),
+  isActive: z.boolean(),
+  createdAt: z.string(),
+  updatedAt: z.string(),
+});
+
+export type TableCombinationResponse = z.infer<typeof TableCombinationResponseSchema>;
+
 // Settings response
 export const ReservationSettingsResponseSchema = z.object({
   id: z.string(),
@@ -353,6 +436,7 @@ export const ReservationSettingsResponseSchema = z.object({
   requireDeposit: z.boolean(),
   depositAmount: z.number().nullable(),
   depositPolicy: z.string().nullable(),
+  depositMode: z.enum(['deposit', 'card_on_file']),
   createdAt: z.string(),
   updatedAt: z.string(),
 });
@@ -364,14 +448,87 @@ export const AvailabilitySlotSchema = z.object({
   time: z.string(), // "HH:mm"
   available: z.boolean(),
   remainingCapacity: z.number().optional(),
+  sections: z.array(z.string()), // sections with a fitting table free
 });
 
 export type AvailabilitySlot = z.infer<typeof AvailabilitySlotSchema>;
 
+// Waitlist status enum
+// offered: a slot opened up for an online request and is held for the guest
+export const WaitlistStatusSchema = z.enum([
+  'waiting',
+  'notified',
+  'offered',
+  'seated',
+  'booked',
+  'cancelled',
+]);
+
+export type WaitlistStatus = z.infer<typeof WaitlistStatusSchema>;
+
+// Join waitlist request (walk-ins, or online requests for a full slot)
+export const CreateWaitlistEntrySchema = z.object({
+  customerName: z.string().min(1),
+  customerPhone: z.string().optional(),
+  customerEmail: z.string().email().optional(),
+  customerUserId: z.string().optional(),
+  partySize: z.number().int().min(1).max(50),
+  source: z.enum(['walk_in', 'online']).optional(),
+  requestedDate: z.string().optional(), // "YYYY-MM-DD", defaults to today
+  requestedTime: z.string().optional(), // "HH:mm", required for online requests
+  seatingPreference: z.string().optional(),
+  notes: z.string().optional(),
+}).refine((data) => data.source !== 'online' || !!data.requestedTime, {
+  message: 'requestedTime is required for online waitlist requests',
+  path: ['requestedTime'],
+});
+
+export type CreateWaitlistEntryRequest = z.infer<typeof CreateWaitlistEntrySchema>;
+
+// Move a waitlist entry to a new (1-based) position
+export const ReorderWaitlistEntrySchema = z.object({
+  position: z.number().int().min(1),
+});
+
+export type ReorderWaitlistEntryRequest = z.infer<typeof ReorderWaitlistEntrySchema>;
+
+// Waitlist entry response
+export const WaitlistEntryResponseSchema = z.object({
+  id: z.string(),
+  businessId: z.string(),
+  customerUserId: z.string().nullable(),
+  customerName: z.string(),
+  customerPhone: z.string().nullable(),
+  customerEmail: z.string().nullable(),
+  partySize: z.number(),
+  source: z.string(),
+  requestedDate: z.string(),
+  requestedTime: z.string().nullable(),
+  seatingPreference: z.string().nullable(),
+  notes: z.string().nullable(),
+  position: z.number(),
+  status: WaitlistStatusSchema,
+  quotedWaitMinutes: z.number().nullable(),
+  estimatedWaitMinutes: z.number().nullable().optional(), // live estimate for waiting walk-ins
+  notifiedAt: z.string().nullable(),
+  offeredAt: z.string().nullable(),
+  offerExpiresAt: z.string().nullable(),
+  reservationId: z.string().nullable(),
+  seatedAt: z.string().nullable(),
+  cancelledAt: z.string().nullable(),
+  createdAt: z.string(),
+  updatedAt: z.string(),
+});
+
+export type WaitlistEntryResponse = z.infer<typeof WaitlistEntryResponseSchema>;
+
 // ============================================
 // Menu Schemas
 // ============================================
 
+// Time of day, "HH:mm"
+export const MenuTimeSchema = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, 'Expected HH:mm');
+
 // Create menu category
 export const CreateMenuCategorySchema = z.object({
   name: z.string().min(1).max(100),
@@ -379,9 +536,13 @@ export const CreateMenuCategorySchema = z.object({
   imageUrl: z.string().url().optional(),
   displayOrder: z.number().int().optional(),
   isActive: z.boolean().optional(),
-  availableStartTime: z.string().optional(),
-  availableEndTime: z.string().optional(),
-  availableDays: z.array(z.number().min(0).max(6)).optional(),
+  // Daypart: items are only on the menu from start to end ("HH:mm" in the
+  // business's timezone; an end before the start runs past midnight) on
+  // these days (0 = Sunday). Null clears them.
+  availableStartTime: MenuTimeSchema.nullable().optional(),
+  availableEndTime: MenuTimeSchema.nullable().optional(),
+  availableDays: z.array(z.number().int().min(0).max(6)).nullable().optional(),
+  stationId: z.string().nullable().optional(),
 });
 
 export type CreateMenuCategoryRequest = z.infer<typeof CreateMenuCategorySchema>;
@@ -402,12 +563,17 @@ export const MenuCategoryResponseSchema = z.object({
   availableStartTime: z.string().nullable(),
   availableEndTime: z.string().nullable(),
   availableDays: z.array(z.number()).nullable(),
+  stationId: z.string().nullable(),
   createdAt: z.string(),
   updatedAt: z.string(),
 });
 
 export type MenuCategoryResponse = z.infer<typeof MenuCategoryResponseSchema>;
 
+// Tax category of a menu item; tax rules set a rate per category
+export const TaxCategorySchema = z.enum(['standard', 'prepared_food', 'alcohol', 'grocery', 'exempt']);
+export type TaxCategory = z.infer<typeof TaxCategorySchema>;
+
 // Create menu item
 export const CreateMenuItemSchema = z.object({
   categoryId: z.string(),
@@ -426,6 +592,9 @@ export const CreateMenuItemSchema = z.object({
   calories: z.number().int().optional(),
   prepTimeMinutes: z.number().int().optional(),
   tags: z.array(z.string()).optional(),
+  // Overrides the category's prep station when set
+  stationId: z.string().nullable().optional(),
+  taxCategory: TaxCategorySchema.optional(), // default 'standard'
 });
 
 export type CreateMenuItemRequest = z.infer<typeof CreateMenuItemSchema>;
@@ -460,6 +629,8 @@ export const MenuItemResponseSchema = z.object({
   unavailableReason: z.string().nullable(),
   prepTimeMinutes: z.number().nullable(),
   tags: z.array(z.string()).nullable(),
+  stationId: z.string().nullable(),
+  taxCategory: TaxCategorySchema,
   createdAt: z.string(),
   updatedAt: z.string(),
 });
@@ -570,12 +741,14 @@ export type OrderType = z.infer<typeof OrderTypeSchema>;
 
 // Order status enum
 export const OrderStatusSchema = z.enum([
+  'scheduled', // placed for later; held until its fire time
   'pending',
   'confirmed',
   'preparing',
   'ready',
   'completed',
-  'cancelled'
+  'cancelled',
+  'refunded'
 ]);
 export type OrderStatus = z.infer<typeof OrderStatusSchema>;
 
@@ -583,22 +756,35 @@ export type OrderStatus = z.infer<typeof OrderStatusSchema>;
 export const PaymentStatusSchema = z.enum(['pending', 'paid', 'refunded', 'failed']);
 export type PaymentStatus = z.infer<typeof PaymentStatusSchema>;
 
-// Order item modifier
+// Order item modifier, as snapshotted onto the order item when it was placed
+// (orders placed before modifier ids were required have name and price only)
 export const OrderItemModifierSchema = z.object({
+  modifierId: z.string().optional(),
+  modifierGroupId: z.string().optional(),
+  groupName: z.string().optional(),
   name: z.string(),
   priceAdjustment: z.number(),
 });
 
 // Create order item
+// Modifiers are menu_modifiers ids; names and prices are resolved server-side
 export const CreateOrderItemSchema = z.object({
   menuItemId: z.string(),
   quantity: z.number().int().min(1),
-  modifiers: z.array(OrderItemModifierSchema).optional(),
+  modifierIds: z.array(z.string()).optional(),
   specialRequests: z.string().optional(),
 });
 
 export type CreateOrderItemRequest = z.infer<typeof CreateOrderItemSchema>;
 
+// Where a delivery goes, for delivery zones
+export const DeliveryLocationSchema = z.object({
+  latitude: z.number().min(-90).max(90),
+  longitude: z.number().min(-180).max(180),
+});
+
+export type DeliveryLocation = z.infer<typeof DeliveryLocationSchema>;
+
 // Create order
 export const CreateOrderSchema = z.object({
   orderType: OrderTypeSchema,
@@ -610,9 +796,10 @@ export const CreateOrderSchema = z.object({
   reservationId: z.string().optional(),
   // Delivery
   deliveryAddress: z.string().optional(),
+  deliveryLocation: DeliveryLocationSchema.optional(), // required when the business has delivery zones
   deliveryNotes: z.string().optional(),
   // Timing
-  scheduledFor: z.string().optional(), // ISO date string
+  scheduledFor: z.string().refine(v => !isNaN(Date.parse(v)), 'Invalid date').optional(), // ISO date string; items must be on the menu then
   // Items
   items: z.array(CreateOrderItemSchema).min(1),
   // Notes
@@ -620,12 +807,88 @@ export const CreateOrderSchema = z.object({
   // Payment
   paymentMethod: z.string().optional(),
   tipAmount: z.number().min(0).optional(),
+  promoCode: z.string().optional(),
+  // Loyalty: spend the customer's points as a discount, given either as
+  // points or as a number of rewards (pointsPerReward points each)
+  customerId: z.string().optional(),
+  redeemPoints: z.number().int().positive().optional(),
+  redeemRewards: z.number().int().positive().optional(),
   // Source
   source: z.enum(['pos', 'website', 'app', 'phone']).optional(),
+}).refine(data => data.redeemPoints === undefined || data.redeemRewards === undefined, {
+  message: 'Provide either redeemPoints or redeemRewards, not both',
+  path: ['redeemRewards'],
+}).refine(data => (data.redeemPoints === undefined && data.redeemRewards === undefined) || !!data.customerId, {
+  message: 'customerId is required to redeem points',
+  path: ['customerId'],
 });
 
 export type CreateOrderRequest = z.infer<typeof CreateOrderSchema>;
 
+// Guest order from the storefront: takeout or delivery, ASAP or for one of
+// the business's pickup slots. Prices come from the menu, never the request.
+export const PublicOrderSchema = z.object({
+  orderType: z.enum(['takeout', 'delivery']),
+  customerName: z.string().min(1).max(100),
+  customerEmail: z.string().email().optional(),
+  customerPhone: z.string().min(7).max(30).optional(),
+  deliveryAddress: z.string().max(500).optional(),
+  deliveryLocation: DeliveryLocationSchema.optional(),
+  deliveryNotes: z.string().max(500).optional(),
+  pickupTime: z.string().refine(v => !isNaN(Date.parse(v)), 'Invalid date').optional(), // a slot's pickupTime; omit for ASAP
+  items: z.array(CreateOrderItemSchema).min(1).max(50),
+  specialInstructions: z.string().max(500).optional(),
+  tipAmount: z.number().min(0).optional(),
+  promoCode: z.string().optional(),
+  captchaToken: z.string().optional(), // required when CAPTCHA is enabled
+}).refine(data => !!data.customerEmail || !!data.customerPhone, {
+  message: 'An email or phone number is required to track the order',
+  path: ['customerEmail'],
+}).refine(data => data.orderType !== 'delivery' || !!data.deliveryAddress, {
+  message: 'deliveryAddress is required for delivery orders',
+  path: ['deliveryAddress'],
+});
+
+export type PublicOrderRequest = z.infer<typeof PublicOrderSchema>;
+
+// Order taken offline by a POS tablet, uploaded later with the prices it was charged at
+export const SyncOrderItemSchema = z.object({
+  menuItemId: z.string(),
+  itemName: z.string().optional(),
+  quantity: z.number().int().min(1),
+  unitPrice: z.number().min(0), // per unit, including modifiers
+  modifiers: z.array(OrderItemModifierSchema).optional(),
+  specialRequests: z.string().optional(),
+});
+
+export const SyncOrderSchema = z.object({
+  clientOrderId: z.string().uuid(),
+  createdAt: z.string().refine(v => !isNaN(Date.parse(v)), 'Invalid date'), // ISO date string
+  orderType: OrderTypeSchema,
+  customerName: z.string().min(1),
+  customerEmail: z.string().email().optional(),
+  customerPhone: z.string().optional(),
+  tableId: z.string().optional(),
+  items: z.array(SyncOrderItemSchema).min(1),
+  specialInstructions: z.string().optional(),
+  subtotal: z.number().min(0),
+  taxAmount: z.number().min(0),
+  discountAmount: z.number().min(0).optional(),
+  tipAmount: z.number().min(0).optional(),
+  deliveryFee: z.number().min(0).optional(),
+  totalAmount: z.number().min(0),
+  paymentMethod: z.string().optional(),
+  paymentStatus: z.enum(['pending', 'paid']).optional(),
+});
+
+export type SyncOrderRequest = z.infer<typeof SyncOrderSchema>;
+
+export const SyncOrdersSchema = z.object({
+  orders: z.array(SyncOrderSchema).min(1).max(100),
+});
+
+export type SyncOrdersRequest = z.infer<typeof SyncOrdersSchema>;
+
 // Update order
 export const UpdateOrderSchema = z.object({
   status: OrderStatusSchema.optional(),
@@ -640,6 +903,15 @@ export const UpdateOrderSchema = z.object({
 
 export type UpdateOrderRequest = z.infer<typeof UpdateOrderSchema>;
 
+// Update order status (shorthand)
+export const UpdateOrderStatusSchema = z.object({
+  status: OrderStatusSchema,
+  reason: z.string().optional(),
+  cancellationReason: z.string().optional(),
+});
+
+export type UpdateOrderStatusRequest = z.infer<typeof UpdateOrderStatusSchema>;
+
 // Update order item status
 export const UpdateOrderItemStatusSchema = z.object({
   status: z.enum(['pending', 'preparing', 'ready', 'served']),
@@ -659,6 +931,11 @@ export const OrderItemResponseSchema = z.object({
   modifiersTotal: z.number(),
   totalPrice: z.number(),
   specialRequests: z.string().nullable(),
+  stationId: z.string().nullable(),
+  taxCategory: z.string().nullable(),
+  taxRuleId: z.string().nullable(),
+  taxRate: z.number().nullable(),
+  taxAmount: z.number().nullable(),
   status: z.string(),
   preparedAt: z.string().nullable(),
   servedAt: z.string().nullable(),
@@ -668,11 +945,39 @@ export const OrderItemResponseSchema = z.object({
 
 export type OrderItemResponse = z.infer<typeof OrderItemResponseSchema>;
 
+// Discount applied to an order by a promotion
+export const OrderPromotionResponseSchema = z.object({
+  id: z.string(),
+  orderId: z.string(),
+  promotionId: z.string().nullable(),
+  kind: z.enum(['promotion', 'loyalty']),
+  name: z.string(),
+  code: z.string().nullable(),
+  discountAmount: z.number(),
+  pointsRedeemed: z.number().nullable(),
+  createdAt: z.string(),
+});
+
+export type OrderPromotionResponse = z.infer<typeof OrderPromotionResponseSchema>;
+
+// Tax charged on an order under one rule (taxRuleId null for the business's default rate)
+export const OrderTaxSchema = z.object({
+  taxRuleId: z.string().nullable(),
+  name: z.string(),
+  rate: z.number(),
+  taxableAmount: z.number(),
+  taxAmount: z.number(),
+});
+
+export type OrderTax = z.infer<typeof OrderTaxSchema>;
+
 // Order response
 export const OrderResponseSchema = z.object({
   id: z.string(),
   businessId: z.string(),
   orderNumber: z.string(),
+  ticketNumber: z.number().nullable(), // short number for pickup screens
+  clientOrderId: z.string().nullable(), // set on orders uploaded by offline POS sync
   orderType: z.string(),
   customerUserId: z.string().nullable(),
   customerName: z.string(),
@@ -683,10 +988,16 @@ export const OrderResponseSchema = z.object({
   deliveryAddress: z.string().nullable(),
   deliveryNotes: z.string().nullable(),
   deliveryFee: z.number().nullable(),
+  deliveryZoneId: z.string().nullable(),
+  deliveryLatitude: z.number().nullable(),
+  deliveryLongitude: z.number().nullable(),
   scheduledFor: z.string().nullable(),
+  fireAt: z.string().nullable(), // when a scheduled order is released to the kitchen
   estimatedReady: z.string().nullable(),
   subtotal: z.number(),
   taxAmount: z.number(),
+  taxInclusive: z.boolean(), // taxAmount is included in subtotal rather than added to it
+  taxBreakdown: z.array(OrderTaxSchema).nullable(),
   tipAmount: z.number(),
   discountAmount: z.number(),
   totalAmount: z.number(),
@@ -694,6 +1005,8 @@ export const OrderResponseSchema = z.object({
   paymentMethod: z.string().nullable(),
   paymentReference: z.string().nullable(),
   paidAt: z.string().nullable(),
+  stripePaymentIntentId: z.string().nullable(),
+  refundedAmount: z.number(),
   status: z.string(),
   confirmedAt: z.string().nullable(),
   preparingAt: z.string().nullable(),
@@ -701,12 +1014,14 @@ export const OrderResponseSchema = z.object({
   completedAt: z.string().nullable(),
   cancelledAt: z.string().nullable(),
   cancellationReason: z.string().nullable(),
+  refundedAt: z.string().nullable(),
   source: z.string(),
   specialInstructions: z.string().nullable(),
   internalNotes: z.string().nullable(),
   createdAt: z.string(),
   updatedAt: z.string(),
   items: z.array(OrderItemResponseSchema).optional(),
+  promotions: z.array(OrderPromotionResponseSchema).optional(),
   table: z.object({
     id: z.string(),
     tableNumber: z.string(),
@@ -726,6 +1041,338 @@ export const OrderListItemSchema = OrderResponseSchema.omit({
 
 export type OrderListItem = z.infer<typeof OrderListItemSchema>;
 
+// Order status history entry
+export const OrderStatusHistoryResponseSchema = z.object({
+  id: z.string(),
+  orderId: z.string(),
+  businessId: z.string(),
+  fromStatus: OrderStatusSchema.nullable(),
+  toStatus: OrderStatusSchema,
+  changedBy: z.string().nullable(),
+  reason: z.string().nullable(),
+  createdAt: z.string(),
+});
+
+export type OrderStatusHistoryResponse = z.infer<typeof OrderStatusHistoryResponseSchema>;
+
+// Create order refund
+// Refunds `amount`, or the given line items, or with neither the whole remaining balance
+export const CreateOrderRefundSchema = z.object({
+  amount: z.number().positive().optional(),
+  items: z.array(z.object({
+    orderItemId: z.string(),
+    quantity: z.number().int().min(1).optional(), // defaults to all units not yet refunded
+  })).min(1).optional(),
+  reason: z.string().optional(),
+}).refine(data => data.amount === undefined || data.items === undefined, {
+  message: 'Provide either amount or items, not both',
+});
+
+export type CreateOrderRefundRequest = z.infer<typeof CreateOrderRefundSchema>;
+
+// Order refund response
+export const OrderRefundResponseSchema = z.object({
+  id: z.string(),
+  orderId: z.string(),
+  businessId: z.string(),
+  amount: z.number(),
+  method: z.enum(['stripe', 'cash']),
+  status: z.enum(['pending', 'succeeded', 'failed']),
+  reason: z.string().nullable(),
+  items: z.array(z.object({
+    orderItemId: z.string(),
+    quantity: z.number(),
+    amount: z.number(),
+  })).nullable(),
+  stripeRefundId: z.string().nullable(),
+  pointsReversed: z.number(),
+  createdBy: z.string().nullable(),
+  createdAt: z.string(),
+});
+
+export type OrderRefundResponse = z.infer<typeof OrderRefundResponseSchema>;
+
+// ============================================
+// Promotion Schemas
+// ============================================
+
+export const PromotionDiscountTypeSchema = z.enum(['percent', 'fixed', 'bogo']);
+export const PromotionScopeSchema = z.enum(['order', 'category', 'item']);
+
+const PromotionFieldsSchema = z.object({
+  name: z.string().min(1).max(100),
+  description: z.string().max(500).optional(),
+  code: z.string().regex(/^[A-Za-z0-9_-]{3,32}$/).nullable().optional(), // omit for an automatic promotion
+  discountType: PromotionDiscountTypeSchema,
+  discountValue: z.number().min(0), // percent, amount, or bogo percent off (default 100)
+  scope: PromotionScopeSchema.optional(),
+  categoryIds: z.array(z.string()).optional(),
+  menuItemIds: z.array(z.string()).optional(),
+  buyQuantity: z.number().int().min(1).optional(),
+  getQuantity: z.number().int().min(1).optional(),
+  minSubtotal: z.number().min(0).nullable().optional(),
+  stackable: z.boolean().optional(),
+  startsAt: z.string().nullable().optional(), // ISO date string
+  endsAt: z.string().nullable().optional(),
+  usageLimit: z.number().int().min(1).nullable().optional(),
+  // Happy hour
+  daysOfWeek: z.array(z.number().int().min(0).max(6)).nullable().optional(),
+  startTime: z.string().nullable().optional(), // "HH:mm"
+  endTime: z.string().nullable().optional(),
+  hoursAnchor: z.enum(['open', 'close']).nullable().optional(), // window relative to business hours
+  anchorOffsetMinutes: z.number().int().min(0).optional(),
+  durationMinutes: z.number().int().min(1).nullable().optional(),
+  isActive: z.boolean().optional(),
+});
+
+// Create promotion
+export const CreatePromotionSchema = PromotionFieldsSchema.superRefine((data, ctx) => {
+  if (data.discountType === 'percent' && (data.discountValue <= 0 || data.discountValue > 100)) {
+    ctx.addIssue({ code: 'custom', path: ['discountValue'], message: 'Percent discounts must be between 0 and 100' });
+  }
+  if (data.discountType === 'fixed' && data.discountValue <= 0) {
+    ctx.addIssue({ code: 'custom', path: ['discountValue'], message: 'Fixed discounts must be greater than 0' });
+  }
+  if (data.discountType === 'bogo' && data.discountValue > 100) {
+    ctx.addIssue({ code: 'custom', path: ['discountValue'], message: 'BOGO discounts are a percent off, up to 100' });
+  }
+  if (data.scope === 'category' && !data.categoryIds?.length) {
+    ctx.addIssue({ code: 'custom', path: ['categoryIds'], message: 'Category promotions need at least one category' });
+  }
+  if (data.scope === 'item' && !data.menuItemIds?.length) {
+    ctx.addIssue({ code: 'custom', path: ['menuItemIds'], message: 'Item promotions need at least one menu item' });
+  }
+  if (data.hoursAnchor && (data.startTime || data.endTime)) {
+    ctx.addIssue({ code: 'custom', path: ['hoursAnchor'], message: 'Use either fixed times or hoursAnchor, not both' });
+  }
+  if (data.startsAt && data.endsAt && new Date(data.startsAt) >= new Date(data.endsAt)) {
+    ctx.addIssue({ code: 'custom', path: ['endsAt'], message: 'endsAt must be after startsAt' });
+  }
+});
+
+export type CreatePromotionRequest = z.infer<typeof CreatePromotionSchema>;
+
+// Update promotion (the merged promotion is re-validated against CreatePromotionSchema)
+export const UpdatePromotionSchema = PromotionFieldsSchema.partial();
+export type UpdatePromotionRequest = z.infer<typeof UpdatePromotionSchema>;
+
+// Promotion response
+export const PromotionResponseSchema = z.object({
+  id: z.string(),
+  businessId: z.string(),
+  name: z.string(),
+  description: z.string().nullable(),
+  code: z.string().nullable(),
+  discountType: PromotionDiscountTypeSchema,
+  discountValue: z.number(),
+  scope: PromotionScopeSchema,
+  categoryIds: z.array(z.string()),
+  menuItemIds: z.array(z.string()),
+  buyQuantity: z.number(),
+  getQuantity: z.number(),
+  minSubtotal: z.number().nullable(),
+  stackable: z.boolean(),
+  startsAt: z.string().nullable(),
+  endsAt: z.string().nullable(),
+  usageLimit: z.number().nullable(),
+  usageCount: z.number(),
+  daysOfWeek: z.array(z.number()).nullable(),
+  startTime: z.string().nullable(),
+  endTime: z.string().nullable(),
+  hoursAnchor: z.enum(['open', 'close']).nullable(),
+  anchorOffsetMinutes: z.number(),
+  durationMinutes: z.number().nullable(),
+  isActive: z.boolean(),
+  createdAt: z.string(),
+  updatedAt: z.string(),
+});
+
+export type PromotionResponse = z.infer<typeof PromotionResponseSchema>;
+
+// ============================================
+// Tax Schemas
+// ============================================
+
+const TaxRuleFieldsSchema = z.object({
+  name: z.string().min(1).max(100),
+  taxCategory: TaxCategorySchema.nullable().optional(), // omit for every category
+  orderType: OrderTypeSchema.nullable().optional(), // omit for every order type
+  rate: z.number().min(0).max(1),
+  isActive: z.boolean().optional(),
+});
+
+// Create tax rule
+export const CreateTaxRuleSchema = TaxRuleFieldsSchema;
+export type CreateTaxRuleRequest = z.infer<typeof CreateTaxRuleSchema>;
+
+// Update tax rule
+export const UpdateTaxRuleSchema = TaxRuleFieldsSchema.partial();
+export type UpdateTaxRuleRequest = z.infer<typeof UpdateTaxRuleSchema>;
+
+// Tax rule response
+export const TaxRuleResponseSchema = z.object({
+  id: z.string(),
+  businessId: z.string(),
+  name: z.string(),
+  taxCategory: TaxCategorySchema.nullable(),
+  orderType: OrderTypeSchema.nullable(),
+  rate: z.number(),
+  isActive: z.boolean(),
+  createdAt: z.string(),
+  updatedAt: z.string(),
+});
+
+export type TaxRuleResponse = z.infer<typeof TaxRuleResponseSchema>;
+
+// ============================================
+// Delivery Zone Schemas
+// ============================================
+
+// GeoJSON positions are [longitude, latitude]; rings are closed (first = last)
+const PositionSchema = z.tuple([z.number().min(-180).max(180), z.number().min(-90).max(90)]);
+const LinearRingSchema = z.array(PositionSchema).min(4);
+
+export const PolygonGeometrySchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('Polygon'), coordinates: z.array(LinearRingSchema).min(1) }),
+  z.object({ type: z.literal('MultiPolygon'), coordinates: z.array(z.array(LinearRingSchema).min(1)).min(1) }),
+]);
+
+export type PolygonGeometry = z.infer<typeof PolygonGeometrySchema>;
+
+export const DeliveryZoneTypeSchema = z.enum(['radius', 'polygon']);
+
+const DeliveryZoneFieldsSchema = z.object({
+  name: z.string().min(1).max(100),
+  zoneType: DeliveryZoneTypeSchema,
+  radiusKm: z.number().positive().nullable().optional(), // radius zones
+  polygon: PolygonGeometrySchema.nullable().optional(), // polygon zones
+  fee: z.number().min(0),
+  minimumOrder: z.number().min(0).optional(),
+  estimatedMinutes: z.number().int().min(1).nullable().optional(),
+  displayOrder: z.number().int().optional(),
+  isActive: z.boolean().optional(),
+});
+
+// Create delivery zone
+export const CreateDeliveryZoneSchema = DeliveryZoneFieldsSchema.superRefine((data, ctx) => {
+  if (data.zoneType === 'radius' && !data.radiusKm) {
+    ctx.addIssue({ code: 'custom', path: ['radiusKm'], message: 'Radius zones need radiusKm' });
+  }
+  if (data.zoneType === 'polygon' && !data.polygon) {
+    ctx.addIssue({ code: 'custom', path: ['polygon'], message: 'Polygon zones need a GeoJSON polygon' });
+  }
+});
+
+export type CreateDeliveryZoneRequest = z.infer<typeof CreateDeliveryZoneSchema>;
+
+// Update delivery zone (the merged zone is re-validated against CreateDeliveryZoneSchema)
+export const UpdateDeliveryZoneSchema = DeliveryZoneFieldsSchema.partial();
+export type UpdateDeliveryZoneRequest = z.infer<typeof UpdateDeliveryZoneSchema>;
+
+// Delivery zone response
+export const DeliveryZoneResponseSchema = z.object({
+  id: z.string(),
+  businessId: z.string(),
+  name: z.string(),
+  zoneType: DeliveryZoneTypeSchema,
+  radiusKm: z.number().nullable(),
+  polygon: PolygonGeometrySchema.nullable(),
+  fee: z.number(),
+  minimumOrder: z.number(),
+  estimatedMinutes: z.number().nullable(),
+  displayOrder: z.number(),
+  isActive: z.boolean(),
+  createdAt: z.string(),
+  updatedAt: z.string(),
+});
+
+export type DeliveryZoneResponse = z.infer<typeof DeliveryZoneResponseSchema>;
+
+// Delivery quote request (public, before checkout)
+export const DeliveryQuoteSchema = z.object({
+  location: DeliveryLocationSchema,
+  subtotal: z.number().min(0).optional(), // checked against the zone's minimum when given
+});
+
+export type DeliveryQuoteRequest = z.infer<typeof DeliveryQuoteSchema>;
+
+// Delivery quote response
+export const DeliveryQuoteResponseSchema = z.object({
+  zoneId: z.string().nullable(),
+  zoneName: z.string().nullable(),
+  fee: z.number(),
+  minimumOrder: z.number(),
+  estimatedMinutes: z.number().nullable(),
+  distanceKm: z.number().nullable(),
+});
+
+export type DeliveryQuoteResponse = z.infer<typeof DeliveryQuoteResponseSchema>;
+
+// ============================================
+// Kitchen Display (KDS) Schemas
+// ============================================
+
+// Kitchen station type enum
+export const KitchenStationTypeSchema = z.enum(['grill', 'fry', 'cold', 'bar', 'prep', 'expo', 'other']);
+export type KitchenStationType = z.infer<typeof KitchenStationTypeSchema>;
+
+// Create kitchen station
+export const CreateKitchenStationSchema = z.object({
+  name: z.string().min(1).max(100),
+  stationType: KitchenStationTypeSchema.optional(),
+  displayOrder: z.number().int().optional(),
+  isActive: z.boolean().optional(),
+});
+
+export type CreateKitchenStationRequest = z.infer<typeof CreateKitchenStationSchema>;
+
+// Update kitchen station
+export const UpdateKitchenStationSchema = CreateKitchenStationSchema.partial();
+export type UpdateKitchenStationRequest = z.infer<typeof UpdateKitchenStationSchema>;
+
+// Kitchen station response
+export const KitchenStationResponseSchema = z.object({
+  id: z.string(),
+  businessId: z.string(),
+  name: z.string(),
+  stationType: KitchenStationTypeSchema,
+  displayOrder: z.number(),
+  isActive: z.boolean(),
+  createdAt: z.string(),
+  updatedAt: z.string(),
+});
+
+export type KitchenStationResponse = z.infer<typeof KitchenStationResponseSchema>;
+
+// KDS ticket (one order's items at a station)
+export const KdsTicketSchema = z.object({
+  orderId: z.string(),
+  orderNumber: z.string(),
+  orderType: z.string(),
+  orderStatus: z.string(),
+  customerName: z.string(),
+  specialInstructions: z.string().nullable(),
+  table: z.object({
+    id: z.string(),
+    tableNumber: z.string(),
+    section: z.string().nullable(),
+  }).nullable(),
+  createdAt: z.string(),
+  ageSeconds: z.number(),
+  items: z.array(OrderItemResponseSchema),
+});
+
+export type KdsTicket = z.infer<typeof KdsTicketSchema>;
+
+// KDS "all day" count (outstanding quantity per item)
+export const KdsAllDayCountSchema = z.object({
+  menuItemId: z.string().nullable(),
+  itemName: z.string(),
+  quantity: z.number(),
+});
+
+export type KdsAllDayCount = z.infer<typeof KdsAllDayCountSchema>;
+
 // ============================================
 // Customer CRM Schemas
 // ============================================
@@ -870,6 +1517,8 @@ export const LoyaltyPointsResponseSchema = z.object({
   lifetimeEarned: z.number(),
   lifetimeRedeemed: z.number(),
   tier: z.string(),
+  tierReviewedAt: z.string().nullable(),
+  tierGraceUntil: z.string().nullable(), // tier is kept until then despite not requalifying
   createdAt: z.string(),
   updatedAt: z.string(),
 });
@@ -922,6 +1571,8 @@ export const LoyaltySettingsResponseSchema = z.object({
   maxRedemptionPercent: z.number(),
   tierThresholds: z.record(z.string(), z.number()).nullable(),
   pointsExpireDays: z.number().nullable(),
+  tierRequalifyMonths: z.number().nullable(),
+  tierGraceDays: z.number(),
   createdAt: z.string(),
   updatedAt: z.string(),
 });
@@ -939,10 +1590,24 @@ export const UpdateLoyaltySettingsSchema = z.object({
   maxRedemptionPercent: z.number().min(0).max(100).optional(),
   tierThresholds: z.record(z.string(), z.number()).optional(), // { silver: 500, gold: 1000, platinum: 2500 }
   pointsExpireDays: z.number().int().min(1).nullable().optional(),
+  // Requalify tiers yearly on points earned over this many months (null: tiers never drop)
+  tierRequalifyMonths: z.number().int().min(1).max(36).nullable().optional(),
+  tierGraceDays: z.number().int().min(0).optional(),
 });
 
 export type UpdateLoyaltySettingsRequest = z.infer<typeof UpdateLoyaltySettingsSchema>;
 
+// Expire points and requalify tiers now; a dry run only reports who would be affected
+export const RunLoyaltyMaintenanceSchema = z.object({
+  dryRun: z.boolean().optional(),
+  asOf: z.string().refine(v => !isNaN(Date.parse(v)), 'Invalid date').optional(), // ISO date string; dry runs only
+}).refine(data => !data.asOf || data.dryRun, {
+  message: 'asOf can only be used with dryRun',
+  path: ['asOf'],
+});
+
+export type RunLoyaltyMaintenanceRequest = z.infer<typeof RunLoyaltyMaintenanceSchema>;
+
 // Customer stats for a business
 export const CustomerStatsSchema = z.object({
   totalCustomers: z.number(),
@@ -972,6 +1637,7 @@ export const RevenueSummarySchema = z.object({
   avgOrderValue: z.number(),
   totalOrders: z.number(),
   totalTax: z.number(),
+  taxBreakdown: z.array(OrderTaxSchema.omit({ taxRuleId: true })),
   totalTips: z.number(),
   totalDiscounts: z.number(),
   paidAmount: z.number(),
@@ -994,6 +1660,26 @@ export const RevenueTimeSeriesSchema = z.object({
 
 export type RevenueTimeSeries = z.infer<typeof RevenueTimeSeriesSchema>;
 
+// Promotion Analytics
+export const PromotionPerformanceSchema = z.object({
+  promotionId: z.string().nullable(), // null once the promotion is deleted
+  name: z.string(),
+  code: z.string().nullable(),
+  orders: z.number(),
+  discountCost: z.number(),
+  avgDiscount: z.number(),
+  revenue: z.number(),
+});
+
+export type PromotionPerformance = z.infer<typeof PromotionPerformanceSchema>;
+
+export const PromotionAnalyticsSchema = z.object({
+  totalDiscountCost: z.number(),
+  promotions: z.array(PromotionPerformanceSchema),
+});
+
+export type PromotionAnalytics = z.infer<typeof PromotionAnalyticsSchema>;
+
 // Order Analytics
 export const OrderAnalyticsSummarySchema = z.object({
   totalOrders: z.number(),
@@ -0,0 +1,120 @@
+/**
+ * Waitlist wait estimates and ordering.
+ * Pure functions; times are minutes since midnight, like the availability engine.
+ */
+
+import { optionFits, reservationWindow, windowsOverlap, TABLE_HOLDING_STATUSES } from './availability';
+import type { BookedReservation, SeatingOption } from './availability';
+
+export type WaitlistParty = {
+  id: string;
+  partySize: number;
+};
+
+// Quotes are rounded up to this many minutes
+const QUOTE_ROUNDING_MINUTES = 5;
+
+function roundQuote(minutes: number): number {
+  return Math.ceil(minutes / QUOTE_ROUNDING_MINUTES) * QUOTE_ROUNDING_MINUTES;
+}
+
+/**
+ * Earliest time from `from` that a table is free for `duration` minutes,
+ * stepping past the reservations booked on it.
+ */
+function nextFreeStart(from: number, duration: number, bookings: Array<[number, number]>): number {
+  let start = from;
+  for (const booking of [...bookings].sort((a, b) => a[0] - b[0])) {
+    if (windowsOverlap([start, start + duration], booking)) {
+      start = booking[1];
+    }
+  }
+  return start;
+}
+
+/**
+ * Estimate the wait for each party in the queue, in queue order.
+ *
+ * Tables held by seated parties free up when their planned duration ends
+ * (or now, if they are running over); tables assigned to upcoming
+ * reservations are blocked for those bookings. Each party ahead then takes
+ * the fitting option that frees up first and holds it for `turnMinutes`.
+ * A party no option can seat gets `null`.
+ */
+export function estimateWaits(params: {
+  options: SeatingOption[];
+  reservations: BookedReservation[];
+  queue: WaitlistParty[];
+  nowMinutes: number;
+  turnMinutes: number;
+}): Map<string, number | null> {
+  const { options, nowMinutes, turnMinutes } = params;
+
+  // Per table: when it frees up and the upcoming bookings it must stay clear for
+  const freeAt = new Map<string, number>();
+  const bookings = new Map<string, Array<[number, number]>>();
+
+  for (const reservation of params.reservations) {
+    if (!TABLE_HOLDING_STATUSES.includes(reservation.status)) continue;
+    const window = reservationWindow(reservation, nowMinutes);
+
+    for (const tableId of reservation.tableIds) {
+      if (reservation.status === 'seated') {
+        freeAt.set(tableId, Math.max(freeAt.get(tableId) ?? nowMinutes, window[1]));
+      } else if (window[1] > nowMinutes) {
+        bookings.set(tableId, [...(bookings.get(tableId) ?? []), window]);
+      }
+    }
+  }
+
+  const optionStart = (option: SeatingOption) => {
+    // All tables in a combination must be free at once
+    let start = Math.max(nowMinutes, ...option.tableIds.map(id => freeAt.get(id) ?? nowMinutes));
+    for (let settled = false; !settled;) {
+      settled = true;
+      for (const id of option.tableIds) {
+        const next = nextFreeStart(start, turnMinutes, bookings.get(id) ?? []);
+        if (next > start) {
+          start = next;
+          settled = false;
+        }
+      }
+    }
+    return start;
+  };
+
+  const waits = new Map<string, number | null>();
+
+  for (const party of params.queue) {
+    let best: { option: SeatingOption; start: number } | null = null;
+    for (const option of options) {
+      if (!optionFits(option, party.partySize)) continue;
+      const start = optionStart(option);
+      if (!best || start < best.start || (start === best.start && option.capacityMax < best.option.capacityMax)) {
+        best = { option, start };
+      }
+    }
+
+    if (!best) {
+      waits.set(party.id, null);
+      continue;
+    }
+
+    waits.set(party.id, roundQuote(best.start - nowMinutes));
+    for (const id of best.option.tableIds) {
+      freeAt.set(id, best.start + turnMinutes);
+    }
+  }
+
+  return waits;
+}
+
+/**
+ * Move one entry to a new zero-based index in the queue, returning the new order.
+ */
+export function moveEntry(ids: string[], id: string, toIndex: number): string[] {
+  const rest = ids.filter(entryId => entryId !== id);
+  if (rest.length === ids.length) return ids;
+  const index = Math.min(Math.max(toIndex, 0), rest.length);
+  return [...rest.slice(0, index), id, ...rest.slice(index)];
+}
@@ -0,0 +1,19 @@
+-- Order status history: one row per status change (who, when, from, to, reason).
+-- Apply this migration in the Supabase SQL Editor or via supabase CLI.
+
+CREATE TABLE IF NOT EXISTS order_status_history (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id uuid NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
+  business_id uuid NOT NULL REFERENCES business_accounts(id) ON DELETE CASCADE,
+  from_status text,
+  to_status text NOT NULL,
+  changed_by uuid,
+  reason text,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS order_status_history_order_id_idx
+  ON order_status_history (order_id, created_at);
+
+-- Refund path after completion
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS refunded_at timestamptz;
@@ -0,0 +1,23 @@
+-- Kitchen prep stations for the KDS ticket feed.
+-- Categories and items can be routed to a station (item overrides category);
+-- the resolved station is snapshotted onto order_items when an order is placed.
+-- Apply this migration in the Supabase SQL Editor or via supabase CLI.
+
+CREATE TABLE IF NOT EXISTS kitchen_stations (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  business_id uuid NOT NULL REFERENCES business_accounts(id) ON DELETE CASCADE,
+  name text NOT NULL,
+  station_type text NOT NULL DEFAULT 'other',
+  display_order int NOT NULL DEFAULT 0,
+  is_active boolean NOT NULL DEFAULT true,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS kitchen_stations_business_id_idx ON kitchen_stations (business_id);
+
+ALTER TABLE menu_categories ADD COLUMN IF NOT EXISTS station_id uuid REFERENCES kitchen_stations(id) ON DELETE SET NULL;
+ALTER TABLE menu_items ADD COLUMN IF NOT EXISTS station_id uuid REFERENCES kitchen_stations(id) ON DELETE SET NULL;
+ALTER TABLE order_items ADD COLUMN IF NOT EXISTS station_id uuid REFERENCES kitchen_stations(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS order_items_station_status_idx ON order_items (station_id, status);
@@ -0,0 +1,91 @@
+-- Combinable table groups (e.g. T4+T5 seat 8) and table conflict protection.
+-- A reservation holds either a single table (table_id) or a combination
+-- (table_combination_id); the trigger rejects any active reservation whose
+-- tables overlap another active reservation's tables in time.
+-- Apply this migration in the Supabase SQL Editor or via supabase CLI.
+
+CREATE TABLE IF NOT EXISTS table_combinations (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  business_id uuid NOT NULL REFERENCES business_accounts(id) ON DELETE CASCADE,
+  name text NOT NULL,
+  table_ids uuid[] NOT NULL,
+  capacity_min int NOT NULL DEFAULT 1,
+  capacity_max int NOT NULL,
+  is_active boolean NOT NULL DEFAULT true,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS table_combinations_business_id_idx ON table_combinations (business_id);
+
+ALTER TABLE reservations ADD COLUMN IF NOT EXISTS table_combination_id uuid REFERENCES table_combinations(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS reservations_business_date_idx ON reservations (business_id, reservation_date);
+
+-- Tables held by a reservation
+CREATE OR REPLACE FUNCTION reservation_table_ids(
+  p_table_id uuid,
+  p_table_combination_id uuid
+)
+RETURNS uuid[]
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT CASE
+    WHEN p_table_combination_id IS NOT NULL THEN
+      COALESCE((SELECT table_ids FROM table_combinations WHERE id = p_table_combination_id), '{}')
+    WHEN p_table_id IS NOT NULL THEN ARRAY[p_table_id]
+    ELSE '{}'::uuid[]
+  END;
+$$;
+
+CREATE OR REPLACE FUNCTION prevent_reservation_table_conflict()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_table_ids uuid[];
+  v_start timestamp;
+  v_end timestamp;
+BEGIN
+  IF NEW.status NOT IN ('pending', 'confirmed', 'seated') THEN
+    RETURN NEW;
+  END IF;
+
+  v_table_ids := reservation_table_ids(NEW.table_id, NEW.table_combination_id);
+  IF cardinality(v_table_ids) = 0 THEN
+    RETURN NEW;
+  END IF;
+
+  -- Serialize assignments per business and day so concurrent bookings
+  -- cannot both pass the overlap check
+  PERFORM pg_advisory_xact_lock(hashtext(NEW.business_id::text || ':' || NEW.reservation_date::text));
+
+  v_start := NEW.reservation_date + NEW.reservation_time::time;
+  v_end := v_start + make_interval(mins => NEW.duration_minutes);
+
+  IF EXISTS (
+    SELECT 1
+    FROM reservations r
+    WHERE r.business_id = NEW.business_id
+      AND r.reservation_date = NEW.reservation_date
+      AND r.id <> NEW.id
+      AND r.status IN ('pending', 'confirmed', 'seated')
+      AND reservation_table_ids(r.table_id, r.table_combination_id) && v_table_ids
+      AND (r.reservation_date + r.reservation_time::time) < v_end
+      AND v_start < (r.reservation_date + r.reservation_time::time) + make_interval(mins => r.duration_minutes)
+  ) THEN
+    RAISE EXCEPTION 'Table is already reserved for an overlapping time'
+      USING ERRCODE = 'exclusion_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS reservations_table_conflict ON reservations;
+CREATE TRIGGER reservations_table_conflict
+  BEFORE INSERT OR UPDATE OF table_id, table_combination_id, reservation_date, reservation_time, duration_minutes, status
+  ON reservations
+  FOR EACH ROW
+  EXECUTE FUNCTION prevent_reservation_table_conflict();
@@ -0,0 +1,32 @@
+-- Waitlist for walk-ins and online requests for full slots.
+-- position orders the active queue for a business and day; an online entry
+-- is "offered" a slot when a reservation at its requested time is cancelled.
+-- Apply this migration in the Supabase SQL Editor or via supabase CLI.
+
+CREATE TABLE IF NOT EXISTS waitlist_entries (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  business_id uuid NOT NULL REFERENCES business_accounts(id) ON DELETE CASCADE,
+  customer_user_id uuid,
+  customer_name text NOT NULL,
+  customer_phone text,
+  customer_email text,
+  party_size int NOT NULL,
+  source text NOT NULL DEFAULT 'walk_in',
+  requested_date date NOT NULL DEFAULT current_date,
+  requested_time time,
+  seating_preference text,
+  notes text,
+  position int NOT NULL,
+  status text NOT NULL DEFAULT 'waiting',
+  quoted_wait_minutes int,
+  notified_at timestamptz,
+  offered_at timestamptz,
+  offer_expires_at timestamptz,
+  reservation_id uuid REFERENCES reservations(id) ON DELETE SET NULL,
+  seated_at timestamptz,
+  cancelled_at timestamptz,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS waitlist_entries_business_date_idx ON waitlist_entries (business_id, requested_date, status);
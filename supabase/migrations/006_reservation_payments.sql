@@ -0,0 +1,79 @@
+-- Reservation deposits and card-on-file no-show fees, charged on the
+-- business's Stripe Connect account.
+-- deposit: the guest pays deposit_amount up front; refunded if cancelled
+--   before the cancellation deadline, kept otherwise.
+-- card_on_file: the guest saves a card; deposit_amount is charged as a
+--   no-show fee if the reservation is marked no_show.
+-- Reservations awaiting payment are created as 'pending_payment' and hold
+-- their table like any other active reservation.
+-- Apply this migration in the Supabase SQL Editor or via supabase CLI.
+
+ALTER TABLE reservation_settings ADD COLUMN IF NOT EXISTS deposit_mode text NOT NULL DEFAULT 'deposit';
+
+CREATE TABLE IF NOT EXISTS reservation_payments (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  reservation_id uuid NOT NULL REFERENCES reservations(id) ON DELETE CASCADE,
+  business_id uuid NOT NULL REFERENCES business_accounts(id) ON DELETE CASCADE,
+  mode text NOT NULL,
+  status text NOT NULL DEFAULT 'requires_payment',
+  amount numeric(10, 2) NOT NULL,
+  currency text NOT NULL DEFAULT 'usd',
+  stripe_account_id text NOT NULL,
+  stripe_customer_id text,
+  stripe_payment_intent_id text,
+  stripe_setup_intent_id text,
+  stripe_payment_method_id text,
+  stripe_refund_id text,
+  no_show_payment_intent_id text,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS reservation_payments_reservation_id_idx ON reservation_payments (reservation_id);
+CREATE INDEX IF NOT EXISTS reservation_payments_payment_intent_idx ON reservation_payments (stripe_payment_intent_id);
+CREATE INDEX IF NOT EXISTS reservation_payments_setup_intent_idx ON reservation_payments (stripe_setup_intent_id);
+
+-- Reservations awaiting payment hold their table too
+CREATE OR REPLACE FUNCTION prevent_reservation_table_conflict()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_table_ids uuid[];
+  v_start timestamp;
+  v_end timestamp;
+BEGIN
+  IF NEW.status NOT IN ('pending_payment', 'pending', 'confirmed', 'seated') THEN
+    RETURN NEW;
+  END IF;
+
+  v_table_ids := reservation_table_ids(NEW.table_id, NEW.table_combination_id);
+  IF cardinality(v_table_ids) = 0 THEN
+    RETURN NEW;
+  END IF;
+
+  -- Serialize assignments per business and day so concurrent bookings
+  -- cannot both pass the overlap check
+  PERFORM pg_advisory_xact_lock(hashtext(NEW.business_id::text || ':' || NEW.reservation_date::text));
+
+  v_start := NEW.reservation_date + NEW.reservation_time::time;
+  v_end := v_start + make_interval(mins => NEW.duration_minutes);
+
+  IF EXISTS (
+    SELECT 1
+    FROM reservations r
+    WHERE r.business_id = NEW.business_id
+      AND r.reservation_date = NEW.reservation_date
+      AND r.id <> NEW.id
+      AND r.status IN ('pending_payment', 'pending', 'confirmed', 'seated')
+      AND reservation_table_ids(r.table_id, r.table_combination_id) && v_table_ids
+      AND (r.reservation_date + r.reservation_time::time) < v_end
+      AND v_start < (r.reservation_date + r.reservation_time::time) + make_interval(mins => r.duration_minutes)
+  ) THEN
+    RAISE EXCEPTION 'Table is already reserved for an overlapping time'
+      USING ERRCODE = 'exclusion_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
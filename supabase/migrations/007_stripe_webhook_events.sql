@@ -0,0 +1,17 @@
+-- Processed Stripe webhook events, so retried deliveries are applied once,
+-- and the Connect onboarding state reported by account.updated.
+-- Apply this migration in the Supabase SQL Editor or via supabase CLI.
+
+CREATE TABLE IF NOT EXISTS stripe_webhook_events (
+  id text PRIMARY KEY, -- Stripe event id (evt_...)
+  type text NOT NULL,
+  account text, -- Connect account the event came from, if any
+  received_at timestamptz NOT NULL DEFAULT now()
+);
+
+ALTER TABLE business_accounts ADD COLUMN IF NOT EXISTS stripe_charges_enabled boolean NOT NULL DEFAULT false;
+ALTER TABLE business_accounts ADD COLUMN IF NOT EXISTS stripe_payouts_enabled boolean NOT NULL DEFAULT false;
+ALTER TABLE business_accounts ADD COLUMN IF NOT EXISTS stripe_details_submitted boolean NOT NULL DEFAULT false;
+ALTER TABLE business_accounts ADD COLUMN IF NOT EXISTS stripe_account_updated_at timestamptz;
+
+CREATE INDEX IF NOT EXISTS orders_payment_reference_idx ON orders (payment_reference);
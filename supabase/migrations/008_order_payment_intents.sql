@@ -0,0 +1,7 @@
+-- Stripe PaymentIntent created for an order by POST /api/payments/create-payment-intent.
+-- Repeated calls for the same order reuse this intent instead of creating another.
+-- Apply this migration in the Supabase SQL Editor or via supabase CLI.
+
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS stripe_payment_intent_id text;
+
+CREATE UNIQUE INDEX IF NOT EXISTS orders_stripe_payment_intent_id_idx ON orders (stripe_payment_intent_id);
@@ -0,0 +1,26 @@
+-- Refund ledger for orders. Each row is one full, partial-amount or
+-- line-item refund, issued through Stripe or recorded as cash.
+-- orders.refunded_amount is the running total of pending and succeeded
+-- refunds; the order's payment_status becomes 'refunded' once it reaches
+-- total_amount.
+-- Apply this migration in the Supabase SQL Editor or via supabase CLI.
+
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS refunded_amount numeric(10, 2) NOT NULL DEFAULT 0;
+
+CREATE TABLE IF NOT EXISTS order_refunds (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id uuid NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
+  business_id uuid NOT NULL REFERENCES business_accounts(id) ON DELETE CASCADE,
+  amount numeric(10, 2) NOT NULL CHECK (amount > 0),
+  method text NOT NULL, -- 'stripe' | 'cash'
+  status text NOT NULL DEFAULT 'pending', -- 'pending' | 'succeeded' | 'failed'
+  reason text,
+  items jsonb, -- [{ orderItemId, quantity, amount }] for line-item refunds
+  stripe_refund_id text,
+  points_reversed integer NOT NULL DEFAULT 0,
+  created_by uuid,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS order_refunds_order_id_idx ON order_refunds (order_id);
+CREATE INDEX IF NOT EXISTS order_refunds_business_id_idx ON order_refunds (business_id, created_at);
@@ -0,0 +1,78 @@
+-- Promotions: percent, fixed and buy-X-get-Y discounts on a whole order,
+-- a set of categories or a set of menu items. Promotions with a code are
+-- applied when the customer enters it; the rest apply automatically.
+-- Happy hours are limited to days of the week and a window, given either
+-- as fixed times or relative to the day's business_hours.
+-- order_promotions records what each order was discounted and by which promotion.
+-- Apply this migration in the Supabase SQL Editor or via supabase CLI.
+
+CREATE TABLE IF NOT EXISTS promotions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  business_id uuid NOT NULL REFERENCES business_accounts(id) ON DELETE CASCADE,
+  name text NOT NULL,
+  description text,
+  code text, -- stored uppercase; null for automatic promotions
+  discount_type text NOT NULL, -- 'percent' | 'fixed' | 'bogo'
+  discount_value numeric(10, 2) NOT NULL DEFAULT 0,
+  scope text NOT NULL DEFAULT 'order', -- 'order' | 'category' | 'item'
+  category_ids uuid[] NOT NULL DEFAULT '{}',
+  menu_item_ids uuid[] NOT NULL DEFAULT '{}',
+  buy_quantity integer NOT NULL DEFAULT 1,
+  get_quantity integer NOT NULL DEFAULT 1,
+  min_subtotal numeric(10, 2),
+  stackable boolean NOT NULL DEFAULT false,
+  starts_at timestamptz,
+  ends_at timestamptz,
+  usage_limit integer,
+  usage_count integer NOT NULL DEFAULT 0,
+  days_of_week smallint[],
+  start_time time,
+  end_time time,
+  hours_anchor text, -- 'open' | 'close'
+  anchor_offset_minutes integer NOT NULL DEFAULT 0,
+  duration_minutes integer,
+  is_active boolean NOT NULL DEFAULT true,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS promotions_business_id_idx ON promotions (business_id);
+CREATE UNIQUE INDEX IF NOT EXISTS promotions_business_code_idx ON promotions (business_id, upper(code)) WHERE code IS NOT NULL;
+
+CREATE TABLE IF NOT EXISTS order_promotions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id uuid NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
+  promotion_id uuid REFERENCES promotions(id) ON DELETE SET NULL,
+  business_id uuid NOT NULL REFERENCES business_accounts(id) ON DELETE CASCADE,
+  name text NOT NULL, -- snapshot, so reports survive the promotion being deleted
+  code text,
+  discount_amount numeric(10, 2) NOT NULL,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS order_promotions_order_id_idx ON order_promotions (order_id);
+CREATE INDEX IF NOT EXISTS order_promotions_business_id_idx ON order_promotions (business_id, created_at);
+
+-- Count one use of a promotion unless it has reached its usage limit
+CREATE OR REPLACE FUNCTION claim_promotion_usage(p_promotion_id uuid)
+RETURNS boolean
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  UPDATE promotions
+  SET usage_count = usage_count + 1, updated_at = now()
+  WHERE id = p_promotion_id
+    AND is_active
+    AND (usage_limit IS NULL OR usage_count < usage_limit);
+  RETURN FOUND;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION release_promotion_usage(p_promotion_id uuid)
+RETURNS void
+LANGUAGE sql
+AS $$
+  UPDATE promotions
+  SET usage_count = GREATEST(usage_count - 1, 0), updated_at = now()
+  WHERE id = p_promotion_id;
+$$;
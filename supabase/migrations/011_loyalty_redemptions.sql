@@ -0,0 +1,11 @@
+-- Loyalty redemptions at checkout: points spent on an order are recorded as
+-- a discount line in order_promotions (kind 'loyalty', no promotion_id) next
+-- to the promotions applied to it. The 'redeemed' loyalty_transactions row
+-- carries the order_id, so the points can be given back if it's cancelled.
+-- Apply this migration in the Supabase SQL Editor or via supabase CLI.
+
+ALTER TABLE order_promotions
+  ADD COLUMN IF NOT EXISTS kind text NOT NULL DEFAULT 'promotion', -- 'promotion' | 'loyalty'
+  ADD COLUMN IF NOT EXISTS points_redeemed integer;
+
+CREATE INDEX IF NOT EXISTS loyalty_transactions_order_id_idx ON loyalty_transactions (order_id);
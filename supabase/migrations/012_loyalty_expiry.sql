@@ -0,0 +1,15 @@
+-- Loyalty upkeep: points expire points_expire_days after they were earned,
+-- and tiers can be requalified once a year on the points earned over the
+-- last tier_requalify_months, with tier_grace_days to earn a tier back
+-- before it drops. The daily job writes 'expired' loyalty_transactions.
+-- Apply this migration in the Supabase SQL Editor or via supabase CLI.
+
+ALTER TABLE loyalty_settings
+  ADD COLUMN IF NOT EXISTS tier_requalify_months integer, -- null: tiers are kept for good
+  ADD COLUMN IF NOT EXISTS tier_grace_days integer NOT NULL DEFAULT 0;
+
+ALTER TABLE loyalty_points
+  ADD COLUMN IF NOT EXISTS tier_reviewed_at timestamptz,
+  ADD COLUMN IF NOT EXISTS tier_grace_until timestamptz;
+
+CREATE INDEX IF NOT EXISTS loyalty_transactions_business_created_idx ON loyalty_transactions (business_id, created_at);
@@ -0,0 +1,253 @@
+-- Atomic loyalty ledger: every change to a loyalty_points balance goes
+-- through one of these functions, which lock the member's row, apply the
+-- change and write the matching loyalty_transactions row in one transaction.
+-- A member's points_balance should always equal the sum of their
+-- transactions; reconcile_loyalty_balances reports where it doesn't.
+-- Errors are raised as INSUFFICIENT_POINTS or NOT_FOUND.
+-- Apply this migration in the Supabase SQL Editor or via supabase CLI.
+
+-- One loyalty record per customer (get-or-create relies on it)
+CREATE UNIQUE INDEX IF NOT EXISTS loyalty_points_customer_id_key ON loyalty_points (customer_id);
+CREATE INDEX IF NOT EXISTS loyalty_transactions_loyalty_points_id_idx ON loyalty_transactions (loyalty_points_id);
+
+-- Lock a customer's loyalty record, creating it if needed
+CREATE OR REPLACE FUNCTION lock_loyalty_points(p_customer_id uuid, p_business_id uuid)
+RETURNS loyalty_points
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_row loyalty_points;
+BEGIN
+  INSERT INTO loyalty_points (customer_id, business_id)
+  VALUES (p_customer_id, p_business_id)
+  ON CONFLICT (customer_id) DO NOTHING;
+
+  SELECT * INTO v_row FROM loyalty_points WHERE customer_id = p_customer_id FOR UPDATE;
+  RETURN v_row;
+END;
+$$;
+
+-- Apply a change to a locked loyalty record and write it to the ledger
+CREATE OR REPLACE FUNCTION apply_loyalty_transaction(
+  p_row loyalty_points,
+  p_type text,
+  p_points integer,
+  p_order_id uuid,
+  p_description text,
+  p_processed_by uuid,
+  p_lifetime_earned_delta integer DEFAULT 0,
+  p_lifetime_redeemed_delta integer DEFAULT 0
+)
+RETURNS loyalty_points
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_balance integer := COALESCE(p_row.points_balance, 0) + p_points;
+  v_row loyalty_points;
+BEGIN
+  IF v_balance < 0 THEN
+    RAISE EXCEPTION 'INSUFFICIENT_POINTS';
+  END IF;
+
+  UPDATE loyalty_points
+  SET points_balance = v_balance,
+      lifetime_earned = GREATEST(COALESCE(lifetime_earned, 0) + p_lifetime_earned_delta, 0),
+      lifetime_redeemed = GREATEST(COALESCE(lifetime_redeemed, 0) + p_lifetime_redeemed_delta, 0),
+      updated_at = now()
+  WHERE id = p_row.id
+  RETURNING * INTO v_row;
+
+  INSERT INTO loyalty_transactions (
+    loyalty_points_id, business_id, transaction_type, points, balance_after, order_id, description, processed_by
+  ) VALUES (
+    p_row.id, p_row.business_id, p_type, p_points, v_balance, p_order_id, p_description, p_processed_by
+  );
+
+  RETURN v_row;
+END;
+$$;
+
+-- Points earned on an order. Awarding the same order twice is a no-op
+-- (returns NULL).
+CREATE OR REPLACE FUNCTION earn_loyalty_points(
+  p_customer_id uuid,
+  p_business_id uuid,
+  p_points integer,
+  p_order_id uuid,
+  p_description text
+)
+RETURNS loyalty_points
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_row loyalty_points := lock_loyalty_points(p_customer_id, p_business_id);
+BEGIN
+  IF p_order_id IS NOT NULL AND EXISTS (
+    SELECT 1 FROM loyalty_transactions
+    WHERE loyalty_points_id = v_row.id AND order_id = p_order_id AND transaction_type = 'earned'
+  ) THEN
+    RETURN NULL;
+  END IF;
+
+  RETURN apply_loyalty_transaction(v_row, 'earned', p_points, p_order_id, p_description, NULL, p_points, 0);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION redeem_loyalty_points(
+  p_customer_id uuid,
+  p_business_id uuid,
+  p_points integer,
+  p_order_id uuid,
+  p_description text,
+  p_processed_by uuid
+)
+RETURNS loyalty_points
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_row loyalty_points := lock_loyalty_points(p_customer_id, p_business_id);
+BEGIN
+  RETURN apply_loyalty_transaction(v_row, 'redeemed', -p_points, p_order_id, p_description, p_processed_by, 0, p_points);
+END;
+$$;
+
+-- Manual adjustment: credits count as earned points, debits can't overdraw
+CREATE OR REPLACE FUNCTION adjust_loyalty_points(
+  p_customer_id uuid,
+  p_business_id uuid,
+  p_points integer,
+  p_description text,
+  p_processed_by uuid
+)
+RETURNS loyalty_points
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_row loyalty_points := lock_loyalty_points(p_customer_id, p_business_id);
+BEGIN
+  IF p_points > 0 THEN
+    RETURN apply_loyalty_transaction(v_row, 'earned', p_points, NULL, p_description, p_processed_by, p_points, 0);
+  END IF;
+  RETURN apply_loyalty_transaction(v_row, 'adjusted', p_points, NULL, p_description, p_processed_by, 0, 0);
+END;
+$$;
+
+-- Expire points, unless the balance has changed since the caller read it
+-- (returns NULL then, and the points are left for the next run)
+CREATE OR REPLACE FUNCTION expire_loyalty_points(
+  p_loyalty_points_id uuid,
+  p_points integer,
+  p_expected_balance integer,
+  p_description text
+)
+RETURNS loyalty_points
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_row loyalty_points;
+BEGIN
+  SELECT * INTO v_row FROM loyalty_points WHERE id = p_loyalty_points_id FOR UPDATE;
+  IF NOT FOUND OR COALESCE(v_row.points_balance, 0) <> p_expected_balance THEN
+    RETURN NULL;
+  END IF;
+
+  RETURN apply_loyalty_transaction(v_row, 'expired', -p_points, NULL, p_description, NULL, 0, 0);
+END;
+$$;
+
+-- Take back points earned on a refunded order. Points already spent can't
+-- be taken back, so at most the current balance is deducted; lifetime
+-- earned points drop by the full amount.
+CREATE OR REPLACE FUNCTION reverse_loyalty_points(
+  p_order_id uuid,
+  p_points integer,
+  p_description text
+)
+RETURNS loyalty_points
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_row loyalty_points;
+BEGIN
+  SELECT lp.* INTO v_row
+  FROM loyalty_points lp
+  JOIN loyalty_transactions lt ON lt.loyalty_points_id = lp.id
+  WHERE lt.order_id = p_order_id AND lt.transaction_type = 'earned'
+  LIMIT 1
+  FOR UPDATE OF lp;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'NOT_FOUND';
+  END IF;
+
+  RETURN apply_loyalty_transaction(
+    v_row, 'adjusted', -LEAST(p_points, COALESCE(v_row.points_balance, 0)), p_order_id, p_description, NULL, -p_points, 0
+  );
+END;
+$$;
+
+-- Give back the points redeemed on an order that haven't been given back
+-- yet. Returns NULL if there is nothing to restore.
+CREATE OR REPLACE FUNCTION restore_redeemed_points(
+  p_order_id uuid,
+  p_description text
+)
+RETURNS loyalty_points
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_row loyalty_points;
+  v_outstanding integer;
+BEGIN
+  SELECT lp.* INTO v_row
+  FROM loyalty_points lp
+  JOIN loyalty_transactions lt ON lt.loyalty_points_id = lp.id
+  WHERE lt.order_id = p_order_id AND lt.transaction_type = 'redeemed'
+  LIMIT 1
+  FOR UPDATE OF lp;
+
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT
+    COALESCE(SUM(-points) FILTER (WHERE transaction_type = 'redeemed'), 0)
+    - COALESCE(SUM(points) FILTER (WHERE transaction_type = 'adjusted' AND points > 0), 0)
+  INTO v_outstanding
+  FROM loyalty_transactions
+  WHERE loyalty_points_id = v_row.id AND order_id = p_order_id;
+
+  IF v_outstanding <= 0 THEN
+    RETURN NULL;
+  END IF;
+
+  RETURN apply_loyalty_transaction(v_row, 'adjusted', v_outstanding, p_order_id, p_description, NULL, 0, -v_outstanding);
+END;
+$$;
+
+-- Members whose stored balance differs from the sum of their ledger
+CREATE OR REPLACE FUNCTION reconcile_loyalty_balances(p_business_id uuid)
+RETURNS TABLE (
+  loyalty_points_id uuid,
+  customer_id uuid,
+  points_balance integer,
+  ledger_balance integer,
+  drift integer,
+  transaction_count integer
+)
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT
+    lp.id,
+    lp.customer_id,
+    COALESCE(lp.points_balance, 0),
+    COALESCE(SUM(lt.points), 0)::integer,
+    (COALESCE(lp.points_balance, 0) - COALESCE(SUM(lt.points), 0))::integer,
+    COUNT(lt.id)::integer
+  FROM loyalty_points lp
+  LEFT JOIN loyalty_transactions lt ON lt.loyalty_points_id = lp.id
+  WHERE lp.business_id = p_business_id
+  GROUP BY lp.id
+  HAVING COALESCE(lp.points_balance, 0) <> COALESCE(SUM(lt.points), 0);
+$$;
@@ -0,0 +1,16 @@
+-- Idempotency keys: the first response to a request sent with an
+-- Idempotency-Key header, replayed when a client retries it. Keys are
+-- scoped to the user ("<user id>:<key>") and expire after 24 hours.
+-- Apply this migration in the Supabase SQL Editor or via supabase CLI.
+
+CREATE TABLE IF NOT EXISTS idempotency_keys (
+  key text PRIMARY KEY,
+  fingerprint text NOT NULL, -- sha256 of method, path and body
+  response_status integer, -- null while the first request is running
+  response_headers jsonb,
+  response_body text,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  expires_at timestamptz NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idempotency_keys_expires_at_idx ON idempotency_keys (expires_at);
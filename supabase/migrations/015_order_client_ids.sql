@@ -0,0 +1,9 @@
+-- Offline POS sync: orders taken without a connection carry the id the
+-- tablet gave them, so uploading the same order twice creates it once.
+-- Apply this migration in the Supabase SQL Editor or via supabase CLI.
+
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS client_order_id uuid;
+
+CREATE UNIQUE INDEX IF NOT EXISTS orders_business_client_order_id_idx
+  ON orders (business_id, client_order_id)
+  WHERE client_order_id IS NOT NULL;
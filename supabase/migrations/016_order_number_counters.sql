@@ -0,0 +1,33 @@
+-- Order numbers from a per-business counter, incremented atomically so
+-- concurrent orders can't collide. The counter restarts each business day
+-- (period = the business-local date, YYYY-MM-DD) or runs continuously
+-- (period = 'all'). Businesses get an IANA timezone for the day rollover,
+-- and orders a short ticket number for pickup screens.
+-- Apply this migration in the Supabase SQL Editor or via supabase CLI.
+
+ALTER TABLE business_accounts
+  ADD COLUMN IF NOT EXISTS timezone text NOT NULL DEFAULT 'UTC',
+  ADD COLUMN IF NOT EXISTS order_number_prefix text NOT NULL DEFAULT '',
+  ADD COLUMN IF NOT EXISTS order_number_reset text NOT NULL DEFAULT 'daily', -- 'daily' | 'never'
+  ADD COLUMN IF NOT EXISTS ticket_number_max integer DEFAULT 99; -- null: no ticket numbers
+
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS ticket_number integer;
+
+CREATE TABLE IF NOT EXISTS order_number_counters (
+  business_id uuid NOT NULL REFERENCES business_accounts(id) ON DELETE CASCADE,
+  period text NOT NULL,
+  last_value bigint NOT NULL DEFAULT 0,
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  PRIMARY KEY (business_id, period)
+);
+
+CREATE OR REPLACE FUNCTION next_order_number(p_business_id uuid, p_period text)
+RETURNS bigint
+LANGUAGE sql
+AS $$
+  INSERT INTO order_number_counters (business_id, period, last_value)
+  VALUES (p_business_id, p_period, 1)
+  ON CONFLICT (business_id, period)
+  DO UPDATE SET last_value = order_number_counters.last_value + 1, updated_at = now()
+  RETURNING last_value;
+$$;
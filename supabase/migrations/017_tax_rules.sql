@@ -0,0 +1,38 @@
+-- Tax rules: menu items get a tax category, and each business sets rates by
+-- category and/or order type (e.g. alcohol 10%, takeout prepared food 7%).
+-- The most specific matching rule applies; lines with no matching rule use
+-- business_accounts.tax_rate. Businesses can price tax-inclusive, in which
+-- case the tax is taken out of the menu price rather than added on top.
+-- Each order item keeps the rate and tax it was charged, and each order a
+-- breakdown of its tax by rule for reporting.
+-- Apply this migration in the Supabase SQL Editor or via supabase CLI.
+
+ALTER TABLE menu_items
+  ADD COLUMN IF NOT EXISTS tax_category text NOT NULL DEFAULT 'standard'; -- 'standard' | 'prepared_food' | 'alcohol' | 'grocery' | 'exempt'
+
+ALTER TABLE business_accounts
+  ADD COLUMN IF NOT EXISTS tax_inclusive boolean NOT NULL DEFAULT false;
+
+CREATE TABLE IF NOT EXISTS tax_rules (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  business_id uuid NOT NULL REFERENCES business_accounts(id) ON DELETE CASCADE,
+  name text NOT NULL, -- shown on receipts and in reports, e.g. "Liquor tax"
+  tax_category text, -- null: every category
+  order_type text, -- 'dine_in' | 'takeout' | 'delivery'; null: every order type
+  rate numeric(6, 5) NOT NULL,
+  is_active boolean NOT NULL DEFAULT true,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS tax_rules_business_id_idx ON tax_rules (business_id);
+
+ALTER TABLE order_items
+  ADD COLUMN IF NOT EXISTS tax_category text,
+  ADD COLUMN IF NOT EXISTS tax_rule_id uuid REFERENCES tax_rules(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS tax_rate numeric(6, 5),
+  ADD COLUMN IF NOT EXISTS tax_amount numeric(10, 2);
+
+ALTER TABLE orders
+  ADD COLUMN IF NOT EXISTS tax_inclusive boolean NOT NULL DEFAULT false,
+  ADD COLUMN IF NOT EXISTS tax_breakdown jsonb; -- [{ tax_rule_id, name, rate, taxable_amount, tax_amount }]
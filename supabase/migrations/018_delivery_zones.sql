@@ -0,0 +1,32 @@
+-- Delivery zones: a business delivers within circles around its location
+-- (radius tiers, e.g. 0-3 km and 3-6 km) and/or GeoJSON polygons, each with
+-- its own fee, minimum order and estimated delivery time. Delivery orders
+-- record the zone and the coordinates they were quoted for. Businesses with
+-- no zones keep the flat business_accounts.delivery_fee.
+-- Apply this migration in the Supabase SQL Editor or via supabase CLI.
+
+CREATE TABLE IF NOT EXISTS delivery_zones (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  business_id uuid NOT NULL REFERENCES business_accounts(id) ON DELETE CASCADE,
+  name text NOT NULL,
+  zone_type text NOT NULL, -- 'radius' | 'polygon'
+  radius_km numeric(8, 3), -- radius zones, measured from the business's latitude/longitude
+  polygon jsonb, -- polygon zones: a GeoJSON Polygon or MultiPolygon geometry
+  fee numeric(10, 2) NOT NULL DEFAULT 0,
+  minimum_order numeric(10, 2) NOT NULL DEFAULT 0,
+  estimated_minutes integer,
+  display_order integer NOT NULL DEFAULT 0, -- where zones overlap, the first (then the smallest radius) wins
+  is_active boolean NOT NULL DEFAULT true,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  CONSTRAINT delivery_zones_shape_check CHECK (
+    (zone_type = 'radius' AND radius_km IS NOT NULL) OR (zone_type = 'polygon' AND polygon IS NOT NULL)
+  )
+);
+
+CREATE INDEX IF NOT EXISTS delivery_zones_business_id_idx ON delivery_zones (business_id);
+
+ALTER TABLE orders
+  ADD COLUMN IF NOT EXISTS delivery_zone_id uuid REFERENCES delivery_zones(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS delivery_latitude double precision,
+  ADD COLUMN IF NOT EXISTS delivery_longitude double precision;
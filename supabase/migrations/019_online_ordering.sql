@@ -0,0 +1,17 @@
+-- Online ordering: guests order takeout and delivery from the storefront
+-- without an account, for ASAP or a pickup slot within opening hours.
+-- Businesses opt in by switching online ordering on, and set how far ahead of the
+-- first slot orders must be placed and how far apart slots are. Each guest
+-- order stores a hash of the tracking token it was created with, so the
+-- guest can follow the order without signing in.
+-- Apply this migration in the Supabase SQL Editor or via supabase CLI.
+
+ALTER TABLE business_accounts
+  ADD COLUMN IF NOT EXISTS online_ordering_enabled boolean NOT NULL DEFAULT false,
+  ADD COLUMN IF NOT EXISTS pickup_lead_minutes integer NOT NULL DEFAULT 20,
+  ADD COLUMN IF NOT EXISTS pickup_slot_minutes integer NOT NULL DEFAULT 15;
+
+ALTER TABLE orders
+  ADD COLUMN IF NOT EXISTS guest_token_hash text; -- sha256 of the guest's tracking token
+
+CREATE INDEX IF NOT EXISTS orders_business_order_number_idx ON orders (business_id, order_number);
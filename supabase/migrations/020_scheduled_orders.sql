@@ -0,0 +1,17 @@
+-- Scheduled orders: an order placed for later (scheduled_for) is held in
+-- the 'scheduled' status, out of the order list and off the kitchen
+-- screens, until its fire time: scheduled_for minus the prep time of its
+-- items. A background job then releases it to 'confirmed'. Businesses can
+-- cap how many scheduled orders and items fall in each pickup slot
+-- (pickup_slot_minutes); null means no limit.
+-- Apply this migration in the Supabase SQL Editor or via supabase CLI.
+
+ALTER TABLE orders
+  ADD COLUMN IF NOT EXISTS fire_at timestamptz; -- when a scheduled order is released to the kitchen
+
+CREATE INDEX IF NOT EXISTS orders_scheduled_fire_at_idx ON orders (fire_at) WHERE status = 'scheduled';
+CREATE INDEX IF NOT EXISTS orders_business_scheduled_for_idx ON orders (business_id, scheduled_for);
+
+ALTER TABLE business_accounts
+  ADD COLUMN IF NOT EXISTS pickup_capacity_orders integer, -- max scheduled orders per pickup slot
+  ADD COLUMN IF NOT EXISTS pickup_capacity_items integer; -- max scheduled items (total quantity) per pickup slot
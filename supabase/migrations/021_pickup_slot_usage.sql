@@ -0,0 +1,94 @@
+-- Pickup slot capacity, claimed atomically: each order scheduled into a
+-- pickup slot takes its place with claim_pickup_slot, which only counts
+-- the order if the slot still has room, so two guests can't both get the
+-- last place. Orders staff schedule from the POS claim with no limit: they
+-- always fit but still use up the slot. The order records the slot it
+-- holds (pickup_slot, pickup_slot_items) and gives the place back when
+-- it's cancelled or refunded.
+-- Apply this migration in the Supabase SQL Editor or via supabase CLI.
+
+CREATE TABLE IF NOT EXISTS pickup_slot_usage (
+  business_id uuid NOT NULL REFERENCES business_accounts(id) ON DELETE CASCADE,
+  slot_start timestamptz NOT NULL,
+  orders integer NOT NULL DEFAULT 0,
+  items integer NOT NULL DEFAULT 0,
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  PRIMARY KEY (business_id, slot_start)
+);
+
+ALTER TABLE orders
+  ADD COLUMN IF NOT EXISTS pickup_slot timestamptz, -- pickup slot whose capacity the order holds
+  ADD COLUMN IF NOT EXISTS pickup_slot_items integer; -- items (total quantity) it holds there
+
+-- Guest orders already waiting for a slot keep their place
+UPDATE orders
+SET pickup_slot = scheduled_for,
+    pickup_slot_items = COALESCE((SELECT SUM(quantity) FROM order_items WHERE order_items.order_id = orders.id), 0)
+WHERE guest_token_hash IS NOT NULL
+  AND scheduled_for > now()
+  AND status NOT IN ('cancelled', 'refunded')
+  AND pickup_slot IS NULL;
+
+INSERT INTO pickup_slot_usage (business_id, slot_start, orders, items)
+SELECT business_id, pickup_slot, COUNT(*), SUM(pickup_slot_items)
+FROM orders
+WHERE pickup_slot > now()
+  AND status NOT IN ('cancelled', 'refunded')
+GROUP BY business_id, pickup_slot
+ON CONFLICT (business_id, slot_start) DO NOTHING;
+
+-- Take a place in a pickup slot for an order of p_items items unless that
+-- would go over p_max_orders or p_max_items (null: no limit)
+CREATE OR REPLACE FUNCTION claim_pickup_slot(
+  p_business_id uuid,
+  p_slot_start timestamptz,
+  p_items integer,
+  p_max_orders integer,
+  p_max_items integer
+)
+RETURNS boolean
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  INSERT INTO pickup_slot_usage (business_id, slot_start)
+  VALUES (p_business_id, p_slot_start)
+  ON CONFLICT (business_id, slot_start) DO NOTHING;
+
+  UPDATE pickup_slot_usage
+  SET orders = orders + 1, items = items + p_items, updated_at = now()
+  WHERE business_id = p_business_id
+    AND slot_start = p_slot_start
+    AND (p_max_orders IS NULL OR orders + 1 <= p_max_orders)
+    AND (p_max_items IS NULL OR items + p_items <= p_max_items);
+  RETURN FOUND;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION release_pickup_slot(p_business_id uuid, p_slot_start timestamptz, p_items integer)
+RETURNS void
+LANGUAGE sql
+AS $$
+  UPDATE pickup_slot_usage
+  SET orders = GREATEST(orders - 1, 0), items = GREATEST(items - p_items, 0), updated_at = now()
+  WHERE business_id = p_business_id AND slot_start = p_slot_start;
+$$;
+
+CREATE OR REPLACE FUNCTION release_cancelled_order_pickup_slot()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.pickup_slot IS NOT NULL
+    AND NEW.status IN ('cancelled', 'refunded')
+    AND OLD.status NOT IN ('cancelled', 'refunded') THEN
+    PERFORM release_pickup_slot(NEW.business_id, NEW.pickup_slot, COALESCE(NEW.pickup_slot_items, 0));
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS orders_release_pickup_slot ON orders;
+CREATE TRIGGER orders_release_pickup_slot
+  AFTER UPDATE OF status ON orders
+  FOR EACH ROW
+  EXECUTE FUNCTION release_cancelled_order_pickup_slot();
@@ -0,0 +1,37 @@
+-- Reversing the points earned on a refunded order lowers lifetime earned
+-- points by the points actually taken back, not the full amount earned:
+-- points already spent stay earned, so the member's tier isn't lowered by
+-- more than the refund removed.
+-- Apply this migration in the Supabase SQL Editor or via supabase CLI.
+
+CREATE OR REPLACE FUNCTION reverse_loyalty_points(
+  p_order_id uuid,
+  p_points integer,
+  p_description text
+)
+RETURNS loyalty_points
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_row loyalty_points;
+  v_deducted integer;
+BEGIN
+  SELECT lp.* INTO v_row
+  FROM loyalty_points lp
+  JOIN loyalty_transactions lt ON lt.loyalty_points_id = lp.id
+  WHERE lt.order_id = p_order_id AND lt.transaction_type = 'earned'
+  LIMIT 1
+  FOR UPDATE OF lp;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'NOT_FOUND';
+  END IF;
+
+  -- Points already spent can't be taken back
+  v_deducted := GREATEST(LEAST(p_points, COALESCE(v_row.points_balance, 0)), 0);
+
+  RETURN apply_loyalty_transaction(
+    v_row, 'adjusted', -v_deducted, p_order_id, p_description, NULL, -v_deducted, 0
+  );
+END;
+$$;
@@ -0,0 +1,15 @@
+-- Reservations awaiting a deposit or card hold their table only until
+-- payment_expires_at. A background job cancels the ones still unpaid by
+-- then, so an abandoned checkout doesn't block the table.
+-- Apply this migration in the Supabase SQL Editor or via supabase CLI.
+
+ALTER TABLE reservations
+  ADD COLUMN IF NOT EXISTS payment_expires_at timestamptz; -- when an unpaid pending_payment reservation is released
+
+-- Reservations already waiting get the same window from when they were made
+UPDATE reservations
+SET payment_expires_at = created_at + interval '15 minutes'
+WHERE status = 'pending_payment' AND payment_expires_at IS NULL;
+
+CREATE INDEX IF NOT EXISTS reservations_payment_expires_at_idx
+  ON reservations (payment_expires_at) WHERE status = 'pending_payment';